@@ -11,6 +11,8 @@ const nextConfig: NextConfig = {
   },
   // Minimize bundle size
   output: 'standalone',
+  // PDF.js loads its worker with a runtime import, which breaks if webpack bundles it
+  serverExternalPackages: ['pdfjs-dist'],
 };
 
 export default nextConfig;
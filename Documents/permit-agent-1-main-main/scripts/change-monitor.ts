@@ -0,0 +1,36 @@
+#!/usr/bin/env tsx
+
+/**
+ * Standalone jurisdiction change monitor.
+ *
+ * Usage: DATABASE_URL=... npx tsx scripts/change-monitor.ts
+ *
+ * Run a single copy. MONITOR_INTERVAL_HOURS sets how often each jurisdiction's pages are
+ * re-checked when the registry doesn't set an interval for it (default: weekly).
+ */
+
+import 'dotenv/config';
+import { DEFAULT_MONITOR_INTERVAL_HOURS, runChangeMonitor } from '../src/lib/monitoring/scheduler';
+import { closeDatabasePool } from '../src/lib/database/db';
+
+const controller = new AbortController();
+
+const shutdown = (signal: string) => {
+  console.log(`Received ${signal}, finishing current check before exit...`);
+  controller.abort();
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+runChangeMonitor({
+  defaultIntervalHours: Number(process.env.MONITOR_INTERVAL_HOURS) || DEFAULT_MONITOR_INTERVAL_HOURS,
+  pollInterval: Number(process.env.MONITOR_POLL_MS) || 5 * 60 * 1000,
+  signal: controller.signal,
+})
+  .then(() => closeDatabasePool())
+  .catch(async error => {
+    console.error('Change monitor crashed:', error);
+    await closeDatabasePool();
+    process.exit(1);
+  });
@@ -0,0 +1,92 @@
+#!/usr/bin/env tsx
+
+/**
+ * Score the extractors against the hand-labelled golden dataset and check them against the baseline.
+ *
+ * Usage:
+ *   npm run evaluate -- [--extractor <name>...] [--json <file>] [--tolerance <0-1>]
+ *   npm run evaluate -- --update-baseline
+ *
+ * Cases live under tests/golden (GOLDEN_DIR overrides it) and the baseline in its baseline.json.
+ * Exits non-zero when a metric falls more than the tolerance (default 0.02) below the baseline.
+ * The AI extractors only run when OPENAI_API_KEY is set; once the baseline has metrics for them,
+ * a run without the key fails rather than passing without checking them.
+ */
+
+import 'dotenv/config';
+import path from 'path';
+
+// Nothing an evaluation extracts should reach a shared cache
+process.env.CACHE_BACKEND = 'memory';
+
+function option(args: string[], name: string): string[] {
+  return args.flatMap((arg, i) => arg === name && args[i + 1] ? [args[i + 1]] : []);
+}
+
+async function main(): Promise<number> {
+  const { loadGoldenDataset, DEFAULT_GOLDEN_DIRECTORY } = await import('../src/lib/evaluation/golden');
+  const { evaluateExtractors, findRegressions, formatEvaluationReport, loadBaseline, saveBaseline, toBaseline } =
+    await import('../src/lib/evaluation/evaluator');
+  const { EVALUATED_EXTRACTORS } = await import('../src/lib/evaluation/extractors');
+
+  const args = process.argv.slice(2);
+  const directory = process.env.GOLDEN_DIR || DEFAULT_GOLDEN_DIRECTORY;
+  const baselineFile = path.join(directory, 'baseline.json');
+  const extractors = option(args, '--extractor');
+  const [jsonFile] = option(args, '--json');
+  const tolerance = Number(option(args, '--tolerance')[0] ?? 0.02);
+
+  const unknown = extractors.filter(name => !EVALUATED_EXTRACTORS.some(extractor => extractor.name === name));
+  if (unknown.length > 0 || !Number.isFinite(tolerance)) {
+    console.error(unknown.length > 0
+      ? `Unknown extractor ${unknown.join(', ')}; expected one of ${EVALUATED_EXTRACTORS.map(e => e.name).join(', ')}`
+      : 'Tolerance must be a number, e.g. 0.02');
+    return 1;
+  }
+
+  const documents = await loadGoldenDataset(directory);
+  if (documents.length === 0) {
+    console.error(`No golden cases found under ${directory}`);
+    return 1;
+  }
+
+  const report = await evaluateExtractors(documents, { extractors: extractors.length > 0 ? extractors : undefined });
+  console.log(formatEvaluationReport(report));
+
+  if (jsonFile) {
+    const { promises: fs } = await import('fs');
+    await fs.writeFile(jsonFile, JSON.stringify(report, null, 2) + '\n');
+  }
+
+  const baseline = await loadBaseline(baselineFile);
+
+  if (args.includes('--update-baseline')) {
+    await saveBaseline(baselineFile, toBaseline(report, baseline));
+    console.log(`\nBaseline written to ${baselineFile}`);
+    return 0;
+  }
+
+  if (!baseline) {
+    console.log('\nNo baseline yet; run with --update-baseline to record one');
+    return 0;
+  }
+
+  const regressions = findRegressions(report, baseline, tolerance);
+  if (regressions.length === 0) {
+    console.log(`\nNo regressions against the baseline from ${baseline.createdAt.toISOString()}`);
+    return 0;
+  }
+
+  console.log(`\n${regressions.length} regression(s) against the baseline:`);
+  for (const regression of regressions) {
+    console.log(`  ${regression.extractor}: ${regression.message}`);
+  }
+  return 1;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Evaluation failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,64 @@
+#!/usr/bin/env tsx
+
+/**
+ * Record government site responses as fixtures, and replay them to check the extractors offline.
+ *
+ * Usage:
+ *   npx tsx scripts/http-fixtures.ts record <name> <url> [url...]
+ *   npx tsx scripts/http-fixtures.ts run [name...] [--update]
+ *
+ * Cases live under tests/fixtures/http (FIXTURE_DIR overrides it). `run` exits non-zero when an
+ * extraction differs from a case's expected.json; `--update` accepts the new extractions instead.
+ */
+
+import 'dotenv/config';
+
+// Fixture runs cover the rule-based extractors only (OpenAI responses aren't recorded), and
+// fixture data must never reach a shared cache, so both are switched off before the app loads
+delete process.env.OPENAI_API_KEY;
+process.env.CACHE_BACKEND = 'memory';
+
+async function main(): Promise<number> {
+  const { DEFAULT_FIXTURE_DIRECTORY, formatFixtureReport, recordFixtureCase, runFixtureCorpus } =
+    await import('../src/lib/scraping/fixture-corpus');
+
+  const [command, ...args] = process.argv.slice(2);
+  const directory = process.env.FIXTURE_DIR || DEFAULT_FIXTURE_DIRECTORY;
+
+  if (command === 'record') {
+    const [name, ...urls] = args;
+    if (!name || urls.length === 0) {
+      console.error('Usage: http-fixtures.ts record <name> <url> [url...]');
+      return 1;
+    }
+    await recordFixtureCase(name, urls, directory);
+    console.log(`Review ${name}/expected.json and correct anything the extractors got wrong`);
+    return 0;
+  }
+
+  if (command === 'run') {
+    const update = args.includes('--update');
+    const cases = args.filter(arg => arg !== '--update');
+    const report = await runFixtureCorpus(directory, {
+      update,
+      cases: cases.length > 0 ? cases : undefined,
+    });
+
+    console.log(formatFixtureReport(report));
+    if (update && report.failed > 0) {
+      console.log('Expectations updated to the current extractions');
+      return 0;
+    }
+    return report.failed > 0 ? 1 : 0;
+  }
+
+  console.error('Usage: http-fixtures.ts record <name> <url> [url...] | run [name...] [--update]');
+  return 1;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Fixture run failed:', error);
+    process.exit(1);
+  });
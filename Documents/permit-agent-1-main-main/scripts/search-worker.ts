@@ -0,0 +1,34 @@
+#!/usr/bin/env tsx
+
+/**
+ * Standalone search job worker.
+ *
+ * Usage: DATABASE_URL=... npx tsx scripts/search-worker.ts
+ *
+ * Run as many copies as needed; jobs are leased with SKIP LOCKED so each runs once.
+ */
+
+import 'dotenv/config';
+import { runSearchWorker } from '../src/lib/jobs/worker';
+import { closeDatabasePool } from '../src/lib/database/db';
+
+const controller = new AbortController();
+
+const shutdown = (signal: string) => {
+  console.log(`Received ${signal}, finishing current job before exit...`);
+  controller.abort();
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+runSearchWorker({
+  pollInterval: Number(process.env.SEARCH_WORKER_POLL_MS) || 2000,
+  signal: controller.signal,
+})
+  .then(() => closeDatabasePool())
+  .catch(async error => {
+    console.error('Search worker crashed:', error);
+    await closeDatabasePool();
+    process.exit(1);
+  });
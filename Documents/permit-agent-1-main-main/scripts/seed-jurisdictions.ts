@@ -0,0 +1,40 @@
+#!/usr/bin/env tsx
+
+/**
+ * Load the built-in government sites into the jurisdiction registry.
+ *
+ * Usage: DATABASE_URL=... npx tsx scripts/seed-jurisdictions.ts
+ *
+ * Safe to re-run: rows are matched on slug, and permit types added through the admin API are kept.
+ */
+
+import 'dotenv/config';
+import { governmentSites } from '../src/lib/data/government-sites';
+import { importJurisdictions, jurisdictionInputSchema } from '../src/lib/database/jurisdictions';
+import { closeDatabasePool } from '../src/lib/database/db';
+
+const inputs = governmentSites.map(site => jurisdictionInputSchema.parse({
+  name: site.city,
+  type: 'city',
+  city: site.city,
+  state: site.state,
+  aliases: site.aliases ?? [],
+  website: site.website,
+  permitUrl: site.permitUrl,
+  formsUrl: site.formsUrl,
+  phone: site.contactInfo.phone,
+  email: site.contactInfo.email,
+  officeAddress: site.contactInfo.address,
+  notes: site.notes,
+}));
+
+importJurisdictions(inputs)
+  .then(async ({ created, updated }) => {
+    console.log(`Seeded jurisdiction registry: ${created} created, ${updated} updated`);
+    await closeDatabasePool();
+  })
+  .catch(async error => {
+    console.error('Jurisdiction seed failed:', error);
+    await closeDatabasePool();
+    process.exit(1);
+  });
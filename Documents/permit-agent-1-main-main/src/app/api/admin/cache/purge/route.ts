@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth/session';
+import { getJurisdiction } from '@/lib/database/jurisdictions';
+import { jurisdictionDomains } from '@/lib/database/scraping-results';
+import { CachePurgeFilter, cacheStore } from '@/lib/network';
+import { ApiResponse } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 30;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const purgeRequestSchema = z.object({
+  urlPrefix: z.string().url().optional(),
+  jurisdictionId: z.string().uuid().optional(),
+}).refine(body => !!body.urlPrefix !== !!body.jurisdictionId, {
+  message: 'Give either urlPrefix or jurisdictionId',
+});
+
+/**
+ * Drop cached scrapes, AI parses and search data for URLs under a prefix, or for a registry
+ * jurisdiction (entries tagged with it, or from its website, permit or forms domains). With the
+ * memory backend only this process's cache is purged.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requireAdmin('purge caches');
+    if (denied) {
+      return denied;
+    }
+
+    const body = purgeRequestSchema.parse(await request.json());
+
+    let filter: CachePurgeFilter = { urlPrefix: body.urlPrefix };
+    if (body.jurisdictionId) {
+      const jurisdiction = await getJurisdiction(body.jurisdictionId);
+      if (!jurisdiction) {
+        return NextResponse.json<ApiResponse<null>>({
+          success: false,
+          error: 'Jurisdiction not found',
+          timestamp: new Date(),
+        }, { status: 404 });
+      }
+      filter = { jurisdictionId: jurisdiction.id, domains: jurisdictionDomains(jurisdiction) };
+    }
+
+    const purged = await cacheStore.purge(filter);
+    console.log(`Purged ${purged} cache entries for ${body.urlPrefix || `jurisdiction ${body.jurisdictionId}`}`);
+
+    return NextResponse.json<ApiResponse<{ purged: number }>>({
+      success: true,
+      data: { purged },
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Cache purge API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to purge cache',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/session';
+import { CacheBackend, cacheStore, CacheStats, getCacheStats } from '@/lib/network';
+import { ApiResponse } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface CacheOverview {
+  backend: CacheBackend;
+  caches: CacheStats[];
+}
+
+/**
+ * The configured cache backend and each cache's hits and misses. Counts are kept per process.
+ */
+export async function GET() {
+  try {
+    const denied = await requireAdmin('view caches');
+    if (denied) {
+      return denied;
+    }
+
+    return NextResponse.json<ApiResponse<CacheOverview>>({
+      success: true,
+      data: { backend: cacheStore.backend, caches: getCacheStats() },
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Cache stats API error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load cache stats',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
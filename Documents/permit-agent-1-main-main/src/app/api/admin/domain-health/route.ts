@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/session';
+import { DomainHealth, webScrapingCircuitBreakers } from '@/lib/network';
+import { ApiResponse } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Circuit breaker state for every government domain this process has scraped, open breakers
+ * first. Breakers are kept in memory per process.
+ */
+export async function GET() {
+  try {
+    const denied = await requireAdmin('view domain health');
+    if (denied) {
+      return denied;
+    }
+
+    return NextResponse.json<ApiResponse<DomainHealth[]>>({
+      success: true,
+      data: webScrapingCircuitBreakers.getHealth(),
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Domain health API error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load domain health',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/session';
+import { governmentSiteScheduler, HostQueueStats } from '@/lib/network';
+import { ApiResponse } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Request queue depth per government host, busiest first. The queues live in memory, so this
+ * shows only the process that served the request.
+ */
+export async function GET() {
+  try {
+    const denied = await requireAdmin('view host queues');
+    if (denied) {
+      return denied;
+    }
+
+    return NextResponse.json<ApiResponse<HostQueueStats[]>>({
+      success: true,
+      data: governmentSiteScheduler.getStats(),
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Host queues API error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load host queues',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
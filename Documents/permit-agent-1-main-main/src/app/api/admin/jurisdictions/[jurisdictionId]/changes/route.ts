@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth/session';
+import { getJurisdiction } from '@/lib/database/jurisdictions';
+import { listJurisdictionChanges } from '@/lib/database/jurisdiction-changes';
+import { checkJurisdictionForChanges } from '@/lib/monitoring/scheduler';
+import { ApiResponse, JurisdictionChange, RegistryJurisdiction } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 60; // A check scrapes the permit and forms pages
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+async function findJurisdiction(jurisdictionId: string): Promise<RegistryJurisdiction | null> {
+  return z.string().uuid().safeParse(jurisdictionId).success ? getJurisdiction(jurisdictionId) : null;
+}
+
+function notFound() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Jurisdiction not found',
+    timestamp: new Date(),
+  }, { status: 404 });
+}
+
+/**
+ * A jurisdiction's change log, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jurisdictionId: string }> }
+) {
+  try {
+    const denied = await requireAdmin('view jurisdiction changes');
+    if (denied) return denied;
+
+    const jurisdiction = await findJurisdiction((await params).jurisdictionId);
+    if (!jurisdiction) return notFound();
+
+    const { limit, offset } = listQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+    const result = await listJurisdictionChanges(jurisdiction.id, { limit, offset });
+
+    return NextResponse.json<ApiResponse<{ changes: JurisdictionChange[]; total: number }>>({
+      success: true,
+      data: result,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Jurisdiction changes API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load jurisdiction changes',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Check the jurisdiction's pages for changes now instead of waiting for the monitor
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jurisdictionId: string }> }
+) {
+  try {
+    const denied = await requireAdmin('view jurisdiction changes');
+    if (denied) return denied;
+
+    const jurisdiction = await findJurisdiction((await params).jurisdictionId);
+    if (!jurisdiction) return notFound();
+
+    if (!jurisdiction.permitUrl && !jurisdiction.formsUrl) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Jurisdiction has no permit or forms page to check',
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    const changes = await checkJurisdictionForChanges(jurisdiction);
+
+    return NextResponse.json<ApiResponse<JurisdictionChange[]>>({
+      success: true,
+      data: changes,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Jurisdiction check API error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to check jurisdiction for changes',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
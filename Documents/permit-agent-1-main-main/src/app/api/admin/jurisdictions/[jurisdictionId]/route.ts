@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth/session';
+import {
+  deleteJurisdiction,
+  getJurisdiction,
+  jurisdictionInputSchema,
+  updateJurisdiction,
+} from '@/lib/database/jurisdictions';
+import { ApiResponse, RegistryJurisdiction } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const jurisdictionIdSchema = z.string().uuid();
+
+function notFound() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Jurisdiction not found',
+    timestamp: new Date(),
+  }, { status: 404 });
+}
+
+function errorResponse(error: unknown, action: string) {
+  console.error(`Jurisdiction ${action} error:`, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+      timestamp: new Date(),
+    }, { status: 400 });
+  }
+
+  if ((error as { code?: string }).code === '23505') {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'A jurisdiction with this slug already exists',
+      timestamp: new Date(),
+    }, { status: 409 });
+  }
+
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: `Failed to ${action} jurisdiction`,
+    timestamp: new Date(),
+  }, { status: 500 });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jurisdictionId: string }> }
+) {
+  try {
+    const forbidden = await requireAdmin('manage jurisdictions');
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const { jurisdictionId } = await params;
+    const jurisdiction = jurisdictionIdSchema.safeParse(jurisdictionId).success
+      ? await getJurisdiction(jurisdictionId)
+      : null;
+    if (!jurisdiction) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<RegistryJurisdiction>>({
+      success: true,
+      data: jurisdiction,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'load');
+  }
+}
+
+/**
+ * Replace a jurisdiction's details. Permit types are replaced only when the body includes them.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ jurisdictionId: string }> }
+) {
+  try {
+    const forbidden = await requireAdmin('manage jurisdictions');
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const { jurisdictionId } = await params;
+    const input = jurisdictionInputSchema.parse(await request.json());
+    const jurisdiction = jurisdictionIdSchema.safeParse(jurisdictionId).success
+      ? await updateJurisdiction(jurisdictionId, input)
+      : null;
+    if (!jurisdiction) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<RegistryJurisdiction>>({
+      success: true,
+      data: jurisdiction,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'update');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jurisdictionId: string }> }
+) {
+  try {
+    const forbidden = await requireAdmin('manage jurisdictions');
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const { jurisdictionId } = await params;
+    if (!jurisdictionIdSchema.safeParse(jurisdictionId).success || !(await deleteJurisdiction(jurisdictionId))) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: boolean }>>({
+      success: true,
+      data: { deleted: true },
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'delete');
+  }
+}
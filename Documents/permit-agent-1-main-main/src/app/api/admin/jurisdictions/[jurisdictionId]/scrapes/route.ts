@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth/session';
+import { getJurisdiction } from '@/lib/database/jurisdictions';
+import { getJurisdictionScrapeStats, listJurisdictionScrapes } from '@/lib/database/scraping-results';
+import { ApiResponse, ScrapeRecord, ScrapeStats } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * A jurisdiction's scrape timeline, newest first, with its overall success rate
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jurisdictionId: string }> }
+) {
+  try {
+    const denied = await requireAdmin('view scrape history');
+    if (denied) {
+      return denied;
+    }
+
+    const { jurisdictionId } = await params;
+    const jurisdiction = z.string().uuid().safeParse(jurisdictionId).success
+      ? await getJurisdiction(jurisdictionId)
+      : null;
+    if (!jurisdiction) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Jurisdiction not found',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    const { limit, offset } = listQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+    const [stats, { scrapes, total }] = await Promise.all([
+      getJurisdictionScrapeStats(jurisdiction),
+      listJurisdictionScrapes(jurisdiction, { limit, offset }),
+    ]);
+
+    return NextResponse.json<ApiResponse<{ stats: ScrapeStats; scrapes: ScrapeRecord[]; total: number }>>({
+      success: true,
+      data: { stats, scrapes, total },
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Scrape history API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load scrape history',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/session';
+import { importJurisdictions, JurisdictionInput, jurisdictionInputSchema, jurisdictionSlug } from '@/lib/database/jurisdictions';
+import { parseJurisdictionCsv } from '@/lib/jurisdictions/import';
+import { ApiResponse } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 60;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_IMPORT_ROWS = 2000;
+
+interface ImportRowError {
+  row: number; // 1-based, not counting a CSV header
+  error: string;
+}
+
+function badRequest(error: string, rowErrors?: ImportRowError[]) {
+  return NextResponse.json<ApiResponse<{ errors: ImportRowError[] } | null>>({
+    success: false,
+    data: rowErrors ? { errors: rowErrors } : null,
+    error,
+    timestamp: new Date(),
+  }, { status: 400 });
+}
+
+/**
+ * Bulk create or update registry jurisdictions, matched on slug. Send `text/csv` (one row per
+ * jurisdiction, aliases separated by semicolons) or JSON: an array, or `{ jurisdictions: [...] }`,
+ * which can also carry permit types. Every row is validated first; nothing is imported if any fail.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requireAdmin('manage jurisdictions');
+    if (denied) {
+      return denied;
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+    let records: unknown[];
+    if (contentType.includes('text/csv')) {
+      try {
+        records = parseJurisdictionCsv(await request.text());
+      } catch (error) {
+        return badRequest(error instanceof Error ? error.message : 'Invalid CSV');
+      }
+    } else {
+      const body = await request.json();
+      records = Array.isArray(body) ? body : body?.jurisdictions;
+      if (!Array.isArray(records)) {
+        return badRequest('Expected an array of jurisdictions or { "jurisdictions": [...] }');
+      }
+    }
+
+    if (records.length === 0) {
+      return badRequest('No jurisdictions to import');
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      return badRequest(`Imports are limited to ${MAX_IMPORT_ROWS} jurisdictions`);
+    }
+
+    const inputs: JurisdictionInput[] = [];
+    const errors: ImportRowError[] = [];
+    const slugs = new Set<string>();
+    records.forEach((record, index) => {
+      const parsed = jurisdictionInputSchema.safeParse(record);
+      if (!parsed.success) {
+        errors.push({ row: index + 1, error: parsed.error.errors.map(e => `${e.path.join('.') || 'row'}: ${e.message}`).join(', ') });
+        return;
+      }
+
+      const slug = jurisdictionSlug(parsed.data);
+      if (slugs.has(slug)) {
+        errors.push({ row: index + 1, error: `Duplicate slug ${slug}` });
+        return;
+      }
+      slugs.add(slug);
+      inputs.push(parsed.data);
+    });
+
+    if (errors.length > 0) {
+      return badRequest(`${errors.length} of ${records.length} rows are invalid`, errors);
+    }
+
+    const result = await importJurisdictions(inputs);
+
+    return NextResponse.json<ApiResponse<{ created: number; updated: number }>>({
+      success: true,
+      data: result,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Jurisdiction import error:', error);
+
+    if (error instanceof SyntaxError) {
+      return badRequest('Invalid request body');
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to import jurisdictions',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
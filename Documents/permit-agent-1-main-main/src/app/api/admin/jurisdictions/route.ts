@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth/session';
+import { createJurisdiction, jurisdictionInputSchema, listJurisdictions } from '@/lib/database/jurisdictions';
+import { ApiResponse, RegistryJurisdiction } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const listQuerySchema = z.object({
+  state: z.string().length(2).optional(),
+  q: z.string().max(100).optional(),
+  includeInactive: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function errorResponse(error: unknown, action: string) {
+  console.error(`Jurisdiction registry ${action} error:`, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+      timestamp: new Date(),
+    }, { status: 400 });
+  }
+
+  if ((error as { code?: string }).code === '23505') {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'A jurisdiction with this slug already exists',
+      timestamp: new Date(),
+    }, { status: 409 });
+  }
+
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: `Failed to ${action} jurisdictions`,
+    timestamp: new Date(),
+  }, { status: 500 });
+}
+
+/**
+ * List registry jurisdictions, filtered by `state` and a name or alias `q`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const forbidden = await requireAdmin('manage jurisdictions');
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const query = listQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+    const result = await listJurisdictions({
+      state: query.state,
+      query: query.q,
+      includeInactive: query.includeInactive === 'true',
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    return NextResponse.json<ApiResponse<{ jurisdictions: RegistryJurisdiction[]; total: number }>>({
+      success: true,
+      data: result,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'list');
+  }
+}
+
+/**
+ * Add a jurisdiction, with its permit types, fees and forms
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const forbidden = await requireAdmin('manage jurisdictions');
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const input = jurisdictionInputSchema.parse(await request.json());
+    const jurisdiction = await createJurisdiction(input);
+
+    return NextResponse.json<ApiResponse<RegistryJurisdiction>>({
+      success: true,
+      data: jurisdiction,
+      timestamp: new Date(),
+    }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'create');
+  }
+}
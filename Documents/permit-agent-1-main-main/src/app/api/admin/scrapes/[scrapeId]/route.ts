@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth/session';
+import { getScrapingResult } from '@/lib/database/scraping-results';
+import { ApiResponse, ScrapeRecordDetail } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * One recorded scrape with the data extracted on that run
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ scrapeId: string }> }
+) {
+  try {
+    const denied = await requireAdmin('view scrape history');
+    if (denied) {
+      return denied;
+    }
+
+    const { scrapeId } = await params;
+    const scrape = z.string().uuid().safeParse(scrapeId).success ? await getScrapingResult(scrapeId) : null;
+    if (!scrape) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Scrape not found',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<ScrapeRecordDetail>>({
+      success: true,
+      data: scrape,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Scrape detail API error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load scrape',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
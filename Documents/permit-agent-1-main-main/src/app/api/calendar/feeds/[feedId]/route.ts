@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { revokeCalendarFeed } from '@/lib/database/calendar-feeds';
+import { ApiResponse } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Revoke a calendar feed. Calendars subscribed to it stop updating.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ feedId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Sign in to manage calendar feeds',
+        timestamp: new Date(),
+      }, { status: 401 });
+    }
+
+    const { feedId } = await params;
+    if (!z.string().uuid().safeParse(feedId).success || !(await revokeCalendarFeed(userId, feedId))) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Calendar feed not found',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<{ revoked: boolean }>>({
+      success: true,
+      data: { revoked: true },
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Revoke calendar feed API error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to revoke calendar feed',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
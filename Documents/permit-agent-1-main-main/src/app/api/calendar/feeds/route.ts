@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { createCalendarFeed, listCalendarFeeds } from '@/lib/database/calendar-feeds';
+import { ApiResponse, CalendarFeed } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const createFeedSchema = z.object({
+  projectId: z.string().uuid().optional(),
+});
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to manage calendar feeds',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+/**
+ * List the signed-in user's calendar feeds
+ */
+export async function GET() {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const feeds = await listCalendarFeeds(userId);
+
+    return NextResponse.json<ApiResponse<CalendarFeed[]>>({
+      success: true,
+      data: feeds,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Calendar feeds API error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load calendar feeds',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Create a feed for every project, or for one project with `{ projectId }`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { projectId } = createFeedSchema.parse(await request.json().catch(() => ({})));
+    const feed = await createCalendarFeed(userId, projectId);
+    if (!feed) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Project not found',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<CalendarFeed>>({
+      success: true,
+      data: feed,
+      timestamp: new Date(),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create calendar feed API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to create calendar feed',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
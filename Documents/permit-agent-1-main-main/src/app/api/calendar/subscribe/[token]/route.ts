@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCalendarFeedByToken } from '@/lib/database/calendar-feeds';
+import { getProject, listProjects } from '@/lib/database/projects';
+import { listInspections } from '@/lib/database/inspections';
+import { buildICalendar } from '@/lib/calendar/ics';
+import { buildProjectCalendarEvents } from '@/lib/projects/calendar';
+import { ApiResponse } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function notFound() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Calendar feed not found',
+    timestamp: new Date(),
+  }, { status: 404 });
+}
+
+/**
+ * The iCalendar feed behind a subscription link. Calendar apps can't sign in, so the
+ * token is the only credential; revoked tokens get a 404.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const feed = await getCalendarFeedByToken(token.replace(/\.ics$/i, ''));
+    if (!feed) {
+      return notFound();
+    }
+
+    let projects;
+    let calendarName = 'PermitAgent permit deadlines';
+    if (feed.projectId) {
+      const project = await getProject(feed.userId, feed.projectId);
+      if (!project) {
+        return notFound();
+      }
+      projects = [project];
+      calendarName = `PermitAgent: ${project.name}`;
+    } else {
+      projects = await listProjects(feed.userId);
+    }
+
+    const inspections = await listInspections(feed.userId, feed.projectId);
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const calendar = buildICalendar(calendarName, buildProjectCalendarEvents(projects, inspections, appUrl));
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="permits.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to build calendar',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
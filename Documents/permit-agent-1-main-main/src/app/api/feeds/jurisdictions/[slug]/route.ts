@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJurisdictionBySlug } from '@/lib/database/jurisdictions';
+import { listJurisdictionChanges } from '@/lib/database/jurisdiction-changes';
+import { FEED_CONTENT_TYPES, buildFeed, parseFeedName } from '@/lib/feeds/syndication';
+import { buildChangeFeedEntries } from '@/lib/monitoring/feed';
+import { ApiResponse } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FEED_ENTRY_LIMIT = 50;
+
+/**
+ * A jurisdiction's permit information changes as Atom (`[slug].atom`) or JSON Feed (`[slug].json`).
+ * Public, so feed readers can subscribe without signing in.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { key: slug, format } = parseFeedName((await params).slug);
+    const jurisdiction = await getJurisdictionBySlug(slug);
+    if (!jurisdiction || !jurisdiction.isActive) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Jurisdiction not found',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    const { changes } = await listJurisdictionChanges(jurisdiction.id, { limit: FEED_ENTRY_LIMIT });
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const feedPath = `/api/feeds/jurisdictions/${jurisdiction.slug}`;
+
+    const body = buildFeed({
+      id: `${appUrl}${feedPath}`,
+      title: `${jurisdiction.name}, ${jurisdiction.state} permit changes`,
+      description: `Fee changes, new and retired forms, and contact updates found on ${jurisdiction.name}'s permit pages`,
+      homeUrl: jurisdiction.website,
+      feedUrl: `${appUrl}${feedPath}.${format}`,
+      entries: buildChangeFeedEntries(changes, jurisdiction.name),
+    }, format);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': FEED_CONTENT_TYPES[format],
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+
+  } catch (error) {
+    console.error('Jurisdiction feed error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to build feed',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
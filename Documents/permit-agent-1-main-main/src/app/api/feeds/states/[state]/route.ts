@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listStateJurisdictionChanges } from '@/lib/database/jurisdiction-changes';
+import { FEED_CONTENT_TYPES, buildFeed, parseFeedName } from '@/lib/feeds/syndication';
+import { buildChangeFeedEntries } from '@/lib/monitoring/feed';
+import { ApiResponse } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FEED_ENTRY_LIMIT = 100;
+
+/**
+ * Permit information changes across every jurisdiction in a state, as Atom (`CA.atom`) or
+ * JSON Feed (`CA.json`). Public, like the per-jurisdiction feeds.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ state: string }> }
+) {
+  try {
+    const { key, format } = parseFeedName((await params).state);
+    const state = key.toUpperCase();
+    if (!/^[A-Z]{2}$/.test(state)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'State must be a 2-letter code',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    const changes = await listStateJurisdictionChanges(state, FEED_ENTRY_LIMIT);
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const feedPath = `/api/feeds/states/${state}`;
+
+    const body = buildFeed({
+      id: `${appUrl}${feedPath}`,
+      title: `${state} permit changes`,
+      description: `Fee changes, new and retired forms, and contact updates across ${state} jurisdictions`,
+      homeUrl: appUrl,
+      feedUrl: `${appUrl}${feedPath}.${format}`,
+      entries: buildChangeFeedEntries(changes, state),
+    }, format);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': FEED_CONTENT_TYPES[format],
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+
+  } catch (error) {
+    console.error('State feed error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to build feed',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
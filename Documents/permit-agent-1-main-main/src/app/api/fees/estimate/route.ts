@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { estimateFees, permitFeeSchema } from '@/lib/fees';
+import { ApiResponse, FeeEstimate } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 5;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Request validation schema
+const estimateRequestSchema = z.object({
+  permits: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    fees: z.array(permitFeeSchema),
+  })).min(1),
+  valuation: z.number().nonnegative().optional(),
+  squareFootage: z.number().nonnegative().optional(),
+  units: z.number().nonnegative().optional(),
+  hours: z.number().nonnegative().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { permits, ...input } = estimateRequestSchema.parse(body);
+
+    return NextResponse.json<ApiResponse<FeeEstimate>>({
+      success: true,
+      data: estimateFees(permits, input),
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Fee estimate API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to estimate fees. Please try again.',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pdfAnalyzer } from '@/lib/scraping/pdf-analyzer';
+import { ApiResponse, PermitFormFieldsResult } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 30; // Government PDFs can be large and slow to download
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const fieldsRequestSchema = z.object({
+  url: z.string().url().refine(url => /^https?:\/\//i.test(url), 'URL must be http or https'),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { url } = fieldsRequestSchema.parse({
+      url: request.nextUrl.searchParams.get('url'),
+    });
+
+    const result = await pdfAnalyzer.analyzeFormFields(url);
+
+    return NextResponse.json<ApiResponse<PermitFormFieldsResult>>({
+      success: true,
+      data: result,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Form fields API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Could not read the fields in this form. It may not be a valid PDF.',
+      timestamp: new Date(),
+    }, { status: 502 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { pdfAnalyzer } from '@/lib/scraping/pdf-analyzer';
+import { getApplicantProfile } from '@/lib/database/applicant-profiles';
+import { fillPermitForm } from '@/lib/pdf/autofill';
+import { ApiResponse, ApplicantProfile, PermitFormFillResult } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 30; // Government PDFs can be large and slow to download
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const fillRequestSchema = z.object({
+  formUrl: z.string().url().refine(url => /^https?:\/\//i.test(url), 'URL must be http or https'),
+  applicantProfileId: z.string().optional(),
+  contractorProfileId: z.string().optional(),
+  project: z.object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    address: z.object({
+      street: z.string().min(1),
+      city: z.string().min(1),
+      state: z.string().length(2),
+      zipCode: z.string().min(5),
+      county: z.string().optional(),
+    }),
+    valuation: z.number().nonnegative().optional(),
+    squareFootage: z.number().nonnegative().optional(),
+  }),
+  flatten: z.boolean().optional().default(false),
+});
+
+class ProfileNotFoundError extends Error {}
+
+async function loadProfile(userId: string, profileId?: string): Promise<ApplicantProfile | undefined> {
+  if (!profileId) return undefined;
+  const profile = await getApplicantProfile(userId, profileId);
+  if (!profile) {
+    throw new ProfileNotFoundError(`Profile ${profileId} not found`);
+  }
+  return profile;
+}
+
+function fileNameFor(formUrl: string): string {
+  const base = new URL(formUrl).pathname.split('/').pop()?.replace(/\.pdf$/i, '') || 'permit-application';
+  return `${base.replace(/[^\w-]+/g, '-')}-filled.pdf`;
+}
+
+/**
+ * Fill a permit application PDF from saved profiles and project details. Returns the filled
+ * PDF as a download, or with ?format=json a summary of which fields were filled and which
+ * still need to be completed by hand. Profiles are the signed-in user's own.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Sign in to fill forms from your profiles',
+        timestamp: new Date(),
+      }, { status: 401 });
+    }
+
+    const validatedRequest = fillRequestSchema.parse(await request.json());
+    const { formUrl } = validatedRequest;
+
+    const [applicant, contractor] = await Promise.all([
+      loadProfile(userId, validatedRequest.applicantProfileId),
+      loadProfile(userId, validatedRequest.contractorProfileId),
+    ]);
+
+    const pdfBuffer = await pdfAnalyzer.downloadPDF(formUrl);
+    const { pdf, ...result } = await fillPermitForm(
+      pdfBuffer,
+      { applicant, contractor, project: validatedRequest.project },
+      { flatten: validatedRequest.flatten }
+    );
+
+    if (request.nextUrl.searchParams.get('format') === 'json') {
+      return NextResponse.json<ApiResponse<PermitFormFillResult>>({
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      });
+    }
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileNameFor(formUrl)}"`,
+        'X-Filled-Fields': String(result.filled.length),
+        'X-Unmatched-Fields': String(result.unmatched.length),
+      },
+    });
+
+  } catch (error) {
+    console.error('Form fill API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    if (error instanceof ProfileNotFoundError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: error.message,
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Could not fill this form. It may not be a fillable PDF.',
+      timestamp: new Date(),
+    }, { status: 502 });
+  }
+}
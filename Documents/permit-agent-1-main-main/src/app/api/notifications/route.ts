@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { listNotifications, markNotificationsRead, markNotificationsReadSchema } from '@/lib/database/notifications';
+import { ApiResponse, UserNotification } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const listQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to view notifications',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+function invalidRequest(error: z.ZodError) {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+    timestamp: new Date(),
+  }, { status: 400 });
+}
+
+/**
+ * The signed-in user's notifications, newest first. `?unread=true` leaves out ones already read.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { unread, limit } = listQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+    const result = await listNotifications(userId, { unreadOnly: unread, limit });
+
+    return NextResponse.json<ApiResponse<{ notifications: UserNotification[]; unreadCount: number }>>({
+      success: true,
+      data: result,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Notifications API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return invalidRequest(error);
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load notifications',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Mark notifications read: `{ ids }` for specific ones, or an empty body for all of them
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { ids } = markNotificationsReadSchema.parse(await request.json().catch(() => ({})));
+    const updated = await markNotificationsRead(userId, ids);
+
+    return NextResponse.json<ApiResponse<{ updated: number }>>({
+      success: true,
+      data: { updated },
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Notifications API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return invalidRequest(error);
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to update notifications',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { buildPermitPacket } from '@/lib/pdf/packet';
+import { ApiResponse, SearchResponse } from '@/types';
+import { slugify } from '@/lib/utils';
+
+// Vercel function configuration
+export const maxDuration = 60; // Downloads every form in the packet
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const formSchema = z.object({
+  name: z.string(),
+  url: z.string().url().refine(url => /^https?:\/\//i.test(url), 'Form URLs must be http or https'),
+  fileType: z.enum(['pdf', 'doc', 'online']),
+  isRequired: z.boolean(),
+}).passthrough();
+
+// Only the parts of a search result the packet reads are checked; the rest goes to the report as-is
+const packetRequestSchema = z.object({
+  addressSearched: z.string().min(1, 'Address is required'),
+  searchResults: z.object({
+    jurisdiction: z.object({
+      name: z.string(),
+      website: z.string(),
+    }).passthrough(),
+    permits: z.array(z.object({
+      name: z.string(),
+      requirements: z.array(z.string()),
+      fees: z.array(z.unknown()),
+      forms: z.array(formSchema),
+    }).passthrough()),
+    forms: z.array(formSchema).optional().default([]),
+    contact: z.object({}).passthrough(),
+  }).passthrough(),
+});
+
+/**
+ * Download a ZIP application packet for a search result. Projects have their own at
+ * /api/projects/{projectId}/packet.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Building a packet downloads every form URL in the request, so it isn't open to anonymous callers
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Sign in to download application packets',
+        timestamp: new Date(),
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedRequest = packetRequestSchema.parse(body);
+    const searchResults = validatedRequest.searchResults as unknown as SearchResponse;
+
+    const { zip, manifest } = await buildPermitPacket({
+      searchResults,
+      addressSearched: validatedRequest.addressSearched,
+    });
+
+    const fileName = `permit-packet-${slugify(searchResults.jurisdiction.name) || 'jurisdiction'}.zip`;
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'X-Packet-Files': String(manifest.files.length),
+        'X-Packet-Online-Forms': String(manifest.links.length),
+        'X-Packet-Failed-Forms': String(manifest.failed.length),
+      },
+    });
+
+  } catch (error) {
+    console.error('Packet API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to build the application packet. Please try again.',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
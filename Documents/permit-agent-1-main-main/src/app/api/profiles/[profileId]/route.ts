@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import {
+  applicantProfileSchema,
+  deleteApplicantProfile,
+  getApplicantProfile,
+  updateApplicantProfile,
+} from '@/lib/database/applicant-profiles';
+import { ApiResponse, ApplicantProfile } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to use saved profiles',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+function notFound() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Profile not found',
+    timestamp: new Date(),
+  }, { status: 404 });
+}
+
+function errorResponse(error: unknown, action: string) {
+  console.error(`Profile ${action} error:`, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+      timestamp: new Date(),
+    }, { status: 400 });
+  }
+
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: `Failed to ${action} profile`,
+    timestamp: new Date(),
+  }, { status: 500 });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  try {
+    const { profileId } = await params;
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const profile = await getApplicantProfile(userId, profileId);
+    if (!profile) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<ApplicantProfile>>({
+      success: true,
+      data: profile,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'get');
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  try {
+    const { profileId } = await params;
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+    const input = applicantProfileSchema.parse(await request.json());
+
+    const profile = await updateApplicantProfile(userId, profileId, input);
+    if (!profile) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<ApplicantProfile>>({
+      success: true,
+      data: profile,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'update');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  try {
+    const { profileId } = await params;
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const deleted = await deleteApplicantProfile(userId, profileId);
+    if (!deleted) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: boolean }>>({
+      success: true,
+      data: { deleted },
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'delete');
+  }
+}
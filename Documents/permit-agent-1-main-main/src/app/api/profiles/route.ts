@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { applicantProfileSchema, createApplicantProfile, listApplicantProfiles } from '@/lib/database/applicant-profiles';
+import { ApiResponse, ApplicantProfile } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to use saved profiles',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+function errorResponse(error: unknown, action: string) {
+  console.error(`Profile ${action} error:`, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+      timestamp: new Date(),
+    }, { status: 400 });
+  }
+
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: `Failed to ${action} profile`,
+    timestamp: new Date(),
+  }, { status: 500 });
+}
+
+/**
+ * List the signed-in user's saved applicant and contractor profiles
+ */
+export async function GET() {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const profiles = await listApplicantProfiles(userId);
+
+    return NextResponse.json<ApiResponse<ApplicantProfile[]>>({
+      success: true,
+      data: profiles,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'list');
+  }
+}
+
+/**
+ * Save a new applicant or contractor profile
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const input = applicantProfileSchema.parse(await request.json());
+    const profile = await createApplicantProfile(userId, input);
+
+    return NextResponse.json<ApiResponse<ApplicantProfile>>({
+      success: true,
+      data: profile,
+      timestamp: new Date(),
+    }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'create');
+  }
+}
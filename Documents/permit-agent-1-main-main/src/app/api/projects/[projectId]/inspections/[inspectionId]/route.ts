@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { deleteInspection, inspectionUpdateSchema, updateInspection } from '@/lib/database/inspections';
+import { ApiResponse, ProjectInspection } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const idSchema = z.string().uuid();
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to manage projects',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+function notFound() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Inspection not found',
+    timestamp: new Date(),
+  }, { status: 404 });
+}
+
+function validIds(projectId: string, inspectionId: string): boolean {
+  return idSchema.safeParse(projectId).success && idSchema.safeParse(inspectionId).success;
+}
+
+/**
+ * Reschedule an inspection or record its result
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; inspectionId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { projectId, inspectionId } = await params;
+    const update = inspectionUpdateSchema.parse(await request.json());
+    const inspection = validIds(projectId, inspectionId)
+      ? await updateInspection(userId, projectId, inspectionId, update)
+      : null;
+    if (!inspection) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<ProjectInspection>>({
+      success: true,
+      data: inspection,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Update inspection API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to update inspection',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; inspectionId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { projectId, inspectionId } = await params;
+    if (!validIds(projectId, inspectionId) || !(await deleteInspection(userId, projectId, inspectionId))) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: boolean }>>({
+      success: true,
+      data: { deleted: true },
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Delete inspection API error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to delete inspection',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { inspectionInputSchema, listInspections, scheduleInspection } from '@/lib/database/inspections';
+import { ApiResponse, ProjectInspection } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const projectIdSchema = z.string().uuid();
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to manage projects',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+/**
+ * List a project's inspections in date order
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { projectId } = await params;
+    const inspections = projectIdSchema.safeParse(projectId).success ? await listInspections(userId, projectId) : [];
+
+    return NextResponse.json<ApiResponse<ProjectInspection[]>>({
+      success: true,
+      data: inspections,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Project inspections API error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load inspections',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Schedule an inspection for one of the project's permits
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { projectId } = await params;
+    const input = inspectionInputSchema.parse(await request.json());
+    const inspection = projectIdSchema.safeParse(projectId).success
+      ? await scheduleInspection(userId, projectId, input)
+      : null;
+    if (!inspection) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Permit not found on this project',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<ProjectInspection>>({
+      success: true,
+      data: inspection,
+      timestamp: new Date(),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Schedule inspection API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to schedule inspection',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { getProject } from '@/lib/database/projects';
+import { searchJobManager } from '@/lib/jobs/search-job';
+import { buildPermitPacket, projectPacketResults } from '@/lib/pdf/packet';
+import { getCachedSearch } from '@/lib/search/response-cache';
+import { ApiResponse, SearchResponse, UserProject } from '@/types';
+import { formatAddress, slugify } from '@/lib/utils';
+
+// Vercel function configuration
+export const maxDuration = 60; // May search the jurisdiction, then downloads every form in the packet
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const projectIdSchema = z.string().uuid();
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error,
+    timestamp: new Date(),
+  }, { status });
+}
+
+// Project permits don't keep their forms, so they come from the jurisdiction's search results:
+// the cached ones when there are any, otherwise from searching the project's address now
+async function searchProjectJurisdiction(project: UserProject, userId: string): Promise<SearchResponse | null> {
+  const cached = await getCachedSearch(project.address);
+  if (cached) {
+    return cached.response;
+  }
+
+  const job = await searchJobManager.createJob(project.address, undefined, userId);
+  await searchJobManager.executeJob(job.id);
+  const finished = await searchJobManager.getJob(job.id);
+  return finished?.status === 'completed' && finished.result ? finished.result : null;
+}
+
+/**
+ * Download a ZIP application packet with the required forms of a project's permits
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return errorResponse('Sign in to manage projects', 401);
+    }
+
+    const { projectId } = await params;
+    const project = projectIdSchema.safeParse(projectId).success ? await getProject(userId, projectId) : null;
+    if (!project) {
+      return errorResponse('Project not found', 404);
+    }
+    if (project.permits.length === 0) {
+      return errorResponse('Add permits to this project before building its packet', 400);
+    }
+
+    const searchResults = await searchProjectJurisdiction(project, userId);
+    if (!searchResults) {
+      return errorResponse('Could not look up the forms for this project\'s jurisdiction. Please try again.', 503);
+    }
+
+    const { zip, manifest } = await buildPermitPacket({
+      searchResults: projectPacketResults(project, searchResults),
+      addressSearched: formatAddress(project.address),
+    });
+
+    const fileName = `permit-packet-${slugify(project.name) || 'project'}.zip`;
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'X-Packet-Files': String(manifest.files.length),
+        'X-Packet-Online-Forms': String(manifest.links.length),
+        'X-Packet-Failed-Forms': String(manifest.failed.length),
+      },
+    });
+
+  } catch (error) {
+    console.error('Project packet API error:', error);
+    return errorResponse('Failed to build the application packet. Please try again.', 500);
+  }
+}
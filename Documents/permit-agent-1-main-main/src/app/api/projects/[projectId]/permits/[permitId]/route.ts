@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser } from '@/lib/auth/session';
+import { projectPermitUpdateSchema, removeProjectPermit, updateProjectPermit } from '@/lib/database/projects';
+import { PermitTransitionError } from '@/lib/projects/lifecycle';
+import { ApiResponse, ProjectPermit } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const idSchema = z.string().uuid();
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to manage projects',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+function notFound() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Permit not found on this project',
+    timestamp: new Date(),
+  }, { status: 404 });
+}
+
+function validIds(projectId: string, permitId: string): boolean {
+  return idSchema.safeParse(projectId).success && idSchema.safeParse(permitId).success;
+}
+
+/**
+ * Move a permit through its lifecycle or record its permit number, dates and notes
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; permitId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const { projectId, permitId } = await params;
+    const update = projectPermitUpdateSchema.parse(await request.json());
+    if (!validIds(projectId, permitId)) {
+      return notFound();
+    }
+
+    const permit = await updateProjectPermit(user.id, projectId, permitId, update, { userId: user.id, name: user.name });
+    if (!permit) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<ProjectPermit>>({
+      success: true,
+      data: permit,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Update project permit error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    if (error instanceof PermitTransitionError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: error.message,
+        timestamp: new Date(),
+      }, { status: 409 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to update permit',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; permitId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const { projectId, permitId } = await params;
+    if (!validIds(projectId, permitId)
+      || !(await removeProjectPermit(user.id, projectId, permitId, { userId: user.id, name: user.name }))) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: boolean }>>({
+      success: true,
+      data: { deleted: true },
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Remove project permit error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to remove permit',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
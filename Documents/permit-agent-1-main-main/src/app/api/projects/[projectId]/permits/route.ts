@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser } from '@/lib/auth/session';
+import { addProjectPermits, projectPermitInputSchema } from '@/lib/database/projects';
+import { ApiResponse, ProjectPermit } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const addPermitsSchema = z.object({
+  permits: z.array(projectPermitInputSchema).min(1).max(50),
+});
+
+/**
+ * Attach permits to a project. They start in planning.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Sign in to manage projects',
+        timestamp: new Date(),
+      }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const { permits } = addPermitsSchema.parse(await request.json());
+
+    const added = z.string().uuid().safeParse(projectId).success
+      ? await addProjectPermits(user.id, projectId, permits, { userId: user.id, name: user.name })
+      : null;
+    if (!added) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Project not found',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<ProjectPermit[]>>({
+      success: true,
+      data: added,
+      timestamp: new Date(),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Add project permits error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to add permits',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { deleteProject, getProject, listProjectPermitEvents, updateProject } from '@/lib/database/projects';
+import { ApiResponse, ProjectPermitEvent, UserProject } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const projectIdSchema = z.string().uuid();
+
+const updateProjectSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().max(5000).nullable().optional(),
+});
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to manage projects',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+function notFound() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Project not found',
+    timestamp: new Date(),
+  }, { status: 404 });
+}
+
+function errorResponse(error: unknown, action: string) {
+  console.error(`Project ${action} error:`, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+      timestamp: new Date(),
+    }, { status: 400 });
+  }
+
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: `Failed to ${action} project`,
+    timestamp: new Date(),
+  }, { status: 500 });
+}
+
+/**
+ * Get a project with its permits and their change history
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { projectId } = await params;
+    const project = projectIdSchema.safeParse(projectId).success ? await getProject(userId, projectId) : null;
+    if (!project) {
+      return notFound();
+    }
+
+    const events = await listProjectPermitEvents(userId, projectId);
+
+    return NextResponse.json<ApiResponse<{ project: UserProject; events: ProjectPermitEvent[] }>>({
+      success: true,
+      data: { project, events },
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'load');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { projectId } = await params;
+    if (!projectIdSchema.safeParse(projectId).success) {
+      return notFound();
+    }
+
+    const details = updateProjectSchema.parse(await request.json());
+    const project = await updateProject(userId, projectId, details);
+    if (!project) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<UserProject>>({
+      success: true,
+      data: project,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'update');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { projectId } = await params;
+    if (!projectIdSchema.safeParse(projectId).success || !(await deleteProject(userId, projectId))) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: boolean }>>({
+      success: true,
+      data: { deleted: true },
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'delete');
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser } from '@/lib/auth/session';
+import { createProject, listProjects, projectPermitInputSchema } from '@/lib/database/projects';
+import { ApiResponse, UserProject } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const createProjectSchema = z.object({
+  name: z.string().trim().min(1, 'Project name is required').max(255),
+  description: z.string().max(5000).optional(),
+  address: z.object({
+    street: z.string().min(1),
+    city: z.string().min(1),
+    state: z.string().length(2),
+    zipCode: z.string().min(5),
+    county: z.string().optional(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+  }),
+  permits: z.array(projectPermitInputSchema).max(50).default([]),
+});
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to manage projects',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+/**
+ * List the signed-in user's projects and their permits
+ */
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const projects = await listProjects(user.id);
+
+    return NextResponse.json<ApiResponse<UserProject[]>>({
+      success: true,
+      data: projects,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Projects API error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load projects',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Create a project, usually from a search result's address and permits
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json();
+    const validatedRequest = createProjectSchema.parse(body);
+    const project = await createProject(user.id, validatedRequest, { userId: user.id, name: user.name });
+
+    return NextResponse.json<ApiResponse<UserProject>>({
+      success: true,
+      data: project,
+      timestamp: new Date(),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create project API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to create project',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import {
+  deleteSavedSearch,
+  getSavedSearch,
+  savedSearchTagsSchema,
+  updateSavedSearchDetails,
+} from '@/lib/database/saved-searches';
+import { ApiResponse, SavedSearch } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const searchIdSchema = z.string().uuid();
+
+const updateSearchSchema = z.object({
+  name: z.string().trim().max(255).nullable().optional(),
+  tags: savedSearchTagsSchema.optional(),
+});
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to use saved searches',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+function notFound() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Saved search not found',
+    timestamp: new Date(),
+  }, { status: 404 });
+}
+
+function errorResponse(error: unknown, action: string) {
+  console.error(`Saved search ${action} error:`, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+      timestamp: new Date(),
+    }, { status: 400 });
+  }
+
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: `Failed to ${action} saved search`,
+    timestamp: new Date(),
+  }, { status: 500 });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ searchId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { searchId } = await params;
+    if (!searchIdSchema.safeParse(searchId).success) {
+      return notFound();
+    }
+
+    const savedSearch = await getSavedSearch(userId, searchId);
+    if (!savedSearch) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<SavedSearch>>({
+      success: true,
+      data: savedSearch,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'load');
+  }
+}
+
+/**
+ * Rename or re-tag a saved search
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ searchId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { searchId } = await params;
+    if (!searchIdSchema.safeParse(searchId).success) {
+      return notFound();
+    }
+
+    const details = updateSearchSchema.parse(await request.json());
+    const savedSearch = await updateSavedSearchDetails(userId, searchId, {
+      name: details.name === undefined ? undefined : details.name || null,
+      tags: details.tags,
+    });
+    if (!savedSearch) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<SavedSearch>>({
+      success: true,
+      data: savedSearch,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'update');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ searchId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { searchId } = await params;
+    if (!searchIdSchema.safeParse(searchId).success || !(await deleteSavedSearch(userId, searchId))) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: boolean }>>({
+      success: true,
+      data: { deleted: true },
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'delete');
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { getSavedSearch, updateSavedSearchResults } from '@/lib/database/saved-searches';
+import { searchJobManager } from '@/lib/jobs/search-job';
+import { ApiResponse, SavedSearch } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 60; // Runs the whole search before responding
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Run a saved search again and replace its stored results with the new ones
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ searchId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Sign in to use saved searches',
+        timestamp: new Date(),
+      }, { status: 401 });
+    }
+
+    const { searchId } = await params;
+    const savedSearch = z.string().uuid().safeParse(searchId).success
+      ? await getSavedSearch(userId, searchId)
+      : null;
+    if (!savedSearch) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Saved search not found',
+        timestamp: new Date(),
+      }, { status: 404 });
+    }
+
+    // Run through the job queue so the re-run gets the same retries and checkpoints as any search
+    const job = await searchJobManager.createJob(savedSearch.request.address, savedSearch.request.scope, userId);
+    await searchJobManager.executeJob(job.id);
+    const finished = await searchJobManager.getJob(job.id);
+
+    if (finished?.status !== 'completed' || !finished.result) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: finished?.error || 'The search did not complete. Please try again.',
+        timestamp: new Date(),
+      }, { status: 502 });
+    }
+
+    const updated = await updateSavedSearchResults(userId, searchId, finished.result);
+
+    return NextResponse.json<ApiResponse<SavedSearch | null>>({
+      success: true,
+      data: updated,
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Saved search re-run error:', error);
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to re-run saved search',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
+import { createSavedSearch, listSavedSearches, savedSearchTagsSchema } from '@/lib/database/saved-searches';
+import { scopeOfWorkSchema } from '@/lib/permits/determination';
+import { ApiResponse, SavedSearch, SavedSearchSummary, SearchRequest, SearchResponse } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 10;
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const saveSearchSchema = z.object({
+  name: z.string().trim().max(255).optional(),
+  tags: savedSearchTagsSchema.optional(),
+  request: z.object({
+    address: z.object({
+      street: z.string().min(1),
+      city: z.string().min(1),
+      state: z.string().length(2),
+      zipCode: z.string().min(5),
+      county: z.string().optional(),
+    }),
+    permitTypes: z.array(z.string()).optional(),
+    includeNeighboringJurisdictions: z.boolean().optional(),
+    scope: scopeOfWorkSchema.optional(),
+  }),
+  // Stored as returned by the search; only the jurisdiction is read here
+  response: z.object({
+    jurisdiction: z.object({ name: z.string() }).passthrough(),
+  }).passthrough().optional(),
+});
+
+const listSearchesSchema = z.object({
+  tag: z.string().optional(),
+  limit: z.number().int().min(1).max(100).optional().default(20),
+  offset: z.number().int().min(0).optional().default(0),
+});
+
+function unauthorized() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Sign in to use saved searches',
+    timestamp: new Date(),
+  }, { status: 401 });
+}
+
+/**
+ * List the signed-in user's saved searches
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { searchParams } = request.nextUrl;
+    const limit = searchParams.get('limit');
+    const offset = searchParams.get('offset');
+    const options = listSearchesSchema.parse({
+      tag: searchParams.get('tag') || undefined,
+      limit: limit ? parseInt(limit) : undefined,
+      offset: offset ? parseInt(offset) : undefined,
+    });
+
+    const { searches, total } = await listSavedSearches(userId, options);
+
+    return NextResponse.json<ApiResponse<{ searches: SavedSearchSummary[]; total: number }>>({
+      success: true,
+      data: { searches, total },
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Saved searches API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load saved searches',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Save a search request and its results
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const body = await request.json();
+    const validatedRequest = saveSearchSchema.parse(body);
+
+    const savedSearch = await createSavedSearch(
+      userId,
+      validatedRequest.request as SearchRequest,
+      validatedRequest.response as unknown as SearchResponse | undefined,
+      { name: validatedRequest.name || undefined, tags: validatedRequest.tags }
+    );
+
+    return NextResponse.json<ApiResponse<SavedSearch>>({
+      success: true,
+      data: savedSearch,
+      timestamp: new Date(),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Save search API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid request: ${error.errors.map(e => e.message).join(', ')}`,
+        timestamp: new Date(),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to save search',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
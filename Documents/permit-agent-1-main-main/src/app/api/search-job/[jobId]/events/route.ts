@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchJobManager } from '@/lib/jobs/search-job';
+import { getSearchJobEvents } from '@/lib/database/search-jobs';
+import { ApiResponse, SearchJobEvent } from '@/types';
+
+// Vercel function configuration
+export const maxDuration = 60; // EventSource reconnects with Last-Event-ID when we close
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL = 500;
+const HEARTBEAT_INTERVAL = 15000;
+const STREAM_DURATION = 55000; // Close before maxDuration so the client reconnects cleanly
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  let job;
+  try {
+    job = await searchJobManager.getJob(jobId);
+  } catch (error) {
+    console.error('Job events API error:', error);
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to get job status',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+
+  if (!job) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Job not found. Finished jobs are removed after 24 hours.',
+      timestamp: new Date(),
+    }, { status: 404 });
+  }
+
+  // Resume after the last event the client saw, from the header on reconnect or a query param
+  const lastEventId = Number(
+    request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId') ?? 0
+  ) || 0;
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const sendEvent = (event: SearchJobEvent) => {
+        send(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      let cursor = lastEventId;
+      let lastWrite = Date.now();
+      const startedAt = Date.now();
+
+      // Tell the browser how long to wait before reconnecting
+      send('retry: 2000\n\n');
+
+      try {
+        while (!request.signal.aborted && Date.now() - startedAt < STREAM_DURATION) {
+          const events = await getSearchJobEvents(jobId, cursor);
+          let finished = false;
+
+          for (const event of events) {
+            // The completion event carries the result so the client doesn't need another request
+            if (event.type === 'job_completed') {
+              const completedJob = await searchJobManager.getJob(jobId);
+              sendEvent({ ...event, result: completedJob?.result });
+              finished = true;
+            } else {
+              sendEvent(event);
+              finished = finished || event.type === 'job_failed' || event.type === 'job_cancelled';
+            }
+            cursor = event.id;
+            lastWrite = Date.now();
+          }
+
+          if (finished) {
+            break;
+          }
+
+          // Events are best-effort, so fall back to the job row if the terminal one never arrives
+          if (events.length === 0) {
+            const current = await searchJobManager.getJob(jobId);
+            if (current && !['pending', 'running'].includes(current.status)) {
+              const base = { id: cursor, jobId, progress: current.progress, createdAt: new Date() };
+              if (current.status === 'completed') {
+                sendEvent({ ...base, type: 'job_completed', result: current.result });
+              } else if (current.status === 'cancelled') {
+                sendEvent({ ...base, type: 'job_cancelled' });
+              } else {
+                sendEvent({ ...base, type: 'job_failed', error: current.error || 'Search failed' });
+              }
+              break;
+            }
+          }
+
+          if (Date.now() - lastWrite > HEARTBEAT_INTERVAL) {
+            send(': keepalive\n\n');
+            lastWrite = Date.now();
+          }
+
+          await sleep(POLL_INTERVAL);
+        }
+      } catch (error) {
+        console.error(`[Job ${jobId}] Event stream error:`, error);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
 import { searchJobManager } from '@/lib/jobs/search-job';
 import { ApiResponse } from '@/types';
 
@@ -22,24 +23,28 @@ export async function GET(
       }, { status: 400 });
     }
 
-    const job = searchJobManager.getJob(jobId);
+    const job = await searchJobManager.getJob(jobId);
     
     if (!job) {
       return NextResponse.json<ApiResponse<null>>({
         success: false,
-        error: 'Job not found. Jobs expire after 30 minutes.',
+        error: 'Job not found. Finished jobs are removed after 24 hours.',
         timestamp: new Date(),
       }, { status: 404 });
     }
 
     // Calculate elapsed time
-    const elapsedTime = Date.now() - job.startTime;
+    const elapsedTime = (job.endTime || Date.now()) - job.startTime;
     const elapsedSeconds = Math.floor(elapsedTime / 1000);
 
     const response = {
       jobId: job.id,
       status: job.status,
+      stage: job.stage,
       progress: job.progress,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      nextRunAt: job.nextRunAt,
       elapsedTime: elapsedSeconds,
       result: job.result,
       error: job.error,
@@ -60,4 +65,63 @@ export async function GET(
       timestamp: new Date(),
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Cancel a job. Only whoever started it can: the same signed-in user, or a request carrying the
+ * cancel token returned when the job was created, in the X-Cancel-Token header.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const isCreator = await searchJobManager.isJobCreator(jobId, {
+      userId: await getSessionUserId(),
+      cancelToken: request.headers.get('x-cancel-token'),
+    });
+    if (!isCreator) {
+      const existing = await searchJobManager.getJob(jobId);
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: existing
+          ? 'Only the search that started this job can cancel it'
+          : 'Job not found. Finished jobs are removed after 24 hours.',
+        timestamp: new Date(),
+      }, { status: existing ? 403 : 404 });
+    }
+
+    const job = await searchJobManager.cancelJob(jobId);
+
+    if (!job) {
+      const existing = await searchJobManager.getJob(jobId);
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: existing
+          ? `Job has already ${existing.status === 'cancelled' ? 'been cancelled' : existing.status}`
+          : 'Job not found. Finished jobs are removed after 24 hours.',
+        timestamp: new Date(),
+      }, { status: existing ? 409 : 404 });
+    }
+
+    return NextResponse.json<ApiResponse<{ jobId: string; status: string }>>({
+      success: true,
+      data: {
+        jobId: job.id,
+        status: job.status,
+      },
+      timestamp: new Date(),
+    });
+
+  } catch (error) {
+    console.error('Cancel job API error:', error);
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to cancel job',
+      timestamp: new Date(),
+    }, { status: 500 });
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { getSessionUserId } from '@/lib/auth/session';
 import { searchJobManager } from '@/lib/jobs/search-job';
 import { ApiResponse } from '@/types';
+import { scopeOfWorkSchema } from '@/lib/permits/determination';
 
 // Vercel function configuration
 export const maxDuration = 5; // Quick response for job creation
@@ -17,6 +19,7 @@ const startJobSchema = z.object({
     zipCode: z.string().min(5),
     county: z.string().optional(),
   }),
+  scope: scopeOfWorkSchema.optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -27,17 +30,19 @@ export async function POST(request: NextRequest) {
     const validatedRequest = startJobSchema.parse(body);
     
     // Create job
-    const job = searchJobManager.createJob(validatedRequest.address);
+    const job = await searchJobManager.createJob(validatedRequest.address, validatedRequest.scope, await getSessionUserId());
     
-    // Start job execution asynchronously (don't await)
+    // Start job execution asynchronously (don't await). If this invocation is frozen
+    // mid-run, a worker reclaims the job from its last checkpoint once the lease expires.
     searchJobManager.executeJob(job.id).catch(error => {
       console.error(`Background job ${job.id} failed:`, error);
     });
 
-    return NextResponse.json<ApiResponse<{ jobId: string; estimatedTime: string }>>({
+    return NextResponse.json<ApiResponse<{ jobId: string; cancelToken: string; estimatedTime: string }>>({
       success: true,
       data: {
         jobId: job.id,
+        cancelToken: job.cancelToken,
         estimatedTime: '30-60 seconds'
       },
       timestamp: new Date(),
@@ -64,7 +69,7 @@ export async function POST(request: NextRequest) {
 
 export async function GET() {
   try {
-    const stats = searchJobManager.getJobStats();
+    const stats = await searchJobManager.getJobStats();
     
     return NextResponse.json<ApiResponse<typeof stats>>({
       success: true,
@@ -2,12 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { webScraper, ScrapingResult } from '@/lib/scraping/scraper';
 import { searchJobManager } from '@/lib/jobs/search-job';
-import { findGovernmentSite } from '@/lib/data/government-sites';
-import { SearchResponse, ApiResponse, Jurisdiction, PermitForm } from '@/types';
+import { getSessionUserId } from '@/lib/auth/session';
+import { findRegistryJurisdiction } from '@/lib/jurisdictions/registry';
+import { SearchResponse, ApiResponse, Jurisdiction, PermitForm, PermitType, RegistryJurisdiction } from '@/types';
 import { 
   EnhancedNetworkError
 } from '@/lib/network';
 import { withUsageTracking } from '@/lib/middleware/usage-tracking';
+import { createProvenance, withFormProvenance, withPermitProvenance } from '@/lib/provenance';
+import { applyDetermination, determinePermits, scopeOfWorkSchema } from '@/lib/permits/determination';
+import { cacheSearchResponse, CachedSearch, getCachedSearch, getSearchFreshness, markSearchRefresh } from '@/lib/search/response-cache';
+import { fitSearchResponse } from '@/lib/search/results';
 
 // Vercel function configuration
 export const maxDuration = 30; // 30 seconds for Pro plan
@@ -27,8 +32,17 @@ const searchRequestSchema = z.object({
   }),
   permitTypes: z.array(z.string()).optional(),
   includeNeighboringJurisdictions: z.boolean().default(false),
+  scope: scopeOfWorkSchema.optional(),
 });
 
+type ValidatedSearchRequest = z.infer<typeof searchRequestSchema>;
+
+const HOUR = 60 * 60 * 1000;
+const REFRESH_REUSE_WINDOW = 10 * 60 * 1000; // A refresh started this recently is likely still running
+
+// Shown when we have no phone number on file for a city
+const PLACEHOLDER_PHONE = '(555) 123-4567';
+
 // Helper functions for enhanced jurisdiction data
 function getContactPhone(city: string, state: string): string {
   const phoneMap: { [key: string]: { [key: string]: string } } = {
@@ -44,7 +58,7 @@ function getContactPhone(city: string, state: string): string {
     'San Diego': { 'CA': '(619) 236-5555' },
   };
   
-  return phoneMap[city]?.[state] || '(555) 123-4567';
+  return phoneMap[city]?.[state] || PLACEHOLDER_PHONE;
 }
 
 function getContactEmail(city: string, _state: string): string {
@@ -181,10 +195,317 @@ function generateDetailedPermits(city: string, state: string, formsBaseUrl?: str
     }
   ];
 
-  return basePermits.map(permit => ({
+  // These permits are templates, not data from the jurisdiction, so flag them as synthetic
+  return withPermitProvenance(basePermits.map(permit => ({
     ...permit,
     jurisdictionId: `jurisdiction-${city.toLowerCase().replace(/\s+/g, '')}-${state.toLowerCase()}`,
-  }));
+  })), createProvenance('synthetic_fallback'));
+}
+
+// The sync search: the registry's entry for the jurisdiction, its pages scraped for forms, and the
+// registry's or generated permits. The results are cached for later searches of the jurisdiction.
+async function runSyncSearch(address: ValidatedSearchRequest['address']): Promise<SearchResponse> {
+  console.log('Creating enhanced jurisdiction for address:', address);
+  
+  const cityName = address.city.toLowerCase().replace(/\s+/g, '');
+  const stateCode = address.state.toLowerCase();
+  
+  // Check the jurisdiction registry, which matches aliases like "NYC" and variants like "St. Louis".
+  // A registry outage shouldn't fail the search, so fall back to generated data.
+  let realGovernmentSite: RegistryJurisdiction | null = null;
+  try {
+    const match = await findRegistryJurisdiction(address.city, address.state);
+    if (match) {
+      console.log(`Matched registry jurisdiction ${match.jurisdiction.slug} on "${match.matchedName}" (score ${match.score.toFixed(2)})`);
+      realGovernmentSite = match.jurisdiction;
+    }
+  } catch (error) {
+    console.warn('Jurisdiction registry lookup failed, using generated data:', error);
+  }
+  
+  let jurisdiction: Jurisdiction;
+  const scrapingResults: ScrapingResult[] = [];
+  const warnings: string[] = [];
+  
+  // Default office hours and the searched address stand in when we have nothing better
+  const syntheticProvenance = createProvenance('synthetic_fallback');
+  
+  if (realGovernmentSite) {
+    console.log(`Found real government site for ${address.city}, ${address.state}`);
+    
+    const curatedProvenance = createProvenance('curated_registry', realGovernmentSite.website);
+    
+    // Use real government site data
+    jurisdiction = {
+      id: realGovernmentSite.id,
+      name: `${realGovernmentSite.name}, ${realGovernmentSite.state}`,
+      type: realGovernmentSite.type,
+      address: address,
+      website: realGovernmentSite.website,
+      permitUrl: realGovernmentSite.permitUrl,
+      contactInfo: {
+        phone: realGovernmentSite.phone,
+        email: realGovernmentSite.email,
+        address: address,
+        hoursOfOperation: {
+          monday: { open: '8:00', close: '17:00' },
+          tuesday: { open: '8:00', close: '17:00' },
+          wednesday: { open: '8:00', close: '17:00' },
+          thursday: { open: '8:00', close: '17:00' },
+          friday: { open: '8:00', close: '17:00' },
+        },
+        provenance: {
+          phone: realGovernmentSite.phone ? curatedProvenance : undefined,
+          email: realGovernmentSite.email ? curatedProvenance : undefined,
+          address: syntheticProvenance,
+          hoursOfOperation: syntheticProvenance,
+        },
+      },
+      lastUpdated: new Date(),
+      isActive: true,
+    };
+    
+    console.log('Using real government site data:', jurisdiction.name);
+    
+    // Attempt real scraping of government websites
+    try {
+      console.log(`Scraping real government website: ${realGovernmentSite.website}`);
+      const mainSiteResult = await webScraper.scrapeUrl(realGovernmentSite.website, {
+        timeout: 15000,
+        delayBetweenRequests: 2000,
+        maxRetries: 2,
+        enableAdvancedExtraction: true,
+        jurisdictionId: realGovernmentSite.id,
+      });
+      
+      if (mainSiteResult.success) {
+        scrapingResults.push(mainSiteResult);
+        console.log(`Successfully scraped real government site: ${mainSiteResult.title}`);
+      }
+      const attempted = [mainSiteResult];
+
+      // Scrape permit-specific pages if different from main site
+      if (realGovernmentSite.permitUrl && realGovernmentSite.permitUrl !== realGovernmentSite.website) {
+        console.log(`Scraping real permit page: ${realGovernmentSite.permitUrl}`);
+        const permitResult = await webScraper.scrapeUrl(realGovernmentSite.permitUrl, {
+          timeout: 15000,
+          delayBetweenRequests: 2000,
+          maxRetries: 2,
+          enableAdvancedExtraction: true,
+          jurisdictionId: realGovernmentSite.id,
+        });
+        
+        if (permitResult.success) {
+          scrapingResults.push(permitResult);
+          console.log(`Successfully scraped real permit page: ${permitResult.title}`);
+        }
+        attempted.push(permitResult);
+      }
+
+      // Scrape forms page if available
+      if (realGovernmentSite.formsUrl) {
+        console.log(`Scraping real forms page: ${realGovernmentSite.formsUrl}`);
+        const formsResult = await webScraper.scrapeUrl(realGovernmentSite.formsUrl, {
+          timeout: 15000,
+          delayBetweenRequests: 2000,
+          maxRetries: 2,
+          enableAdvancedExtraction: true,
+          jurisdictionId: realGovernmentSite.id,
+        });
+        
+        if (formsResult.success) {
+          scrapingResults.push(formsResult);
+          console.log(`Successfully scraped real forms page: ${formsResult.title}`);
+        }
+        attempted.push(formsResult);
+      }
+
+      // Say which site is down rather than quietly falling back to generated data
+      if (attempted.some(result => result.siteUnreachable)) {
+        warnings.push(`${realGovernmentSite.name} site is currently unreachable`);
+      }
+
+    } catch (error) {
+      console.warn('Real government site scraping failed, falling back to generated data:', error);
+      warnings.push(`${realGovernmentSite.name} site could not be read, so some details are general estimates`);
+    }
+    
+  } else {
+    console.log(`No real government site found for ${address.city}, ${address.state} - using generated data`);
+    
+    // Fall back to generated jurisdiction data
+    const phone = getContactPhone(address.city, address.state);
+    
+    jurisdiction = {
+      id: `jurisdiction-${cityName}-${stateCode}`,
+      name: `${address.city}, ${address.state}`,
+      type: 'city',
+      address: address,
+      website: `https://www.${cityName}.gov`,
+      permitUrl: `https://www.${cityName}.gov/permits`,
+      contactInfo: {
+        phone,
+        email: getContactEmail(address.city, address.state),
+        address: address,
+        hoursOfOperation: {
+          monday: { open: '8:00', close: '17:00' },
+          tuesday: { open: '8:00', close: '17:00' },
+          wednesday: { open: '8:00', close: '17:00' },
+          thursday: { open: '8:00', close: '17:00' },
+          friday: { open: '8:00', close: '17:00' },
+        },
+        provenance: {
+          phone: phone === PLACEHOLDER_PHONE
+            ? syntheticProvenance
+            : createProvenance('curated_registry'),
+          email: syntheticProvenance,
+          address: syntheticProvenance,
+          hoursOfOperation: syntheticProvenance,
+        },
+      },
+      lastUpdated: new Date(),
+      isActive: true,
+    };
+  }
+
+  console.log('Created jurisdiction:', jurisdiction.name);
+
+  // Generate detailed permit information (enhanced with real data if available)
+  const formsBaseUrl = realGovernmentSite
+    ? (realGovernmentSite.formsUrl || realGovernmentSite.permitUrl || realGovernmentSite.website)
+    : undefined;
+  // Permit types entered in the registry are used as-is; otherwise generate the usual set
+  const detailedPermits: PermitType[] = realGovernmentSite && realGovernmentSite.permitTypes.length > 0
+    ? withPermitProvenance(
+        realGovernmentSite.permitTypes,
+        createProvenance('curated_registry', realGovernmentSite.permitUrl || realGovernmentSite.website)
+      )
+    : generateDetailedPermits(
+        address.city,
+        address.state,
+        formsBaseUrl
+      );
+  
+  // Enhance with real data if available
+  const finalPermits = detailedPermits;
+  const realForms: PermitForm[] = [];
+  
+  if (scrapingResults.length > 0) {
+    console.log(`Processing ${scrapingResults.length} real scraping results`);
+    
+    // Extract real forms from scraping results
+    for (const result of scrapingResults) {
+      if (result.structured?.permitForms) {
+        realForms.push(...result.structured.permitForms);
+      }
+      if (result.structured?.detectedForms) {
+        // Convert detected forms to PermitForm format
+        const formProvenance = createProvenance('static_extractor', result.url);
+        const convertedForms = result.structured.detectedForms.map((form): PermitForm => ({
+          id: `form-${Date.now()}-${Math.random()}`,
+          name: form.name,
+          url: form.url,
+          fileType: form.fileType === 'docx' || form.fileType === 'xls' || form.fileType === 'xlsx' ? 'doc' : form.fileType,
+          isRequired: form.isRequired || false,
+          description: form.description || `Downloadable form: ${form.name}`,
+        }));
+        realForms.push(...withFormProvenance(convertedForms, formProvenance));
+      }
+    }
+    
+    console.log(`Found ${realForms.length} real forms from scraping`);
+  }
+  
+  // Only return real, discovered forms. Generated placeholders can lead to dead links.
+  // If none were found, return an empty list so the UI falls back to portal links.
+  const allForms = realForms
+    .filter(f => {
+      // Basic sanity checks to avoid malformed links
+      return typeof f.url === 'string' && /^https?:\/\//i.test(f.url);
+    });
+  
+  // Create comprehensive response with detailed information
+  const detailedResponse: SearchResponse = {
+    jurisdiction,
+    permits: finalPermits,
+    forms: allForms,
+    contact: jurisdiction.contactInfo,
+    processingInfo: {
+      averageTime: '5-15 business days depending on permit type',
+      inspectionSchedule: 'Inspections scheduled 24-48 hours after request',
+      appealProcess: 'Appeals must be filed within 30 days of permit decision',
+      rushOptions: ['Express processing available for additional fee', 'Same-day review for minor permits'],
+      provenance: syntheticProvenance,
+    },
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+
+  await cacheSearchResponse(address, detailedResponse, 'sync');
+  return detailedResponse;
+}
+
+// Re-run a cached search with the pipeline that produced it, or reuse a refresh another request
+// just started. Job results get a search job whose id is returned for the client to follow; sync
+// results are searched again in the background, and the next search picks them up.
+// If the refresh can't start, the stale results are still served, just not refreshed.
+async function refreshCachedSearch(address: ValidatedSearchRequest['address'], cached: CachedSearch): Promise<string | undefined> {
+  if (cached.refresh && Date.now() - cached.refresh.startedAt.getTime() < REFRESH_REUSE_WINDOW) {
+    return cached.refresh.jobId;
+  }
+
+  if (cached.pipeline === 'sync') {
+    try {
+      await markSearchRefresh(address, cached);
+    } catch (error) {
+      console.warn('Could not start a refresh of cached search results:', error);
+      return undefined;
+    }
+    runSyncSearch(address).catch(error => {
+      console.error(`Background refresh of ${cached.response.jurisdiction.name} failed:`, error);
+    });
+    return undefined;
+  }
+
+  try {
+    const job = await searchJobManager.createJob(address);
+    searchJobManager.executeJob(job.id).catch(error => {
+      console.error(`Background refresh job ${job.id} failed:`, error);
+    });
+    await markSearchRefresh(address, cached, job.id);
+    return job.id;
+  } catch (error) {
+    console.warn('Could not start a refresh of cached search results:', error);
+    return undefined;
+  }
+}
+
+// Answer from an earlier search of the same jurisdiction if it's recent enough for the user's
+// plan. Stale results are still returned, with a job refreshing them in the background.
+async function serveCachedSearch(request: ValidatedSearchRequest): Promise<SearchResponse | null> {
+  const cached = await getCachedSearch(request.address);
+  if (!cached) {
+    return null;
+  }
+
+  const { freshForHours, maxStaleHours } = await getSearchFreshness();
+  const age = Date.now() - cached.cachedAt.getTime();
+  if (age > maxStaleHours * HOUR) {
+    return null;
+  }
+
+  const stale = age > freshForHours * HOUR;
+  const refreshJobId = stale ? await refreshCachedSearch(request.address, cached) : undefined;
+  console.log(`Serving ${stale ? 'stale' : 'fresh'} cached results for ${cached.response.jurisdiction.name} (${Math.round(age / 60000)} minutes old)`);
+
+  return {
+    ...fitSearchResponse(cached.response, request),
+    cached: {
+      cachedAt: cached.cachedAt,
+      ageSeconds: Math.floor(age / 1000),
+      stale,
+      refreshJobId,
+    },
+  };
 }
 
 // Original POST handler without usage tracking
@@ -196,206 +517,47 @@ async function handleSearchRequest(request: NextRequest): Promise<NextResponse>
     
     const validatedRequest = searchRequestSchema.parse(body);
 
+    // Cached results are returned right away in either mode
+    const cachedResponse = await serveCachedSearch(validatedRequest);
+    if (cachedResponse) {
+      return NextResponse.json<ApiResponse<SearchResponse>>({
+        success: true,
+        data: cachedResponse,
+        timestamp: new Date(),
+      });
+    }
+
     if (mode === 'async') {
-      const job = searchJobManager.createJob(validatedRequest.address);
+      const job = await searchJobManager.createJob(validatedRequest.address, validatedRequest.scope, await getSessionUserId());
       
       // Start job execution asynchronously
       searchJobManager.executeJob(job.id).catch(error => {
         console.error(`Background job ${job.id} failed:`, error);
       });
 
-      return NextResponse.json<ApiResponse<{ jobId: string; estimatedTime: string }>>({
+      return NextResponse.json<ApiResponse<{ jobId: string; cancelToken: string; estimatedTime: string }>>({
         success: true,
         data: {
           jobId: job.id,
+          cancelToken: job.cancelToken,
           estimatedTime: '30-60 seconds'
         },
         timestamp: new Date(),
       });
     }
     
-    console.log('Creating enhanced jurisdiction for address:', validatedRequest.address);
-    
-    const cityName = validatedRequest.address.city.toLowerCase().replace(/\s+/g, '');
-    const stateCode = validatedRequest.address.state.toLowerCase();
-    
-    // Check if we have real government site data
-    const realGovernmentSite = findGovernmentSite(validatedRequest.address.city, validatedRequest.address.state);
-    
-    let jurisdiction: Jurisdiction;
-    const scrapingResults: ScrapingResult[] = [];
-    
-    if (realGovernmentSite) {
-      console.log(`Found real government site for ${validatedRequest.address.city}, ${validatedRequest.address.state}`);
-      
-      // Use real government site data
-      jurisdiction = {
-        id: `jurisdiction-${cityName}-${stateCode}`,
-        name: `${validatedRequest.address.city}, ${validatedRequest.address.state}`,
-        type: 'city',
-        address: validatedRequest.address,
-        website: realGovernmentSite.website,
-        permitUrl: realGovernmentSite.permitUrl,
-        contactInfo: {
-          phone: realGovernmentSite.contactInfo.phone,
-          email: realGovernmentSite.contactInfo.email,
-          address: validatedRequest.address,
-          hoursOfOperation: {
-            monday: { open: '8:00', close: '17:00' },
-            tuesday: { open: '8:00', close: '17:00' },
-            wednesday: { open: '8:00', close: '17:00' },
-            thursday: { open: '8:00', close: '17:00' },
-            friday: { open: '8:00', close: '17:00' },
-          },
-        },
-        lastUpdated: new Date(),
-        isActive: true,
-      };
-      
-      console.log('Using real government site data:', jurisdiction.name);
-      
-      // Attempt real scraping of government websites
-      try {
-        console.log(`Scraping real government website: ${realGovernmentSite.website}`);
-        const mainSiteResult = await webScraper.scrapeUrl(realGovernmentSite.website, {
-          timeout: 15000,
-          delayBetweenRequests: 2000,
-          maxRetries: 2,
-          enableAdvancedExtraction: true,
-        });
-        
-        if (mainSiteResult.success) {
-          scrapingResults.push(mainSiteResult);
-          console.log(`Successfully scraped real government site: ${mainSiteResult.title}`);
-        }
-
-        // Scrape permit-specific pages if different from main site
-        if (realGovernmentSite.permitUrl && realGovernmentSite.permitUrl !== realGovernmentSite.website) {
-          console.log(`Scraping real permit page: ${realGovernmentSite.permitUrl}`);
-          const permitResult = await webScraper.scrapeUrl(realGovernmentSite.permitUrl, {
-            timeout: 15000,
-            delayBetweenRequests: 2000,
-            maxRetries: 2,
-            enableAdvancedExtraction: true,
-          });
-          
-          if (permitResult.success) {
-            scrapingResults.push(permitResult);
-            console.log(`Successfully scraped real permit page: ${permitResult.title}`);
-          }
-        }
+    let detailedResponse = await runSyncSearch(validatedRequest.address);
 
-        // Scrape forms page if available
-        if (realGovernmentSite.formsUrl) {
-          console.log(`Scraping real forms page: ${realGovernmentSite.formsUrl}`);
-          const formsResult = await webScraper.scrapeUrl(realGovernmentSite.formsUrl, {
-            timeout: 15000,
-            delayBetweenRequests: 2000,
-            maxRetries: 2,
-            enableAdvancedExtraction: true,
-          });
-          
-          if (formsResult.success) {
-            scrapingResults.push(formsResult);
-            console.log(`Successfully scraped real forms page: ${formsResult.title}`);
-          }
-        }
-
-      } catch (error) {
-        console.warn('Real government site scraping failed, falling back to generated data:', error);
-      }
-      
-    } else {
-      console.log(`No real government site found for ${validatedRequest.address.city}, ${validatedRequest.address.state} - using generated data`);
-      
-      // Fall back to generated jurisdiction data
-      jurisdiction = {
-        id: `jurisdiction-${cityName}-${stateCode}`,
-        name: `${validatedRequest.address.city}, ${validatedRequest.address.state}`,
-        type: 'city',
-        address: validatedRequest.address,
-        website: `https://www.${cityName}.gov`,
-        permitUrl: `https://www.${cityName}.gov/permits`,
-        contactInfo: {
-          phone: getContactPhone(validatedRequest.address.city, validatedRequest.address.state),
-          email: getContactEmail(validatedRequest.address.city, validatedRequest.address.state),
-          address: validatedRequest.address,
-          hoursOfOperation: {
-            monday: { open: '8:00', close: '17:00' },
-            tuesday: { open: '8:00', close: '17:00' },
-            wednesday: { open: '8:00', close: '17:00' },
-            thursday: { open: '8:00', close: '17:00' },
-            friday: { open: '8:00', close: '17:00' },
-          },
-        },
-        lastUpdated: new Date(),
-        isActive: true,
-      };
+    // With a scope of work, return only the permits that project needs
+    if (validatedRequest.scope) {
+      const determination = determinePermits(
+        validatedRequest.scope,
+        validatedRequest.address.city,
+        validatedRequest.address.state
+      );
+      detailedResponse = applyDetermination(detailedResponse, determination);
     }
 
-    console.log('Created jurisdiction:', jurisdiction.name);
-
-    // Generate detailed permit information (enhanced with real data if available)
-    const formsBaseUrl = realGovernmentSite
-      ? (realGovernmentSite.formsUrl || realGovernmentSite.permitUrl || realGovernmentSite.website)
-      : undefined;
-    const detailedPermits = generateDetailedPermits(
-      validatedRequest.address.city,
-      validatedRequest.address.state,
-      formsBaseUrl
-    );
-    
-    // Enhance with real data if available
-    const finalPermits = detailedPermits;
-    const realForms: PermitForm[] = [];
-    
-    if (scrapingResults.length > 0) {
-      console.log(`Processing ${scrapingResults.length} real scraping results`);
-      
-      // Extract real forms from scraping results
-      for (const result of scrapingResults) {
-        if (result.structured?.permitForms) {
-          realForms.push(...result.structured.permitForms);
-        }
-        if (result.structured?.detectedForms) {
-          // Convert detected forms to PermitForm format
-          const convertedForms = result.structured.detectedForms.map(form => ({
-            id: `form-${Date.now()}-${Math.random()}`,
-            name: form.name,
-            url: form.url,
-            fileType: form.fileType === 'docx' || form.fileType === 'xls' || form.fileType === 'xlsx' ? 'doc' : form.fileType,
-            isRequired: form.isRequired || false,
-            description: form.description || `Downloadable form: ${form.name}`,
-          }));
-          realForms.push(...convertedForms);
-        }
-      }
-      
-      console.log(`Found ${realForms.length} real forms from scraping`);
-    }
-    
-    // Only return real, discovered forms. Generated placeholders can lead to dead links.
-    // If none were found, return an empty list so the UI falls back to portal links.
-    const allForms = realForms
-      .filter(f => {
-        // Basic sanity checks to avoid malformed links
-        return typeof f.url === 'string' && /^https?:\/\//i.test(f.url);
-      });
-    
-    // Create comprehensive response with detailed information
-    const detailedResponse: SearchResponse = {
-      jurisdiction,
-      permits: finalPermits,
-      forms: allForms,
-      contact: jurisdiction.contactInfo,
-      processingInfo: {
-        averageTime: '5-15 business days depending on permit type',
-        inspectionSchedule: 'Inspections scheduled 24-48 hours after request',
-        appealProcess: 'Appeals must be filed within 30 days of permit decision',
-        rushOptions: ['Express processing available for additional fee', 'Same-day review for minor permits'],
-      },
-    };
-
     return NextResponse.json<ApiResponse<SearchResponse>>({
       success: true,
       data: detailedResponse,
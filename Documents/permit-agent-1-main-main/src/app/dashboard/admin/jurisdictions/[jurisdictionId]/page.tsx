@@ -0,0 +1,367 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useParams, useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Activity, Building2, CheckCircle, History, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { JurisdictionChange, RegistryJurisdiction, ScrapeRecord, ScrapeRecordDetail, ScrapeStats } from '@/types';
+import { describePageChange } from '@/lib/monitoring/diff';
+
+const PAGE_SIZE = 50;
+
+// A run whose page text differs from the previous successful run of the same URL
+function findChangedScrapes(scrapes: ScrapeRecord[]): Set<string> {
+  const changed = new Set<string>();
+  const olderChecksums = new Map<string, string>();
+  // Scrapes are newest first, so walk oldest to newest
+  for (const scrape of [...scrapes].reverse()) {
+    if (!scrape.success || !scrape.contentChecksum) continue;
+    const previous = olderChecksums.get(scrape.url);
+    if (previous && previous !== scrape.contentChecksum) {
+      changed.add(scrape.id);
+    }
+    olderChecksums.set(scrape.url, scrape.contentChecksum);
+  }
+  return changed;
+}
+
+function countOf(data: Record<string, unknown> | undefined, key: string): number {
+  const value = data?.[key];
+  return Array.isArray(value) ? value.length : 0;
+}
+
+export default function JurisdictionScrapeHistoryPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const { jurisdictionId } = useParams<{ jurisdictionId: string }>();
+
+  const [jurisdiction, setJurisdiction] = useState<RegistryJurisdiction | null>(null);
+  const [stats, setStats] = useState<ScrapeStats | null>(null);
+  const [scrapes, setScrapes] = useState<ScrapeRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [changes, setChanges] = useState<JurisdictionChange[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [checkStatus, setCheckStatus] = useState<string | null>(null);
+  const [selected, setSelected] = useState<ScrapeRecordDetail | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = session?.user?.role === 'admin';
+
+  useEffect(() => {
+    if (status === 'loading') return; // Still loading
+    if (!session) {
+      router.push('/sign-in');
+    }
+  }, [session, status, router]);
+
+  const loadScrapes = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      const result = await fetch(`/api/admin/jurisdictions/${jurisdictionId}/scrapes?${params}`).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load scrape history');
+      }
+
+      setStats(result.data.stats);
+      setScrapes(previous => offset === 0 ? result.data.scrapes : [...previous, ...result.data.scrapes]);
+      setTotal(result.data.total);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load scrape history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [jurisdictionId]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    fetch(`/api/admin/jurisdictions/${jurisdictionId}`)
+      .then(res => res.json())
+      .then(result => {
+        if (result.success) {
+          setJurisdiction(result.data);
+        } else {
+          setError(result.error || 'Failed to load jurisdiction');
+        }
+      })
+      .catch(() => setError('Failed to load jurisdiction'));
+    fetch(`/api/admin/jurisdictions/${jurisdictionId}/changes`)
+      .then(res => res.json())
+      .then(result => {
+        if (result.success) {
+          setChanges(result.data.changes);
+        }
+      })
+      .catch(() => setError('Failed to load change log'));
+    loadScrapes(0);
+  }, [isAdmin, jurisdictionId, loadScrapes]);
+
+  const handleCheckNow = async () => {
+    setIsChecking(true);
+    setCheckStatus(null);
+
+    try {
+      const result = await fetch(`/api/admin/jurisdictions/${jurisdictionId}/changes`, { method: 'POST' }).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to check for changes');
+      }
+
+      setChanges(previous => [...result.data, ...previous]);
+      setCheckStatus(result.data.length > 0 ? `${result.data.length} page(s) changed` : 'No changes found');
+      loadScrapes(0);
+    } catch (error) {
+      setCheckStatus(error instanceof Error ? error.message : 'Failed to check for changes');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleSelect = async (id: string) => {
+    setLoadingId(id);
+
+    try {
+      const result = await fetch(`/api/admin/scrapes/${id}`).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load scrape');
+      }
+      setSelected(result.data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load scrape');
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null; // Will redirect
+  }
+
+  const changedScrapes = findChangedScrapes(scrapes);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link href="/dashboard/admin/jurisdictions" className="flex items-center gap-3 hover:opacity-80 transition-opacity">
+            <Building2 className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">PermitAgent</h1>
+              <p className="text-gray-600 text-sm">Scrape History</p>
+            </div>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {!isAdmin ? (
+          <p className="text-gray-600">Admin access is required to view scrape history.</p>
+        ) : (
+          <>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Jurisdiction</CardDescription>
+                  <CardTitle className="text-lg">
+                    {jurisdiction ? `${jurisdiction.name}, ${jurisdiction.state}` : '...'}
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Success rate</CardDescription>
+                  <CardTitle className="text-lg">
+                    {stats ? `${Math.round(stats.successRate * 100)}% of ${stats.total}` : '...'}
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Last scraped</CardDescription>
+                  <CardTitle className="text-lg">
+                    {stats?.lastScrapedAt ? new Date(stats.lastScrapedAt).toLocaleString() : 'Never'}
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Last success</CardDescription>
+                  <CardTitle className="text-lg">
+                    {stats?.lastSuccessAt ? new Date(stats.lastSuccessAt).toLocaleString() : 'Never'}
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <History className="h-5 w-5 text-blue-600" />
+                      Change Log
+                    </CardTitle>
+                    <CardDescription>
+                      Forms, fees and contact details that changed on the permit and forms pages
+                      {jurisdiction?.monitorIntervalHours && ` (checked every ${jurisdiction.monitorIntervalHours}h)`}.
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleCheckNow} disabled={isChecking}>
+                    {isChecking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                    Check Now
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {checkStatus && <p className="text-sm text-gray-600">{checkStatus}</p>}
+                {changes.length === 0 ? (
+                  <p className="text-gray-500">No changes detected yet.</p>
+                ) : (
+                  changes.map(change => (
+                    <div key={change.id} className="border-b last:border-0 pb-3">
+                      <p className="text-sm text-gray-500">
+                        {new Date(change.detectedAt).toLocaleString()} &middot; <span className="break-all">{change.url}</span>
+                      </p>
+                      <ul className="mt-1 text-sm text-gray-800 list-disc pl-5">
+                        {change.changes.map((pageChange, index) => <li key={index}>{describePageChange(pageChange)}</li>)}
+                      </ul>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Activity className="h-5 w-5 text-blue-600" />
+                  Timeline
+                </CardTitle>
+                <CardDescription>
+                  Every scrape of this jurisdiction&apos;s sites, newest first. Select a run to see what it extracted.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {scrapes.length === 0 && !isLoading ? (
+                  <p className="text-gray-500">No scrapes recorded yet.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-600">
+                        <th className="py-2 font-medium">When</th>
+                        <th className="py-2 font-medium">URL</th>
+                        <th className="py-2 font-medium">Result</th>
+                        <th className="py-2 font-medium">Quality</th>
+                        <th className="py-2 font-medium">Duration</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {scrapes.map(scrape => (
+                        <tr
+                          key={scrape.id}
+                          onClick={() => handleSelect(scrape.id)}
+                          className={`border-b last:border-0 cursor-pointer hover:bg-gray-50 ${selected?.id === scrape.id ? 'bg-blue-50' : ''}`}
+                        >
+                          <td className="py-2 whitespace-nowrap">
+                            {loadingId === scrape.id && <Loader2 className="inline h-3 w-3 mr-1 animate-spin" />}
+                            {new Date(scrape.scrapedAt).toLocaleString()}
+                          </td>
+                          <td className="py-2 text-gray-700 break-all">{scrape.url}</td>
+                          <td className="py-2">
+                            {scrape.success ? (
+                              <span className="flex items-center gap-1 text-green-700">
+                                <CheckCircle className="h-4 w-4" />
+                                OK
+                                {changedScrapes.has(scrape.id) && <Badge variant="secondary">Changed</Badge>}
+                              </span>
+                            ) : (
+                              <span className="flex items-center gap-1 text-red-700" title={scrape.errors.join('\n')}>
+                                <XCircle className="h-4 w-4" />
+                                Failed
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 text-gray-700">
+                            {scrape.dataQuality !== undefined ? scrape.dataQuality.toFixed(2) : '-'}
+                          </td>
+                          <td className="py-2 text-gray-700">
+                            {scrape.durationMs !== undefined ? `${(scrape.durationMs / 1000).toFixed(1)}s` : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {scrapes.length < total && (
+                  <div className="mt-4 text-center">
+                    <Button variant="outline" onClick={() => loadScrapes(scrapes.length)} disabled={isLoading}>
+                      {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Load More
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {selected && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{selected.title || selected.url}</CardTitle>
+                  <CardDescription>
+                    {new Date(selected.scrapedAt).toLocaleString()}
+                    {selected.contentChecksum && <> &middot; checksum {selected.contentChecksum.slice(0, 12)}</>}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {selected.errors.length > 0 && (
+                    <ul className="text-sm text-red-700 list-disc pl-5">
+                      {selected.errors.map((message, index) => <li key={index}>{message}</li>)}
+                    </ul>
+                  )}
+                  {selected.extractedData ? (
+                    <>
+                      <div className="flex flex-wrap gap-2 text-sm">
+                        <Badge variant="secondary">{countOf(selected.extractedData, 'fees')} fees</Badge>
+                        <Badge variant="secondary">{countOf(selected.extractedData, 'permitForms')} forms</Badge>
+                        <Badge variant="secondary">{countOf(selected.extractedData, 'requirements')} requirements</Badge>
+                        <Badge variant="secondary">{countOf(selected.extractedData, 'tables')} tables</Badge>
+                      </div>
+                      <pre className="max-h-[32rem] overflow-auto rounded-md bg-gray-900 p-4 text-xs text-gray-100">
+                        {JSON.stringify(selected.extractedData, null, 2)}
+                      </pre>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500">No structured data was extracted on this run.</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
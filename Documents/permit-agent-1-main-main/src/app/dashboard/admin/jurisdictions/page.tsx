@@ -0,0 +1,172 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Building2, Landmark, Loader2, Search } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { RegistryJurisdiction } from '@/types';
+
+const PAGE_SIZE = 50;
+
+export default function JurisdictionRegistryPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  const [jurisdictions, setJurisdictions] = useState<RegistryJurisdiction[]>([]);
+  const [total, setTotal] = useState(0);
+  const [state, setState] = useState('');
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = session?.user?.role === 'admin';
+
+  useEffect(() => {
+    if (status === 'loading') return; // Still loading
+    if (!session) {
+      router.push('/sign-in');
+    }
+  }, [session, status, router]);
+
+  const loadJurisdictions = useCallback(async (offset: number, filters: { state: string; query: string }) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset), includeInactive: 'true' });
+      if (filters.state) params.set('state', filters.state);
+      if (filters.query) params.set('q', filters.query);
+
+      const result = await fetch(`/api/admin/jurisdictions?${params}`).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load jurisdictions');
+      }
+
+      setJurisdictions(previous => offset === 0 ? result.data.jurisdictions : [...previous, ...result.data.jurisdictions]);
+      setTotal(result.data.total);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load jurisdictions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadJurisdictions(0, { state: '', query: '' });
+    }
+  }, [isAdmin, loadJurisdictions]);
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link href="/dashboard" className="flex items-center gap-3 hover:opacity-80 transition-opacity">
+            <Building2 className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">PermitAgent</h1>
+              <p className="text-gray-600 text-sm">Jurisdiction Registry</p>
+            </div>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!isAdmin ? (
+          <p className="text-gray-600">Admin access is required to view the jurisdiction registry.</p>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Landmark className="h-5 w-5 text-blue-600" />
+                Jurisdictions
+              </CardTitle>
+              <CardDescription>{total} in the registry. Open one to see its scrape history.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="flex gap-2 mb-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  loadJurisdictions(0, { state: state.trim(), query: query.trim() });
+                }}
+              >
+                <Input value={state} onChange={(e) => setState(e.target.value)} placeholder="State" maxLength={2} className="w-20" />
+                <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Name or alias" className="max-w-xs" />
+                <Button type="submit" variant="outline">
+                  <Search className="h-4 w-4 mr-2" />
+                  Search
+                </Button>
+              </form>
+
+              {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 font-medium">Jurisdiction</th>
+                    <th className="py-2 font-medium">Website</th>
+                    <th className="py-2 font-medium">Permit Types</th>
+                    <th className="py-2 font-medium">Updated</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {jurisdictions.map(jurisdiction => (
+                    <tr key={jurisdiction.id} className="border-b last:border-0 align-top">
+                      <td className="py-3">
+                        <Link href={`/dashboard/admin/jurisdictions/${jurisdiction.id}`} className="font-medium text-blue-600 hover:underline">
+                          {jurisdiction.name}, {jurisdiction.state}
+                        </Link>
+                        {!jurisdiction.isActive && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                        {jurisdiction.aliases.length > 0 && (
+                          <div className="text-gray-500">Also: {jurisdiction.aliases.join(', ')}</div>
+                        )}
+                      </td>
+                      <td className="py-3 text-gray-700 break-all">{jurisdiction.website}</td>
+                      <td className="py-3 text-gray-700">{jurisdiction.permitTypes.length}</td>
+                      <td className="py-3 text-gray-700">{new Date(jurisdiction.updatedAt).toLocaleDateString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {jurisdictions.length < total && (
+                <div className="mt-4 text-center">
+                  <Button
+                    variant="outline"
+                    onClick={() => loadJurisdictions(jurisdictions.length, { state: state.trim(), query: query.trim() })}
+                    disabled={isLoading}
+                  >
+                    {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load More
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
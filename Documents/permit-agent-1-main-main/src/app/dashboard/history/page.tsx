@@ -0,0 +1,271 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Building2, History, RefreshCw, Trash2, Eye, Loader2, Tag } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { SearchResults } from '@/components/dashboard/search-results';
+import { SavedSearchDetails } from '@/components/dashboard/saved-search-details';
+import { SavedSearch, SavedSearchSummary } from '@/types';
+import { formatAddress } from '@/lib/utils';
+
+const PAGE_SIZE = 20;
+
+export default function SearchHistoryPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  const [searches, setSearches] = useState<SavedSearchSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [tagFilter, setTagFilter] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SavedSearch | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'loading') return; // Still loading
+    if (!session) {
+      router.push('/sign-in');
+    }
+  }, [session, status, router]);
+
+  const loadSearches = useCallback(async (offset: number, tag: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (tag) {
+        params.set('tag', tag);
+      }
+
+      const result = await fetch(`/api/saved-searches?${params}`).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load search history');
+      }
+
+      setSearches(previous => offset === 0 ? result.data.searches : [...previous, ...result.data.searches]);
+      setTotal(result.data.total);
+    } catch (error) {
+      console.error('Search history error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load search history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session) {
+      loadSearches(0, '');
+    }
+  }, [session, loadSearches]);
+
+  const updateSummary = (updated: SavedSearch) => {
+    setSearches(previous => previous.map(search => search.id === updated.id ? { ...search, ...updated } : search));
+  };
+
+  const handleView = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+
+    try {
+      const result = await fetch(`/api/saved-searches/${id}`).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load saved search');
+      }
+      setSelected(result.data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load saved search');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRerun = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+
+    try {
+      const result = await fetch(`/api/saved-searches/${id}/run`, { method: 'POST' }).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to re-run search');
+      }
+      updateSummary(result.data);
+      setSelected(result.data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to re-run search');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this saved search?')) return;
+    setBusyId(id);
+    setError(null);
+
+    try {
+      const result = await fetch(`/api/saved-searches/${id}`, { method: 'DELETE' }).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete saved search');
+      }
+      setSearches(previous => previous.filter(search => search.id !== id));
+      setTotal(previous => previous - 1);
+      if (selected?.id === id) {
+        setSelected(null);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete saved search');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link href="/dashboard" className="flex items-center gap-3 hover:opacity-80 transition-opacity">
+            <Building2 className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">PermitAgent</h1>
+              <p className="text-gray-600 text-sm">Search History</p>
+            </div>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5 text-blue-600" />
+              Past Searches
+            </CardTitle>
+            <CardDescription>
+              {total} saved search{total === 1 ? '' : 'es'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex gap-2 mb-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setSelected(null);
+                loadSearches(0, tagFilter.trim());
+              }}
+            >
+              <Input
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                placeholder="Filter by tag"
+                className="max-w-xs"
+              />
+              <Button type="submit" variant="outline">
+                <Tag className="h-4 w-4 mr-2" />
+                Filter
+              </Button>
+            </form>
+
+            {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+            {searches.length === 0 && !isLoading ? (
+              <div className="text-center py-8 text-gray-500">
+                <History className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+                <p>No saved searches yet</p>
+                <p className="text-sm">Searches you run while signed in appear here</p>
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 font-medium">Search</th>
+                    <th className="py-2 font-medium">Jurisdiction</th>
+                    <th className="py-2 font-medium">Last Run</th>
+                    <th className="py-2 font-medium text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {searches.map(search => (
+                    <tr key={search.id} className="border-b last:border-0 align-top">
+                      <td className="py-3">
+                        <div className="font-medium text-gray-900">{search.name || formatAddress(search.address)}</div>
+                        {search.name && <div className="text-gray-500">{formatAddress(search.address)}</div>}
+                        {search.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {search.tags.map(tag => (
+                              <Badge key={tag} variant="secondary">{tag}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 text-gray-700">{search.jurisdictionName || 'Unknown'}</td>
+                      <td className="py-3 text-gray-700">{new Date(search.lastRunAt).toLocaleDateString()}</td>
+                      <td className="py-3">
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => handleView(search.id)} disabled={busyId === search.id}>
+                            <Eye className="h-4 w-4 mr-1" />
+                            View
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleRerun(search.id)} disabled={busyId === search.id}>
+                            {busyId === search.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+                            Re-run
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleDelete(search.id)} disabled={busyId === search.id}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {searches.length < total && (
+              <div className="mt-4 text-center">
+                <Button variant="outline" onClick={() => loadSearches(searches.length, tagFilter.trim())} disabled={isLoading}>
+                  {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load More
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <div className="space-y-6">
+            <SavedSearchDetails key={selected.id} savedSearch={selected} onUpdated={updateSummary} />
+            {selected.response ? (
+              <SearchResults results={selected.response} searchedAddress={formatAddress(selected.address)} />
+            ) : (
+              <p className="text-gray-600">This search has no stored results. Re-run it to get current results.</p>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
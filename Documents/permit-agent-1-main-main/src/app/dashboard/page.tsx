@@ -3,10 +3,13 @@
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
-import { Building2, User, Mail, Calendar, Search, Settings } from 'lucide-react';
+import { Building2, User, Mail, Calendar, Search, Settings, History } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
+import { ActiveProjects } from '@/components/dashboard/active-projects';
+import { CalendarFeeds } from '@/components/dashboard/calendar-feeds';
+import { Notifications } from '@/components/dashboard/notifications';
 
 export default function DashboardPage() {
   const { data: session, status } = useSession();
@@ -145,6 +148,21 @@ export default function DashboardPage() {
           </Card>
         </div>
 
+        {/* Jurisdiction Updates */}
+        <div className="mt-8">
+          <Notifications />
+        </div>
+
+        {/* Active Projects */}
+        <div className="mt-8">
+          <ActiveProjects />
+        </div>
+
+        {/* Calendar Feed */}
+        <div className="mt-8">
+          <CalendarFeeds />
+        </div>
+
         {/* Recent Activity */}
         <div className="mt-8">
           <Card>
@@ -156,9 +174,13 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-center py-8 text-gray-500">
-                <Search className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-                <p>No recent searches yet</p>
-                <p className="text-sm">Start your first permit search to see activity here</p>
+                <History className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+                <p>Searches you run while signed in are saved to your history</p>
+                <Link href="/dashboard/history" className="mt-4 inline-block">
+                  <Button variant="outline">
+                    View Search History
+                  </Button>
+                </Link>
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,530 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useParams, useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Building2, ClipboardCheck, Download, FolderOpen, History, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { describePermitAlert, PERMIT_ALERT_STYLES } from '@/components/dashboard/active-projects';
+import { CalendarFeeds } from '@/components/dashboard/calendar-feeds';
+import {
+  PermitStatus,
+  ProjectInspection,
+  ProjectPermit,
+  ProjectPermitEvent,
+  ProjectPermitField,
+  UserProject,
+} from '@/types';
+import { getPermitAlert, PERMIT_STATUS_LABELS, PERMIT_STATUS_TRANSITIONS } from '@/lib/projects/lifecycle';
+import { formatAddress } from '@/lib/utils';
+
+const FIELD_LABELS: Record<ProjectPermitField, string> = {
+  status: 'status',
+  permitNumber: 'permit number',
+  applicationDate: 'application date',
+  approvalDate: 'approval date',
+  expirationDate: 'expiration date',
+  notes: 'notes',
+};
+
+interface PermitDraft {
+  status: PermitStatus;
+  permitNumber: string;
+  applicationDate: string;
+  approvalDate: string;
+  expirationDate: string;
+  notes: string;
+}
+
+function toInputDate(value?: Date | string): string {
+  return value ? String(value).slice(0, 10) : '';
+}
+
+function toDraft(permit: ProjectPermit): PermitDraft {
+  return {
+    status: permit.status,
+    permitNumber: permit.permitNumber ?? '',
+    applicationDate: toInputDate(permit.applicationDate),
+    approvalDate: toInputDate(permit.approvalDate),
+    expirationDate: toInputDate(permit.expirationDate),
+    notes: permit.notes ?? '',
+  };
+}
+
+function describeEvent(event: ProjectPermitEvent): string {
+  if (event.action !== 'updated') {
+    return `${event.action} ${event.permitName}`;
+  }
+
+  const changes = Object.entries(event.changes).map(([field, change]) => {
+    const label = FIELD_LABELS[field as ProjectPermitField];
+    if (field === 'status' && change) {
+      const from = change.from ? PERMIT_STATUS_LABELS[change.from as PermitStatus] : 'none';
+      const to = change.to ? PERMIT_STATUS_LABELS[change.to as PermitStatus] : 'none';
+      return `${label} from ${from} to ${to}`;
+    }
+    return change?.to ? `${label} to "${change.to}"` : `cleared ${label}`;
+  });
+  return `changed ${event.permitName}: ${changes.join(', ')}`;
+}
+
+interface PermitRowProps {
+  projectId: string;
+  permit: ProjectPermit;
+  onSaved: () => void;
+}
+
+function PermitRow({ projectId, permit, onSaved }: PermitRowProps) {
+  const [draft, setDraft] = useState<PermitDraft>(() => toDraft(permit));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const alert = getPermitAlert(permit);
+
+  useEffect(() => {
+    setDraft(toDraft(permit));
+  }, [permit]);
+
+  const update = (field: keyof PermitDraft, value: string) => {
+    setDraft(previous => ({ ...previous, [field]: value }));
+  };
+
+  const request = async (init: RequestInit) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const result = await fetch(`/api/projects/${projectId}/permits/${permit.id}`, init).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update permit');
+      }
+      onSaved();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update permit');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => request({
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      status: draft.status,
+      permitNumber: draft.permitNumber.trim() || null,
+      applicationDate: draft.applicationDate || null,
+      approvalDate: draft.approvalDate || null,
+      expirationDate: draft.expirationDate || null,
+      notes: draft.notes.trim() || null,
+    }),
+  });
+
+  const handleRemove = () => {
+    if (!window.confirm(`Remove ${permit.name} from this project?`)) return;
+    request({ method: 'DELETE' });
+  };
+
+  return (
+    <div className={`border rounded-lg p-4 ${alert ? PERMIT_ALERT_STYLES[alert.kind] : ''}`}>
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div>
+          <h3 className="font-medium text-gray-900">{permit.name}</h3>
+          <p className="text-sm text-gray-500">
+            {permit.processingTime ? `Typical processing: ${permit.processingTime}` : 'No processing time on record'}
+          </p>
+          {alert && <p className="text-sm font-medium">{describePermitAlert(alert)}</p>}
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleRemove} disabled={isSaving}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 text-sm">
+        <label className="block">
+          <span className="block text-gray-700 mb-1">Status</span>
+          <select
+            value={draft.status}
+            onChange={(e) => update('status', e.target.value)}
+            className="w-full h-10 rounded-md border border-gray-300 bg-white px-2"
+          >
+            {[permit.status, ...PERMIT_STATUS_TRANSITIONS[permit.status]].map(status => (
+              <option key={status} value={status}>{PERMIT_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-gray-700 mb-1">Permit #</span>
+          <Input value={draft.permitNumber} onChange={(e) => update('permitNumber', e.target.value)} />
+        </label>
+        <label className="block">
+          <span className="block text-gray-700 mb-1">Applied</span>
+          <Input type="date" value={draft.applicationDate} onChange={(e) => update('applicationDate', e.target.value)} />
+        </label>
+        <label className="block">
+          <span className="block text-gray-700 mb-1">Approved</span>
+          <Input type="date" value={draft.approvalDate} onChange={(e) => update('approvalDate', e.target.value)} />
+        </label>
+        <label className="block">
+          <span className="block text-gray-700 mb-1">Expires</span>
+          <Input type="date" value={draft.expirationDate} onChange={(e) => update('expirationDate', e.target.value)} />
+        </label>
+      </div>
+      <label className="block mt-3 text-sm">
+        <span className="block text-gray-700 mb-1">Notes</span>
+        <textarea
+          value={draft.notes}
+          onChange={(e) => update('notes', e.target.value)}
+          rows={2}
+          className="w-full rounded-md border border-gray-300 bg-white px-3 py-2"
+        />
+      </label>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+const INSPECTION_STATUSES: ProjectInspection['status'][] = ['scheduled', 'passed', 'failed', 'cancelled'];
+
+interface InspectionsProps {
+  project: UserProject;
+  inspections: ProjectInspection[];
+  onChanged: () => void;
+}
+
+function Inspections({ project, inspections, onChanged }: InspectionsProps) {
+  const [permitId, setPermitId] = useState(project.permits[0]?.id ?? '');
+  const [inspectionType, setInspectionType] = useState('');
+  const [scheduledDate, setScheduledDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const permitNames = new Map(project.permits.map(permit => [permit.id, permit.name]));
+
+  const request = async (path: string, init: RequestInit) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const result = await fetch(`/api/projects/${project.id}/inspections${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save inspection');
+      }
+      onChanged();
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save inspection');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSchedule = async () => {
+    const saved = await request('', {
+      method: 'POST',
+      body: JSON.stringify({ permitId, inspectionType: inspectionType.trim(), scheduledDate }),
+    });
+    if (saved) {
+      setInspectionType('');
+      setScheduledDate('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-blue-600" />
+          Inspections
+        </CardTitle>
+        <CardDescription>Scheduled inspections and their results</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {inspections.length === 0 ? (
+          <p className="text-gray-500">No inspections scheduled.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 font-medium">Date</th>
+                <th className="py-2 font-medium">Inspection</th>
+                <th className="py-2 font-medium">Permit</th>
+                <th className="py-2 font-medium">Result</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {inspections.map(inspection => (
+                <tr key={inspection.id} className="border-b last:border-0">
+                  <td className="py-2">{toInputDate(inspection.scheduledDate)}</td>
+                  <td className="py-2">{inspection.inspectionType}</td>
+                  <td className="py-2 text-gray-600">{permitNames.get(inspection.projectPermitId)}</td>
+                  <td className="py-2">
+                    <select
+                      value={inspection.status}
+                      onChange={(e) => request(`/${inspection.id}`, { method: 'PATCH', body: JSON.stringify({ status: e.target.value }) })}
+                      disabled={isSaving}
+                      className="h-8 rounded-md border border-gray-300 bg-white px-2 capitalize"
+                    >
+                      {INSPECTION_STATUSES.map(status => (
+                        <option key={status} value={status}>{status}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 text-right">
+                    <Button size="sm" variant="outline" onClick={() => request(`/${inspection.id}`, { method: 'DELETE' })} disabled={isSaving}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {project.permits.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_auto] gap-3 items-end text-sm">
+            <label className="block">
+              <span className="block text-gray-700 mb-1">Permit</span>
+              <select
+                value={permitId}
+                onChange={(e) => setPermitId(e.target.value)}
+                className="w-full h-10 rounded-md border border-gray-300 bg-white px-2"
+              >
+                {project.permits.map(permit => (
+                  <option key={permit.id} value={permit.id}>{permit.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-gray-700 mb-1">Inspection</span>
+              <Input value={inspectionType} onChange={(e) => setInspectionType(e.target.value)} placeholder="e.g. Footing, Framing, Final" />
+            </label>
+            <label className="block">
+              <span className="block text-gray-700 mb-1">Date</span>
+              <Input type="date" value={scheduledDate} onChange={(e) => setScheduledDate(e.target.value)} />
+            </label>
+            <Button onClick={handleSchedule} disabled={isSaving || !permitId || !inspectionType.trim() || !scheduledDate}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+              Schedule
+            </Button>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ProjectPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const { projectId } = useParams<{ projectId: string }>();
+
+  const [project, setProject] = useState<UserProject | null>(null);
+  const [events, setEvents] = useState<ProjectPermitEvent[]>([]);
+  const [inspections, setInspections] = useState<ProjectInspection[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBuildingPacket, setIsBuildingPacket] = useState(false);
+  const [packetNotice, setPacketNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'loading') return; // Still loading
+    if (!session) {
+      router.push('/sign-in');
+    }
+  }, [session, status, router]);
+
+  const loadProject = useCallback(async () => {
+    try {
+      const result = await fetch(`/api/projects/${projectId}`).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load project');
+      }
+      setProject(result.data.project);
+      setEvents(result.data.events);
+      setError(null);
+
+      const inspectionsResult = await fetch(`/api/projects/${projectId}/inspections`).then(res => res.json());
+      if (inspectionsResult.success) {
+        setInspections(inspectionsResult.data);
+      }
+    } catch (error) {
+      console.error('Project load error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load project');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (session) {
+      loadProject();
+    }
+  }, [session, loadProject]);
+
+  const handleDeleteProject = async () => {
+    if (!window.confirm('Delete this project and its permit history?')) return;
+
+    const result = await fetch(`/api/projects/${projectId}`, { method: 'DELETE' }).then(res => res.json());
+    if (result.success) {
+      router.push('/dashboard');
+    } else {
+      setError(result.error || 'Failed to delete project');
+    }
+  };
+
+  const handleDownloadPacket = async () => {
+    setIsBuildingPacket(true);
+    setPacketNotice(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/packet`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || 'Failed to build the application packet');
+      }
+
+      const failedForms = parseInt(response.headers.get('X-Packet-Failed-Forms') || '0');
+      if (failedForms > 0) {
+        setPacketNotice(`${failedForms} form${failedForms === 1 ? '' : 's'} could not be downloaded. See manifest.json in the packet.`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'permit-packet.zip';
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Packet download error:', error);
+      setPacketNotice(error instanceof Error ? error.message : 'Failed to build the application packet');
+    } finally {
+      setIsBuildingPacket(false);
+    }
+  };
+
+  if (status === 'loading' || (session && !project && !error)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link href="/dashboard" className="flex items-center gap-3 hover:opacity-80 transition-opacity">
+            <Building2 className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">PermitAgent</h1>
+              <p className="text-gray-600 text-sm">Project</p>
+            </div>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {project && (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <FolderOpen className="h-5 w-5 text-blue-600" />
+                      {project.name}
+                    </CardTitle>
+                    <CardDescription>{formatAddress(project.address)}</CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleDownloadPacket}
+                      disabled={isBuildingPacket || project.permits.length === 0}
+                    >
+                      {isBuildingPacket ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+                      Application Packet
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleDeleteProject}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete Project
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {packetNotice && <p className="text-sm text-amber-700">{packetNotice}</p>}
+                {project.description && <p className="text-gray-700">{project.description}</p>}
+                {project.permits.length === 0 ? (
+                  <p className="text-gray-500">No permits are attached to this project.</p>
+                ) : (
+                  project.permits.map(permit => (
+                    <PermitRow key={permit.id} projectId={project.id} permit={permit} onSaved={loadProject} />
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Inspections project={project} inspections={inspections} onChanged={loadProject} />
+
+            <CalendarFeeds projectId={project.id} />
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5 text-blue-600" />
+                  Permit History
+                </CardTitle>
+                <CardDescription>Who changed what, newest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {events.length === 0 ? (
+                  <p className="text-gray-500">No changes recorded yet.</p>
+                ) : (
+                  <ul className="space-y-2 text-sm">
+                    {events.map(event => (
+                      <li key={event.id} className="flex justify-between gap-3 border-b last:border-0 pb-2">
+                        <span>
+                          <span className="font-medium text-gray-900">{event.changedBy}</span>{' '}
+                          <span className="text-gray-700">{describeEvent(event)}</span>
+                        </span>
+                        <span className="text-gray-500 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,23 +1,51 @@
 'use client';
 
 import { useState } from 'react';
+import { useSession } from 'next-auth/react';
 import { EnhancedAddressSearch } from '@/components/forms/enhanced-address-search';
 import { ProfileIcon } from '@/components/profile-icon';
 import { SearchResults } from '@/components/dashboard/search-results';
-import { SearchResponse } from '@/types';
+import { SavedSearchDetails } from '@/components/dashboard/saved-search-details';
+import { CreateProject } from '@/components/dashboard/create-project';
+import { SavedSearch, SearchRequest, SearchResponse } from '@/types';
 import { Building2, Search, FileText, Clock, AlertTriangle } from 'lucide-react';
 
 export default function HomePage() {
   const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
   const [searchError, setSearchError] = useState<string | null>(null);
   const [searchedAddress, setSearchedAddress] = useState<string>('');
+  const [savedSearch, setSavedSearch] = useState<SavedSearch | null>(null);
+  const { status: sessionStatus } = useSession();
 
-  const handleSearchResults = (results: SearchResponse, address?: string) => {
+  // Signed-in users' searches go to their history so they survive a reload
+  const saveToHistory = async (request: SearchRequest, response: SearchResponse) => {
+    try {
+      const result = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ request, response }),
+      }).then(res => res.json());
+
+      if (result.success) {
+        setSavedSearch(result.data);
+      }
+    } catch (error) {
+      console.warn('Failed to save search to history:', error);
+    }
+  };
+
+  const handleSearchResults = (results: SearchResponse, address?: string, request?: SearchRequest) => {
     setSearchResults(results);
     setSearchError(null);
+    setSavedSearch(null);
     if (address) {
       setSearchedAddress(address);
     }
+    if (request && sessionStatus === 'authenticated') {
+      saveToHistory(request, results);
+    }
   };
 
   const handleSearchError = (error: string) => {
@@ -29,6 +57,7 @@ export default function HomePage() {
     setSearchResults(null);
     setSearchError(null);
     setSearchedAddress('');
+    setSavedSearch(null);
   };
 
   return (
@@ -132,7 +161,20 @@ export default function HomePage() {
 
         {/* Search Results */}
         {searchResults && (
-          <SearchResults results={searchResults} searchedAddress={searchedAddress} />
+          <>
+            {savedSearch && (
+              <div className="w-full max-w-6xl mx-auto px-6 space-y-4">
+                <SavedSearchDetails savedSearch={savedSearch} />
+                <CreateProject
+                  key={savedSearch.id}
+                  results={searchResults}
+                  address={savedSearch.address}
+                  defaultName={searchedAddress}
+                />
+              </div>
+            )}
+            <SearchResults results={searchResults} searchedAddress={searchedAddress} />
+          </>
         )}
       </main>
 
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { FolderOpen, AlertTriangle, Clock, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ProjectPermitAlert, UserProject } from '@/types';
+import { getPermitAlert, isProjectActive, PERMIT_STATUS_LABELS } from '@/lib/projects/lifecycle';
+import { formatAddress } from '@/lib/utils';
+
+// Overdue and expired permits are red, ones expiring soon are yellow
+export const PERMIT_ALERT_STYLES: Record<ProjectPermitAlert['kind'], string> = {
+  overdue: 'bg-red-50 border-red-200 text-red-800',
+  expired: 'bg-red-50 border-red-200 text-red-800',
+  expiring: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+};
+
+export function describePermitAlert(alert: ProjectPermitAlert): string {
+  const date = new Date(alert.date).toLocaleDateString();
+  switch (alert.kind) {
+    case 'overdue':
+      return `Review overdue since ${date}`;
+    case 'expired':
+      return `Expired ${date}`;
+    case 'expiring':
+      return `Expires ${date}`;
+  }
+}
+
+/**
+ * The signed-in user's active projects, with permits that need attention called out
+ */
+export function ActiveProjects() {
+  const [projects, setProjects] = useState<UserProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/projects')
+      .then(res => res.json())
+      .then(result => {
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to load projects');
+        }
+        setProjects(result.data.filter(isProjectActive));
+      })
+      .catch(error => {
+        console.error('Active projects error:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load projects');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FolderOpen className="h-5 w-5 text-blue-600" />
+          Active Projects
+        </CardTitle>
+        <CardDescription>
+          Permits you are tracking, with overdue reviews and upcoming expirations highlighted
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8 text-gray-500">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : projects.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <FolderOpen className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p>No active projects</p>
+            <p className="text-sm">Create a project from a search result to track its permits</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {projects.map(project => (
+              <div key={project.id} className="border rounded-lg p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <Link href={`/dashboard/projects/${project.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                      {project.name}
+                    </Link>
+                    <p className="text-sm text-gray-500">{formatAddress(project.address)}</p>
+                  </div>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    Updated {new Date(project.updatedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                {project.permits.length > 0 && (
+                  <ul className="mt-3 space-y-2">
+                    {project.permits.map(permit => {
+                      const alert = getPermitAlert(permit);
+                      return (
+                        <li
+                          key={permit.id}
+                          className={`flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm ${alert ? PERMIT_ALERT_STYLES[alert.kind] : 'border-gray-100'}`}
+                        >
+                          <span className="flex items-center gap-2">
+                            {alert && (alert.kind === 'expiring' ? <Clock className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />)}
+                            {permit.name}
+                            {permit.permitNumber && <span className="text-gray-500">#{permit.permitNumber}</span>}
+                          </span>
+                          <span className="flex items-center gap-2">
+                            {alert && <span className="text-xs">{describePermitAlert(alert)}</span>}
+                            <Badge variant="secondary">{PERMIT_STATUS_LABELS[permit.status]}</Badge>
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarDays, Copy, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarFeed } from '@/types';
+
+interface CalendarFeedsProps {
+  projectId?: string; // Omit for feeds that cover every project
+}
+
+function feedUrl(feed: CalendarFeed): string {
+  return `${window.location.origin}/api/calendar/subscribe/${feed.token}.ics`;
+}
+
+/**
+ * Subscription links for permit expirations, renewal windows and inspections
+ */
+export function CalendarFeeds({ projectId }: CalendarFeedsProps) {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [isBusy, setIsBusy] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/calendar/feeds')
+      .then(res => res.json())
+      .then(result => {
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to load calendar feeds');
+        }
+        setFeeds(result.data.filter((feed: CalendarFeed) => feed.projectId === projectId));
+      })
+      .catch(error => setStatus(error instanceof Error ? error.message : 'Failed to load calendar feeds'))
+      .finally(() => setIsBusy(false));
+  }, [projectId]);
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    setStatus(null);
+
+    try {
+      const result = await fetch('/api/calendar/feeds', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ projectId }),
+      }).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create calendar feed');
+      }
+      setFeeds(previous => [result.data, ...previous]);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed to create calendar feed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!window.confirm('Revoke this link? Calendars subscribed to it will stop updating.')) return;
+    setIsBusy(true);
+    setStatus(null);
+
+    try {
+      const result = await fetch(`/api/calendar/feeds/${id}`, { method: 'DELETE' }).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke calendar feed');
+      }
+      setFeeds(previous => previous.filter(feed => feed.id !== id));
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed to revoke calendar feed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(feedUrl(feed));
+      setStatus('Link copied');
+    } catch {
+      setStatus('Copy the link from the box');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5 text-blue-600" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe in Google Calendar, Outlook or Apple Calendar to see permit expirations, renewal windows,
+          inspections and {projectId ? 'this project\'s' : 'all your projects\''} inspection gaps. Anyone with the link can read the feed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {feeds.map(feed => (
+          <div key={feed.id} className="flex gap-2">
+            <Input readOnly value={feedUrl(feed)} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            <Button variant="outline" size="sm" onClick={() => handleCopy(feed)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleRevoke(feed.id)} disabled={isBusy}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="outline" onClick={handleCreate} disabled={isBusy}>
+          {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          {feeds.length > 0 ? 'Create Another Link' : 'Create Calendar Link'}
+        </Button>
+        {status && <p className="text-sm text-gray-600">{status}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Address, SearchResponse, UserProject } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FolderPlus, Loader2 } from 'lucide-react';
+
+interface CreateProjectProps {
+  results: SearchResponse;
+  address: Address;
+  defaultName?: string;
+}
+
+/**
+ * Start tracking a project from a search result, with the permits the user picks
+ */
+export function CreateProject({ results, address, defaultName }: CreateProjectProps) {
+  const [name, setName] = useState(defaultName ?? '');
+  const [selectedPermits, setSelectedPermits] = useState<Set<string>>(
+    () => new Set(results.permits.map(permit => permit.id))
+  );
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [project, setProject] = useState<UserProject | null>(null);
+
+  const togglePermit = (id: string) => {
+    setSelectedPermits(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const permits = results.permits
+        .filter(permit => selectedPermits.has(permit.id))
+        .map(permit => ({
+          permitTypeId: permit.id,
+          name: permit.name,
+          category: permit.category,
+          processingTime: permit.processingTime,
+        }));
+
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: name.trim(), address, permits }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create project');
+      }
+      setProject(result.data);
+    } catch (error) {
+      console.error('Create project error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create project');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  if (project) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-4 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <FolderPlus className="h-4 w-4 text-green-600" />
+          Tracking {project.permits.length} permit{project.permits.length === 1 ? '' : 's'} in &quot;{project.name}&quot;
+        </div>
+        <Link href={`/dashboard/projects/${project.id}`} className="text-sm text-blue-600 hover:underline">
+          Open project
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <div className="flex items-center gap-2 text-sm text-gray-600 mb-3">
+        <FolderPlus className="h-4 w-4 text-blue-600" />
+        Track these permits as a project
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3 items-end">
+        <div>
+          <label htmlFor="project-name" className="block text-sm font-medium text-gray-700 mb-1">
+            Project name
+          </label>
+          <Input
+            id="project-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Smith residence addition"
+          />
+        </div>
+        <Button onClick={handleCreate} disabled={isCreating || !name.trim()}>
+          {isCreating && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          Create Project
+        </Button>
+      </div>
+      {results.permits.length > 0 && (
+        <fieldset className="mt-3">
+          <legend className="text-sm font-medium text-gray-700 mb-1">Permits to track</legend>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+            {results.permits.map(permit => (
+              <label key={permit.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selectedPermits.has(permit.id)}
+                  onChange={() => togglePermit(permit.id)}
+                />
+                {permit.name}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
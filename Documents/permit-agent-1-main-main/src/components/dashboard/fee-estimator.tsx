@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { FeeEstimate, FeeEstimateInput, PermitType } from '@/types';
+import { formatCurrency } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ProvenanceBadge } from '@/components/dashboard/provenance-badge';
+import { Calculator, Loader2, AlertCircle } from 'lucide-react';
+
+interface FeeEstimatorProps {
+  permits: PermitType[];
+  defaultValuation?: number;
+  defaultSquareFootage?: number;
+}
+
+const MISSING_INPUT_LABELS: Record<keyof FeeEstimateInput, string> = {
+  valuation: 'project valuation',
+  squareFootage: 'square footage',
+  units: 'number of units',
+  hours: 'hours',
+};
+
+function parseInput(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Itemized fee estimate for the permits in a result, from the project's valuation and size
+ */
+export function FeeEstimator({ permits, defaultValuation, defaultSquareFootage }: FeeEstimatorProps) {
+  const [valuation, setValuation] = useState(defaultValuation?.toString() ?? '');
+  const [squareFootage, setSquareFootage] = useState(defaultSquareFootage?.toString() ?? '');
+  const [estimate, setEstimate] = useState<FeeEstimate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  const handleEstimate = async () => {
+    setIsEstimating(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/fees/estimate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          permits: permits.map(({ id, name, fees }) => ({ id, name, fees })),
+          valuation: parseInput(valuation),
+          squareFootage: parseInput(squareFootage),
+        }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to estimate fees');
+      }
+      setEstimate(result.data);
+    } catch (error) {
+      console.error('Fee estimate error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to estimate fees');
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <Calculator className="h-5 w-5 text-blue-600" />
+        Fee Estimator
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label htmlFor="estimate-valuation" className="block text-sm font-medium text-gray-700 mb-1">
+            Project Valuation ($)
+          </label>
+          <Input
+            id="estimate-valuation"
+            type="number"
+            min="0"
+            value={valuation}
+            onChange={(e) => setValuation(e.target.value)}
+            placeholder="50000"
+          />
+        </div>
+        <div>
+          <label htmlFor="estimate-sqft" className="block text-sm font-medium text-gray-700 mb-1">
+            Square Footage
+          </label>
+          <Input
+            id="estimate-sqft"
+            type="number"
+            min="0"
+            value={squareFootage}
+            onChange={(e) => setSquareFootage(e.target.value)}
+            placeholder="400"
+          />
+        </div>
+        <Button onClick={handleEstimate} disabled={isEstimating} className="bg-blue-600 hover:bg-blue-700 text-white">
+          {isEstimating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Calculator className="h-4 w-4 mr-2" />}
+          Estimate Fees
+        </Button>
+      </div>
+
+      {error && (
+        <p className="mt-4 text-sm text-red-600">{error}</p>
+      )}
+
+      {estimate && (
+        <div className="mt-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 font-medium">Permit</th>
+                <th className="py-2 font-medium">Fee</th>
+                <th className="py-2 font-medium">Basis</th>
+                <th className="py-2 font-medium text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {estimate.lines.map((line, index) => (
+                <tr key={index} className="border-b last:border-0">
+                  <td className="py-2 text-gray-900">{line.permitName}</td>
+                  <td className="py-2 text-gray-900">{line.feeType}</td>
+                  <td className="py-2 text-gray-600">{line.basis}</td>
+                  <td className="py-2 text-right text-gray-900">
+                    <span className="inline-flex items-center gap-2">
+                      {line.amount !== null
+                        ? formatCurrency(line.amount)
+                        : <span className="text-gray-400">{line.missingInput ? `Needs ${MISSING_INPUT_LABELS[line.missingInput]}` : 'Unknown'}</span>}
+                      <ProvenanceBadge provenance={line.provenance} />
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2">
+                <td colSpan={3} className="py-2 font-semibold text-gray-900">Estimated Total</td>
+                <td className="py-2 text-right font-semibold text-gray-900">{formatCurrency(estimate.total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          {estimate.incomplete && (
+            <p className="mt-3 text-sm text-yellow-800 flex items-start gap-2">
+              <AlertCircle className="h-4 w-4 mt-0.5 text-yellow-600" />
+              Some fees could not be calculated and are not included in the total.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
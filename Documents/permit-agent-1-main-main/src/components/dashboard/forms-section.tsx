@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { PermitForm } from '@/types';
+import { PermitForm, PermitFormField, PermitFormFieldsResult } from '@/types';
 import { Button } from '@/components/ui/button';
 import { 
   ExternalLink, 
@@ -9,9 +9,104 @@ import {
   File, 
   Search,
   Star,
-  Globe
+  Globe,
+  ListChecks,
+  Loader2
 } from 'lucide-react';
 
+const FIELD_TYPE_LABELS: Record<PermitFormField['type'], string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  dropdown: 'Choice',
+  radio: 'Choice',
+  checkbox: 'Checkbox',
+  signature: 'Signature',
+};
+
+/**
+ * Lists the fields a PDF application asks for, loading them on demand when the search didn't include them
+ */
+export function FormFieldsPreview({ form }: { form: PermitForm }) {
+  const [result, setResult] = useState<Pick<PermitFormFieldsResult, 'fields' | 'isFillable' | 'isScanned'> | null>(
+    form.fields ? { fields: form.fields, isFillable: form.fields.length > 0, isScanned: false } : null
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    setIsOpen(!isOpen);
+    if (result || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/forms/fields?url=${encodeURIComponent(form.url)}`);
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load form fields');
+      }
+      setResult(data.data);
+    } catch (error) {
+      console.error('Form fields error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load form fields');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const requiredCount = result?.fields.filter(field => field.required).length ?? 0;
+
+  return (
+    <>
+      <Button onClick={handleToggle} size="sm" variant="outline">
+        {isLoading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <ListChecks className="h-4 w-4 mr-1" />}
+        {isOpen ? 'Hide Fields' : 'Show Fields'}
+      </Button>
+
+      {isOpen && (
+        <div className="basis-full mt-3 border-t border-gray-100 pt-3 text-sm">
+          {error && <p className="text-red-600">{error}</p>}
+
+          {result?.isScanned && (
+            <p className="text-gray-600">This is a scanned form with no fillable fields. Print it and fill it in by hand.</p>
+          )}
+
+          {result && !result.isScanned && !result.isFillable && (
+            <p className="text-gray-600">This PDF has no fillable fields.</p>
+          )}
+
+          {result && result.fields.length > 0 && (
+            <>
+              <p className="text-gray-700 mb-2">
+                {result.fields.length} field{result.fields.length === 1 ? '' : 's'}
+                {requiredCount > 0 && `, ${requiredCount} required`}
+              </p>
+              <ul className="space-y-1 max-h-64 overflow-y-auto">
+                {result.fields.map(field => (
+                  <li key={`${field.type}:${field.name}`} className="flex items-start justify-between gap-4">
+                    <span className="text-gray-900">
+                      {field.label}
+                      {field.required && <span className="text-red-600 ml-1">*</span>}
+                      {field.options && field.options.length > 0 && (
+                        <span className="block text-xs text-gray-500">{field.options.join(' / ')}</span>
+                      )}
+                    </span>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {FIELD_TYPE_LABELS[field.type]} · p. {field.page}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
 interface FormsSectionProps {
   forms: PermitForm[];
   jurisdictionName: string;
@@ -148,7 +243,7 @@ export function FormsSection({
                 </div>
                 
                 {/* Action Buttons */}
-                <div className="flex items-center gap-2 mt-3">
+                <div className="flex flex-wrap items-center gap-2 mt-3">
                   <Button
                     onClick={() => window.open(form.url, '_blank')}
                     size="sm"
@@ -157,6 +252,7 @@ export function FormsSection({
                     <ExternalLink className="h-4 w-4 mr-1" />
                     {form.fileType === 'online' ? 'Open Form' : 'View Form'}
                   </Button>
+                  {form.fileType === 'pdf' && <FormFieldsPreview form={form} />}
                 </div>
               </div>
             </div>
@@ -1,4 +1,12 @@
 export { SearchResults } from './search-results';
-export { FormsSection } from './forms-section';
+export { FormsSection, FormFieldsPreview } from './forms-section';
 export { UsageDashboard } from './usage-dashboard';
-export { BillingManagement } from './billing-management';
\ No newline at end of file
+export { BillingManagement } from './billing-management';
+export { ProvenanceBadge } from './provenance-badge';
+export { PermitDetermination } from './permit-determination';
+export { FeeEstimator } from './fee-estimator';
+export { SavedSearchDetails } from './saved-search-details';
+export { CreateProject } from './create-project';
+export { ActiveProjects } from './active-projects';
+export { CalendarFeeds } from './calendar-feeds';
+export { Notifications } from './notifications';
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Bell, CheckCheck, ExternalLink, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { UserNotification } from '@/types';
+
+/**
+ * Changes to permit pages in jurisdictions where the user has projects or saved searches
+ */
+export function Notifications() {
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isBusy, setIsBusy] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/notifications')
+      .then(res => res.json())
+      .then(result => {
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to load notifications');
+        }
+        setNotifications(result.data.notifications);
+        setUnreadCount(result.data.unreadCount);
+      })
+      .catch(error => setStatus(error instanceof Error ? error.message : 'Failed to load notifications'))
+      .finally(() => setIsBusy(false));
+  }, []);
+
+  const markRead = async (ids?: string[]) => {
+    setIsBusy(true);
+    setStatus(null);
+
+    try {
+      const result = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids }),
+      }).then(res => res.json());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update notifications');
+      }
+
+      const readAt = new Date();
+      setNotifications(previous => previous.map(notification =>
+        !ids || ids.includes(notification.id) ? { ...notification, readAt: notification.readAt || readAt } : notification
+      ));
+      setUnreadCount(previous => Math.max(0, previous - result.data.updated));
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed to update notifications');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5 text-blue-600" />
+              Updates
+              {unreadCount > 0 && <Badge>{unreadCount} new</Badge>}
+            </CardTitle>
+            <CardDescription>
+              We check permit pages for new forms, fee changes and new contact details where you have projects or saved searches.
+            </CardDescription>
+          </div>
+          {unreadCount > 0 && (
+            <Button variant="outline" size="sm" onClick={() => markRead()} disabled={isBusy}>
+              <CheckCheck className="h-4 w-4 mr-2" />
+              Mark All Read
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isBusy && notifications.length === 0 ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : notifications.length === 0 ? (
+          <p className="text-sm text-gray-500">No updates yet.</p>
+        ) : (
+          notifications.map(notification => (
+            <div
+              key={notification.id}
+              className={`rounded-md border p-3 ${notification.readAt ? 'bg-white' : 'bg-blue-50 border-blue-200'}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-gray-900">{notification.title}</p>
+                  <p className="text-xs text-gray-500">{new Date(notification.createdAt).toLocaleString()}</p>
+                </div>
+                <div className="flex gap-2">
+                  {notification.link && (
+                    <a href={notification.link} target="_blank" rel="noopener noreferrer">
+                      <Button variant="outline" size="sm">
+                        <ExternalLink className="h-4 w-4" />
+                      </Button>
+                    </a>
+                  )}
+                  {!notification.readAt && (
+                    <Button variant="outline" size="sm" onClick={() => markRead([notification.id])} disabled={isBusy}>
+                      Mark Read
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <ul className="mt-2 text-sm text-gray-700 list-disc pl-5">
+                {notification.body.split('\n').map((line, index) => <li key={index}>{line}</li>)}
+              </ul>
+            </div>
+          ))
+        )}
+        {status && <p className="text-sm text-gray-600">{status}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { PermitDetermination as PermitDeterminationData } from '@/types';
+import { OCCUPANCY_LABELS, WORK_TYPE_LABELS } from '@/lib/permits/determination';
+import { formatCurrency } from '@/lib/utils';
+import { ClipboardCheck, CheckCircle2, MinusCircle } from 'lucide-react';
+
+interface PermitDeterminationProps {
+  determination: PermitDeterminationData;
+}
+
+/**
+ * Which permits the described project needs, why, and which were ruled out by an exemption
+ */
+export function PermitDetermination({ determination }: PermitDeterminationProps) {
+  const { scope, required, exemptions, rulesSource } = determination;
+
+  const details = [
+    OCCUPANCY_LABELS[scope.occupancy],
+    scope.squareFootage !== undefined && `${scope.squareFootage} sq ft`,
+    scope.heightFeet !== undefined && `${scope.heightFeet} ft high`,
+    scope.valuation !== undefined && formatCurrency(scope.valuation),
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1 flex items-center gap-2">
+        <ClipboardCheck className="h-5 w-5 text-blue-600" />
+        Permits for Your Project: {WORK_TYPE_LABELS[scope.workType]}
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {details}
+        {' · '}
+        {rulesSource === 'jurisdiction' ? 'Local rules for this jurisdiction' : 'Typical rules (IRC); local codes may differ'}
+      </p>
+
+      {required.length > 0 ? (
+        <ul className="space-y-3">
+          {required.map(permit => (
+            <li key={permit.ruleId} className="flex items-start gap-3">
+              <CheckCircle2 className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="font-medium text-gray-900">{permit.name}</p>
+                <p className="text-sm text-gray-600">{permit.reason}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-700">No permits are required for this project as described.</p>
+      )}
+
+      {exemptions.length > 0 && (
+        <div className="mt-6 border-t pt-4">
+          <h3 className="font-semibold text-gray-900 mb-3">Not Required</h3>
+          <ul className="space-y-3">
+            {exemptions.map(exemption => (
+              <li key={exemption.ruleId} className="flex items-start gap-3">
+                <MinusCircle className="h-5 w-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="font-medium text-gray-700">{exemption.name}</p>
+                  <p className="text-sm text-gray-600">{exemption.reason}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { FieldProvenance } from '@/types';
+import { describeProvenance, getProvenanceStatus } from '@/lib/provenance';
+import { AlertTriangle, HelpCircle } from 'lucide-react';
+
+interface ProvenanceBadgeProps {
+  provenance?: FieldProvenance;
+  className?: string;
+}
+
+/**
+ * Flags values that were not verified against the jurisdiction. Verified values render nothing.
+ */
+export function ProvenanceBadge({ provenance, className = '' }: ProvenanceBadgeProps) {
+  const status = getProvenanceStatus(provenance);
+
+  if (status === 'verified') {
+    return null;
+  }
+
+  const title = describeProvenance(provenance);
+
+  if (status === 'synthetic') {
+    return (
+      <span
+        title={title}
+        className={`inline-flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide bg-red-100 text-red-800 rounded ${className}`}
+      >
+        <AlertTriangle className="h-3 w-3" />
+        Estimate
+      </span>
+    );
+  }
+
+  return (
+    <span
+      title={title}
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide bg-yellow-100 text-yellow-800 rounded ${className}`}
+    >
+      <HelpCircle className="h-3 w-3" />
+      Unverified
+    </span>
+  );
+}
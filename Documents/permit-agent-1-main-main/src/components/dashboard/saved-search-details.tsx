@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import { SavedSearch, SavedSearchSummary } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Bookmark, Loader2 } from 'lucide-react';
+
+interface SavedSearchDetailsProps {
+  savedSearch: SavedSearchSummary;
+  onUpdated?: (savedSearch: SavedSearch) => void;
+}
+
+function parseTags(value: string): string[] {
+  return value.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Name and tag a search in the signed-in user's history
+ */
+export function SavedSearchDetails({ savedSearch, onUpdated }: SavedSearchDetailsProps) {
+  const [name, setName] = useState(savedSearch.name ?? '');
+  const [tags, setTags] = useState(savedSearch.tags.join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setStatus(null);
+
+    try {
+      const response = await fetch(`/api/saved-searches/${savedSearch.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: name.trim() || null, tags: parseTags(tags) }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update saved search');
+      }
+      setStatus('Saved');
+      onUpdated?.(result.data);
+    } catch (error) {
+      console.error('Saved search update error:', error);
+      setStatus(error instanceof Error ? error.message : 'Failed to update saved search');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <div className="flex items-center gap-2 text-sm text-gray-600 mb-3">
+        <Bookmark className="h-4 w-4 text-blue-600" />
+        Saved to your search history
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+        <div>
+          <label htmlFor={`saved-search-name-${savedSearch.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+            Name
+          </label>
+          <Input
+            id={`saved-search-name-${savedSearch.id}`}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Smith residence deck"
+          />
+        </div>
+        <div>
+          <label htmlFor={`saved-search-tags-${savedSearch.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+            Tags (comma separated)
+          </label>
+          <Input
+            id={`saved-search-tags-${savedSearch.id}`}
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="residential, bid-2024"
+          />
+        </div>
+        <Button onClick={handleSave} disabled={isSaving} variant="outline">
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          Save
+        </Button>
+      </div>
+      {status && <p className="mt-2 text-sm text-gray-600">{status}</p>}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { SearchResponse } from '@/types';
 import { formatCurrency, formatAddress } from '@/lib/utils';
 import { downloadPermitPDF } from '@/lib/pdf/generator';
@@ -16,10 +17,29 @@ import {
   FilePlus,
   PaperclipIcon,
   CheckCircle2,
-  Download
+  Download,
+  Package,
+  Loader2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { FormsSection } from '@/components/dashboard/forms-section';
+import { FormsSection, FormFieldsPreview } from '@/components/dashboard/forms-section';
+import { ProvenanceBadge } from '@/components/dashboard/provenance-badge';
+import { PermitDetermination } from '@/components/dashboard/permit-determination';
+import { FeeEstimator } from '@/components/dashboard/fee-estimator';
+import { getProvenanceStatus } from '@/lib/provenance';
+import { describeFeeFormula } from '@/lib/fees';
+
+// How long ago cached results were found, e.g. "3 hours ago"
+function describeAge(seconds: number): string {
+  const units: [string, number][] = [['day', 86400], ['hour', 3600], ['minute', 60]];
+  for (const [unit, size] of units) {
+    const count = Math.floor(seconds / size);
+    if (count >= 1) {
+      return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+    }
+  }
+  return 'just now';
+}
 
 interface SearchResultsProps {
   results: SearchResponse;
@@ -27,7 +47,14 @@ interface SearchResultsProps {
 }
 
 export function SearchResults({ results, searchedAddress }: SearchResultsProps) {
-  const { jurisdiction, permits, contact, processingInfo, forms } = results;
+  const { jurisdiction, permits, contact, processingInfo, forms, determination, warnings, cached } = results;
+  const [isBuildingPacket, setIsBuildingPacket] = useState(false);
+  const [packetNotice, setPacketNotice] = useState<string | null>(null);
+
+  // Count fees that didn't come from the jurisdiction so we can warn before anyone quotes them
+  const allFees = permits.flatMap(p => p.fees);
+  const syntheticFeeCount = allFees.filter(f => getProvenanceStatus(f.provenance) === 'synthetic').length;
+  const unverifiedFeeCount = allFees.filter(f => getProvenanceStatus(f.provenance) === 'unverified').length;
 
   // Debug logging
   console.log('SearchResults - Forms:', forms);
@@ -52,9 +79,11 @@ export function SearchResults({ results, searchedAddress }: SearchResultsProps)
       permits: permits.map(p => ({
         name: p.name,
         category: p.category,
-        fees: p.fees.map(f => ({ type: f.type, amount: f.amount })),
-        requirements: p.requirements
+        fees: p.fees.map(f => ({ type: f.type, amount: f.amount, formula: f.formula, provenance: f.provenance })),
+        requirements: p.requirements,
+        provenance: p.provenance
       })),
+      determination,
       contact: contact,
       exportDate: new Date().toISOString()
     };
@@ -68,6 +97,46 @@ export function SearchResults({ results, searchedAddress }: SearchResultsProps)
     URL.revokeObjectURL(url);
   };
 
+  const handleDownloadPacket = async () => {
+    setIsBuildingPacket(true);
+    setPacketNotice(null);
+
+    try {
+      const response = await fetch('/api/packet', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          searchResults: results,
+          addressSearched: searchedAddress || formatAddress(jurisdiction.address),
+        }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || 'Failed to build the application packet');
+      }
+
+      const failedForms = parseInt(response.headers.get('X-Packet-Failed-Forms') || '0');
+      if (failedForms > 0) {
+        setPacketNotice(`${failedForms} form${failedForms === 1 ? '' : 's'} could not be downloaded. See manifest.json in the packet.`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `permit-packet-${jurisdiction.name.replace(/[^a-zA-Z0-9]/g, '-')}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Packet download error:', error);
+      setPacketNotice(error instanceof Error ? error.message : 'Failed to build the application packet');
+    } finally {
+      setIsBuildingPacket(false);
+    }
+  };
+
 
   return (
     <div className="w-full max-w-6xl mx-auto p-6 space-y-6">
@@ -117,10 +186,47 @@ export function SearchResults({ results, searchedAddress }: SearchResultsProps)
               <Download className="h-4 w-4 mr-2" />
               Export JSON
             </Button>
+            <Button variant="outline" onClick={handleDownloadPacket} disabled={isBuildingPacket}>
+              {isBuildingPacket ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Package className="h-4 w-4 mr-2" />}
+              Download Packet
+            </Button>
           </div>
         </div>
+        {packetNotice && (
+          <p className="mt-3 text-sm text-yellow-800 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-yellow-600" />
+            {packetNotice}
+          </p>
+        )}
       </div>
 
+      {warnings && warnings.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          {warnings.map(warning => (
+            <p key={warning} className="text-yellow-800 text-sm flex items-start gap-2">
+              <AlertCircle className="h-4 w-4 mt-0.5 text-yellow-600" />
+              <span>{warning}. These results weren&apos;t checked against the live site; confirm with the permit office.</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {cached && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <p className="text-gray-700 text-sm flex items-start gap-2">
+            <Clock className="h-4 w-4 mt-0.5 text-gray-500" />
+            <span>
+              These results were found {describeAge(cached.ageSeconds)}.
+              {cached.stale && (cached.refreshJobId
+                ? ' We\'re checking the jurisdiction for changes and will let you know if there are updates.'
+                : ' They may be out of date; confirm with the permit office.')}
+            </span>
+          </p>
+        </div>
+      )}
+
+      {determination && <PermitDetermination determination={determination} />}
+
       {/* Contact Information */}
       {(contact.phone || contact.email || contact.hoursOfOperation) && (
         <div className="bg-white rounded-lg shadow-lg p-6">
@@ -135,7 +241,10 @@ export function SearchResults({ results, searchedAddress }: SearchResultsProps)
                 <Phone className="h-5 w-5 text-gray-400" />
                 <div>
                   <p className="text-sm text-gray-600">Phone</p>
-                  <p className="font-medium text-gray-900">{contact.phone}</p>
+                  <p className="font-medium text-gray-900 flex items-center gap-2">
+                    {contact.phone}
+                    <ProvenanceBadge provenance={contact.provenance?.phone} />
+                  </p>
                 </div>
               </div>
             )}
@@ -145,7 +254,10 @@ export function SearchResults({ results, searchedAddress }: SearchResultsProps)
                 <Mail className="h-5 w-5 text-gray-400" />
                 <div>
                   <p className="text-sm text-gray-600">Email</p>
-                  <p className="font-medium text-gray-900">{contact.email}</p>
+                  <p className="font-medium text-gray-900 flex items-center gap-2">
+                    {contact.email}
+                    <ProvenanceBadge provenance={contact.provenance?.email} />
+                  </p>
                 </div>
               </div>
             )}
@@ -155,7 +267,10 @@ export function SearchResults({ results, searchedAddress }: SearchResultsProps)
                 <MapPin className="h-5 w-5 text-gray-400 mt-1" />
                 <div>
                   <p className="text-sm text-gray-600">Address</p>
-                  <p className="font-medium text-gray-900">{formatAddress(contact.address)}</p>
+                  <p className="font-medium text-gray-900 flex items-center gap-2">
+                    {formatAddress(contact.address)}
+                    <ProvenanceBadge provenance={contact.provenance?.address} />
+                  </p>
                 </div>
               </div>
             )}
@@ -166,6 +281,7 @@ export function SearchResults({ results, searchedAddress }: SearchResultsProps)
               <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
                 <Clock className="h-4 w-4 text-blue-600" />
                 Hours of Operation
+                <ProvenanceBadge provenance={contact.provenance?.hoursOfOperation} />
               </h3>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
                 {Object.entries(contact.hoursOfOperation).map(([day, hours]) => (
@@ -190,15 +306,31 @@ export function SearchResults({ results, searchedAddress }: SearchResultsProps)
             Available Permits ({permits.length})
           </h2>
           
+          {(syntheticFeeCount > 0 || unverifiedFeeCount > 0) && (
+            <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <p className="text-yellow-800 text-sm flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 mt-0.5 text-yellow-600" />
+                <span>
+                  {syntheticFeeCount > 0 && `${syntheticFeeCount} fee${syntheticFeeCount === 1 ? ' is a generated estimate' : 's are generated estimates'}. `}
+                  {unverifiedFeeCount > 0 && `${unverifiedFeeCount} fee${unverifiedFeeCount === 1 ? ' has' : 's have'} not been verified against the jurisdiction. `}
+                  Confirm amounts with the permit office before quoting them. Hover a badge to see its source.
+                </span>
+              </p>
+            </div>
+          )}
+          
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {permits.map((permit, index) => (
               <div key={index} className="border rounded-lg p-4 hover:shadow-md transition-shadow">
                 <div className="flex items-start justify-between mb-3">
                   <div>
                     <h3 className="font-semibold text-gray-900">{permit.name}</h3>
-                    <span className="inline-block bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded mt-1 capitalize">
-                      {permit.category}
-                    </span>
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="inline-block bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded capitalize">
+                        {permit.category}
+                      </span>
+                      <ProvenanceBadge provenance={permit.provenance} />
+                    </div>
                   </div>
                   {permit.processingTime && (
                     <div className="text-right">
@@ -222,9 +354,14 @@ export function SearchResults({ results, searchedAddress }: SearchResultsProps)
                       {permit.fees.map((fee, feeIndex) => (
                         <div key={feeIndex} className="flex justify-between text-sm">
                           <span className="text-gray-600">{fee.type}:</span>
-                          <span className="font-medium text-gray-900">
-                            {formatCurrency(fee.amount)}
-                            {fee.unit && fee.unit !== 'flat' && ` (${fee.unit})`}
+                          <span className="font-medium text-gray-900 flex items-center gap-2">
+                            {fee.formula && fee.formula.kind !== 'flat'
+                              ? describeFeeFormula(fee.formula)
+                              : <>
+                                  {formatCurrency(fee.amount)}
+                                  {fee.unit && fee.unit !== 'flat' && ` (${fee.unit})`}
+                                </>}
+                            <ProvenanceBadge provenance={fee.provenance} />
                           </span>
                         </div>
                       ))}
@@ -251,6 +388,15 @@ export function SearchResults({ results, searchedAddress }: SearchResultsProps)
         </div>
       )}
 
+      {/* Fee Estimate */}
+      {allFees.length > 0 && (
+        <FeeEstimator
+          permits={permits}
+          defaultValuation={determination?.scope.valuation}
+          defaultSquareFootage={determination?.scope.squareFootage}
+        />
+      )}
+
       {/* Downloadable Forms */}
       {forms && forms.length > 0 && (
         <div className="bg-white rounded-lg shadow-lg p-6">
@@ -269,6 +415,7 @@ Application Forms ({forms.length})
                       {form.isRequired && (
                         <CheckCircle2 className="h-4 w-4 text-green-600" />
                       )}
+                      <ProvenanceBadge provenance={form.provenance} />
                     </div>
                     <span className={`inline-block text-xs px-2 py-1 rounded ${
                       form.fileType === 'pdf' ? 'bg-red-100 text-red-800' :
@@ -297,6 +444,12 @@ Application Forms ({forms.length})
                   <span>{form.isRequired ? 'Required' : 'Optional'}</span>
                   <span>Click to view</span>
                 </div>
+
+                {form.fileType === 'pdf' && (
+                  <div className="flex flex-wrap items-center gap-2 mt-3">
+                    <FormFieldsPreview form={form} />
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -319,6 +472,7 @@ Application Forms ({forms.length})
           <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
             <Clock className="h-5 w-5 text-blue-600" />
             Processing Information
+            <ProvenanceBadge provenance={processingInfo.provenance} />
           </h2>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -8,8 +8,11 @@ import usePlacesAutocomplete, { getGeocode } from 'use-places-autocomplete';
 import { useMaps } from '@/components/providers/maps-provider';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Search, MapPin, Loader2, Navigation, Check } from 'lucide-react';
-import { SearchRequest, SearchResponse } from '@/types';
+import { Search, MapPin, Loader2, Navigation, Check, RefreshCw } from 'lucide-react';
+import { SearchRequest, SearchResponse, SearchJobEvent, PermitType, ScopeOfWork, WorkType, OccupancyType } from '@/types';
+import { SearchProgress } from '@/components/forms/search-progress';
+import { OCCUPANCY_LABELS, WORK_TYPE_LABELS } from '@/lib/permits/determination';
+import { fitSearchResponse } from '@/lib/search/results';
 
 const addressSchema = z.object({
   street: z.string().min(1, 'Street address is required'),
@@ -21,8 +24,68 @@ const addressSchema = z.object({
 
 type AddressFormData = z.infer<typeof addressSchema>;
 
+// Optional project details, kept as raw input strings until submit
+interface ScopeFormState {
+  workType: WorkType | '';
+  occupancy: OccupancyType;
+  squareFootage: string;
+  valuation: string;
+  heightFeet: string;
+}
+
+const EMPTY_SCOPE: ScopeFormState = {
+  workType: '',
+  occupancy: 'single_family',
+  squareFootage: '',
+  valuation: '',
+  heightFeet: '',
+};
+
+function parseOptionalNumber(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function toScopeOfWork(scope: ScopeFormState): ScopeOfWork | undefined {
+  if (!scope.workType) {
+    return undefined;
+  }
+
+  return {
+    workType: scope.workType,
+    occupancy: scope.occupancy,
+    squareFootage: parseOptionalNumber(scope.squareFootage),
+    valuation: parseOptionalNumber(scope.valuation),
+    heightFeet: parseOptionalNumber(scope.heightFeet),
+  };
+}
+
+// Async jobs can retry with backoff, so allow longer than the synchronous request timeout
+const ASYNC_SEARCH_TIMEOUT = 5 * 60 * 1000;
+
+class SearchFailedError extends Error {}
+class SearchCancelledError extends Error {}
+
+function cancelSearchJob(jobId: string, cancelToken: string) {
+  // keepalive lets the request finish even if the page is being unloaded
+  fetch(`/api/search-job/${jobId}`, {
+    method: 'DELETE',
+    headers: { 'X-Cancel-Token': cancelToken },
+    keepalive: true,
+  }).catch(error => {
+    console.warn(`Failed to cancel search job ${jobId}:`, error);
+  });
+}
+
+// Results of a background refresh, waiting for the user to swap them in
+interface UpdatedResults {
+  results: SearchResponse;
+  address: string;
+  request: SearchRequest;
+}
+
 interface EnhancedAddressSearchProps {
-  onSearchResults: (results: SearchResponse, address?: string) => void;
+  onSearchResults: (results: SearchResponse, address?: string, request?: SearchRequest) => void;
   onSearchError: (error: string) => void;
 }
 
@@ -31,6 +94,23 @@ export function EnhancedAddressSearch({ onSearchResults, onSearchError }: Enhanc
   const [lastSearched, setLastSearched] = useState<string>('');
   const [useAutocomplete, setUseAutocomplete] = useState(false); // Default to false until maps load
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  const [jobEvents, setJobEvents] = useState<SearchJobEvent[]>([]);
+  const [partialPermits, setPartialPermits] = useState<PermitType[]>([]);
+  const [scope, setScope] = useState<ScopeFormState>(EMPTY_SCOPE);
+  const [updatedResults, setUpdatedResults] = useState<UpdatedResults | null>(null);
+  const activeJobRef = useRef<{ jobId: string; cancelToken: string; stop: () => void } | null>(null);
+  const refreshSourceRef = useRef<EventSource | null>(null);
+
+  // Stop the server-side job too if the user navigates away mid-search, so it doesn't keep using quota.
+  // Refresh jobs are shared with other searches, so those are only unsubscribed from.
+  useEffect(() => () => {
+    const activeJob = activeJobRef.current;
+    if (activeJob) {
+      cancelSearchJob(activeJob.jobId, activeJob.cancelToken);
+      activeJob.stop();
+    }
+    refreshSourceRef.current?.close();
+  }, []);
 
   const { isLoaded: mapsLoaded, loadError } = useMaps();
 
@@ -161,43 +241,187 @@ export function EnhancedAddressSearch({ onSearchResults, onSearchError }: Enhanc
     );
   }, [setFormValue, setValue, onSearchError]);
 
+  const runSyncSearch = async (searchRequest: SearchRequest): Promise<SearchResponse> => {
+    // Create AbortController for timeout handling
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
+
+    try {
+      const response = await fetch('/api/search', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(searchRequest),
+        signal: controller.signal,
+      });
+
+      const result = await response.json();
+
+      if (!result.success || !result.data) {
+        throw new SearchFailedError(result.error || 'Search failed');
+      }
+      return result.data;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+
+  const streamSearchJob = (jobId: string, cancelToken: string): Promise<SearchResponse> => {
+    return new Promise((resolve, reject) => {
+      const source = new EventSource(`/api/search-job/${jobId}/events`);
+
+      const finish = () => {
+        clearTimeout(timeoutId);
+        source.close();
+        activeJobRef.current = null;
+      };
+
+      activeJobRef.current = {
+        jobId,
+        cancelToken,
+        stop: () => {
+          finish();
+          reject(new SearchCancelledError());
+        },
+      };
+
+      const timeoutId = setTimeout(() => {
+        finish();
+        reject(new SearchFailedError('Search timed out. Government websites may be slow - please try again.'));
+      }, ASYNC_SEARCH_TIMEOUT);
+
+      source.onmessage = (message) => {
+        const event: SearchJobEvent = JSON.parse(message.data);
+        setJobEvents(prev => prev.some(e => e.id === event.id) ? prev : [...prev, event]);
+
+        if (event.type === 'partial_results') {
+          setPartialPermits(event.permits);
+        } else if (event.type === 'job_completed') {
+          finish();
+          if (event.result) {
+            resolve(event.result);
+          } else {
+            reject(new SearchFailedError('Search finished without results'));
+          }
+        } else if (event.type === 'job_failed') {
+          finish();
+          reject(new SearchFailedError(event.error));
+        } else if (event.type === 'job_cancelled') {
+          finish();
+          reject(new SearchCancelledError());
+        }
+      };
+
+      // EventSource reconnects on its own; only give up once the browser has
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) {
+          finish();
+          reject(new TypeError('fetch failed: progress stream closed'));
+        }
+      };
+    });
+  };
+
+  const stopWatchingRefresh = () => {
+    refreshSourceRef.current?.close();
+    refreshSourceRef.current = null;
+  };
+
+  // Cached results came back stale: listen for the job refreshing them and offer its results
+  const watchRefresh = (jobId: string, address: string, searchRequest: SearchRequest) => {
+    stopWatchingRefresh();
+    const source = new EventSource(`/api/search-job/${jobId}/events`);
+    refreshSourceRef.current = source;
+
+    source.onmessage = (message) => {
+      const event: SearchJobEvent = JSON.parse(message.data);
+      if (event.type === 'job_completed') {
+        stopWatchingRefresh();
+        if (event.result) {
+          setUpdatedResults({ results: fitSearchResponse(event.result, searchRequest), address, request: searchRequest });
+        }
+      } else if (event.type === 'job_failed' || event.type === 'job_cancelled') {
+        stopWatchingRefresh();
+      }
+    };
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        stopWatchingRefresh();
+      }
+    };
+  };
+
+  const showUpdatedResults = () => {
+    if (updatedResults) {
+      onSearchResults(updatedResults.results, updatedResults.address, updatedResults.request);
+      setUpdatedResults(null);
+    }
+  };
+
+  const handleCancelSearch = () => {
+    const activeJob = activeJobRef.current;
+    if (activeJob) {
+      cancelSearchJob(activeJob.jobId, activeJob.cancelToken);
+      activeJob.stop();
+    }
+  };
+
   const onSubmit = async (data: AddressFormData) => {
     setIsSearching(true);
+    setJobEvents([]);
+    setPartialPermits([]);
+    setUpdatedResults(null);
+    stopWatchingRefresh();
     
     try {
       const searchRequest: SearchRequest = {
         address: data,
         permitTypes: [],
         includeNeighboringJurisdictions: false,
+        scope: toScopeOfWork(scope),
       };
 
-      // Create AbortController for timeout handling
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
-
-      const response = await fetch('/api/search', {
+      const response = await fetch('/api/search?mode=async', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(searchRequest),
-        signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
       const result = await response.json();
 
-      if (result.success && result.data) {
-        const addressString = `${data.street}, ${data.city}, ${data.state} ${data.zipCode}`;
-        setLastSearched(addressString);
-        onSearchResults(result.data, addressString);
+      let searchResults: SearchResponse;
+      if (result.success && result.data?.cached) {
+        // Served from an earlier search of this jurisdiction, no job needed
+        searchResults = result.data;
+      } else if (result.success && result.data?.jobId) {
+        searchResults = await streamSearchJob(result.data.jobId, result.data.cancelToken);
+      } else if (response.status >= 500) {
+        // Job queue unavailable (e.g. no database), run the search inline instead
+        console.warn('Async search unavailable, falling back to sync search:', result.error);
+        searchResults = await runSyncSearch(searchRequest);
       } else {
-        onSearchError(result.error || 'Search failed');
+        throw new SearchFailedError(result.error || 'Search failed');
+      }
+
+      const addressString = `${data.street}, ${data.city}, ${data.state} ${data.zipCode}`;
+      setLastSearched(addressString);
+      onSearchResults(searchResults, addressString, searchRequest);
+
+      if (searchResults.cached?.refreshJobId) {
+        watchRefresh(searchResults.cached.refreshJobId, addressString, searchRequest);
       }
     } catch (error) {
+      if (error instanceof SearchCancelledError) {
+        return;
+      }
       console.error('Search error:', error);
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (error instanceof SearchFailedError) {
+        onSearchError(error.message);
+      } else if (error instanceof Error && error.name === 'AbortError') {
         onSearchError('Search timed out after 2 minutes. Government websites may be slow - please try again.');
       } else if (error instanceof TypeError && error.message.includes('fetch')) {
         onSearchError('Network connection error. Please check your internet connection and try again.');
@@ -384,11 +608,107 @@ export function EnhancedAddressSearch({ onSearchResults, onSearchError }: Enhanc
           </div>
         </div>
 
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-medium text-gray-900">Project Details (Optional)</h3>
+          <p className="text-xs text-gray-500 mt-1 mb-3">
+            Describe the work to see only the permits your project needs.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="workType" className="block text-sm font-medium text-gray-700 mb-1">
+                Type of Work
+              </label>
+              <select
+                id="workType"
+                value={scope.workType}
+                onChange={(e) => setScope({ ...scope, workType: e.target.value as WorkType | '' })}
+                className="w-full h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+              >
+                <option value="">Any (show all permits)</option>
+                {(Object.keys(WORK_TYPE_LABELS) as WorkType[]).map(workType => (
+                  <option key={workType} value={workType}>{WORK_TYPE_LABELS[workType]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="occupancy" className="block text-sm font-medium text-gray-700 mb-1">
+                Property Type
+              </label>
+              <select
+                id="occupancy"
+                value={scope.occupancy}
+                onChange={(e) => setScope({ ...scope, occupancy: e.target.value as OccupancyType })}
+                disabled={!scope.workType}
+                className="w-full h-10 rounded-md border border-gray-300 bg-white px-3 text-sm disabled:opacity-50"
+              >
+                {(Object.keys(OCCUPANCY_LABELS) as OccupancyType[]).map(occupancy => (
+                  <option key={occupancy} value={occupancy}>{OCCUPANCY_LABELS[occupancy]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {scope.workType && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+              <div>
+                <label htmlFor="squareFootage" className="block text-sm font-medium text-gray-700 mb-1">
+                  Area (sq ft)
+                </label>
+                <Input
+                  id="squareFootage"
+                  type="number"
+                  min="0"
+                  value={scope.squareFootage}
+                  onChange={(e) => setScope({ ...scope, squareFootage: e.target.value })}
+                  placeholder="200"
+                  className="w-full"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="valuation" className="block text-sm font-medium text-gray-700 mb-1">
+                  Project Value ($)
+                </label>
+                <Input
+                  id="valuation"
+                  type="number"
+                  min="0"
+                  value={scope.valuation}
+                  onChange={(e) => setScope({ ...scope, valuation: e.target.value })}
+                  placeholder="15000"
+                  className="w-full"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="heightFeet" className="block text-sm font-medium text-gray-700 mb-1">
+                  Height (ft)
+                </label>
+                <Input
+                  id="heightFeet"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={scope.heightFeet}
+                  onChange={(e) => setScope({ ...scope, heightFeet: e.target.value })}
+                  placeholder="6"
+                  className="w-full"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
         <div className="flex justify-between pt-4">
           <Button
             type="button"
             variant="outline"
-            onClick={() => reset()}
+            onClick={() => {
+              reset();
+              setScope(EMPTY_SCOPE);
+            }}
             className="text-gray-600 hover:text-gray-800"
           >
             Clear Form
@@ -422,7 +742,23 @@ export function EnhancedAddressSearch({ onSearchResults, onSearchError }: Enhanc
         </div>
       )}
 
-      {isSearching && (
+      {updatedResults && !isSearching && (
+        <div className="mt-4 p-3 bg-blue-50 rounded-md border border-blue-200 flex items-center justify-between gap-3">
+          <p className="text-blue-800 text-sm flex items-center">
+            <RefreshCw className="h-4 w-4 mr-2 flex-shrink-0" />
+            Updated results are available for {updatedResults.results.jurisdiction.name}.
+          </p>
+          <Button type="button" size="sm" variant="outline" onClick={showUpdatedResults}>
+            Show updated results
+          </Button>
+        </div>
+      )}
+
+      {isSearching && jobEvents.length > 0 && (
+        <SearchProgress events={jobEvents} partialPermits={partialPermits} onCancel={handleCancelSearch} />
+      )}
+
+      {isSearching && jobEvents.length === 0 && (
         <div className="mt-4 p-4 bg-blue-50 rounded-md border border-blue-200">
           <div className="flex items-center">
             <Loader2 className="h-5 w-5 animate-spin text-blue-600 mr-3" />
@@ -0,0 +1,104 @@
+'use client';
+
+import { SearchJobEvent, PermitType } from '@/types';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { ProvenanceBadge } from '@/components/dashboard/provenance-badge';
+import { Loader2, CheckCircle2, XCircle, AlertCircle, RotateCw } from 'lucide-react';
+
+interface SearchProgressProps {
+  events: SearchJobEvent[];
+  partialPermits: PermitType[];
+  onCancel?: () => void;
+}
+
+function describeEvent(event: SearchJobEvent): string {
+  switch (event.type) {
+    case 'discovery_started':
+      return 'Looking up the jurisdiction for this address';
+    case 'jurisdiction_found':
+      return `Found ${event.jurisdiction.name}`;
+    case 'url_scraped':
+      return `Read ${event.url}`;
+    case 'url_failed':
+      return `Couldn't read ${event.url}: ${event.error}`;
+    case 'ai_extraction_started':
+      return `Extracting permit details from ${event.pageCount} page${event.pageCount === 1 ? '' : 's'}`;
+    case 'ai_extraction_fallback':
+      return `Using basic information instead: ${event.reason}`;
+    case 'partial_results':
+      return `Found ${event.permits.length} permit type${event.permits.length === 1 ? '' : 's'}`;
+    case 'job_retrying':
+      return `Attempt ${event.attempt} failed (${event.error}), retrying shortly`;
+    case 'job_completed':
+      return 'Search complete';
+    case 'job_failed':
+      return `Search failed: ${event.error}`;
+    case 'job_cancelled':
+      return 'Search cancelled';
+  }
+}
+
+function EventIcon({ event }: { event: SearchJobEvent }) {
+  switch (event.type) {
+    case 'url_failed':
+    case 'ai_extraction_fallback':
+      return <AlertCircle className="h-4 w-4 text-yellow-600 flex-shrink-0" />;
+    case 'job_retrying':
+      return <RotateCw className="h-4 w-4 text-yellow-600 flex-shrink-0" />;
+    case 'job_failed':
+    case 'job_cancelled':
+      return <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />;
+    default:
+      return <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />;
+  }
+}
+
+/**
+ * Live view of an async search job: overall progress, each stage as it happens, and permits found so far
+ */
+export function SearchProgress({ events, partialPermits, onCancel }: SearchProgressProps) {
+  const progress = events.length > 0 ? events[events.length - 1].progress : 0;
+
+  return (
+    <div className="mt-4 p-4 bg-blue-50 rounded-md border border-blue-200 space-y-4">
+      <div className="flex items-center">
+        <Loader2 className="h-5 w-5 animate-spin text-blue-600 mr-3" />
+        <div className="flex-1">
+          <p className="text-blue-800 font-medium">Searching for permit information...</p>
+          <Progress value={progress} className="mt-2 bg-blue-100" />
+        </div>
+        {onCancel && (
+          <Button type="button" variant="outline" size="sm" onClick={onCancel} className="ml-4">
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      {events.length > 0 && (
+        <ul className="space-y-1">
+          {events.map(event => (
+            <li key={event.id} className="flex items-start gap-2 text-sm text-blue-900">
+              <EventIcon event={event} />
+              <span className="break-all">{describeEvent(event)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {partialPermits.length > 0 && (
+        <div className="border-t border-blue-200 pt-3">
+          <p className="text-sm font-medium text-blue-800 mb-2">Permits found so far</p>
+          <ul className="space-y-1">
+            {partialPermits.map(permit => (
+              <li key={permit.id} className="flex items-center gap-2 text-sm text-gray-900">
+                {permit.name}
+                <ProvenanceBadge provenance={permit.provenance} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,14 @@
 import OpenAI from 'openai';
-import { PermitType, PermitFee, ContactInfo, ProcessingInfo, PermitCategory, PermitForm } from '@/types';
+import { PermitType, PermitFee, ContactInfo, ProcessingInfo, PermitCategory, PermitForm, FieldProvenance } from '@/types';
 import { ScrapingResult } from '@/lib/scraping/scraper';
+import { throwIfCancelled } from '@/lib/network';
+import {
+  createProvenance,
+  withContactProvenance,
+  withFeeProvenance,
+  withFormProvenance,
+  withPermitProvenance,
+} from '@/lib/provenance';
 
 let openaiClient: OpenAI | null = null;
 
@@ -33,7 +41,12 @@ export interface ExtractedPermitData {
 }
 
 export class PermitDataProcessor {
-  async extractPermitInfo(htmlContent: string, url: string, scrapingResult?: ScrapingResult): Promise<ExtractedPermitData> {
+  async extractPermitInfo(
+    htmlContent: string,
+    url: string,
+    scrapingResult?: ScrapingResult,
+    signal?: AbortSignal
+  ): Promise<ExtractedPermitData> {
     try {
       console.log('AI processing permit data from:', url);
       console.log('Content length:', htmlContent.length);
@@ -41,7 +54,7 @@ export class PermitDataProcessor {
       // Check if we have structured data from advanced extraction
       if (scrapingResult?.structured) {
         console.log('Using structured data from advanced extraction');
-        return this.processStructuredData(scrapingResult.structured, htmlContent, url);
+        return this.processStructuredData(scrapingResult.structured, htmlContent, url, signal);
       }
 
       // If content is too short or missing, generate realistic demo data
@@ -80,6 +93,7 @@ export class PermitDataProcessor {
         max_tokens: isVercel ? 2000 : 4000, // Smaller token limit on Vercel
       }, {
         timeout: isVercel ? 15000 : 30000, // Shorter timeout on Vercel
+        signal,
       });
 
       const content = response.choices[0]?.message?.content;
@@ -89,8 +103,10 @@ export class PermitDataProcessor {
       }
 
       console.log('AI processing successful');
-      return this.parseAIResponse(content);
+      return this.parseAIResponse(content, url);
     } catch (error) {
+      // Don't hand back demo data to a caller that has already given up
+      throwIfCancelled(signal);
       console.error('AI processing error:', error);
       console.log('Falling back to demo permit data');
       return this.generateDemoPermitData();
@@ -164,7 +180,7 @@ Return only the JSON object, no additional text.
     `;
   }
 
-  private parseAIResponse(content: string): ExtractedPermitData {
+  private parseAIResponse(content: string, url: string): ExtractedPermitData {
     try {
       // Clean the response to extract JSON
       const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -175,12 +191,12 @@ Return only the JSON object, no additional text.
       const parsed = JSON.parse(jsonMatch[0]);
       
       // Validate and transform the data
-      return {
+      return this.withProvenance({
         permits: this.validatePermits(parsed.permits || []),
         fees: this.validateFees(parsed.fees || []),
         contact: this.validateContact(parsed.contact || {}),
         processing: this.validateProcessing(parsed.processing || {}),
-      };
+      }, createProvenance('permit_data_processor', url));
     } catch (error) {
       console.error('Failed to parse AI response:', error);
       throw new Error('Invalid AI response format');
@@ -249,21 +265,30 @@ Return only the JSON object, no additional text.
   /**
    * Process structured data from advanced extraction
    */
-  private async processStructuredData(structured: NonNullable<ScrapingResult['structured']>, htmlContent: string, url: string): Promise<ExtractedPermitData> {
+  private async processStructuredData(
+    structured: NonNullable<ScrapingResult['structured']>,
+    htmlContent: string,
+    url: string,
+    signal?: AbortSignal
+  ): Promise<ExtractedPermitData> {
+    const staticProvenance = createProvenance('static_extractor', url);
+
     // Start with extracted structured data
-    let permits = this.convertFeesToPermits(structured.fees);
+    let permits = withPermitProvenance(this.convertFeesToPermits(structured.fees), staticProvenance);
     let fees = structured.fees;
     let contact = structured.contact;
+    const averageTime = Object.values(structured.processingTimes).join(', ') || undefined;
     let processing: ProcessingInfo = {
-      averageTime: Object.values(structured.processingTimes).join(', ') || undefined,
+      averageTime,
       rushOptions: [],
       inspectionSchedule: undefined,
       appealProcess: undefined,
+      provenance: averageTime ? staticProvenance : undefined,
     };
 
     // If we have forms, convert them to permits with requirements
     if (structured.forms.length > 0) {
-      const formPermits = this.convertFormsToPermits(structured.forms);
+      const formPermits = withPermitProvenance(this.convertFormsToPermits(structured.forms), staticProvenance);
       permits = [...permits, ...formPermits];
     }
 
@@ -280,7 +305,7 @@ Return only the JSON object, no additional text.
     if (shouldUseAI && process.env.OPENAI_API_KEY) {
       console.log('Supplementing structured data with AI processing...');
       try {
-        const aiResult = await this.processWithAI(htmlContent, url, structured);
+        const aiResult = await this.processWithAI(htmlContent, url, structured, signal);
         
         // Merge AI results with structured data
         if (permits.length === 0) permits = aiResult.permits;
@@ -289,6 +314,7 @@ Return only the JSON object, no additional text.
         processing = { ...processing, ...aiResult.processing };
         
       } catch (error) {
+        throwIfCancelled(signal);
         console.warn('AI supplementation failed, using structured data only:', error);
       }
     }
@@ -376,7 +402,12 @@ Return only the JSON object, no additional text.
   /**
    * Process with AI using structured context
    */
-  private async processWithAI(htmlContent: string, url: string, structured: NonNullable<ScrapingResult['structured']>): Promise<ExtractedPermitData> {
+  private async processWithAI(
+    htmlContent: string,
+    url: string,
+    structured: NonNullable<ScrapingResult['structured']>,
+    signal?: AbortSignal
+  ): Promise<ExtractedPermitData> {
     const contextualPrompt = this.createContextualPrompt(htmlContent, url, structured);
     
     const openai = getOpenAIClient();
@@ -400,6 +431,7 @@ Return only the JSON object, no additional text.
       max_tokens: isVercel ? 2000 : 4000,
     }, {
       timeout: isVercel ? 15000 : 30000,
+      signal,
     });
 
     const content = response.choices[0]?.message?.content;
@@ -407,7 +439,7 @@ Return only the JSON object, no additional text.
       throw new Error('No AI response received');
     }
 
-    return this.parseAIResponse(content);
+    return this.parseAIResponse(content, url);
   }
 
   /**
@@ -453,7 +485,7 @@ Only include NEW information that supplements what was already extracted. Return
    * Generate basic permits when we have some data but no specific permits
    */
   private generateBasicPermits(): PermitType[] {
-    return [{
+    return withPermitProvenance([{
       id: this.generateId(),
       name: 'General Permit Information Available',
       category: PermitCategory.BUILDING,
@@ -464,7 +496,21 @@ Only include NEW information that supplements what was already extracted. Return
       fees: [],
       forms: [],
       lastUpdated: new Date(),
-    }];
+    }], createProvenance('synthetic_fallback'));
+  }
+
+  /**
+   * Tag every value in an extraction result that doesn't already carry provenance
+   */
+  private withProvenance(data: ExtractedPermitData, provenance: FieldProvenance): ExtractedPermitData {
+    return {
+      ...data,
+      permits: withPermitProvenance(data.permits, provenance),
+      fees: withFeeProvenance(data.fees, provenance),
+      contact: withContactProvenance(data.contact, provenance),
+      processing: { ...data.processing, provenance: data.processing.provenance ?? provenance },
+      permitForms: data.permitForms ? withFormProvenance(data.permitForms, provenance) : undefined,
+    };
   }
 
   private generateId(): string {
@@ -474,7 +520,8 @@ Only include NEW information that supplements what was already extracted. Return
   private generateDemoPermitData(): ExtractedPermitData {
     console.log('Generating realistic demo permit data for demonstration');
     
-    return {
+    // Demo data is never sourced from a jurisdiction, so it is always flagged as synthetic
+    return this.withProvenance({
       permits: [
         {
           id: this.generateId(),
@@ -626,7 +673,7 @@ Only include NEW information that supplements what was already extracted. Return
         }
       ],
       permitPortalUrl: undefined
-    };
+    }, createProvenance('synthetic_fallback'));
   }
 }
 
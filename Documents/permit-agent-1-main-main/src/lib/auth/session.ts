@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from './config';
+import { ApiResponse } from '@/types';
+
+/**
+ * ID of the signed-in user making the current request, or null for anonymous requests
+ */
+export async function getSessionUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  return session?.user?.id || null;
+}
+
+/**
+ * The signed-in user's ID and a name to show in change history
+ */
+export async function getSessionUser(): Promise<{ id: string; name: string } | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return null;
+  }
+  return { id: session.user.id, name: session.user.name || session.user.email };
+}
+
+/**
+ * The signed-in user's role ('user' or 'admin'), or null for anonymous requests
+ */
+export async function getSessionUserRole(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return null;
+  }
+  return session.user.role || 'user';
+}
+
+/**
+ * Guard for admin routes: a 401 or 403 response for anonymous and non-admin users, or null when
+ * the request can go ahead. `action` finishes the sign-in prompt, e.g. "manage jurisdictions".
+ */
+export async function requireAdmin(action: string): Promise<NextResponse<ApiResponse<null>> | null> {
+  const role = await getSessionUserRole();
+  if (role === 'admin') {
+    return null;
+  }
+
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: role ? 'Admin access required' : `Sign in to ${action}`,
+    timestamp: new Date(),
+  }, { status: role ? 403 : 401 });
+}
@@ -1,6 +1,9 @@
+// Seed data for the jurisdiction registry (scripts/seed-jurisdictions.ts loads it into the
+// jurisdictions table). Searches read the registry, so edit jurisdictions through the admin API.
 export interface GovernmentSite {
   city: string;
   state: string;
+  aliases?: string[];
   website: string;
   permitUrl: string;
   formsUrl?: string;
@@ -18,6 +21,7 @@ export const governmentSites: GovernmentSite[] = [
   {
     city: 'San Francisco',
     state: 'CA',
+    aliases: ['SF'],
     website: 'https://sf.gov',
     permitUrl: 'https://sf.gov/topics/building-permits',
     formsUrl: 'https://sf.gov/forms',
@@ -32,6 +36,7 @@ export const governmentSites: GovernmentSite[] = [
   {
     city: 'Los Angeles',
     state: 'CA',
+    aliases: ['LA'],
     website: 'https://www.ladbss.lacity.org',
     permitUrl: 'https://www.ladbss.lacity.org/permits',
     formsUrl: 'https://www.ladbss.lacity.org/forms',
@@ -62,6 +67,7 @@ export const governmentSites: GovernmentSite[] = [
   {
     city: 'New York',
     state: 'NY',
+    aliases: ['NYC', 'New York City', 'Manhattan', 'Brooklyn', 'Queens', 'Bronx', 'Staten Island'],
     website: 'https://www1.nyc.gov',
     permitUrl: 'https://www1.nyc.gov/site/buildings/business/permits.page',
     formsUrl: 'https://www1.nyc.gov/site/buildings/business/forms.page',
@@ -204,6 +210,7 @@ export const governmentSites: GovernmentSite[] = [
   {
     city: 'Philadelphia',
     state: 'PA',
+    aliases: ['Philly'],
     website: 'https://www.phila.gov',
     permitUrl: 'https://www.phila.gov/departments/department-of-licenses-and-inspections/permits/',
     formsUrl: 'https://www.phila.gov/departments/department-of-licenses-and-inspections/permits/forms/',
@@ -252,6 +259,7 @@ export const governmentSites: GovernmentSite[] = [
   {
     city: 'Nashville',
     state: 'TN',
+    aliases: ['Nashville-Davidson'],
     website: 'https://www.nashville.gov',
     permitUrl: 'https://www.nashville.gov/departments/codes-administration/permits',
     formsUrl: 'https://www.nashville.gov/departments/codes-administration/permits/forms',
@@ -300,6 +308,7 @@ export const governmentSites: GovernmentSite[] = [
   {
     city: 'Salt Lake City',
     state: 'UT',
+    aliases: ['SLC'],
     website: 'https://www.slc.gov',
     permitUrl: 'https://www.slc.gov/planning/permits/',
     formsUrl: 'https://www.slc.gov/planning/permits/forms/',
@@ -348,6 +357,7 @@ export const governmentSites: GovernmentSite[] = [
   {
     city: 'Kansas City',
     state: 'MO',
+    aliases: ['KCMO'],
     website: 'https://www.kcmo.gov',
     permitUrl: 'https://www.kcmo.gov/government/departments/planning-development/permits',
     formsUrl: 'https://www.kcmo.gov/government/departments/planning-development/permits/forms',
@@ -360,27 +370,3 @@ export const governmentSites: GovernmentSite[] = [
     notes: 'Planning and Development Department'
   }
 ];
-
-export function findGovernmentSite(city: string, state: string): GovernmentSite | null {
-  const normalizedCity = city.toLowerCase().trim();
-  const normalizedState = state.toLowerCase().trim();
-  
-  return governmentSites.find(site => 
-    site.city.toLowerCase() === normalizedCity && 
-    site.state.toLowerCase() === normalizedState
-  ) || null;
-}
-
-export function getAllGovernmentSites(): GovernmentSite[] {
-  return governmentSites;
-}
-
-export function searchGovernmentSites(query: string): GovernmentSite[] {
-  const normalizedQuery = query.toLowerCase();
-  
-  return governmentSites.filter(site => 
-    site.city.toLowerCase().includes(normalizedQuery) ||
-    site.state.toLowerCase().includes(normalizedQuery) ||
-    site.website.toLowerCase().includes(normalizedQuery)
-  );
-}
@@ -0,0 +1,262 @@
+import { OccupancyType, PermitCategory, WorkType } from '@/types';
+
+/**
+ * Conditions on a scope of work. Every field that is set must hold and numeric bounds are inclusive.
+ * Missing details err toward requiring a permit: an unknown value satisfies appliesWhen but never exemptWhen.
+ */
+export interface ScopeCondition {
+  occupancies?: OccupancyType[];
+  minSquareFootage?: number;
+  maxSquareFootage?: number;
+  minValuation?: number;
+  maxValuation?: number;
+  minHeightFeet?: number;
+  maxHeightFeet?: number;
+}
+
+export interface PermitRule {
+  id: string;
+  workTypes: WorkType[];
+  category: PermitCategory;
+  permitName: string;
+  reason: string;
+  requirements: string[];
+  appliesWhen?: ScopeCondition;
+  exemptWhen?: {
+    condition: ScopeCondition;
+    reason: string;
+  };
+}
+
+export interface JurisdictionRuleSet {
+  city: string;
+  state: string;
+  overrides: PermitRule[]; // Replace the default rule with the same id, or add a new one
+  disabledRuleIds?: string[];
+  notes?: string;
+}
+
+const RESIDENTIAL: OccupancyType[] = ['single_family', 'multi_family'];
+
+// Generic defaults, modelled on the International Residential Code (IRC R105) which most US jurisdictions adopt
+export const defaultPermitRules: PermitRule[] = [
+  // Decks
+  {
+    id: 'deck-building',
+    workTypes: ['deck'],
+    category: PermitCategory.BUILDING,
+    permitName: 'Building Permit (Deck)',
+    reason: 'Decks are structures that carry occupant loads and require structural review.',
+    requirements: ['Site plan showing setbacks', 'Framing plan with joist and beam sizes', 'Footing and ledger attachment details'],
+    exemptWhen: {
+      condition: { occupancies: ['single_family'], maxSquareFootage: 200, maxHeightFeet: 2.5 },
+      reason: 'Freestanding decks of 200 sq ft or less and no more than 30 inches above grade are exempt.'
+    }
+  },
+
+  // Fences
+  {
+    id: 'fence-building',
+    workTypes: ['fence'],
+    category: PermitCategory.BUILDING,
+    permitName: 'Building Permit (Fence)',
+    reason: 'Fences over the exempt height need a permit to verify footing and wind load design.',
+    requirements: ['Site plan showing fence location and property lines', 'Elevation showing fence height'],
+    exemptWhen: {
+      condition: { maxHeightFeet: 6 },
+      reason: 'Fences 6 ft or under are exempt.'
+    }
+  },
+  {
+    id: 'fence-zoning',
+    workTypes: ['fence'],
+    category: PermitCategory.ZONING,
+    permitName: 'Zoning Review (Fence)',
+    reason: 'Fences taller than 8 ft exceed typical residential zoning height limits and need zoning approval.',
+    requirements: ['Site plan showing yard setbacks'],
+    appliesWhen: { minHeightFeet: 8.01 }
+  },
+
+  // Water heaters
+  {
+    id: 'water-heater-plumbing',
+    workTypes: ['water_heater'],
+    category: PermitCategory.PLUMBING,
+    permitName: 'Plumbing Permit (Water Heater)',
+    reason: 'Replacing a water heater changes gas or electrical connections, venting and the pressure relief valve, which must be inspected.',
+    requirements: ['Manufacturer and model of the new unit', 'Expansion tank and seismic strapping where required']
+  },
+
+  // Re-roofing
+  {
+    id: 'reroof-building',
+    workTypes: ['reroof'],
+    category: PermitCategory.BUILDING,
+    permitName: 'Building Permit (Re-roof)',
+    reason: 'Re-roofing adds dead load and changes the weather barrier, so the number of layers and fastening are inspected.',
+    requirements: ['Roofing material and manufacturer', 'Number of existing roof layers', 'Roof area in squares'],
+    exemptWhen: {
+      condition: { maxSquareFootage: 100 },
+      reason: 'Roof repairs of 100 sq ft or less are treated as maintenance.'
+    }
+  },
+
+  // Accessory dwelling units
+  {
+    id: 'adu-zoning',
+    workTypes: ['adu'],
+    category: PermitCategory.ZONING,
+    permitName: 'Zoning / Planning Review (ADU)',
+    reason: 'ADUs must meet lot coverage, setback, height and parking standards before building review.',
+    requirements: ['Site plan with setbacks and lot coverage', 'Floor plans and elevations', 'Owner occupancy or deed restriction where required'],
+    appliesWhen: { occupancies: RESIDENTIAL }
+  },
+  {
+    id: 'adu-building',
+    workTypes: ['adu'],
+    category: PermitCategory.BUILDING,
+    permitName: 'Building Permit (ADU)',
+    reason: 'A new dwelling unit requires full structural, fire separation and energy code review.',
+    requirements: ['Construction drawings', 'Structural calculations', 'Energy code compliance forms'],
+    appliesWhen: { occupancies: RESIDENTIAL }
+  },
+  {
+    id: 'adu-electrical',
+    workTypes: ['adu'],
+    category: PermitCategory.ELECTRICAL,
+    permitName: 'Electrical Permit (ADU)',
+    reason: 'New dwelling units need their own branch circuits and often a service or panel upgrade.',
+    requirements: ['Load calculation', 'Panel schedule'],
+    appliesWhen: { occupancies: RESIDENTIAL }
+  },
+  {
+    id: 'adu-plumbing',
+    workTypes: ['adu'],
+    category: PermitCategory.PLUMBING,
+    permitName: 'Plumbing Permit (ADU)',
+    reason: 'New kitchen and bathroom fixtures require plumbing and sewer connection review.',
+    requirements: ['Fixture count', 'Sewer connection details'],
+    appliesWhen: { occupancies: RESIDENTIAL }
+  },
+  {
+    id: 'adu-mechanical',
+    workTypes: ['adu'],
+    category: PermitCategory.MECHANICAL,
+    permitName: 'Mechanical Permit (ADU)',
+    reason: 'Heating, cooling and ventilation for a new dwelling unit must be inspected.',
+    requirements: ['Equipment specifications', 'Ventilation plan'],
+    appliesWhen: { occupancies: RESIDENTIAL }
+  },
+
+  // Electrical service
+  {
+    id: 'panel-upgrade-electrical',
+    workTypes: ['panel_upgrade'],
+    category: PermitCategory.ELECTRICAL,
+    permitName: 'Electrical Permit (Service / Panel Upgrade)',
+    reason: 'Service and panel changes require utility coordination and inspection before reconnection.',
+    requirements: ['New service size in amps', 'Load calculation', 'Licensed electrical contractor or homeowner affidavit']
+  },
+
+  // HVAC
+  {
+    id: 'hvac-mechanical',
+    workTypes: ['hvac_replacement'],
+    category: PermitCategory.MECHANICAL,
+    permitName: 'Mechanical Permit (HVAC)',
+    reason: 'Furnace, air conditioner and heat pump replacements require inspection of venting, refrigerant lines and clearances.',
+    requirements: ['Equipment make, model and capacity', 'Licensed mechanical contractor']
+  },
+  {
+    id: 'hvac-electrical',
+    workTypes: ['hvac_replacement'],
+    category: PermitCategory.ELECTRICAL,
+    permitName: 'Electrical Permit (HVAC circuit)',
+    reason: 'Commercial HVAC replacements usually change the equipment circuit and disconnect.',
+    requirements: ['Circuit and disconnect sizing'],
+    appliesWhen: { occupancies: ['commercial'] }
+  },
+
+  // Solar
+  {
+    id: 'solar-electrical',
+    workTypes: ['solar'],
+    category: PermitCategory.ELECTRICAL,
+    permitName: 'Electrical Permit (Solar PV)',
+    reason: 'Solar PV systems connect to the building service and the utility grid.',
+    requirements: ['Single-line diagram', 'Module and inverter specifications', 'Utility interconnection application']
+  },
+  {
+    id: 'solar-building',
+    workTypes: ['solar'],
+    category: PermitCategory.BUILDING,
+    permitName: 'Building Permit (Solar racking)',
+    reason: 'Roof-mounted arrays add load to the roof structure.',
+    requirements: ['Roof framing details', 'Racking attachment specifications']
+  },
+
+  // Additions
+  {
+    id: 'addition-building',
+    workTypes: ['addition'],
+    category: PermitCategory.BUILDING,
+    permitName: 'Building Permit (Addition)',
+    reason: 'Adding conditioned floor area requires structural and energy code review.',
+    requirements: ['Construction drawings', 'Structural calculations', 'Energy code compliance forms']
+  },
+  {
+    id: 'addition-zoning',
+    workTypes: ['addition'],
+    category: PermitCategory.ZONING,
+    permitName: 'Zoning Review (Addition)',
+    reason: 'Expanding the building footprint must meet setback and lot coverage limits.',
+    requirements: ['Site plan with existing and proposed footprint']
+  },
+
+  // Demolition
+  {
+    id: 'demolition',
+    workTypes: ['demolition'],
+    category: PermitCategory.DEMOLITION,
+    permitName: 'Demolition Permit',
+    reason: 'Demolition requires utility disconnection and, for older buildings, asbestos survey.',
+    requirements: ['Utility disconnect letters', 'Asbestos survey for pre-1980 structures', 'Site plan'],
+    exemptWhen: {
+      condition: { occupancies: ['single_family'], maxSquareFootage: 120 },
+      reason: 'Removing a detached accessory structure of 120 sq ft or less is exempt.'
+    }
+  }
+];
+
+// Curated jurisdictions that differ from the defaults
+export const jurisdictionRuleSets: JurisdictionRuleSet[] = [
+  {
+    city: 'Seattle',
+    state: 'WA',
+    overrides: [
+      {
+        id: 'fence-building',
+        workTypes: ['fence'],
+        category: PermitCategory.BUILDING,
+        permitName: 'Building Permit (Fence)',
+        reason: 'Fences over 8 ft need a permit to verify footing and wind load design.',
+        requirements: ['Site plan showing fence location and property lines', 'Elevation showing fence height'],
+        exemptWhen: {
+          condition: { maxHeightFeet: 8 },
+          reason: 'Seattle exempts fences 8 ft or under.'
+        }
+      }
+    ],
+    notes: 'Seattle Residential Code raises the fence exemption to 8 ft'
+  }
+];
+
+export function findJurisdictionRuleSet(city: string, state: string): JurisdictionRuleSet | null {
+  const normalizedCity = city.toLowerCase().trim();
+  const normalizedState = state.toLowerCase().trim();
+
+  return jurisdictionRuleSets.find(ruleSet =>
+    ruleSet.city.toLowerCase() === normalizedCity &&
+    ruleSet.state.toLowerCase() === normalizedState
+  ) || null;
+}
@@ -0,0 +1,136 @@
+import { PoolClient } from 'pg';
+import { z } from 'zod';
+import { withDatabase } from './db';
+import { ApplicantProfile } from '@/types';
+
+export type ApplicantProfileInput = Omit<ApplicantProfile, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export const applicantProfileSchema = z.object({
+  role: z.enum(['applicant', 'contractor']),
+  name: z.string().min(1, 'Name is required'),
+  company: z.string().optional(),
+  email: z.string().email().optional(),
+  phone: z.string().optional(),
+  mailingAddress: z.object({
+    street: z.string().min(1),
+    city: z.string().min(1),
+    state: z.string().length(2),
+    zipCode: z.string().min(5),
+    county: z.string().optional(),
+  }).optional(),
+  licenseNumber: z.string().optional(),
+});
+
+function mapApplicantProfileRow(row: any): ApplicantProfile {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    role: row.role,
+    name: row.name,
+    company: row.company || undefined,
+    email: row.email || undefined,
+    phone: row.phone || undefined,
+    mailingAddress: row.mailing_address || undefined,
+    licenseNumber: row.license_number || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Create an applicant or contractor profile for a user
+ */
+export async function createApplicantProfile(userId: string, input: ApplicantProfileInput): Promise<ApplicantProfile> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `INSERT INTO applicant_profiles (user_id, role, name, company, email, phone, mailing_address, license_number)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        userId,
+        input.role,
+        input.name,
+        input.company || null,
+        input.email || null,
+        input.phone || null,
+        input.mailingAddress ? JSON.stringify(input.mailingAddress) : null,
+        input.licenseNumber || null
+      ]
+    );
+
+    return mapApplicantProfileRow(result.rows[0]);
+  });
+}
+
+/**
+ * Get a user's profile by ID. Returns null if it doesn't exist or belongs to someone else.
+ */
+export async function getApplicantProfile(userId: string, id: string): Promise<ApplicantProfile | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT * FROM applicant_profiles WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+
+    return result.rows.length > 0 ? mapApplicantProfileRow(result.rows[0]) : null;
+  });
+}
+
+/**
+ * List a user's profiles, applicants first
+ */
+export async function listApplicantProfiles(userId: string): Promise<ApplicantProfile[]> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT * FROM applicant_profiles WHERE user_id = $1 ORDER BY role, name`,
+      [userId]
+    );
+
+    return result.rows.map(mapApplicantProfileRow);
+  });
+}
+
+/**
+ * Replace a profile's details
+ */
+export async function updateApplicantProfile(
+  userId: string,
+  id: string,
+  input: ApplicantProfileInput
+): Promise<ApplicantProfile | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE applicant_profiles
+       SET role = $3, name = $4, company = $5, email = $6, phone = $7, mailing_address = $8, license_number = $9
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      [
+        id,
+        userId,
+        input.role,
+        input.name,
+        input.company || null,
+        input.email || null,
+        input.phone || null,
+        input.mailingAddress ? JSON.stringify(input.mailingAddress) : null,
+        input.licenseNumber || null
+      ]
+    );
+
+    return result.rows.length > 0 ? mapApplicantProfileRow(result.rows[0]) : null;
+  });
+}
+
+/**
+ * Delete a profile. Returns false if it didn't exist.
+ */
+export async function deleteApplicantProfile(userId: string, id: string): Promise<boolean> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `DELETE FROM applicant_profiles WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+
+    return result.rowCount !== null && result.rowCount > 0;
+  });
+}
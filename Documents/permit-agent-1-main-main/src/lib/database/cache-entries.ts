@@ -0,0 +1,120 @@
+import { PoolClient } from 'pg';
+import { withDatabase } from './db';
+import { CachePurgeFilter, CacheStoreEntry } from '@/lib/network/types';
+
+// data stays serialized; the cache store parses it
+function mapCacheEntryRow(row: any): CacheStoreEntry<string> {
+  return {
+    data: row.data,
+    storedAt: row.stored_at,
+    expiresAt: row.expires_at,
+    quality: row.quality ?? undefined,
+    url: row.url || undefined,
+    jurisdictionId: row.jurisdiction_id || undefined
+  };
+}
+
+export async function getCacheEntry(namespace: string, key: string): Promise<CacheStoreEntry<string> | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT * FROM cache_entries WHERE namespace = $1 AND key = $2`,
+      [namespace, key]
+    );
+    return result.rows.length > 0 ? mapCacheEntryRow(result.rows[0]) : null;
+  });
+}
+
+export async function saveCacheEntry(
+  namespace: string,
+  key: string,
+  entry: CacheStoreEntry<string>,
+  domain?: string
+): Promise<void> {
+  await withDatabase(async (client: PoolClient) => {
+    await client.query(
+      `INSERT INTO cache_entries (namespace, key, data, url, domain, jurisdiction_id, quality, stored_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (namespace, key) DO UPDATE SET
+         data = EXCLUDED.data,
+         url = EXCLUDED.url,
+         domain = EXCLUDED.domain,
+         jurisdiction_id = EXCLUDED.jurisdiction_id,
+         quality = EXCLUDED.quality,
+         stored_at = EXCLUDED.stored_at,
+         expires_at = EXCLUDED.expires_at`,
+      [
+        namespace,
+        key,
+        entry.data,
+        entry.url || null,
+        domain || null,
+        entry.jurisdictionId || null,
+        entry.quality ?? null,
+        entry.storedAt,
+        entry.expiresAt,
+      ]
+    );
+  });
+}
+
+export async function deleteCacheEntry(namespace: string, key: string): Promise<boolean> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `DELETE FROM cache_entries WHERE namespace = $1 AND key = $2`,
+      [namespace, key]
+    );
+    return (result.rowCount ?? 0) > 0;
+  });
+}
+
+/**
+ * Delete the entries matching a purge filter; returns how many were deleted
+ */
+export async function purgeCacheEntries(filter: CachePurgeFilter): Promise<number> {
+  const conditions: string[] = [];
+  const targets: string[] = [];
+  const values: unknown[] = [];
+
+  if (filter.namespace) {
+    values.push(filter.namespace);
+    conditions.push(`namespace = $${values.length}`);
+  }
+  if (filter.expiredBefore) {
+    values.push(filter.expiredBefore);
+    conditions.push(`expires_at < $${values.length}`);
+  }
+  if (filter.urlPrefix) {
+    // Escape LIKE wildcards so the prefix matches literally
+    values.push(filter.urlPrefix.replace(/[\\%_]/g, '\\$&') + '%');
+    targets.push(`url LIKE $${values.length}`);
+  }
+  if (filter.domains && filter.domains.length > 0) {
+    values.push(filter.domains);
+    targets.push(`domain = ANY($${values.length})`);
+  }
+  if (filter.jurisdictionId) {
+    values.push(filter.jurisdictionId);
+    targets.push(`jurisdiction_id = $${values.length}`);
+  }
+  if (targets.length > 0) {
+    conditions.push(`(${targets.join(' OR ')})`);
+  }
+
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `DELETE FROM cache_entries ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}`,
+      values
+    );
+    return result.rowCount ?? 0;
+  });
+}
+
+export async function countCacheEntries(namespace: string): Promise<number> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT COUNT(*) FROM cache_entries WHERE namespace = $1`,
+      [namespace]
+    );
+    return parseInt(result.rows[0].count);
+  });
+}
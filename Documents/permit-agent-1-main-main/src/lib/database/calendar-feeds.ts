@@ -0,0 +1,83 @@
+import { randomBytes } from 'crypto';
+import { PoolClient } from 'pg';
+import { withDatabase } from './db';
+import { CalendarFeed } from '@/types';
+
+function mapCalendarFeedRow(row: any): CalendarFeed {
+  return {
+    id: row.id,
+    projectId: row.project_id || undefined,
+    token: row.token,
+    createdAt: row.created_at,
+    lastAccessedAt: row.last_accessed_at || undefined
+  };
+}
+
+/**
+ * Create a calendar feed for all of a user's projects, or for one. Returns null if the
+ * project isn't the user's.
+ */
+export async function createCalendarFeed(userId: string, projectId?: string): Promise<CalendarFeed | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const token = randomBytes(24).toString('base64url');
+    const result = await client.query(
+      `INSERT INTO calendar_feeds (user_id, project_id, token)
+       SELECT $1, $2::uuid, $3
+       WHERE $2::uuid IS NULL OR EXISTS (SELECT 1 FROM user_projects WHERE id = $2 AND user_id = $1)
+       RETURNING *`,
+      [userId, projectId ?? null, token]
+    );
+
+    return result.rows.length > 0 ? mapCalendarFeedRow(result.rows[0]) : null;
+  });
+}
+
+/**
+ * List a user's feeds that haven't been revoked
+ */
+export async function listCalendarFeeds(userId: string): Promise<CalendarFeed[]> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT * FROM calendar_feeds
+       WHERE user_id = $1 AND revoked_at IS NULL
+       ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    return result.rows.map(mapCalendarFeedRow);
+  });
+}
+
+/**
+ * Stop a feed's token from working. Returns false if it didn't exist or was already revoked.
+ */
+export async function revokeCalendarFeed(userId: string, feedId: string): Promise<boolean> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE calendar_feeds SET revoked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+      [feedId, userId]
+    );
+
+    return result.rowCount !== null && result.rowCount > 0;
+  });
+}
+
+/**
+ * Look up an active feed by its token and note that it was fetched
+ */
+export async function getCalendarFeedByToken(token: string): Promise<(CalendarFeed & { userId: string }) | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE calendar_feeds SET last_accessed_at = CURRENT_TIMESTAMP
+       WHERE token = $1 AND revoked_at IS NULL
+       RETURNING *`,
+      [token]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return { ...mapCalendarFeedRow(result.rows[0]), userId: result.rows[0].user_id };
+  });
+}
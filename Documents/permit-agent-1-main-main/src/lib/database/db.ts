@@ -21,6 +21,23 @@ export async function withDatabase<T>(
   }
 }
 
+// Runs the callback in a transaction, rolling back if it throws
+export async function withTransaction<T>(
+  callback: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  return withDatabase(async (client) => {
+    await client.query('BEGIN');
+    try {
+      const result = await callback(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  });
+}
+
 // Health check function
 export async function checkDatabaseHealth(): Promise<boolean> {
   try {
@@ -0,0 +1,78 @@
+import { PoolClient } from 'pg';
+import { withDatabase } from './db';
+import { HttpCacheEntry } from '@/lib/network/types';
+
+function mapHttpCacheRow(row: any): HttpCacheEntry {
+  return {
+    url: row.url,
+    finalUrl: row.final_url,
+    status: row.status,
+    headers: row.headers || {},
+    body: row.body,
+    etag: row.etag || undefined,
+    lastModified: row.last_modified || undefined,
+    storedAt: row.stored_at,
+    expiresAt: row.expires_at
+  };
+}
+
+export async function getHttpCacheEntry(url: string): Promise<HttpCacheEntry | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(`SELECT * FROM http_cache WHERE url = $1`, [url]);
+    return result.rows.length > 0 ? mapHttpCacheRow(result.rows[0]) : null;
+  });
+}
+
+/**
+ * Store a response, replacing whatever was cached for the URL
+ */
+export async function saveHttpCacheEntry(entry: HttpCacheEntry): Promise<void> {
+  await withDatabase(async (client: PoolClient) => {
+    await client.query(
+      `INSERT INTO http_cache (url, final_url, status, headers, body, etag, last_modified, stored_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (url) DO UPDATE SET
+         final_url = EXCLUDED.final_url,
+         status = EXCLUDED.status,
+         headers = EXCLUDED.headers,
+         body = EXCLUDED.body,
+         etag = EXCLUDED.etag,
+         last_modified = EXCLUDED.last_modified,
+         stored_at = EXCLUDED.stored_at,
+         expires_at = EXCLUDED.expires_at`,
+      [
+        entry.url,
+        entry.finalUrl,
+        entry.status,
+        JSON.stringify(entry.headers),
+        entry.body,
+        entry.etag || null,
+        entry.lastModified || null,
+        entry.storedAt,
+        entry.expiresAt,
+      ]
+    );
+  });
+}
+
+/**
+ * Extend an entry the server confirmed is unchanged, merging in the headers it sent with the 304
+ */
+export async function refreshHttpCacheEntry(
+  url: string,
+  expiresAt: Date,
+  headers: Record<string, string>
+): Promise<void> {
+  await withDatabase(async (client: PoolClient) => {
+    await client.query(
+      `UPDATE http_cache
+       SET headers = headers || $2::jsonb,
+           etag = COALESCE($3, etag),
+           last_modified = COALESCE($4, last_modified),
+           stored_at = CURRENT_TIMESTAMP,
+           expires_at = $5
+       WHERE url = $1`,
+      [url, JSON.stringify(headers), headers['etag'] || null, headers['last-modified'] || null, expiresAt]
+    );
+  });
+}
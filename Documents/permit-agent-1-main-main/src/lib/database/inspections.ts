@@ -0,0 +1,129 @@
+import { PoolClient } from 'pg';
+import { z } from 'zod';
+import { withDatabase } from './db';
+import { ProjectInspection } from '@/types';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const inspectionStatusSchema = z.enum(['scheduled', 'passed', 'failed', 'cancelled']);
+
+export const inspectionInputSchema = z.object({
+  permitId: z.string().uuid(),
+  inspectionType: z.string().trim().min(1, 'Inspection type is required').max(255),
+  scheduledDate: dateSchema,
+  notes: z.string().max(5000).optional(),
+});
+
+export const inspectionUpdateSchema = z.object({
+  inspectionType: z.string().trim().min(1).max(255).optional(),
+  scheduledDate: dateSchema.optional(),
+  status: inspectionStatusSchema.optional(),
+  notes: z.string().max(5000).nullable().optional(),
+});
+
+export type InspectionInput = z.infer<typeof inspectionInputSchema>;
+export type InspectionUpdate = z.infer<typeof inspectionUpdateSchema>;
+
+function mapInspectionRow(row: any): ProjectInspection {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    projectPermitId: row.project_permit_id,
+    inspectionType: row.inspection_type,
+    scheduledDate: row.scheduled_date,
+    status: row.status,
+    notes: row.notes || undefined,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * List inspections on a user's projects, or on one of them, in date order
+ */
+export async function listInspections(userId: string, projectId?: string): Promise<ProjectInspection[]> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT i.* FROM project_inspections i
+       JOIN user_projects u ON u.id = i.project_id
+       WHERE u.user_id = $1 AND ($2::uuid IS NULL OR i.project_id = $2)
+       ORDER BY i.scheduled_date, i.created_at`,
+      [userId, projectId ?? null]
+    );
+
+    return result.rows.map(mapInspectionRow);
+  });
+}
+
+/**
+ * Book an inspection for a permit. Returns null if the permit isn't on the user's project.
+ */
+export async function scheduleInspection(
+  userId: string,
+  projectId: string,
+  input: InspectionInput
+): Promise<ProjectInspection | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `INSERT INTO project_inspections (project_id, project_permit_id, inspection_type, scheduled_date, notes)
+       SELECT p.project_id, p.id, $4, $5, $6
+       FROM project_permits p
+       JOIN user_projects u ON u.id = p.project_id
+       WHERE p.id = $1 AND p.project_id = $2 AND u.user_id = $3
+       RETURNING *`,
+      [input.permitId, projectId, userId, input.inspectionType, input.scheduledDate, input.notes || null]
+    );
+
+    return result.rows.length > 0 ? mapInspectionRow(result.rows[0]) : null;
+  });
+}
+
+/**
+ * Reschedule an inspection or record its result. Returns null if it doesn't exist.
+ */
+export async function updateInspection(
+  userId: string,
+  projectId: string,
+  inspectionId: string,
+  update: InspectionUpdate
+): Promise<ProjectInspection | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE project_inspections i
+       SET inspection_type = COALESCE($4, i.inspection_type),
+           scheduled_date = COALESCE($5, i.scheduled_date),
+           status = COALESCE($6, i.status),
+           notes = CASE WHEN $7::boolean THEN $8 ELSE i.notes END
+       FROM user_projects u
+       WHERE u.id = i.project_id AND i.id = $1 AND i.project_id = $2 AND u.user_id = $3
+       RETURNING i.*`,
+      [
+        inspectionId,
+        projectId,
+        userId,
+        update.inspectionType ?? null,
+        update.scheduledDate ?? null,
+        update.status ?? null,
+        update.notes !== undefined,
+        update.notes || null
+      ]
+    );
+
+    return result.rows.length > 0 ? mapInspectionRow(result.rows[0]) : null;
+  });
+}
+
+/**
+ * Delete an inspection. Returns false if it didn't exist.
+ */
+export async function deleteInspection(userId: string, projectId: string, inspectionId: string): Promise<boolean> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `DELETE FROM project_inspections i
+       USING user_projects u
+       WHERE u.id = i.project_id AND i.id = $1 AND i.project_id = $2 AND u.user_id = $3`,
+      [inspectionId, projectId, userId]
+    );
+
+    return result.rowCount !== null && result.rowCount > 0;
+  });
+}
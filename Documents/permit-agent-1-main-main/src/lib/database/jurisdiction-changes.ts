@@ -0,0 +1,82 @@
+import { PoolClient } from 'pg';
+import { withDatabase } from './db';
+import { JurisdictionChange, PageChange } from '@/types';
+
+function mapJurisdictionChangeRow(row: any): JurisdictionChange {
+  return {
+    id: row.id,
+    jurisdictionId: row.jurisdiction_id,
+    jurisdictionName: row.jurisdiction_name || undefined,
+    url: row.url,
+    changes: row.changes || [],
+    detectedAt: row.detected_at
+  };
+}
+
+/**
+ * Add an entry to a jurisdiction's change log
+ */
+export async function recordJurisdictionChange(
+  jurisdictionId: string,
+  url: string,
+  changes: PageChange[]
+): Promise<JurisdictionChange> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `INSERT INTO jurisdiction_changes (jurisdiction_id, url, changes)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [jurisdictionId, url, JSON.stringify(changes)]
+    );
+
+    return mapJurisdictionChangeRow(result.rows[0]);
+  });
+}
+
+/**
+ * A jurisdiction's change log, newest first
+ */
+export async function listJurisdictionChanges(
+  jurisdictionId: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ changes: JurisdictionChange[]; total: number }> {
+  const { limit = 50, offset = 0 } = options;
+
+  return withDatabase(async (client: PoolClient) => {
+    const countResult = await client.query(
+      `SELECT COUNT(*) FROM jurisdiction_changes WHERE jurisdiction_id = $1`,
+      [jurisdictionId]
+    );
+    const result = await client.query(
+      `SELECT * FROM jurisdiction_changes
+       WHERE jurisdiction_id = $1
+       ORDER BY detected_at DESC
+       LIMIT $2 OFFSET $3`,
+      [jurisdictionId, limit, offset]
+    );
+
+    return {
+      changes: result.rows.map(mapJurisdictionChangeRow),
+      total: parseInt(countResult.rows[0].count)
+    };
+  });
+}
+
+/**
+ * Recent changes across every active jurisdiction in a state, newest first
+ */
+export async function listStateJurisdictionChanges(state: string, limit = 50): Promise<JurisdictionChange[]> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT c.*, j.name AS jurisdiction_name
+       FROM jurisdiction_changes c
+       JOIN jurisdictions j ON j.id = c.jurisdiction_id
+       WHERE j.state = $1 AND j.is_active
+       ORDER BY c.detected_at DESC
+       LIMIT $2`,
+      [state.toUpperCase(), limit]
+    );
+
+    return result.rows.map(mapJurisdictionChangeRow);
+  });
+}
@@ -0,0 +1,413 @@
+import { PoolClient } from 'pg';
+import { z } from 'zod';
+import { withDatabase, withTransaction } from './db';
+import { PermitCategory, PermitType, RegistryJurisdiction } from '@/types';
+import { slugify } from '@/lib/utils';
+
+const optionalText = (max: number) => z.string().trim().max(max).optional().transform(value => value || undefined);
+
+const permitFeeInputSchema = z.object({
+  type: z.string().trim().min(1).max(100),
+  amount: z.coerce.number().nonnegative(),
+  unit: optionalText(50),
+  description: optionalText(2000),
+  conditions: z.array(z.string()).default([]),
+});
+
+const permitFormInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  url: z.string().url().max(500),
+  fileType: z.enum(['pdf', 'doc', 'online']).default('pdf'),
+  isRequired: z.boolean().default(true),
+  description: optionalText(2000),
+});
+
+const permitTypeInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  category: z.nativeEnum(PermitCategory),
+  description: optionalText(5000),
+  processingTime: optionalText(100),
+  requirements: z.array(z.string()).default([]),
+  fees: z.array(permitFeeInputSchema).default([]),
+  forms: z.array(permitFormInputSchema).default([]),
+});
+
+// Omitting permitTypes leaves a jurisdiction's existing permit types alone on update and import
+export const jurisdictionInputSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9-]+$/, 'Slugs are lowercase letters, numbers and dashes').max(150).optional(),
+  name: z.string().trim().min(1, 'Jurisdiction name is required').max(255),
+  type: z.enum(['city', 'county', 'state']).default('city'),
+  city: optionalText(100),
+  state: z.string().trim().length(2, 'State must be a 2-letter code').transform(state => state.toUpperCase()),
+  county: optionalText(100),
+  aliases: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+  website: z.string().url().max(500),
+  permitUrl: z.string().url().max(500).optional(),
+  formsUrl: z.string().url().max(500).optional(),
+  phone: optionalText(20),
+  email: z.string().email().max(255).optional(),
+  officeAddress: optionalText(500),
+  notes: optionalText(5000),
+  isActive: z.boolean().default(true),
+  monitorIntervalHours: z.coerce.number().int().min(1).max(24 * 365).optional(),
+  permitTypes: z.array(permitTypeInputSchema).max(100).optional(),
+});
+
+export type JurisdictionInput = z.infer<typeof jurisdictionInputSchema>;
+type PermitTypeInput = z.infer<typeof permitTypeInputSchema>;
+
+export interface JurisdictionListOptions {
+  state?: string;
+  query?: string; // Matches name, city or an alias
+  includeInactive?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export function jurisdictionSlug(input: Pick<JurisdictionInput, 'slug' | 'name' | 'state'>): string {
+  return input.slug || slugify(`${input.name} ${input.state}`);
+}
+
+function mapJurisdictionRow(row: any, permitTypes: PermitType[]): RegistryJurisdiction {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    type: row.type,
+    city: row.city || undefined,
+    state: row.state,
+    county: row.county || undefined,
+    aliases: row.aliases || [],
+    website: row.website,
+    permitUrl: row.permit_url || undefined,
+    formsUrl: row.forms_url || undefined,
+    phone: row.phone || undefined,
+    email: row.email || undefined,
+    officeAddress: row.office_address || undefined,
+    notes: row.notes || undefined,
+    isActive: row.is_active,
+    monitorIntervalHours: row.monitor_interval_hours ?? undefined,
+    permitTypes,
+    updatedAt: row.updated_at
+  };
+}
+
+async function loadPermitTypes(client: PoolClient, jurisdictionIds: string[]): Promise<Map<string, PermitType[]>> {
+  const permitTypes = new Map<string, PermitType[]>();
+  if (jurisdictionIds.length === 0) return permitTypes;
+
+  const typeResult = await client.query(
+    `SELECT * FROM permit_types WHERE jurisdiction_id = ANY($1) ORDER BY name`,
+    [jurisdictionIds]
+  );
+  const typeIds = typeResult.rows.map(row => row.id);
+  const [feeResult, formResult] = await Promise.all([
+    client.query(`SELECT * FROM permit_fees WHERE permit_type_id = ANY($1)`, [typeIds]),
+    client.query(`SELECT * FROM permit_forms WHERE permit_type_id = ANY($1) ORDER BY name`, [typeIds]),
+  ]);
+
+  for (const row of typeResult.rows) {
+    const permitType: PermitType = {
+      id: row.id,
+      name: row.name,
+      category: row.category,
+      description: row.description || undefined,
+      jurisdictionId: row.jurisdiction_id,
+      requirements: row.requirements || [],
+      processingTime: row.processing_time || undefined,
+      fees: feeResult.rows
+        .filter(fee => fee.permit_type_id === row.id)
+        .map(fee => ({
+          type: fee.fee_type,
+          amount: parseFloat(fee.amount),
+          unit: fee.unit || undefined,
+          description: fee.description || undefined,
+          conditions: fee.conditions || undefined,
+        })),
+      forms: formResult.rows
+        .filter(form => form.permit_type_id === row.id)
+        .map(form => ({
+          id: form.id,
+          name: form.name,
+          url: form.url,
+          fileType: form.file_type,
+          isRequired: form.is_required,
+          description: form.description || undefined,
+        })),
+      lastUpdated: row.updated_at,
+    };
+
+    const list = permitTypes.get(row.jurisdiction_id) || [];
+    list.push(permitType);
+    permitTypes.set(row.jurisdiction_id, list);
+  }
+  return permitTypes;
+}
+
+async function replacePermitTypes(client: PoolClient, jurisdictionId: string, permitTypes: PermitTypeInput[]): Promise<void> {
+  // Fees and forms cascade with their permit type
+  await client.query(`DELETE FROM permit_types WHERE jurisdiction_id = $1`, [jurisdictionId]);
+
+  for (const permitType of permitTypes) {
+    const result = await client.query(
+      `INSERT INTO permit_types (jurisdiction_id, name, category, description, processing_time, requirements)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [
+        jurisdictionId,
+        permitType.name,
+        permitType.category,
+        permitType.description || null,
+        permitType.processingTime || null,
+        permitType.requirements
+      ]
+    );
+    const permitTypeId = result.rows[0].id;
+
+    for (const fee of permitType.fees) {
+      await client.query(
+        `INSERT INTO permit_fees (permit_type_id, fee_type, amount, unit, description, conditions)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [permitTypeId, fee.type, fee.amount, fee.unit || null, fee.description || null, fee.conditions]
+      );
+    }
+    for (const form of permitType.forms) {
+      await client.query(
+        `INSERT INTO permit_forms (permit_type_id, name, url, file_type, is_required, description)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [permitTypeId, form.name, form.url, form.fileType, form.isRequired, form.description || null]
+      );
+    }
+  }
+}
+
+function jurisdictionValues(input: JurisdictionInput): any[] {
+  return [
+    jurisdictionSlug(input),
+    input.name,
+    input.type,
+    input.city || null,
+    input.state,
+    input.county || null,
+    input.aliases,
+    input.website,
+    input.permitUrl || null,
+    input.formsUrl || null,
+    input.phone || null,
+    input.email || null,
+    input.officeAddress || null,
+    input.notes || null,
+    input.isActive,
+    input.monitorIntervalHours ?? null
+  ];
+}
+
+async function getJurisdictionWith(client: PoolClient, id: string): Promise<RegistryJurisdiction | null> {
+  const result = await client.query(`SELECT * FROM jurisdictions WHERE id = $1`, [id]);
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const permitTypes = await loadPermitTypes(client, [id]);
+  return mapJurisdictionRow(result.rows[0], permitTypes.get(id) || []);
+}
+
+/**
+ * List registry jurisdictions by state and name, with their permit types
+ */
+export async function listJurisdictions(
+  options: JurisdictionListOptions = {}
+): Promise<{ jurisdictions: RegistryJurisdiction[]; total: number }> {
+  const { state, query, includeInactive = false, limit = 50, offset = 0 } = options;
+
+  return withDatabase(async (client: PoolClient) => {
+    const conditions = ['slug IS NOT NULL'];
+    const params: any[] = [];
+
+    if (!includeInactive) {
+      conditions.push('is_active');
+    }
+    if (state) {
+      params.push(state.toUpperCase());
+      conditions.push(`state = $${params.length}`);
+    }
+    if (query) {
+      params.push(`%${query.toLowerCase()}%`);
+      conditions.push(`(LOWER(name) LIKE $${params.length} OR LOWER(city) LIKE $${params.length}
+        OR EXISTS (SELECT 1 FROM unnest(aliases) alias WHERE LOWER(alias) LIKE $${params.length}))`);
+    }
+    const where = conditions.join(' AND ');
+
+    const countResult = await client.query(`SELECT COUNT(*) FROM jurisdictions WHERE ${where}`, params);
+    const result = await client.query(
+      `SELECT * FROM jurisdictions WHERE ${where}
+       ORDER BY state, name
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    const permitTypes = await loadPermitTypes(client, result.rows.map(row => row.id));
+    return {
+      jurisdictions: result.rows.map(row => mapJurisdictionRow(row, permitTypes.get(row.id) || [])),
+      total: parseInt(countResult.rows[0].count)
+    };
+  });
+}
+
+/**
+ * Every active registry jurisdiction in a state, for matching a searched city against
+ */
+export async function listActiveJurisdictionsInState(state: string): Promise<RegistryJurisdiction[]> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT * FROM jurisdictions WHERE state = $1 AND is_active AND slug IS NOT NULL`,
+      [state.toUpperCase()]
+    );
+
+    const permitTypes = await loadPermitTypes(client, result.rows.map(row => row.id));
+    return result.rows.map(row => mapJurisdictionRow(row, permitTypes.get(row.id) || []));
+  });
+}
+
+export async function getJurisdiction(id: string): Promise<RegistryJurisdiction | null> {
+  return withDatabase(client => getJurisdictionWith(client, id));
+}
+
+export async function getJurisdictionBySlug(slug: string): Promise<RegistryJurisdiction | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(`SELECT id FROM jurisdictions WHERE slug = $1`, [slug]);
+
+    return result.rows.length > 0 ? getJurisdictionWith(client, result.rows[0].id) : null;
+  });
+}
+
+/**
+ * Active jurisdictions with a permit or forms page that haven't been checked for changes within
+ * their monitoring interval, least recently checked first
+ */
+export async function listJurisdictionsDueForMonitoring(defaultIntervalHours: number, limit = 10): Promise<RegistryJurisdiction[]> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT j.* FROM jurisdictions j
+       LEFT JOIN jurisdiction_monitoring m ON m.jurisdiction_id = j.id
+       WHERE j.is_active AND j.slug IS NOT NULL
+         AND (j.permit_url IS NOT NULL OR j.forms_url IS NOT NULL)
+         AND (m.last_checked_at IS NULL
+              OR m.last_checked_at < NOW() - make_interval(hours => COALESCE(j.monitor_interval_hours, $1)))
+       ORDER BY m.last_checked_at NULLS FIRST
+       LIMIT $2`,
+      [defaultIntervalHours, limit]
+    );
+
+    const permitTypes = await loadPermitTypes(client, result.rows.map(row => row.id));
+    return result.rows.map(row => mapJurisdictionRow(row, permitTypes.get(row.id) || []));
+  });
+}
+
+export async function markJurisdictionMonitored(id: string): Promise<void> {
+  await withDatabase(async (client: PoolClient) => {
+    await client.query(
+      `INSERT INTO jurisdiction_monitoring (jurisdiction_id, last_checked_at)
+       VALUES ($1, CURRENT_TIMESTAMP)
+       ON CONFLICT (jurisdiction_id) DO UPDATE SET last_checked_at = EXCLUDED.last_checked_at`,
+      [id]
+    );
+  });
+}
+
+/**
+ * Add a jurisdiction and its permit types to the registry
+ */
+export async function createJurisdiction(input: JurisdictionInput): Promise<RegistryJurisdiction> {
+  return withTransaction(async (client: PoolClient) => {
+    const result = await client.query(
+      `INSERT INTO jurisdictions
+         (slug, name, type, city, state, county, aliases, website, permit_url, forms_url, phone, email, office_address, notes, is_active,
+          monitor_interval_hours)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+       RETURNING id`,
+      jurisdictionValues(input)
+    );
+    const id = result.rows[0].id;
+
+    if (input.permitTypes) {
+      await replacePermitTypes(client, id, input.permitTypes);
+    }
+    return (await getJurisdictionWith(client, id))!;
+  });
+}
+
+/**
+ * Replace a jurisdiction's details. Returns null if it doesn't exist.
+ */
+export async function updateJurisdiction(id: string, input: JurisdictionInput): Promise<RegistryJurisdiction | null> {
+  return withTransaction(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE jurisdictions
+       SET slug = $2, name = $3, type = $4, city = $5, state = $6, county = $7, aliases = $8, website = $9,
+           permit_url = $10, forms_url = $11, phone = $12, email = $13, office_address = $14, notes = $15, is_active = $16,
+           monitor_interval_hours = $17
+       WHERE id = $1
+       RETURNING id`,
+      [id, ...jurisdictionValues(input)]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    if (input.permitTypes) {
+      await replacePermitTypes(client, id, input.permitTypes);
+    }
+    return getJurisdictionWith(client, id);
+  });
+}
+
+/**
+ * Delete a jurisdiction and its permit types. Returns false if it didn't exist.
+ */
+export async function deleteJurisdiction(id: string): Promise<boolean> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(`DELETE FROM jurisdictions WHERE id = $1`, [id]);
+
+    return result.rowCount !== null && result.rowCount > 0;
+  });
+}
+
+/**
+ * Create or update many jurisdictions at once, matched on slug. Runs in one transaction,
+ * so a failed row leaves the registry unchanged.
+ */
+export async function importJurisdictions(inputs: JurisdictionInput[]): Promise<{ created: number; updated: number }> {
+  return withTransaction(async (client: PoolClient) => {
+    let created = 0;
+    let updated = 0;
+
+    for (const input of inputs) {
+      const result = await client.query(
+        `INSERT INTO jurisdictions
+           (slug, name, type, city, state, county, aliases, website, permit_url, forms_url, phone, email, office_address, notes, is_active,
+            monitor_interval_hours)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+         ON CONFLICT (slug) DO UPDATE SET
+           name = EXCLUDED.name, type = EXCLUDED.type, city = EXCLUDED.city, state = EXCLUDED.state,
+           county = EXCLUDED.county, aliases = EXCLUDED.aliases, website = EXCLUDED.website,
+           permit_url = EXCLUDED.permit_url, forms_url = EXCLUDED.forms_url, phone = EXCLUDED.phone,
+           email = EXCLUDED.email, office_address = EXCLUDED.office_address, notes = EXCLUDED.notes,
+           is_active = EXCLUDED.is_active, monitor_interval_hours = EXCLUDED.monitor_interval_hours
+         RETURNING id, (xmax = 0) AS inserted`,
+        jurisdictionValues(input)
+      );
+
+      if (result.rows[0].inserted) {
+        created++;
+      } else {
+        updated++;
+      }
+      if (input.permitTypes) {
+        await replacePermitTypes(client, result.rows[0].id, input.permitTypes);
+      }
+    }
+
+    return { created, updated };
+  });
+}
@@ -0,0 +1,126 @@
+import { PoolClient } from 'pg';
+import { z } from 'zod';
+import { withDatabase } from './db';
+import { UserNotification } from '@/types';
+
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().uuid()).max(200).optional(), // Omit to mark everything read
+});
+
+export interface NewNotification {
+  title: string;
+  body: string;
+  link?: string;
+  jurisdictionChangeId?: string;
+}
+
+// A place a user has a project or saved search, for working out whose jurisdiction changed
+export interface UserLocation {
+  userId: string;
+  city: string;
+}
+
+function mapNotificationRow(row: any): UserNotification {
+  return {
+    id: row.id,
+    title: row.title,
+    body: row.body,
+    link: row.link || undefined,
+    jurisdictionChangeId: row.jurisdiction_change_id || undefined,
+    readAt: row.read_at || undefined,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Send the same notification to each of the given users
+ */
+export async function createNotifications(userIds: string[], notification: NewNotification): Promise<number> {
+  if (userIds.length === 0) return 0;
+
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `INSERT INTO notifications (user_id, jurisdiction_change_id, title, body, link)
+       SELECT user_id, $2, $3, $4, $5 FROM unnest($1::uuid[]) AS user_id`,
+      [
+        Array.from(new Set(userIds)),
+        notification.jurisdictionChangeId || null,
+        notification.title,
+        notification.body,
+        notification.link || null
+      ]
+    );
+
+    return result.rowCount || 0;
+  });
+}
+
+/**
+ * A user's notifications, newest first, and how many are unread
+ */
+export async function listNotifications(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<{ notifications: UserNotification[]; unreadCount: number }> {
+  const { unreadOnly = false, limit = 20 } = options;
+
+  return withDatabase(async (client: PoolClient) => {
+    const countResult = await client.query(
+      `SELECT COUNT(*) FROM notifications WHERE user_id = $1 AND read_at IS NULL`,
+      [userId]
+    );
+    const result = await client.query(
+      `SELECT * FROM notifications
+       WHERE user_id = $1 ${unreadOnly ? 'AND read_at IS NULL' : ''}
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+
+    return {
+      notifications: result.rows.map(mapNotificationRow),
+      unreadCount: parseInt(countResult.rows[0].count)
+    };
+  });
+}
+
+/**
+ * Mark some or all of a user's notifications read. Returns how many changed.
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = ids
+      ? await client.query(
+          `UPDATE notifications SET read_at = CURRENT_TIMESTAMP
+           WHERE user_id = $1 AND id = ANY($2) AND read_at IS NULL`,
+          [userId, ids]
+        )
+      : await client.query(
+          `UPDATE notifications SET read_at = CURRENT_TIMESTAMP
+           WHERE user_id = $1 AND read_at IS NULL`,
+          [userId]
+        );
+
+    return result.rowCount || 0;
+  });
+}
+
+/**
+ * The cities in a state where users have projects or saved searches
+ */
+export async function listUserLocationsInState(state: string): Promise<UserLocation[]> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT DISTINCT user_id, city FROM user_projects
+       WHERE UPPER(state) = $1 AND city IS NOT NULL AND user_id IS NOT NULL
+       UNION
+       SELECT DISTINCT user_id, search_query->'address'->>'city' AS city FROM saved_searches
+       WHERE UPPER(search_query->'address'->>'state') = $1 AND user_id IS NOT NULL`,
+      [state.toUpperCase()]
+    );
+
+    return result.rows
+      .filter(row => row.city)
+      .map(row => ({ userId: row.user_id, city: row.city }));
+  });
+}
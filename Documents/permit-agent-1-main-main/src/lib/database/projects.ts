@@ -0,0 +1,443 @@
+import { PoolClient } from 'pg';
+import { z } from 'zod';
+import { withDatabase, withTransaction } from './db';
+import {
+  Address,
+  PermitCategory,
+  PermitStatus,
+  ProjectPermit,
+  ProjectPermitEvent,
+  ProjectPermitField,
+  UserProject,
+} from '@/types';
+import { canTransition, PermitTransitionError } from '@/lib/projects/lifecycle';
+
+export interface ProjectPermitInput {
+  permitTypeId: string;
+  name: string;
+  category: PermitCategory;
+  processingTime?: string;
+}
+
+export interface CreateProjectInput {
+  name: string;
+  description?: string;
+  address: Address;
+  permits: ProjectPermitInput[];
+}
+
+// Dates are YYYY-MM-DD; null clears a field
+export interface ProjectPermitUpdate {
+  status?: PermitStatus;
+  permitNumber?: string | null;
+  applicationDate?: string | null;
+  approvalDate?: string | null;
+  expirationDate?: string | null;
+  notes?: string | null;
+}
+
+// Recorded on each event so the history still says who made a change after the account is gone
+export interface ProjectChangeAuthor {
+  userId: string;
+  name: string;
+}
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+export const projectPermitInputSchema = z.object({
+  permitTypeId: z.string().min(1),
+  name: z.string().min(1).max(255),
+  category: z.nativeEnum(PermitCategory),
+  processingTime: z.string().max(100).optional(),
+});
+
+export const projectPermitUpdateSchema = z.object({
+  status: z.nativeEnum(PermitStatus).optional(),
+  permitNumber: z.string().trim().max(100).nullable().optional(),
+  applicationDate: dateSchema.nullable().optional(),
+  approvalDate: dateSchema.nullable().optional(),
+  expirationDate: dateSchema.nullable().optional(),
+  notes: z.string().max(5000).nullable().optional(),
+});
+
+const PERMIT_COLUMNS: Record<ProjectPermitField, string> = {
+  status: 'status',
+  permitNumber: 'permit_number',
+  applicationDate: 'application_date',
+  approvalDate: 'approval_date',
+  expirationDate: 'expiration_date',
+  notes: 'notes',
+};
+
+const DATE_FIELDS = new Set<ProjectPermitField>(['applicationDate', 'approvalDate', 'expirationDate']);
+
+function toDateString(value: Date | string | undefined | null): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value.slice(0, 10);
+  // pg returns DATE columns as local midnight
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+function fieldValue(permit: ProjectPermit, field: ProjectPermitField): string | null {
+  const value = permit[field];
+  if (DATE_FIELDS.has(field)) return toDateString(value as Date | undefined);
+  return (value as string | undefined) ?? null;
+}
+
+function mapProjectPermitRow(row: any): ProjectPermit {
+  return {
+    id: row.id,
+    permitTypeId: row.permit_key || row.permit_type_id,
+    name: row.name,
+    category: row.category,
+    processingTime: row.processing_time || undefined,
+    status: row.status,
+    applicationDate: row.application_date || undefined,
+    approvalDate: row.approval_date || undefined,
+    expirationDate: row.expiration_date || undefined,
+    permitNumber: row.permit_number || undefined,
+    notes: row.notes || undefined,
+    updatedAt: row.updated_at || undefined
+  };
+}
+
+function mapProjectRow(row: any, permits: ProjectPermit[]): UserProject {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    description: row.description || undefined,
+    address: {
+      street: row.street,
+      city: row.city,
+      state: row.state,
+      zipCode: row.zip_code,
+      county: row.county || undefined,
+      latitude: row.latitude !== null ? parseFloat(row.latitude) : undefined,
+      longitude: row.longitude !== null ? parseFloat(row.longitude) : undefined
+    },
+    permits,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function mapProjectPermitEventRow(row: any): ProjectPermitEvent {
+  return {
+    id: String(row.id),
+    projectPermitId: row.project_permit_id || undefined,
+    permitName: row.permit_name,
+    changedBy: row.changed_by,
+    action: row.action,
+    changes: row.changes || {},
+    createdAt: row.created_at
+  };
+}
+
+async function recordEvent(
+  client: PoolClient,
+  projectId: string,
+  permit: { id: string; name: string },
+  author: ProjectChangeAuthor,
+  action: ProjectPermitEvent['action'],
+  changes: ProjectPermitEvent['changes'] = {}
+): Promise<void> {
+  await client.query(
+    `INSERT INTO project_permit_events
+       (project_id, project_permit_id, permit_name, changed_by_user_id, changed_by, action, changes)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [projectId, action === 'removed' ? null : permit.id, permit.name, author.userId, author.name, action, JSON.stringify(changes)]
+  );
+}
+
+async function insertPermits(
+  client: PoolClient,
+  projectId: string,
+  permits: ProjectPermitInput[],
+  author: ProjectChangeAuthor
+): Promise<ProjectPermit[]> {
+  const inserted: ProjectPermit[] = [];
+  for (const permit of permits) {
+    const result = await client.query(
+      `INSERT INTO project_permits (project_id, permit_key, name, category, processing_time, status)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [projectId, permit.permitTypeId, permit.name, permit.category, permit.processingTime || null, PermitStatus.PLANNING]
+    );
+    const projectPermit = mapProjectPermitRow(result.rows[0]);
+    await recordEvent(client, projectId, projectPermit, author, 'added', {
+      status: { from: null, to: PermitStatus.PLANNING }
+    });
+    inserted.push(projectPermit);
+  }
+  return inserted;
+}
+
+async function isProjectOwner(client: PoolClient, userId: string, projectId: string): Promise<boolean> {
+  const result = await client.query(
+    `SELECT 1 FROM user_projects WHERE id = $1 AND user_id = $2`,
+    [projectId, userId]
+  );
+  return result.rows.length > 0;
+}
+
+async function loadPermits(client: PoolClient, projectIds: string[]): Promise<Map<string, ProjectPermit[]>> {
+  const permitsByProject = new Map<string, ProjectPermit[]>();
+  if (projectIds.length === 0) return permitsByProject;
+
+  const result = await client.query(
+    `SELECT * FROM project_permits WHERE project_id = ANY($1) ORDER BY created_at, name`,
+    [projectIds]
+  );
+  for (const row of result.rows) {
+    const permits = permitsByProject.get(row.project_id) || [];
+    permits.push(mapProjectPermitRow(row));
+    permitsByProject.set(row.project_id, permits);
+  }
+  return permitsByProject;
+}
+
+/**
+ * Create a project with the permits it needs, all starting in planning
+ */
+export async function createProject(
+  userId: string,
+  input: CreateProjectInput,
+  author: ProjectChangeAuthor
+): Promise<UserProject> {
+  return withTransaction(async (client: PoolClient) => {
+    const { address } = input;
+    const result = await client.query(
+      `INSERT INTO user_projects (user_id, name, description, street, city, state, zip_code, county, latitude, longitude)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        userId,
+        input.name,
+        input.description || null,
+        address.street,
+        address.city,
+        address.state,
+        address.zipCode,
+        address.county || null,
+        address.latitude ?? null,
+        address.longitude ?? null
+      ]
+    );
+
+    const permits = await insertPermits(client, result.rows[0].id, input.permits, author);
+    return mapProjectRow(result.rows[0], permits);
+  });
+}
+
+/**
+ * List a user's projects with their permits, most recently updated first
+ */
+export async function listProjects(userId: string): Promise<UserProject[]> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT * FROM user_projects WHERE user_id = $1 ORDER BY updated_at DESC`,
+      [userId]
+    );
+
+    const permits = await loadPermits(client, result.rows.map(row => row.id));
+    return result.rows.map(row => mapProjectRow(row, permits.get(row.id) || []));
+  });
+}
+
+/**
+ * Get one of a user's projects with its permits
+ */
+export async function getProject(userId: string, projectId: string): Promise<UserProject | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT * FROM user_projects WHERE id = $1 AND user_id = $2`,
+      [projectId, userId]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const permits = await loadPermits(client, [projectId]);
+    return mapProjectRow(result.rows[0], permits.get(projectId) || []);
+  });
+}
+
+/**
+ * Rename a project or change its description
+ */
+export async function updateProject(
+  userId: string,
+  projectId: string,
+  details: { name?: string; description?: string | null }
+): Promise<UserProject | null> {
+  const updated = await withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE user_projects
+       SET name = COALESCE($3, name),
+           description = CASE WHEN $4::boolean THEN $5 ELSE description END
+       WHERE id = $1 AND user_id = $2
+       RETURNING id`,
+      [projectId, userId, details.name ?? null, details.description !== undefined, details.description || null]
+    );
+    return result.rows.length > 0;
+  });
+
+  return updated ? getProject(userId, projectId) : null;
+}
+
+/**
+ * Delete a project, its permits and their history. Returns false if it didn't exist.
+ */
+export async function deleteProject(userId: string, projectId: string): Promise<boolean> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `DELETE FROM user_projects WHERE id = $1 AND user_id = $2`,
+      [projectId, userId]
+    );
+
+    return result.rowCount !== null && result.rowCount > 0;
+  });
+}
+
+/**
+ * Attach more permits to a project. Returns null if the project doesn't exist.
+ */
+export async function addProjectPermits(
+  userId: string,
+  projectId: string,
+  permits: ProjectPermitInput[],
+  author: ProjectChangeAuthor
+): Promise<ProjectPermit[] | null> {
+  return withTransaction(async (client: PoolClient) => {
+    if (!(await isProjectOwner(client, userId, projectId))) {
+      return null;
+    }
+
+    const inserted = await insertPermits(client, projectId, permits, author);
+    await client.query(`UPDATE user_projects SET updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [projectId]);
+    return inserted;
+  });
+}
+
+/**
+ * Record progress on a permit: a status change, its permit number, dates or notes. Status changes
+ * must follow the permit lifecycle, and moving to applied or approved fills in that date if it's
+ * empty. Every change is recorded in the project's history. Returns null if the permit doesn't exist.
+ */
+export async function updateProjectPermit(
+  userId: string,
+  projectId: string,
+  permitId: string,
+  update: ProjectPermitUpdate,
+  author: ProjectChangeAuthor
+): Promise<ProjectPermit | null> {
+  return withTransaction(async (client: PoolClient) => {
+    const existing = await client.query(
+      `SELECT p.* FROM project_permits p
+       JOIN user_projects u ON u.id = p.project_id
+       WHERE p.id = $1 AND p.project_id = $2 AND u.user_id = $3
+       FOR UPDATE OF p`,
+      [permitId, projectId, userId]
+    );
+    if (existing.rows.length === 0) {
+      return null;
+    }
+
+    const current = mapProjectPermitRow(existing.rows[0]);
+    const next: ProjectPermitUpdate = { ...update };
+
+    if (next.status && !canTransition(current.status, next.status)) {
+      throw new PermitTransitionError(current.status, next.status);
+    }
+    const today = toDateString(new Date());
+    if (next.status === PermitStatus.APPLIED && next.applicationDate === undefined && !current.applicationDate) {
+      next.applicationDate = today;
+    }
+    if (next.status === PermitStatus.APPROVED && next.approvalDate === undefined && !current.approvalDate) {
+      next.approvalDate = today;
+    }
+
+    const changes: ProjectPermitEvent['changes'] = {};
+    const assignments: string[] = [];
+    const params: any[] = [permitId];
+
+    (Object.keys(PERMIT_COLUMNS) as ProjectPermitField[]).forEach(field => {
+      const value = next[field];
+      if (value === undefined) return;
+
+      const from = fieldValue(current, field);
+      const to = value === null || value === '' ? null : value;
+      if (from === to) return;
+
+      params.push(to);
+      assignments.push(`${PERMIT_COLUMNS[field]} = $${params.length}`);
+      changes[field] = { from, to };
+    });
+
+    if (assignments.length === 0) {
+      return current;
+    }
+
+    const result = await client.query(
+      `UPDATE project_permits SET ${assignments.join(', ')} WHERE id = $1 RETURNING *`,
+      params
+    );
+    await client.query(`UPDATE user_projects SET updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [projectId]);
+
+    const updated = mapProjectPermitRow(result.rows[0]);
+    await recordEvent(client, projectId, updated, author, 'updated', changes);
+    return updated;
+  });
+}
+
+/**
+ * Take a permit off a project. Its history is kept. Returns false if it didn't exist.
+ */
+export async function removeProjectPermit(
+  userId: string,
+  projectId: string,
+  permitId: string,
+  author: ProjectChangeAuthor
+): Promise<boolean> {
+  return withTransaction(async (client: PoolClient) => {
+    const result = await client.query(
+      `DELETE FROM project_permits p
+       USING user_projects u
+       WHERE u.id = p.project_id AND p.id = $1 AND p.project_id = $2 AND u.user_id = $3
+       RETURNING p.id, p.name`,
+      [permitId, projectId, userId]
+    );
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    await recordEvent(client, projectId, result.rows[0], author, 'removed');
+    await client.query(`UPDATE user_projects SET updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [projectId]);
+    return true;
+  });
+}
+
+/**
+ * A project's permit history, newest first
+ */
+export async function listProjectPermitEvents(
+  userId: string,
+  projectId: string,
+  limit: number = 100
+): Promise<ProjectPermitEvent[]> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT e.* FROM project_permit_events e
+       JOIN user_projects u ON u.id = e.project_id
+       WHERE e.project_id = $1 AND u.user_id = $2
+       ORDER BY e.created_at DESC, e.id DESC
+       LIMIT $3`,
+      [projectId, userId, limit]
+    );
+
+    return result.rows.map(mapProjectPermitEventRow);
+  });
+}
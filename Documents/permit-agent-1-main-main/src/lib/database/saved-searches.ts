@@ -0,0 +1,167 @@
+import { PoolClient } from 'pg';
+import { z } from 'zod';
+import { withDatabase } from './db';
+import { SavedSearch, SavedSearchSummary, SearchRequest, SearchResponse } from '@/types';
+
+export const savedSearchTagsSchema = z.array(z.string().trim().min(1).max(50)).max(20)
+  .transform(tags => Array.from(new Set(tags)));
+
+export interface SavedSearchListOptions {
+  tag?: string;
+  limit?: number;
+  offset?: number;
+}
+
+function mapSavedSearchSummaryRow(row: any): SavedSearchSummary {
+  return {
+    id: row.id,
+    name: row.name || undefined,
+    tags: row.tags || [],
+    address: row.search_query.address,
+    jurisdictionName: row.jurisdiction_name || undefined,
+    createdAt: row.created_at,
+    lastRunAt: row.last_run_at || row.created_at
+  };
+}
+
+function mapSavedSearchRow(row: any): SavedSearch {
+  return {
+    ...mapSavedSearchSummaryRow(row),
+    request: row.search_query,
+    response: row.results || undefined
+  };
+}
+
+/**
+ * Save a search and its results to a user's history
+ */
+export async function createSavedSearch(
+  userId: string,
+  request: SearchRequest,
+  response: SearchResponse | undefined,
+  details: { name?: string; tags?: string[] } = {}
+): Promise<SavedSearch> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `INSERT INTO saved_searches (user_id, search_query, results, name, tags, jurisdiction_name)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        userId,
+        JSON.stringify(request),
+        response ? JSON.stringify(response) : null,
+        details.name || null,
+        details.tags || [],
+        response?.jurisdiction.name || null
+      ]
+    );
+
+    return mapSavedSearchRow(result.rows[0]);
+  });
+}
+
+/**
+ * Get one of a user's saved searches, including its results
+ */
+export async function getSavedSearch(userId: string, id: string): Promise<SavedSearch | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT * FROM saved_searches WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+
+    return result.rows.length > 0 ? mapSavedSearchRow(result.rows[0]) : null;
+  });
+}
+
+/**
+ * List a user's saved searches, most recently run first. Results are left out to keep the list small.
+ */
+export async function listSavedSearches(
+  userId: string,
+  options: SavedSearchListOptions = {}
+): Promise<{ searches: SavedSearchSummary[]; total: number }> {
+  const { tag, limit = 20, offset = 0 } = options;
+
+  return withDatabase(async (client: PoolClient) => {
+    const conditions = ['user_id = $1'];
+    const params: any[] = [userId];
+    if (tag) {
+      params.push(tag);
+      conditions.push(`$${params.length} = ANY(tags)`);
+    }
+    const where = conditions.join(' AND ');
+
+    const rows = await client.query(
+      `SELECT id, name, tags, search_query, jurisdiction_name, created_at, last_run_at
+       FROM saved_searches
+       WHERE ${where}
+       ORDER BY COALESCE(last_run_at, created_at) DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+    const count = await client.query(`SELECT COUNT(*) AS total FROM saved_searches WHERE ${where}`, params);
+
+    return {
+      searches: rows.rows.map(mapSavedSearchSummaryRow),
+      total: parseInt(count.rows[0].total)
+    };
+  });
+}
+
+/**
+ * Rename or re-tag a saved search
+ */
+export async function updateSavedSearchDetails(
+  userId: string,
+  id: string,
+  details: { name?: string | null; tags?: string[] }
+): Promise<SavedSearch | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE saved_searches
+       SET name = CASE WHEN $3::boolean THEN $4 ELSE name END,
+           tags = COALESCE($5, tags)
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      [id, userId, details.name !== undefined, details.name || null, details.tags ?? null]
+    );
+
+    return result.rows.length > 0 ? mapSavedSearchRow(result.rows[0]) : null;
+  });
+}
+
+/**
+ * Replace a saved search's results after it has been re-run
+ */
+export async function updateSavedSearchResults(
+  userId: string,
+  id: string,
+  response: SearchResponse
+): Promise<SavedSearch | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE saved_searches
+       SET results = $3, jurisdiction_name = $4, last_run_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      [id, userId, JSON.stringify(response), response.jurisdiction.name]
+    );
+
+    return result.rows.length > 0 ? mapSavedSearchRow(result.rows[0]) : null;
+  });
+}
+
+/**
+ * Delete a saved search. Returns false if it didn't exist.
+ */
+export async function deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `DELETE FROM saved_searches WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+
+    return result.rowCount !== null && result.rowCount > 0;
+  });
+}
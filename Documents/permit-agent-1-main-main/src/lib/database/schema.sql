@@ -229,4 +229,241 @@ FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 INSERT INTO subscriptions (user_id, stripe_customer_id, plan_type, status, usage_limit) 
 VALUES 
   ('anonymous', 'anonymous', 'free', 'active', 3)
-ON CONFLICT (user_id) DO NOTHING;
\ No newline at end of file
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Search jobs queue. Workers lease rows with FOR UPDATE SKIP LOCKED and checkpoint each stage
+CREATE TABLE IF NOT EXISTS search_jobs (
+  id VARCHAR(64) PRIMARY KEY,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  stage VARCHAR(20) NOT NULL DEFAULT 'discovery' CHECK (stage IN ('discovery', 'scraping', 'processing', 'finalizing')),
+  progress INTEGER NOT NULL DEFAULT 0,
+  address JSONB NOT NULL,
+  checkpoint JSONB NOT NULL DEFAULT '{}',
+  result JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  locked_by VARCHAR(255),
+  locked_until TIMESTAMP,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Tables created before jobs could be cancelled have a status check without 'cancelled'
+ALTER TABLE search_jobs DROP CONSTRAINT IF EXISTS search_jobs_status_check;
+ALTER TABLE search_jobs ADD CONSTRAINT search_jobs_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled'));
+
+-- Optional scope of work, used to narrow results to the permits the project needs
+ALTER TABLE search_jobs ADD COLUMN IF NOT EXISTS scope JSONB;
+
+-- Who started the job, so only they can cancel it: the signed-in user, and the token handed back
+-- when the job was created (all an anonymous searcher has to show)
+ALTER TABLE search_jobs ADD COLUMN IF NOT EXISTS created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE search_jobs ADD COLUMN IF NOT EXISTS cancel_token VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_search_jobs_status_run_after ON search_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_search_jobs_locked_until ON search_jobs(locked_until);
+
+CREATE TRIGGER update_search_jobs_updated_at BEFORE UPDATE ON search_jobs
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Progress events for search jobs, read by the SSE stream
+CREATE TABLE IF NOT EXISTS search_job_events (
+  id BIGSERIAL PRIMARY KEY,
+  job_id VARCHAR(64) NOT NULL REFERENCES search_jobs(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  progress INTEGER NOT NULL DEFAULT 0,
+  payload JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_job_events_job_id ON search_job_events(job_id, id);
+
+-- Applicant and contractor details used to fill in permit applications
+CREATE TABLE IF NOT EXISTS applicant_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('applicant', 'contractor')),
+  name VARCHAR(255) NOT NULL,
+  company VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  mailing_address JSONB,
+  license_number VARCHAR(100),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_applicant_profiles_user_id ON applicant_profiles(user_id);
+
+CREATE TRIGGER update_applicant_profiles_updated_at BEFORE UPDATE ON applicant_profiles
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Saved searches: a name, tags and the jurisdiction for the history list, and when the search was last re-run
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS name VARCHAR(255);
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS jurisdiction_name VARCHAR(255);
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS last_run_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_created ON saved_searches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_tags ON saved_searches USING GIN (tags);
+
+CREATE TRIGGER update_saved_searches_updated_at BEFORE UPDATE ON saved_searches
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Project permits come from search results, which aren't stored in permit_types,
+-- so each row keeps its own copy of the permit's name, category and processing time
+ALTER TABLE project_permits ADD COLUMN IF NOT EXISTS permit_key VARCHAR(100);
+ALTER TABLE project_permits ADD COLUMN IF NOT EXISTS name VARCHAR(255);
+ALTER TABLE project_permits ADD COLUMN IF NOT EXISTS category VARCHAR(50);
+ALTER TABLE project_permits ADD COLUMN IF NOT EXISTS processing_time VARCHAR(100);
+ALTER TABLE project_permits ADD COLUMN IF NOT EXISTS created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE project_permits ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_project_permits_project ON project_permits(project_id);
+
+CREATE TRIGGER update_project_permits_updated_at BEFORE UPDATE ON project_permits
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Who changed what on a project's permits
+CREATE TABLE IF NOT EXISTS project_permit_events (
+  id BIGSERIAL PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES user_projects(id) ON DELETE CASCADE,
+  project_permit_id UUID REFERENCES project_permits(id) ON DELETE SET NULL,
+  permit_name VARCHAR(255) NOT NULL,
+  changed_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  changed_by VARCHAR(255) NOT NULL, -- Name or email at the time of the change
+  action VARCHAR(20) NOT NULL CHECK (action IN ('added', 'updated', 'removed')),
+  changes JSONB NOT NULL DEFAULT '{}', -- { field: { from, to } }
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_permit_events_project ON project_permit_events(project_id, created_at DESC);
+
+-- Inspections booked for project permits
+CREATE TABLE IF NOT EXISTS project_inspections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES user_projects(id) ON DELETE CASCADE,
+  project_permit_id UUID NOT NULL REFERENCES project_permits(id) ON DELETE CASCADE,
+  inspection_type VARCHAR(255) NOT NULL,
+  scheduled_date DATE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'passed', 'failed', 'cancelled')),
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_inspections_project ON project_inspections(project_id, scheduled_date);
+
+CREATE TRIGGER update_project_inspections_updated_at BEFORE UPDATE ON project_inspections
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Calendar subscription links. Calendar apps can't sign in, so the token in the URL is the credential;
+-- revoking a feed keeps the row but stops the token from working.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES user_projects(id) ON DELETE CASCADE, -- NULL for a feed of every project
+  token VARCHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_accessed_at TIMESTAMP,
+  revoked_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_user ON calendar_feeds(user_id);
+
+-- Curated jurisdiction registry: a stable slug for imports, the other names a city goes by,
+-- and the details that used to live in the static government sites list
+ALTER TABLE jurisdictions ADD COLUMN IF NOT EXISTS slug VARCHAR(150);
+ALTER TABLE jurisdictions ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE jurisdictions ADD COLUMN IF NOT EXISTS forms_url VARCHAR(500);
+ALTER TABLE jurisdictions ADD COLUMN IF NOT EXISTS office_address TEXT;
+ALTER TABLE jurisdictions ADD COLUMN IF NOT EXISTS notes TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jurisdictions_slug ON jurisdictions(slug);
+CREATE INDEX IF NOT EXISTS idx_jurisdictions_state ON jurisdictions(state) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_permit_types_jurisdiction ON permit_types(jurisdiction_id);
+
+-- Every scrape is recorded. Runs with no registry jurisdiction (e.g. from discovery) are tied to
+-- one by domain, and the content checksum shows when a page actually changed.
+ALTER TABLE scraping_results ADD COLUMN IF NOT EXISTS domain VARCHAR(255);
+ALTER TABLE scraping_results ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE scraping_results ADD COLUMN IF NOT EXISTS data_quality NUMERIC(4, 3);
+ALTER TABLE scraping_results ADD COLUMN IF NOT EXISTS content_checksum VARCHAR(64);
+ALTER TABLE scraping_results ADD COLUMN IF NOT EXISTS duration_ms INTEGER;
+ALTER TABLE scraping_results ALTER COLUMN url TYPE TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_scraping_results_jurisdiction ON scraping_results(jurisdiction_id, scraped_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scraping_results_domain ON scraping_results(domain, scraped_at DESC);
+
+-- Change monitoring: how often each jurisdiction's permit and forms pages are re-scraped,
+-- what changed in their extracted forms, fees and contact details, and who was told about it
+ALTER TABLE jurisdictions ADD COLUMN IF NOT EXISTS monitor_interval_hours INTEGER CHECK (monitor_interval_hours > 0);
+
+-- Kept apart from jurisdictions so a check doesn't bump the registry entry's updated_at
+CREATE TABLE IF NOT EXISTS jurisdiction_monitoring (
+  jurisdiction_id UUID PRIMARY KEY REFERENCES jurisdictions(id) ON DELETE CASCADE,
+  last_checked_at TIMESTAMP NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS jurisdiction_changes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  jurisdiction_id UUID NOT NULL REFERENCES jurisdictions(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  changes JSONB NOT NULL, -- PageChange[]
+  detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_jurisdiction_changes_jurisdiction ON jurisdiction_changes(jurisdiction_id, detected_at DESC);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  jurisdiction_change_id UUID REFERENCES jurisdiction_changes(id) ON DELETE CASCADE,
+  title VARCHAR(255) NOT NULL,
+  body TEXT NOT NULL,
+  link VARCHAR(500),
+  read_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+-- HTTP response cache for government pages and PDFs. Bodies are kept with their ETag and
+-- Last-Modified so expired entries are revalidated instead of downloaded again.
+CREATE TABLE IF NOT EXISTS http_cache (
+  url TEXT PRIMARY KEY,
+  final_url TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  headers JSONB NOT NULL DEFAULT '{}',
+  body BYTEA NOT NULL,
+  etag TEXT,
+  last_modified TEXT,
+  stored_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL
+);
+
+-- Application caches (search, scraping and AI parsing results) when CACHE_BACKEND=postgres.
+-- data is JSON text rather than JSONB so dates inside it can be revived on the way out.
+CREATE TABLE IF NOT EXISTS cache_entries (
+  namespace VARCHAR(100) NOT NULL,
+  key TEXT NOT NULL,
+  data TEXT NOT NULL,
+  url TEXT,
+  domain VARCHAR(255),
+  jurisdiction_id TEXT,
+  quality REAL,
+  stored_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  PRIMARY KEY (namespace, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cache_entries_expires ON cache_entries(namespace, expires_at);
+CREATE INDEX IF NOT EXISTS idx_cache_entries_domain ON cache_entries(domain);
+CREATE INDEX IF NOT EXISTS idx_cache_entries_jurisdiction ON cache_entries(jurisdiction_id);
@@ -0,0 +1,168 @@
+import { createHash } from 'crypto';
+import { PoolClient } from 'pg';
+import { withDatabase } from './db';
+import { RegistryJurisdiction, ScrapeRecord, ScrapeRecordDetail, ScrapeStats } from '@/types';
+import { extractDomain } from '@/lib/utils';
+
+export interface ScrapeToRecord {
+  url: string;
+  title?: string;
+  content: string;
+  success: boolean;
+  errors: string[];
+  extractedData?: object;
+  dataQuality?: number;
+  durationMs?: number;
+  jurisdictionId?: string;
+}
+
+// www.sf.gov and sf.gov are the same site
+export function scrapeDomain(url: string): string {
+  return extractDomain(url).toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Domains whose scrapes belong to a registry jurisdiction
+ */
+export function jurisdictionDomains(jurisdiction: Pick<RegistryJurisdiction, 'website' | 'permitUrl' | 'formsUrl'>): string[] {
+  const urls = [jurisdiction.website, jurisdiction.permitUrl, jurisdiction.formsUrl].filter((url): url is string => !!url);
+  return Array.from(new Set(urls.map(scrapeDomain).filter(Boolean)));
+}
+
+function mapScrapeRow(row: any): ScrapeRecord {
+  return {
+    id: row.id,
+    jurisdictionId: row.jurisdiction_id || undefined,
+    url: row.url,
+    title: row.title || undefined,
+    success: row.success,
+    errors: row.errors || [],
+    dataQuality: row.data_quality !== null ? parseFloat(row.data_quality) : undefined,
+    contentChecksum: row.content_checksum || undefined,
+    durationMs: row.duration_ms ?? undefined,
+    scrapedAt: row.scraped_at
+  };
+}
+
+/**
+ * Record a scrape, successful or not
+ */
+export async function recordScrapingResult(scrape: ScrapeToRecord): Promise<void> {
+  await withDatabase(async (client: PoolClient) => {
+    await client.query(
+      `INSERT INTO scraping_results
+         (jurisdiction_id, url, domain, title, success, extracted_data, errors, data_quality, content_checksum, duration_ms)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        scrape.jurisdictionId || null,
+        scrape.url,
+        scrapeDomain(scrape.url) || null,
+        scrape.title || null,
+        scrape.success,
+        scrape.extractedData ? JSON.stringify(scrape.extractedData) : null,
+        scrape.errors,
+        scrape.dataQuality ?? null,
+        scrape.content ? createHash('sha256').update(scrape.content).digest('hex') : null,
+        scrape.durationMs ?? null
+      ]
+    );
+  });
+}
+
+// Scrapes recorded against the jurisdiction, or against one of its domains
+const JURISDICTION_SCRAPES = `(jurisdiction_id = $1 OR domain = ANY($2))`;
+
+/**
+ * A jurisdiction's scrapes, newest first, without their extracted data
+ */
+export async function listJurisdictionScrapes(
+  jurisdiction: Pick<RegistryJurisdiction, 'id' | 'website' | 'permitUrl' | 'formsUrl'>,
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ scrapes: ScrapeRecord[]; total: number }> {
+  const { limit = 50, offset = 0 } = options;
+
+  return withDatabase(async (client: PoolClient) => {
+    const params = [jurisdiction.id, jurisdictionDomains(jurisdiction)];
+    const countResult = await client.query(
+      `SELECT COUNT(*) FROM scraping_results WHERE ${JURISDICTION_SCRAPES}`,
+      params
+    );
+    const result = await client.query(
+      `SELECT id, jurisdiction_id, url, title, success, errors, data_quality, content_checksum, duration_ms, scraped_at
+       FROM scraping_results
+       WHERE ${JURISDICTION_SCRAPES}
+       ORDER BY scraped_at DESC
+       LIMIT $3 OFFSET $4`,
+      [...params, limit, offset]
+    );
+
+    return {
+      scrapes: result.rows.map(mapScrapeRow),
+      total: parseInt(countResult.rows[0].count)
+    };
+  });
+}
+
+/**
+ * Success rate and last run times for a jurisdiction's scrapes
+ */
+export async function getJurisdictionScrapeStats(
+  jurisdiction: Pick<RegistryJurisdiction, 'id' | 'website' | 'permitUrl' | 'formsUrl'>
+): Promise<ScrapeStats> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT COUNT(*) AS total,
+              COUNT(*) FILTER (WHERE success) AS succeeded,
+              MAX(scraped_at) AS last_scraped_at,
+              MAX(scraped_at) FILTER (WHERE success) AS last_success_at
+       FROM scraping_results
+       WHERE ${JURISDICTION_SCRAPES}`,
+      [jurisdiction.id, jurisdictionDomains(jurisdiction)]
+    );
+
+    const row = result.rows[0];
+    const total = parseInt(row.total);
+    const succeeded = parseInt(row.succeeded);
+    return {
+      total,
+      succeeded,
+      successRate: total > 0 ? succeeded / total : 0,
+      lastScrapedAt: row.last_scraped_at || undefined,
+      lastSuccessAt: row.last_success_at || undefined
+    };
+  });
+}
+
+/**
+ * One scrape with its extracted data
+ */
+export async function getScrapingResult(id: string): Promise<ScrapeRecordDetail | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(`SELECT * FROM scraping_results WHERE id = $1`, [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return {
+      ...mapScrapeRow(result.rows[0]),
+      extractedData: result.rows[0].extracted_data || undefined
+    };
+  });
+}
+
+/**
+ * What the most recent successful scrape of a URL extracted, if any run extracted anything
+ */
+export async function getLatestExtraction(url: string): Promise<Record<string, any> | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT extracted_data FROM scraping_results
+       WHERE url = $1 AND success AND extracted_data IS NOT NULL
+       ORDER BY scraped_at DESC
+       LIMIT 1`,
+      [url]
+    );
+
+    return result.rows.length > 0 ? result.rows[0].extracted_data : null;
+  });
+}
@@ -0,0 +1,389 @@
+import { PoolClient } from 'pg';
+import { withDatabase } from './db';
+import { Address, ScopeOfWork, SearchJobEvent, SearchJobEventPayload, SearchResponse } from '@/types';
+
+export type SearchJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type SearchJobStage = 'discovery' | 'scraping' | 'processing' | 'finalizing';
+
+export interface SearchJobRecord {
+  id: string;
+  status: SearchJobStatus;
+  stage: SearchJobStage;
+  progress: number;
+  address: Address;
+  scope?: ScopeOfWork;
+  createdByUserId?: string;
+  cancelToken?: string;
+  checkpoint: Record<string, any>;
+  result?: SearchResponse;
+  error?: string;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SearchJobCounts {
+  total: number;
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+}
+
+function mapSearchJobRow(row: any): SearchJobRecord {
+  return {
+    id: row.id,
+    status: row.status,
+    stage: row.stage,
+    progress: row.progress,
+    address: row.address,
+    scope: row.scope || undefined,
+    createdByUserId: row.created_by_user_id || undefined,
+    cancelToken: row.cancel_token || undefined,
+    checkpoint: row.checkpoint || {},
+    result: row.result || undefined,
+    error: row.error || undefined,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAfter: row.run_after,
+    lockedBy: row.locked_by || undefined,
+    lockedUntil: row.locked_until || undefined,
+    startedAt: row.started_at || undefined,
+    completedAt: row.completed_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Who a job was started by; jobs the app starts for itself have neither
+export interface SearchJobCreator {
+  userId?: string;
+  cancelToken?: string;
+}
+
+/**
+ * Insert a new pending search job
+ */
+export async function createSearchJob(
+  id: string,
+  address: Address,
+  maxAttempts: number,
+  scope?: ScopeOfWork,
+  creator: SearchJobCreator = {}
+): Promise<SearchJobRecord> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `INSERT INTO search_jobs (id, address, scope, max_attempts, created_by_user_id, cancel_token)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        id,
+        JSON.stringify(address),
+        scope ? JSON.stringify(scope) : null,
+        maxAttempts,
+        creator.userId || null,
+        creator.cancelToken || null,
+      ]
+    );
+
+    return mapSearchJobRow(result.rows[0]);
+  });
+}
+
+/**
+ * Get search job by ID
+ */
+export async function getSearchJob(id: string): Promise<SearchJobRecord | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT * FROM search_jobs WHERE id = $1`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapSearchJobRow(result.rows[0]);
+  });
+}
+
+/**
+ * Lease a runnable job for a worker. Picks pending jobs whose backoff has elapsed and running jobs
+ * whose lease expired (the previous worker died). Rows locked by another worker are skipped.
+ * Pass a job ID to lease that specific job only.
+ */
+export async function leaseSearchJob(
+  workerId: string,
+  leaseMs: number,
+  jobId?: string
+): Promise<SearchJobRecord | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE search_jobs
+       SET status = 'running',
+           attempts = attempts + 1,
+           locked_by = $1,
+           locked_until = CURRENT_TIMESTAMP + $2 * INTERVAL '1 millisecond',
+           started_at = COALESCE(started_at, CURRENT_TIMESTAMP),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = (
+         SELECT id FROM search_jobs
+         WHERE attempts < max_attempts
+           AND (
+             (status = 'pending' AND run_after <= CURRENT_TIMESTAMP)
+             OR (status = 'running' AND locked_until < CURRENT_TIMESTAMP)
+           )
+           AND ($3::varchar IS NULL OR id = $3)
+         ORDER BY run_after
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [workerId, leaseMs, jobId || null]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapSearchJobRow(result.rows[0]);
+  });
+}
+
+/**
+ * Record a finished stage and extend the lease. Returns false if the worker no longer holds the lease.
+ */
+export async function saveSearchJobCheckpoint(
+  id: string,
+  workerId: string,
+  leaseMs: number,
+  stage: SearchJobStage,
+  progress: number,
+  checkpoint: Record<string, any>
+): Promise<boolean> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE search_jobs
+       SET stage = $3,
+           progress = $4,
+           checkpoint = checkpoint || $5::jsonb,
+           locked_until = CURRENT_TIMESTAMP + $6 * INTERVAL '1 millisecond',
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND locked_by = $2 AND status = 'running'
+       RETURNING id`,
+      [id, workerId, stage, progress, JSON.stringify(checkpoint), leaseMs]
+    );
+
+    return result.rows.length > 0;
+  });
+}
+
+/**
+ * Extend the lease while a long stage runs. Returns false if the job was cancelled or leased elsewhere.
+ */
+export async function renewSearchJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE search_jobs
+       SET locked_until = CURRENT_TIMESTAMP + $3 * INTERVAL '1 millisecond',
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND locked_by = $2 AND status = 'running'
+       RETURNING id`,
+      [id, workerId, leaseMs]
+    );
+
+    return result.rows.length > 0;
+  });
+}
+
+/**
+ * Cancel a pending or running job. The worker holding it notices on its next lease renewal.
+ * Returns null if the job doesn't exist or has already finished.
+ */
+export async function cancelSearchJob(id: string): Promise<SearchJobRecord | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE search_jobs
+       SET status = 'cancelled',
+           error = 'Cancelled by user',
+           locked_by = NULL,
+           locked_until = NULL,
+           completed_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status IN ('pending', 'running')
+       RETURNING *`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapSearchJobRow(result.rows[0]);
+  });
+}
+
+/**
+ * Store the final result and release the lease
+ */
+export async function completeSearchJob(id: string, workerId: string, searchResult: SearchResponse): Promise<boolean> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE search_jobs
+       SET status = 'completed',
+           stage = 'finalizing',
+           progress = 100,
+           result = $3,
+           error = NULL,
+           locked_by = NULL,
+           locked_until = NULL,
+           completed_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND locked_by = $2
+       RETURNING id`,
+      [id, workerId, JSON.stringify(searchResult)]
+    );
+
+    return result.rows.length > 0;
+  });
+}
+
+/**
+ * Release a failed attempt. The job goes back to pending after the backoff delay,
+ * or fails permanently when it is out of attempts or the error is not retryable.
+ */
+export async function failSearchJobAttempt(
+  id: string,
+  workerId: string,
+  error: string,
+  retryDelayMs: number,
+  retryable: boolean
+): Promise<SearchJobRecord | null> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE search_jobs
+       SET status = CASE WHEN $5 AND attempts < max_attempts THEN 'pending' ELSE 'failed' END,
+           completed_at = CASE WHEN $5 AND attempts < max_attempts THEN NULL ELSE CURRENT_TIMESTAMP END,
+           run_after = CURRENT_TIMESTAMP + $4 * INTERVAL '1 millisecond',
+           error = $3,
+           locked_by = NULL,
+           locked_until = NULL,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND locked_by = $2
+       RETURNING *`,
+      [id, workerId, error, retryDelayMs, retryable]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapSearchJobRow(result.rows[0]);
+  });
+}
+
+/**
+ * Fail jobs whose worker died on their last allowed attempt, since they can't be leased again
+ */
+export async function failAbandonedSearchJobs(): Promise<number> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE search_jobs
+       SET status = 'failed',
+           error = COALESCE(error, 'Worker stopped responding'),
+           locked_by = NULL,
+           locked_until = NULL,
+           completed_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE status = 'running'
+         AND locked_until < CURRENT_TIMESTAMP
+         AND attempts >= max_attempts`
+    );
+
+    return result.rowCount || 0;
+  });
+}
+
+/**
+ * Delete finished jobs older than the given age
+ */
+export async function deleteFinishedSearchJobs(olderThanMs: number): Promise<number> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `DELETE FROM search_jobs
+       WHERE status IN ('completed', 'failed', 'cancelled')
+         AND completed_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 millisecond'`,
+      [olderThanMs]
+    );
+
+    return result.rowCount || 0;
+  });
+}
+
+/**
+ * Count jobs by status
+ */
+export async function getSearchJobCounts(): Promise<SearchJobCounts> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT status, COUNT(*)::int AS count FROM search_jobs GROUP BY status`
+    );
+
+    const counts: SearchJobCounts = { total: 0, pending: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+    for (const row of result.rows) {
+      counts[row.status as SearchJobStatus] = row.count;
+      counts.total += row.count;
+    }
+
+    return counts;
+  });
+}
+
+/**
+ * Append a progress event for a job
+ */
+export async function appendSearchJobEvent(
+  jobId: string,
+  progress: number,
+  payload: SearchJobEventPayload
+): Promise<void> {
+  await withDatabase(async (client: PoolClient) => {
+    const { type, ...data } = payload;
+    await client.query(
+      `INSERT INTO search_job_events (job_id, type, progress, payload)
+       VALUES ($1, $2, $3, $4)`,
+      [jobId, type, progress, JSON.stringify(data)]
+    );
+  });
+}
+
+/**
+ * Get a job's events in order, optionally only those after a given event ID
+ */
+export async function getSearchJobEvents(jobId: string, afterId: number = 0): Promise<SearchJobEvent[]> {
+  return withDatabase(async (client: PoolClient) => {
+    const result = await client.query(
+      `SELECT * FROM search_job_events
+       WHERE job_id = $1 AND id > $2
+       ORDER BY id`,
+      [jobId, afterId]
+    );
+
+    return result.rows.map(row => ({
+      ...row.payload,
+      type: row.type,
+      id: Number(row.id),
+      jobId: row.job_id,
+      progress: row.progress,
+      createdAt: row.created_at
+    }));
+  });
+}
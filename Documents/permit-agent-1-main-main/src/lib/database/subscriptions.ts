@@ -33,6 +33,9 @@ export interface PlanConfig {
   usageLimit: number;
   stripePriceId: string;
   features: string[];
+  // Cached search results younger than freshForHours are served as is; older ones up to
+  // maxStaleHours are served while a refresh runs, and anything older waits for a new search
+  searchFreshness: { freshForHours: number; maxStaleHours: number };
 }
 
 // Subscription plan configurations
@@ -42,21 +45,24 @@ export const PLAN_CONFIGS: Record<string, PlanConfig> = {
     type: 'free',
     usageLimit: 3,
     stripePriceId: '', // No Stripe price for free plan
-    features: ['3 permit searches per month', 'Basic permit information', 'Email support']
+    features: ['3 permit searches per month', 'Basic permit information', 'Email support'],
+    searchFreshness: { freshForHours: 24, maxStaleHours: 30 * 24 }
   },
   pro: {
     name: 'Pro',
     type: 'pro',
     usageLimit: 50,
     stripePriceId: process.env.STRIPE_PRO_PRICE_ID || '',
-    features: ['50 searches per month', 'Priority support', 'Advanced filtering', 'Export to PDF']
+    features: ['50 searches per month', 'Priority support', 'Advanced filtering', 'Export to PDF'],
+    searchFreshness: { freshForHours: 6, maxStaleHours: 7 * 24 }
   },
   business: {
     name: 'Business',
     type: 'business',
     usageLimit: -1, // Unlimited
     stripePriceId: process.env.STRIPE_BUSINESS_PRICE_ID || '',
-    features: ['Unlimited searches', 'API access', 'Team features', 'Priority phone support', 'Custom integrations']
+    features: ['Unlimited searches', 'API access', 'Team features', 'Priority phone support', 'Custom integrations'],
+    searchFreshness: { freshForHours: 1, maxStaleHours: 3 * 24 }
   }
 };
 
@@ -0,0 +1,224 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GoldenDocument } from './golden';
+import { EVALUATED_EXTRACTORS, EvaluatedExtractor, prepareDocument, PreparedDocument } from './extractors';
+import {
+  addFieldScores,
+  EVALUATED_FIELDS,
+  EvaluatedField,
+  FieldMetrics,
+  FieldScores,
+  scoreExtraction,
+  toFieldMetrics,
+} from './scoring';
+
+export type FieldMetricsMap = Partial<Record<EvaluatedField, FieldMetrics>>;
+
+export interface ExtractorEvaluation {
+  extractor: string;
+  skipped?: string; // Why it wasn't run
+  documents: number; // Documents it was scored on
+  overall: FieldMetricsMap;
+  jurisdictions: Record<string, FieldMetricsMap>;
+  failures: { caseId: string; error: string }[];
+}
+
+export interface EvaluationReport {
+  generatedAt: Date;
+  documents: number;
+  extractors: ExtractorEvaluation[];
+}
+
+// Overall metrics per extractor from an accepted run; later runs must not fall below them
+export interface EvaluationBaseline {
+  createdAt: Date;
+  extractors: Record<string, FieldMetricsMap>;
+}
+
+export interface Regression {
+  extractor: string;
+  message: string;
+}
+
+const METRICS = ['precision', 'recall', 'accuracy'] as const;
+
+function toMetricsMap(scores: FieldScores): FieldMetricsMap {
+  const metrics: FieldMetricsMap = {};
+  for (const field of EVALUATED_FIELDS) {
+    const counts = scores[field];
+    if (counts) {
+      metrics[field] = toFieldMetrics(counts);
+    }
+  }
+  return metrics;
+}
+
+async function evaluateExtractor(extractor: EvaluatedExtractor, documents: PreparedDocument[]): Promise<ExtractorEvaluation> {
+  const evaluation: ExtractorEvaluation = {
+    extractor: extractor.name,
+    documents: 0,
+    overall: {},
+    jurisdictions: {},
+    failures: [],
+  };
+
+  if (extractor.requiresOpenAI && !process.env.OPENAI_API_KEY) {
+    return { ...evaluation, skipped: 'OPENAI_API_KEY is not set' };
+  }
+
+  let overall: FieldScores = {};
+  const byJurisdiction = new Map<string, FieldScores>();
+
+  for (const document of documents.filter(document => extractor.documents.includes(document.source.kind))) {
+    const { id, jurisdiction, labels } = document.source.goldenCase;
+    try {
+      const scores = scoreExtraction(labels, await extractor.extract(document));
+      overall = addFieldScores(overall, scores);
+      byJurisdiction.set(jurisdiction, addFieldScores(byJurisdiction.get(jurisdiction) ?? {}, scores));
+      evaluation.documents++;
+    } catch (error) {
+      evaluation.failures.push({ caseId: id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  evaluation.overall = toMetricsMap(overall);
+  for (const [jurisdiction, scores] of [...byJurisdiction].sort(([a], [b]) => a.localeCompare(b))) {
+    evaluation.jurisdictions[jurisdiction] = toMetricsMap(scores);
+  }
+  return evaluation;
+}
+
+/**
+ * Run each extractor over the golden documents it handles and score it against their labels.
+ * Counts are summed before rates are taken, so documents with more labels weigh more.
+ */
+export async function evaluateExtractors(
+  documents: GoldenDocument[],
+  options: { extractors?: string[] } = {}
+): Promise<EvaluationReport> {
+  const prepared: PreparedDocument[] = [];
+  for (const document of documents) {
+    prepared.push(await prepareDocument(document));
+  }
+
+  const extractors = EVALUATED_EXTRACTORS.filter(extractor => !options.extractors || options.extractors.includes(extractor.name));
+  const evaluations: ExtractorEvaluation[] = [];
+  for (const extractor of extractors) {
+    evaluations.push(await evaluateExtractor(extractor, prepared));
+  }
+
+  return { generatedAt: new Date(), documents: documents.length, extractors: evaluations };
+}
+
+function formatRate(value: number | null | undefined): string {
+  return value === null || value === undefined ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatMetricsRows(metrics: FieldMetricsMap, indent: string): string[] {
+  return EVALUATED_FIELDS.filter(field => metrics[field]).map(field => {
+    const m = metrics[field]!;
+    return `${indent}${field.padEnd(10)}${formatRate(m.precision).padStart(10)}${formatRate(m.recall).padStart(10)}` +
+      `${formatRate(m.accuracy).padStart(10)}   ${m.matched}/${m.extracted} extracted, ${m.expected} labelled`;
+  });
+}
+
+/**
+ * The report as text: overall metrics per extractor, then the same per jurisdiction
+ */
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const lines = [`Evaluated ${report.documents} golden documents`];
+
+  for (const evaluation of report.extractors) {
+    lines.push('');
+    if (evaluation.skipped) {
+      lines.push(`${evaluation.extractor}: skipped (${evaluation.skipped})`);
+      continue;
+    }
+    if (evaluation.documents === 0 && evaluation.failures.length === 0) {
+      lines.push(`${evaluation.extractor}: no documents it handles`);
+      continue;
+    }
+
+    lines.push(`${evaluation.extractor} (${evaluation.documents} documents)`);
+    lines.push(`  ${'field'.padEnd(10)}${'precision'.padStart(10)}${'recall'.padStart(10)}${'accuracy'.padStart(10)}`);
+    lines.push(...formatMetricsRows(evaluation.overall, '  '));
+
+    for (const [jurisdiction, metrics] of Object.entries(evaluation.jurisdictions)) {
+      lines.push(`  ${jurisdiction}`);
+      lines.push(...formatMetricsRows(metrics, '    '));
+    }
+    for (const failure of evaluation.failures) {
+      lines.push(`  failed on ${failure.caseId}: ${failure.error}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * A baseline from this run's metrics. Extractors that were skipped or left out keep their metrics
+ * from `previous`, so updating without OPENAI_API_KEY doesn't drop the AI extractors from the gate.
+ */
+export function toBaseline(report: EvaluationReport, previous?: EvaluationBaseline | null): EvaluationBaseline {
+  const extractors: Record<string, FieldMetricsMap> = { ...previous?.extractors };
+  for (const evaluation of report.extractors) {
+    if (!evaluation.skipped) {
+      extractors[evaluation.extractor] = evaluation.overall;
+    }
+  }
+  return { createdAt: report.generatedAt, extractors };
+}
+
+/**
+ * Where a run did worse than the baseline: a metric more than `tolerance` below it, an extractor
+ * throwing on a document, or an extractor the baseline has metrics for not running at all.
+ * Extractors missing from the baseline, or left out of this run, aren't compared.
+ */
+export function findRegressions(report: EvaluationReport, baseline: EvaluationBaseline, tolerance = 0.02): Regression[] {
+  const regressions: Regression[] = [];
+
+  for (const evaluation of report.extractors) {
+    const expected = baseline.extractors[evaluation.extractor];
+    if (!expected) continue;
+
+    if (evaluation.skipped) {
+      regressions.push({ extractor: evaluation.extractor, message: `skipped (${evaluation.skipped}), but the baseline has metrics for it` });
+      continue;
+    }
+
+    for (const failure of evaluation.failures) {
+      regressions.push({ extractor: evaluation.extractor, message: `failed on ${failure.caseId}: ${failure.error}` });
+    }
+
+    for (const field of EVALUATED_FIELDS) {
+      for (const metric of METRICS) {
+        const before = expected[field]?.[metric];
+        if (before === null || before === undefined) continue;
+
+        const after = evaluation.overall[field]?.[metric] ?? null;
+        if (after === null || after < before - tolerance) {
+          regressions.push({
+            extractor: evaluation.extractor,
+            message: `${field} ${metric} fell from ${formatRate(before)} to ${formatRate(after)}`,
+          });
+        }
+      }
+    }
+  }
+  return regressions;
+}
+
+export async function loadBaseline(file: string): Promise<EvaluationBaseline | null> {
+  try {
+    const baseline = JSON.parse(await fs.readFile(file, 'utf8'));
+    return { ...baseline, createdAt: new Date(baseline.createdAt) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export async function saveBaseline(file: string, baseline: EvaluationBaseline): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(baseline, null, 2) + '\n');
+}
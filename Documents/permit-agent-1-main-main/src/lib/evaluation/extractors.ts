@@ -0,0 +1,155 @@
+import * as cheerio from 'cheerio';
+import { ContactInfo } from '@/types';
+import { formatAddress } from '@/lib/utils';
+import { FixtureBundle, replayHttpFixtures } from '@/lib/network';
+import { readPDF } from '@/lib/pdf/reader';
+import { ContentExtractor } from '@/lib/scraping/extractors';
+import { convertToPermitForm, FormDetector } from '@/lib/scraping/form-detector';
+import { pdfAnalyzer } from '@/lib/scraping/pdf-analyzer';
+import { AIContentParser } from '@/lib/scraping/ai-parser';
+import { permitDataProcessor } from '@/lib/ai/processor';
+import { GoldenDocument } from './golden';
+import { Extraction } from './scoring';
+
+// A golden document in the forms the extractors take
+export interface PreparedDocument {
+  source: GoldenDocument;
+  url: string;
+  html?: string; // HTML documents only
+  text: string; // Readable text, as the scraper would pass to the AI extractors
+}
+
+export interface EvaluatedExtractor {
+  name: string;
+  documents: GoldenDocument['kind'][];
+  requiresOpenAI?: boolean; // Skipped without OPENAI_API_KEY, rather than scoring its demo-data fallback
+  extract(document: PreparedDocument): Promise<Extraction>;
+}
+
+function contactFields(contact: ContactInfo | undefined): Extraction['contact'] {
+  return {
+    phone: contact?.phone,
+    email: contact?.email,
+    address: contact?.address ? formatAddress(contact.address) : undefined,
+  };
+}
+
+/**
+ * Load the text an extractor would see for a document
+ */
+export async function prepareDocument(source: GoldenDocument): Promise<PreparedDocument> {
+  const url = source.goldenCase.url;
+
+  if (source.kind === 'pdf') {
+    const pdf = await readPDF(source.content);
+    return { source, url, text: pdf.text };
+  }
+
+  const html = source.content.toString('utf8');
+  const $ = cheerio.load(html);
+  $('script, style, nav, header, footer').remove();
+  return { source, url, html, text: $('body').text().replace(/\s+/g, ' ').trim() };
+}
+
+// PDFAnalyzer downloads what it analyzes, so the saved file is served to it as a one-response fixture
+function pdfFixture(document: PreparedDocument): FixtureBundle {
+  return {
+    version: 1,
+    name: document.source.goldenCase.id,
+    recordedAt: new Date(),
+    exchanges: [{
+      method: 'GET',
+      url: document.url,
+      status: 200,
+      headers: { 'content-type': 'application/pdf' },
+      body: document.source.content.toString('base64'),
+      bodyEncoding: 'base64',
+    }],
+  };
+}
+
+const contentExtractor: EvaluatedExtractor = {
+  name: 'content-extractor',
+  documents: ['html'],
+  async extract(document) {
+    const extractor = new ContentExtractor(document.html!, document.url);
+    return {
+      permits: extractor.extractDetailedPermitInfo().permitTypes.map(name => ({ name })),
+      fees: extractor.extractFeeSchedule(),
+      contact: contactFields(extractor.extractContactInfo()),
+    };
+  },
+};
+
+const formDetector: EvaluatedExtractor = {
+  name: 'form-detector',
+  documents: ['html'],
+  async extract(document) {
+    const detected = new FormDetector(document.html!, document.url).detectForms();
+    return {
+      forms: detected.map(form => convertToPermitForm(form, document.url)),
+    };
+  },
+};
+
+const pdfAnalyzerExtractor: EvaluatedExtractor = {
+  name: 'pdf-analyzer',
+  documents: ['pdf'],
+  async extract(document) {
+    const analysis = await replayHttpFixtures(pdfFixture(document), () => pdfAnalyzer.analyzePDF(document.url));
+    const contactValue = (type: string) => analysis.contacts.find(contact => contact.type === type)?.value;
+
+    return {
+      fees: analysis.fees
+        .map(fee => ({
+          type: fee.name,
+          amount: typeof fee.amount === 'number' ? fee.amount : parseFloat(fee.amount.replace(/[^0-9.]/g, '')),
+        }))
+        .filter(fee => Number.isFinite(fee.amount)),
+      contact: {
+        phone: contactValue('phone'),
+        email: contactValue('email'),
+        address: contactValue('address'),
+      },
+    };
+  },
+};
+
+const aiContentParser: EvaluatedExtractor = {
+  name: 'ai-content-parser',
+  documents: ['html', 'pdf'],
+  requiresOpenAI: true,
+  async extract(document) {
+    const parsed = await new AIContentParser().parseGovernmentContent(document.html ?? '', document.url, document.text);
+    return {
+      permits: parsed.permits,
+      fees: parsed.fees,
+      forms: parsed.forms,
+      contact: contactFields(parsed.contact),
+    };
+  },
+};
+
+const permitDataProcessorExtractor: EvaluatedExtractor = {
+  name: 'permit-data-processor',
+  documents: ['html', 'pdf'],
+  requiresOpenAI: true,
+  async extract(document) {
+    // The search job hands it the scraped page text, not the markup
+    const extracted = await permitDataProcessor.extractPermitInfo(document.text, document.url);
+    return {
+      permits: extracted.permits,
+      fees: extracted.fees,
+      forms: extracted.permitForms ?? [],
+      contact: contactFields(extracted.contact),
+    };
+  },
+};
+
+export const EVALUATED_EXTRACTORS: EvaluatedExtractor[] = [
+  contentExtractor,
+  formDetector,
+  pdfAnalyzerExtractor,
+  aiContentParser,
+  permitDataProcessorExtractor,
+];
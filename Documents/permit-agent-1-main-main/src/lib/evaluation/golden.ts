@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { PermitCategory } from '@/types';
+
+// Each case is a directory holding case.json and the saved page or PDF it labels
+export const DEFAULT_GOLDEN_DIRECTORY = path.join(process.cwd(), 'tests', 'golden');
+const CASE_FILE = 'case.json';
+
+// What a person reading the document found on it. Only what's listed is scored, so a label set
+// should be complete for the fields it covers: anything extracted beyond it counts against precision.
+export const goldenLabelsSchema = z.object({
+  permits: z.array(z.object({
+    name: z.string().min(1),
+    category: z.nativeEnum(PermitCategory).optional(),
+  })).default([]),
+  fees: z.array(z.object({
+    type: z.string().min(1),
+    amount: z.number().nonnegative(),
+    unit: z.string().optional(),
+  })).default([]),
+  forms: z.array(z.object({
+    name: z.string().min(1),
+    url: z.string().url(),
+  })).default([]),
+  contact: z.object({
+    phone: z.string().optional(),
+    email: z.string().optional(),
+    address: z.string().optional(), // One line, e.g. "505 Barton Springs Rd, Austin, TX 78704"
+  }).default({}),
+});
+
+export const goldenCaseSchema = z.object({
+  jurisdiction: z.string().min(1), // Registry slug, e.g. "austin-tx"; results are grouped by it
+  url: z.string().url(), // Where the document was saved from; extractors resolve links against it
+  document: z.string().regex(/\.(html?|pdf)$/i, 'document must be an .html or .pdf file'),
+  labels: goldenLabelsSchema,
+  notes: z.string().optional(),
+});
+
+export type GoldenLabels = z.infer<typeof goldenLabelsSchema>;
+
+export interface GoldenCase extends z.infer<typeof goldenCaseSchema> {
+  id: string; // Directory name
+}
+
+export interface GoldenDocument {
+  goldenCase: GoldenCase;
+  kind: 'html' | 'pdf';
+  content: Buffer;
+}
+
+/**
+ * Read and validate one case directory
+ */
+export async function loadGoldenCase(caseDirectory: string): Promise<GoldenDocument> {
+  const id = path.basename(caseDirectory);
+  const parsed = goldenCaseSchema.safeParse(JSON.parse(await fs.readFile(path.join(caseDirectory, CASE_FILE), 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid golden case ${id}: ${parsed.error.errors.map(e => `${e.path.join('.')} ${e.message}`).join(', ')}`);
+  }
+
+  return {
+    goldenCase: { ...parsed.data, id },
+    kind: /\.pdf$/i.test(parsed.data.document) ? 'pdf' : 'html',
+    content: await fs.readFile(path.join(caseDirectory, parsed.data.document)),
+  };
+}
+
+/**
+ * Every case under `directory`, in name order. A directory without case.json (such as one holding
+ * only shared assets) is skipped.
+ */
+export async function loadGoldenDataset(directory = DEFAULT_GOLDEN_DIRECTORY): Promise<GoldenDocument[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true }).catch(error => {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  });
+
+  const documents: GoldenDocument[] = [];
+  for (const entry of entries.filter(entry => entry.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const caseDirectory = path.join(directory, entry.name);
+    const hasCase = await fs.access(path.join(caseDirectory, CASE_FILE)).then(() => true, () => false);
+    if (hasCase) {
+      documents.push(await loadGoldenCase(caseDirectory));
+    }
+  }
+  return documents;
+}
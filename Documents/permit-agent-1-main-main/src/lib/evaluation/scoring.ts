@@ -0,0 +1,186 @@
+import { GoldenLabels } from './golden';
+
+export type EvaluatedField = 'permits' | 'fees' | 'forms' | 'contacts';
+export const EVALUATED_FIELDS: EvaluatedField[] = ['permits', 'fees', 'forms', 'contacts'];
+
+// What an extractor produced, reduced to what the labels describe. A field the extractor doesn't
+// produce at all is left undefined and isn't scored for it, and so are permit categories when it
+// gives none of its permits one.
+export interface Extraction {
+  permits?: { name: string; category?: string }[];
+  fees?: { type: string; amount: number; unit?: string }[];
+  forms?: { name: string; url: string }[];
+  contact?: { phone?: string; email?: string; address?: string };
+}
+
+// Counts for one field, summed across documents before rates are worked out
+export interface FieldCounts {
+  expected: number; // Labelled items
+  extracted: number; // Distinct items the extractor produced
+  matched: number; // Extracted items that correspond to a label
+  checked: number; // Attributes compared on matched items (a fee's amount, a form's name...)
+  correct: number; // Of those, how many were right
+}
+
+export interface FieldMetrics extends FieldCounts {
+  precision: number | null; // null when nothing was extracted
+  recall: number | null; // null when nothing was labelled
+  accuracy: number | null; // Field-level accuracy of matched items; null when nothing was compared
+}
+
+export type FieldScores = Partial<Record<EvaluatedField, FieldCounts>>;
+
+// Items are matched on names and URLs after smoothing over case, punctuation and spacing
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Link text often ends in the file type and size, e.g. "Application (PDF)" or "Affidavit [DOC, 45 KB]"
+function normalizeFormName(value: string): string {
+  return normalizeText(value.replace(/[([]\s*(pdf|docx?|xlsx?|rtf)\b[^)\]]*[)\]]/gi, ' '));
+}
+
+function normalizeUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    url.hash = '';
+    return url.href.toLowerCase().replace(/\/$/, '');
+  } catch {
+    return value.trim().toLowerCase();
+  }
+}
+
+function phoneDigits(value: string): string {
+  return value.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005;
+}
+
+/**
+ * Match extracted items to labels by key, then compare the attributes of each match. `compare`
+ * returns one boolean per attribute the label specifies.
+ */
+function scoreItems<L, E>(
+  labels: L[],
+  extracted: E[],
+  labelKey: (label: L) => string,
+  extractedKey: (item: E) => string,
+  compare: (label: L, item: E) => boolean[]
+): FieldCounts {
+  const labelsByKey = new Map(labels.map(label => [labelKey(label), label]));
+  const extractedByKey = new Map<string, E>();
+  for (const item of extracted) {
+    const key = extractedKey(item);
+    if (key && !extractedByKey.has(key)) {
+      extractedByKey.set(key, item);
+    }
+  }
+
+  const counts: FieldCounts = { expected: labelsByKey.size, extracted: extractedByKey.size, matched: 0, checked: 0, correct: 0 };
+  for (const [key, item] of extractedByKey) {
+    const label = labelsByKey.get(key);
+    if (!label) continue;
+
+    counts.matched++;
+    const results = compare(label, item);
+    counts.checked += results.length;
+    counts.correct += results.filter(Boolean).length;
+  }
+  return counts;
+}
+
+/**
+ * Score one extraction against a document's labels
+ */
+export function scoreExtraction(labels: GoldenLabels, extraction: Extraction): FieldScores {
+  const scores: FieldScores = {};
+
+  if (extraction.permits) {
+    const categorized = extraction.permits.some(permit => !!permit.category);
+    scores.permits = scoreItems(
+      labels.permits,
+      extraction.permits,
+      label => normalizeText(label.name),
+      item => normalizeText(item.name),
+      (label, item) => label.category && categorized ? [label.category === item.category] : []
+    );
+  }
+
+  if (extraction.fees) {
+    scores.fees = scoreItems(
+      labels.fees,
+      extraction.fees,
+      label => normalizeText(label.type),
+      item => normalizeText(item.type),
+      (label, item) => [
+        sameAmount(label.amount, item.amount),
+        ...(label.unit ? [normalizeText(label.unit) === normalizeText(item.unit || '')] : []),
+      ]
+    );
+  }
+
+  if (extraction.forms) {
+    scores.forms = scoreItems(
+      labels.forms,
+      extraction.forms,
+      label => normalizeUrl(label.url),
+      item => normalizeUrl(item.url),
+      (label, item) => [normalizeFormName(label.name) === normalizeFormName(item.name)]
+    );
+  }
+
+  // Each contact field is one item: found if the extractor produced it, correct if it's the right value
+  if (extraction.contact) {
+    const normalizers: Record<'phone' | 'email' | 'address', (value: string) => string> = {
+      phone: phoneDigits,
+      email: value => value.trim().toLowerCase(),
+      address: normalizeText,
+    };
+    const toItems = (contact: Extraction['contact'] = {}) => (Object.keys(normalizers) as (keyof typeof normalizers)[])
+      .filter(field => !!contact[field])
+      .map(field => ({ field, value: normalizers[field](contact[field]!) }));
+
+    scores.contacts = scoreItems(
+      toItems(labels.contact),
+      toItems(extraction.contact),
+      label => label.field,
+      item => item.field,
+      (label, item) => [label.value === item.value]
+    );
+  }
+
+  return scores;
+}
+
+export function addFieldScores(total: FieldScores, scores: FieldScores): FieldScores {
+  const sum: FieldScores = { ...total };
+  for (const field of EVALUATED_FIELDS) {
+    const counts = scores[field];
+    if (!counts) continue;
+
+    const current = sum[field] ?? { expected: 0, extracted: 0, matched: 0, checked: 0, correct: 0 };
+    sum[field] = {
+      expected: current.expected + counts.expected,
+      extracted: current.extracted + counts.extracted,
+      matched: current.matched + counts.matched,
+      checked: current.checked + counts.checked,
+      correct: current.correct + counts.correct,
+    };
+  }
+  return sum;
+}
+
+function rate(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+export function toFieldMetrics(counts: FieldCounts): FieldMetrics {
+  return {
+    ...counts,
+    precision: rate(counts.matched, counts.extracted),
+    recall: rate(counts.matched, counts.expected),
+    accuracy: rate(counts.correct, counts.checked),
+  };
+}
@@ -0,0 +1,118 @@
+// Builders for Atom (RFC 4287) and JSON Feed 1.1 documents from the same entries
+
+export type FeedFormat = 'atom' | 'json';
+
+export interface FeedEntry {
+  id: string; // Stable and unique, e.g. a urn:uuid
+  title: string;
+  updated: Date;
+  url?: string;
+  summary: string; // Plain text
+  html: string; // The full entry, as HTML
+  extension?: Record<string, unknown>; // Machine-readable details, added to JSON Feed items
+}
+
+export interface Feed {
+  id: string;
+  title: string;
+  description?: string;
+  homeUrl: string;
+  feedUrl: string; // Where this document is served
+  entries: FeedEntry[];
+}
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+// Key under which JSON Feed items carry `extension`; custom keys must start with an underscore
+const JSON_FEED_EXTENSION = '_permit_agent';
+
+/**
+ * Split a feed path segment such as "austin-tx.atom" into its name and format. Atom is the
+ * default when there's no extension.
+ */
+export function parseFeedName(name: string): { key: string; format: FeedFormat } {
+  const match = name.match(/^(.*)\.(atom|xml|json)$/i);
+  if (!match) return { key: name, format: 'atom' };
+  return { key: match[1], format: match[2].toLowerCase() === 'json' ? 'json' : 'atom' };
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// A feed's updated time is its newest entry's, so readers see the same document as unchanged
+function feedUpdated(feed: Feed): Date {
+  return feed.entries.reduce<Date>(
+    (latest, entry) => entry.updated > latest ? entry.updated : latest,
+    new Date(0)
+  );
+}
+
+export function buildAtomFeed(feed: Feed): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+  ];
+  if (feed.description) {
+    lines.push(`  <subtitle>${escapeXml(feed.description)}</subtitle>`);
+  }
+  lines.push(
+    `  <updated>${feedUpdated(feed).toISOString()}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}"/>`,
+    '  <author><name>PermitAgent</name></author>',
+  );
+
+  for (const entry of feed.entries) {
+    lines.push(
+      '  <entry>',
+      `    <id>${escapeXml(entry.id)}</id>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <updated>${entry.updated.toISOString()}</updated>`,
+    );
+    if (entry.url) {
+      lines.push(`    <link rel="alternate" href="${escapeXml(entry.url)}"/>`);
+    }
+    lines.push(
+      `    <summary>${escapeXml(entry.summary)}</summary>`,
+      `    <content type="html">${escapeXml(entry.html)}</content>`,
+      '  </entry>',
+    );
+  }
+
+  lines.push('</feed>');
+  return lines.join('\n') + '\n';
+}
+
+export function buildJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl,
+    items: feed.entries.map(entry => ({
+      id: entry.id,
+      url: entry.url,
+      title: entry.title,
+      summary: entry.summary,
+      content_html: entry.html,
+      date_modified: entry.updated.toISOString(),
+      ...(entry.extension ? { [JSON_FEED_EXTENSION]: entry.extension } : {}),
+    })),
+  }, null, 2);
+}
+
+export function buildFeed(feed: Feed, format: FeedFormat): string {
+  return format === 'json' ? buildJsonFeed(feed) : buildAtomFeed(feed);
+}
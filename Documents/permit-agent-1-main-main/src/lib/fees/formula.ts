@@ -0,0 +1,282 @@
+import { z } from 'zod';
+import {
+  FeeEstimate,
+  FeeEstimateInput,
+  FeeEstimateLine,
+  FeeFormula,
+  FeeQuantity,
+  PermitFee,
+  PermitType,
+  ValuationTier,
+} from '@/types';
+import { formatCurrency } from '@/lib/utils';
+import { fieldProvenanceSchema } from '@/lib/provenance';
+
+const limitsShape = {
+  minimum: z.number().nonnegative().optional(),
+  maximum: z.number().nonnegative().optional(),
+};
+
+const valuationTierSchema = z.object({
+  from: z.number().nonnegative(),
+  to: z.number().nonnegative().optional(),
+  baseFee: z.number().nonnegative(),
+  rate: z.number().nonnegative().optional(),
+  increment: z.number().positive().optional(),
+});
+
+export const feeFormulaSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('flat'), amount: z.number().nonnegative(), ...limitsShape }),
+  z.object({
+    kind: z.literal('per_unit'),
+    rate: z.number().nonnegative(),
+    quantity: z.enum(['square_feet', 'units', 'hours']),
+    baseFee: z.number().nonnegative().optional(),
+    ...limitsShape,
+  }),
+  z.object({ kind: z.literal('valuation_table'), tiers: z.array(valuationTierSchema).min(1), ...limitsShape }),
+  z.object({ kind: z.literal('percentage'), percent: z.number().nonnegative(), of: z.string().min(1), ...limitsShape }),
+]);
+
+export const permitFeeSchema = z.object({
+  type: z.string(),
+  amount: z.number(),
+  unit: z.string().optional(),
+  formula: feeFormulaSchema.optional(),
+  description: z.string().optional(),
+  conditions: z.array(z.string()).optional(),
+  provenance: fieldProvenanceSchema.optional(),
+});
+
+const QUANTITY_INPUTS: Record<FeeQuantity, keyof FeeEstimateInput> = {
+  square_feet: 'squareFootage',
+  units: 'units',
+  hours: 'hours',
+};
+
+const QUANTITY_LABELS: Record<FeeQuantity, string> = {
+  square_feet: 'sq ft',
+  units: 'unit',
+  hours: 'hour',
+};
+
+// Unit strings the extractors and AI parser have always written, mapped to formulas
+const LEGACY_UNIT_QUANTITIES: Record<string, FeeQuantity> = {
+  per_sqft: 'square_feet',
+  per_unit: 'units',
+  per_hour: 'hours',
+};
+
+/**
+ * The fee's formula, falling back to one inferred from its legacy unit string
+ */
+export function getFeeFormula(fee: PermitFee): FeeFormula {
+  if (fee.formula) {
+    return fee.formula;
+  }
+
+  const unit = (fee.unit || '').toLowerCase();
+  if (LEGACY_UNIT_QUANTITIES[unit]) {
+    return { kind: 'per_unit', rate: fee.amount, quantity: LEGACY_UNIT_QUANTITIES[unit] };
+  }
+  if (unit === 'percentage') {
+    return { kind: 'percentage', percent: fee.amount, of: 'valuation' };
+  }
+  return { kind: 'flat', amount: fee.amount };
+}
+
+/**
+ * The legacy unit string for a formula, kept so older consumers of `PermitFee.unit` still work
+ */
+export function feeUnitForFormula(formula: FeeFormula): string {
+  switch (formula.kind) {
+    case 'flat':
+      return 'flat';
+    case 'per_unit':
+      return formula.quantity === 'square_feet' ? 'per_sqft' : formula.quantity === 'hours' ? 'per_hour' : 'per_unit';
+    case 'valuation_table':
+      return 'valuation';
+    case 'percentage':
+      return 'percentage';
+  }
+}
+
+function isValuationTarget(of: string): boolean {
+  return of === 'valuation';
+}
+
+function describeLimits(formula: FeeFormula): string {
+  const limits = [
+    formula.minimum !== undefined && `min ${formatCurrency(formula.minimum)}`,
+    formula.maximum !== undefined && `max ${formatCurrency(formula.maximum)}`,
+  ].filter(Boolean);
+  return limits.length > 0 ? ` (${limits.join(', ')})` : '';
+}
+
+/**
+ * Human-readable summary of how a fee is calculated
+ */
+export function describeFeeFormula(formula: FeeFormula): string {
+  let summary: string;
+
+  switch (formula.kind) {
+    case 'flat':
+      summary = formatCurrency(formula.amount);
+      break;
+    case 'per_unit':
+      summary = `${formatCurrency(formula.rate)} per ${QUANTITY_LABELS[formula.quantity]}`;
+      if (formula.baseFee) {
+        summary = `${formatCurrency(formula.baseFee)} plus ${summary}`;
+      }
+      break;
+    case 'valuation_table':
+      summary = `Based on project valuation (${formula.tiers.length} tier${formula.tiers.length === 1 ? '' : 's'})`;
+      break;
+    case 'percentage':
+      summary = `${formula.percent}% of ${isValuationTarget(formula.of) ? 'project valuation' : formula.of}`;
+      break;
+  }
+
+  return summary + describeLimits(formula);
+}
+
+function findTier(tiers: ValuationTier[], valuation: number): ValuationTier {
+  const sorted = [...tiers].sort((a, b) => a.from - b.from);
+  return sorted.find(tier => tier.to === undefined || valuation <= tier.to) || sorted[sorted.length - 1];
+}
+
+function evaluateTier(tier: ValuationTier, valuation: number): number {
+  if (!tier.rate || !tier.increment || valuation <= tier.from) {
+    return tier.baseFee;
+  }
+  // Schedules charge for each increment or fraction thereof
+  return tier.baseFee + Math.ceil((valuation - tier.from) / tier.increment) * tier.rate;
+}
+
+function applyLimits(amount: number, formula: FeeFormula): number {
+  let limited = amount;
+  if (formula.minimum !== undefined) limited = Math.max(limited, formula.minimum);
+  if (formula.maximum !== undefined) limited = Math.min(limited, formula.maximum);
+  return Math.round(limited * 100) / 100;
+}
+
+function normalizeFeeName(name: string): string {
+  return name.toLowerCase().replace(/\b(the|fee|fees)\b/g, '').replace(/\s+/g, ' ').trim();
+}
+
+interface FeeEvaluation {
+  amount: number | null;
+  missingInput?: keyof FeeEstimateInput;
+}
+
+/**
+ * Evaluate a formula. `resolvedFees` holds amounts already computed for other fees, keyed by normalized type,
+ * for percentage-of-fee formulas.
+ */
+export function evaluateFeeFormula(
+  formula: FeeFormula,
+  input: FeeEstimateInput,
+  resolvedFees: Map<string, number> = new Map()
+): FeeEvaluation {
+  switch (formula.kind) {
+    case 'flat':
+      return { amount: applyLimits(formula.amount, formula) };
+
+    case 'per_unit': {
+      const inputKey = QUANTITY_INPUTS[formula.quantity];
+      const quantity = input[inputKey];
+      if (quantity === undefined) {
+        return { amount: null, missingInput: inputKey };
+      }
+      return { amount: applyLimits((formula.baseFee || 0) + formula.rate * quantity, formula) };
+    }
+
+    case 'valuation_table': {
+      if (input.valuation === undefined) {
+        return { amount: null, missingInput: 'valuation' };
+      }
+      return { amount: applyLimits(evaluateTier(findTier(formula.tiers, input.valuation), input.valuation), formula) };
+    }
+
+    case 'percentage': {
+      if (isValuationTarget(formula.of)) {
+        if (input.valuation === undefined) {
+          return { amount: null, missingInput: 'valuation' };
+        }
+        return { amount: applyLimits(input.valuation * formula.percent / 100, formula) };
+      }
+
+      const target = normalizeFeeName(formula.of);
+      const match = Array.from(resolvedFees.entries()).find(([name]) =>
+        name === target || name.includes(target) || target.includes(name)
+      );
+      if (!match) {
+        return { amount: null };
+      }
+      return { amount: applyLimits(match[1] * formula.percent / 100, formula) };
+    }
+  }
+}
+
+/**
+ * Itemized fee estimate across permits. Percentage-of-fee formulas are evaluated after the fees they
+ * reference, looking in the same permit first and then any other permit.
+ */
+export function estimateFees(
+  permits: Pick<PermitType, 'id' | 'name' | 'fees'>[],
+  input: FeeEstimateInput
+): FeeEstimate {
+  const lines: FeeEstimateLine[] = [];
+  const allResolved = new Map<string, number>();
+  const permitResolved = new Map<string, Map<string, number>>();
+  const deferred: { line: FeeEstimateLine; formula: FeeFormula; permitId: string }[] = [];
+
+  for (const permit of permits) {
+    const resolved = new Map<string, number>();
+    permitResolved.set(permit.id, resolved);
+
+    for (const fee of permit.fees) {
+      const formula = getFeeFormula(fee);
+      const line: FeeEstimateLine = {
+        permitId: permit.id,
+        permitName: permit.name,
+        feeType: fee.type,
+        amount: null,
+        basis: describeFeeFormula(formula),
+        provenance: fee.provenance,
+      };
+      lines.push(line);
+
+      if (formula.kind === 'percentage' && !isValuationTarget(formula.of)) {
+        deferred.push({ line, formula, permitId: permit.id });
+        continue;
+      }
+
+      const result = evaluateFeeFormula(formula, input);
+      line.amount = result.amount;
+      line.missingInput = result.missingInput;
+      if (result.amount !== null) {
+        resolved.set(normalizeFeeName(fee.type), result.amount);
+        allResolved.set(normalizeFeeName(fee.type), result.amount);
+      }
+    }
+  }
+
+  for (const { line, formula, permitId } of deferred) {
+    let result = evaluateFeeFormula(formula, input, permitResolved.get(permitId));
+    if (result.amount === null) {
+      result = evaluateFeeFormula(formula, input, allResolved);
+    }
+    line.amount = result.amount;
+    line.missingInput = result.missingInput;
+  }
+
+  const total = lines.reduce((sum, line) => sum + (line.amount ?? 0), 0);
+
+  return {
+    inputs: input,
+    lines,
+    total: Math.round(total * 100) / 100,
+    incomplete: lines.some(line => line.amount === null),
+  };
+}
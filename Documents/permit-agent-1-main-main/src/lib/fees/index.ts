@@ -0,0 +1,7 @@
+// Fee formulas barrel export
+
+// Evaluation and estimates
+export * from './formula';
+
+// Parsing fee schedule text
+export * from './parser';
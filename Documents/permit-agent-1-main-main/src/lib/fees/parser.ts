@@ -0,0 +1,126 @@
+import { FeeFormula, FeeQuantity, ValuationTier } from '@/types';
+
+const MONEY = String.raw`\$?\s*([\d,]+(?:\.\d+)?)`;
+
+const MINIMUM_PATTERN = new RegExp(String.raw`min(?:imum)?\.?\s*(?:fee\s*)?(?:of\s*)?${MONEY}`, 'i');
+const MAXIMUM_PATTERN = new RegExp(String.raw`(?:max(?:imum)?\.?|capped\s+at|not\s+to\s+exceed)\s*(?:fee\s*)?(?:of\s*)?${MONEY}`, 'i');
+const PERCENTAGE_PATTERN = /([\d.]+)\s*(?:%|percent)\s*of\s*(?:the\s+)?([a-z][a-z\s/-]*)/i;
+const INCREMENT_PATTERN = new RegExp(
+  String.raw`${MONEY}\s*for\s*(?:the\s+)?first\s*${MONEY}.*?${MONEY}\s*for\s*each\s*additional\s*${MONEY}`,
+  'i'
+);
+const PER_UNIT_PATTERN = new RegExp(
+  String.raw`${MONEY}\s*(?:per|\/|each|a)\s*(sq(?:uare)?\.?\s*(?:f(?:oo|ee)?t|ft)\.?|sf\b|hour|hr\b|unit|fixture|dwelling)`,
+  'i'
+);
+const BASE_PLUS_PATTERN = new RegExp(String.raw`${MONEY}\s*(?:\+|plus)`, 'i');
+const AMOUNT_PATTERN = new RegExp(MONEY);
+
+function toNumber(value: string): number {
+  return parseFloat(value.replace(/,/g, ''));
+}
+
+function quantityFor(unitText: string): FeeQuantity {
+  const lower = unitText.toLowerCase();
+  if (lower.startsWith('sq') || lower.startsWith('sf')) return 'square_feet';
+  if (lower.startsWith('h')) return 'hours';
+  return 'units';
+}
+
+function withLimits(formula: FeeFormula, text: string): FeeFormula {
+  const minimum = text.match(MINIMUM_PATTERN);
+  const maximum = text.match(MAXIMUM_PATTERN);
+  return {
+    ...formula,
+    ...(minimum ? { minimum: toNumber(minimum[1]) } : {}),
+    ...(maximum ? { maximum: toNumber(maximum[1]) } : {}),
+  };
+}
+
+/**
+ * Parse fee schedule text such as "$0.25 per sq ft, minimum $75" or "65% of the building permit fee"
+ * into a formula. Returns null when the text has no amount in it.
+ */
+export function parseFeeFormula(text: string): FeeFormula | null {
+  // Drop the limits first so their amounts aren't mistaken for the rate
+  const body = text.replace(MINIMUM_PATTERN, '').replace(MAXIMUM_PATTERN, '');
+
+  const increment = body.match(INCREMENT_PATTERN);
+  if (increment) {
+    return withLimits({
+      kind: 'valuation_table',
+      tiers: [{
+        from: toNumber(increment[2]),
+        baseFee: toNumber(increment[1]),
+        rate: toNumber(increment[3]),
+        increment: toNumber(increment[4]),
+      }],
+    }, text);
+  }
+
+  const percentage = body.match(PERCENTAGE_PATTERN);
+  if (percentage) {
+    const target = percentage[2].trim();
+    const of = /valuation|value|construction cost|project cost/i.test(target) ? 'valuation' : target;
+    return withLimits({ kind: 'percentage', percent: parseFloat(percentage[1]), of }, text);
+  }
+
+  const perUnit = body.match(PER_UNIT_PATTERN);
+  if (perUnit) {
+    const base = body.slice(0, perUnit.index).match(BASE_PLUS_PATTERN);
+    return withLimits({
+      kind: 'per_unit',
+      rate: toNumber(perUnit[1]),
+      quantity: quantityFor(perUnit[2]),
+      ...(base ? { baseFee: toNumber(base[1]) } : {}),
+    }, text);
+  }
+
+  const amount = body.match(AMOUNT_PATTERN);
+  if (amount) {
+    return withLimits({ kind: 'flat', amount: toNumber(amount[1]) }, text);
+  }
+
+  // Only a minimum or maximum, e.g. "Minimum $50"
+  const minimum = text.match(MINIMUM_PATTERN);
+  return minimum ? { kind: 'flat', amount: toNumber(minimum[1]) } : null;
+}
+
+/**
+ * Parse a valuation range label from a fee table, e.g. "$501 to $2,000", "$1,000,001 and up" or "Over $500,000"
+ */
+export function parseValuationRange(text: string): { min: number; max?: number } | null {
+  const amounts = Array.from(text.matchAll(/\$\s*([\d,]+(?:\.\d+)?)|([\d,]{4,}(?:\.\d+)?)/g))
+    .map(match => toNumber(match[1] || match[2]))
+    .filter(value => !isNaN(value));
+
+  if (amounts.length >= 2) {
+    return { min: amounts[0], max: amounts[1] };
+  }
+  if (amounts.length === 1 && /and\s+(?:up|over|above)|\bover\b|\babove\b|\+/i.test(text)) {
+    return { min: amounts[0] };
+  }
+  if (amounts.length === 1 && /\bup\s+to\b|\bunder\b|\bless\s+than\b/i.test(text)) {
+    return { min: 0, max: amounts[0] };
+  }
+  return null;
+}
+
+/**
+ * Build one tier of a valuation fee table from its range label and fee text
+ */
+export function parseValuationTier(rangeText: string, feeText: string): ValuationTier | null {
+  const range = parseValuationRange(rangeText);
+  const formula = parseFeeFormula(feeText);
+  if (!range || !formula) {
+    return null;
+  }
+
+  if (formula.kind === 'valuation_table') {
+    return { ...formula.tiers[0], to: range.max };
+  }
+  if (formula.kind === 'flat') {
+    return { from: range.min, to: range.max, baseFee: formula.amount };
+  }
+  return null;
+}
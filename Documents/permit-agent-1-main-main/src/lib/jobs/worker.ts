@@ -0,0 +1,46 @@
+import { searchJobManager } from './search-job';
+
+export interface SearchWorkerOptions {
+  workerId?: string;
+  pollInterval?: number; // ms to wait when the queue is empty
+  cleanupInterval?: number; // ms between purges of old finished jobs
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Process queued search jobs until the signal aborts. Runs outside the Next.js request
+ * lifecycle, so jobs started by a request that was frozen or redeployed still finish.
+ */
+export async function runSearchWorker(options: SearchWorkerOptions = {}): Promise<void> {
+  const {
+    workerId = `worker-${process.pid}-${Math.random().toString(36).substr(2, 6)}`,
+    pollInterval = 2000,
+    cleanupInterval = 60 * 60 * 1000,
+    signal,
+  } = options;
+
+  let lastCleanup = 0;
+  console.log(`[Worker ${workerId}] Started`);
+
+  while (!signal?.aborted) {
+    try {
+      if (Date.now() - lastCleanup > cleanupInterval) {
+        await searchJobManager.cleanOldJobs();
+        lastCleanup = Date.now();
+      }
+
+      const processed = await searchJobManager.processNextJob(workerId);
+      if (!processed) {
+        await sleep(pollInterval);
+      }
+    } catch (error) {
+      // Usually the database is unreachable; back off and keep polling
+      console.error(`[Worker ${workerId}] Poll failed:`, error);
+      await sleep(pollInterval * 5);
+    }
+  }
+
+  console.log(`[Worker ${workerId}] Stopped`);
+}
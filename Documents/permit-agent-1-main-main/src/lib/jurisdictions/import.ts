@@ -0,0 +1,94 @@
+// CSV columns, by header, for the registry fields a CSV import can set. Permit types need JSON.
+const CSV_COLUMNS: Record<string, string> = {
+  slug: 'slug',
+  name: 'name',
+  type: 'type',
+  city: 'city',
+  state: 'state',
+  county: 'county',
+  aliases: 'aliases',
+  website: 'website',
+  permit_url: 'permitUrl',
+  forms_url: 'formsUrl',
+  phone: 'phone',
+  email: 'email',
+  office_address: 'officeAddress',
+  notes: 'notes',
+  is_active: 'isActive',
+  monitor_interval_hours: 'monitorIntervalHours',
+};
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas, newlines and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+/**
+ * Turn a registry CSV into objects for jurisdictionInputSchema. The first row is the header;
+ * aliases are separated by semicolons, and empty cells are left out.
+ */
+export function parseJurisdictionCsv(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const fields = header.map(column => CSV_COLUMNS[column.trim().toLowerCase().replace(/\s+/g, '_')]);
+  const unknown = header.filter((_, index) => !fields[index]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown CSV columns: ${unknown.join(', ')}`);
+  }
+
+  return rows.map(cells => {
+    const record: Record<string, unknown> = {};
+    fields.forEach((field, index) => {
+      const value = (cells[index] ?? '').trim();
+      if (!value) return;
+
+      if (field === 'aliases') {
+        record.aliases = value.split(';').map(alias => alias.trim()).filter(Boolean);
+      } else if (field === 'isActive') {
+        record.isActive = !/^(false|no|0)$/i.test(value);
+      } else {
+        record[field] = value;
+      }
+    });
+    return record;
+  });
+}
@@ -0,0 +1,85 @@
+import { RegistryJurisdiction } from '@/types';
+
+// Names scoring below this are treated as different places
+export const MIN_MATCH_SCORE = 0.85;
+
+// Abbreviations that appear in city names, so "St. Louis" and "Saint Louis" compare equal
+const ABBREVIATIONS: Record<string, string> = {
+  st: 'saint',
+  ste: 'sainte',
+  ft: 'fort',
+  mt: 'mount',
+  pt: 'point',
+  n: 'north',
+  s: 'south',
+  e: 'east',
+  w: 'west',
+};
+
+export interface JurisdictionMatch {
+  jurisdiction: RegistryJurisdiction;
+  score: number; // 1 for an exact name or alias match
+  matchedName: string;
+}
+
+/**
+ * Lowercase, drop accents and punctuation, expand abbreviations and strip a leading "City of"
+ */
+export function normalizeCityName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => ABBREVIATIONS[word] || word)
+    .join(' ')
+    .replace(/^(city|town|village|county) of /, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two normalized names, from 0 to 1
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * The registry jurisdiction a searched city most likely refers to. Names and aliases are compared
+ * after normalizing, and close spellings count as long as they score at least MIN_MATCH_SCORE.
+ */
+export function matchJurisdiction(city: string, candidates: RegistryJurisdiction[]): JurisdictionMatch | null {
+  const searched = normalizeCityName(city);
+  if (!searched) return null;
+
+  let best: JurisdictionMatch | null = null;
+  for (const jurisdiction of candidates) {
+    const names = [jurisdiction.city, jurisdiction.name, ...jurisdiction.aliases].filter((name): name is string => !!name);
+    for (const name of names) {
+      const score = nameSimilarity(searched, normalizeCityName(name));
+      if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) {
+        best = { jurisdiction, score, matchedName: name };
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,10 @@
+import { listActiveJurisdictionsInState } from '@/lib/database/jurisdictions';
+import { JurisdictionMatch, matchJurisdiction } from './matching';
+
+/**
+ * Look up a searched city in the jurisdiction registry, allowing for aliases and spelling variants
+ */
+export async function findRegistryJurisdiction(city: string, state: string): Promise<JurisdictionMatch | null> {
+  const candidates = await listActiveJurisdictionsInState(state);
+  return matchJurisdiction(city, candidates);
+}
@@ -0,0 +1,139 @@
+import { PageChange, PermitFee, PermitForm } from '@/types';
+import { formatCurrency } from '@/lib/utils';
+
+// The parts of a scrape's structured extraction that users rely on. Raw HTML changes with every
+// banner and timestamp, so monitoring compares these instead.
+export interface PageSnapshot {
+  forms: Map<string, string>; // URL (or name) -> form name
+  fees: Map<string, { type: string; amount: string }>; // Lowercased fee type -> its name and formatted amount
+  phone?: string;
+  email?: string;
+}
+
+type SnapshotForm = Pick<PermitForm, 'name' | 'url'>;
+type SnapshotFee = Pick<PermitFee, 'type' | 'amount' | 'unit'>;
+
+export interface ExtractedData {
+  permitForms?: SnapshotForm[];
+  fees?: SnapshotFee[];
+  contact?: { phone?: string; email?: string };
+}
+
+function formKey(form: SnapshotForm): string {
+  return (form.url || form.name).trim().toLowerCase();
+}
+
+function formatFee(fee: SnapshotFee): string {
+  return fee.unit ? `${formatCurrency(fee.amount)} ${fee.unit}` : formatCurrency(fee.amount);
+}
+
+function phoneDigits(phone: string): string {
+  return phone.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+}
+
+/**
+ * Reduce a scrape's structured extraction (as stored in scraping_results) to what monitoring compares
+ */
+export function snapshotFromExtraction(data: ExtractedData | null | undefined): PageSnapshot {
+  const forms = new Map<string, string>();
+  for (const form of data?.permitForms || []) {
+    forms.set(formKey(form), form.name);
+  }
+
+  const fees = new Map<string, { type: string; amount: string }>();
+  for (const fee of data?.fees || []) {
+    fees.set(fee.type.trim().toLowerCase(), { type: fee.type.trim(), amount: formatFee(fee) });
+  }
+
+  return {
+    forms,
+    fees,
+    phone: data?.contact?.phone || undefined,
+    email: data?.contact?.email?.toLowerCase() || undefined,
+  };
+}
+
+function isEmpty(snapshot: PageSnapshot): boolean {
+  return snapshot.forms.size === 0 && snapshot.fees.size === 0 && !snapshot.phone && !snapshot.email;
+}
+
+// Whether a phone number or email differs. Monitoring ignores one that just wasn't found this
+// time; a strict comparison doesn't.
+function contactDiffers(
+  before: string | undefined,
+  after: string | undefined,
+  strict: boolean,
+  normalize: (value: string) => string = value => value
+): boolean {
+  if (!before || !after) return strict && before !== after;
+  return normalize(before) !== normalize(after);
+}
+
+/**
+ * What changed between two extractions of the same page. A page that now extracts nothing at all
+ * usually means the scrape or the site broke rather than everything being removed, so that is
+ * reported as no change. With `strict` (comparing against known-good results), every difference
+ * counts.
+ */
+export function diffSnapshots(previous: PageSnapshot, current: PageSnapshot, options: { strict?: boolean } = {}): PageChange[] {
+  const strict = options.strict ?? false;
+  if (isEmpty(current) && !strict) return [];
+
+  const changes: PageChange[] = [];
+
+  for (const [key, name] of current.forms) {
+    if (!previous.forms.has(key)) {
+      changes.push({ kind: 'form_added', label: name });
+    }
+  }
+  for (const [key, name] of previous.forms) {
+    if (!current.forms.has(key)) {
+      changes.push({ kind: 'form_removed', label: name });
+    }
+  }
+
+  for (const [key, fee] of current.fees) {
+    const before = previous.fees.get(key);
+    if (!before) {
+      changes.push({ kind: 'fee_added', label: fee.type, after: fee.amount });
+    } else if (before.amount !== fee.amount) {
+      changes.push({ kind: 'fee_changed', label: fee.type, before: before.amount, after: fee.amount });
+    }
+  }
+  for (const [key, fee] of previous.fees) {
+    if (!current.fees.has(key)) {
+      changes.push({ kind: 'fee_removed', label: fee.type, before: fee.amount });
+    }
+  }
+
+  if (contactDiffers(previous.phone, current.phone, strict, phoneDigits)) {
+    changes.push({ kind: 'phone_changed', label: 'Phone', before: previous.phone, after: current.phone });
+  }
+  if (contactDiffers(previous.email, current.email, strict)) {
+    changes.push({ kind: 'email_changed', label: 'Email', before: previous.email, after: current.email });
+  }
+
+  return changes;
+}
+
+/**
+ * One line describing a change, for notifications and the admin change log
+ */
+export function describePageChange(change: PageChange): string {
+  switch (change.kind) {
+    case 'form_added':
+      return `New form: ${change.label}`;
+    case 'form_removed':
+      return `Form removed: ${change.label}`;
+    case 'fee_added':
+      return `New fee: ${change.label} (${change.after})`;
+    case 'fee_removed':
+      return `Fee removed: ${change.label} (was ${change.before})`;
+    case 'fee_changed':
+      return `Fee changed: ${change.label} from ${change.before} to ${change.after}`;
+    case 'phone_changed':
+      return `Phone number changed from ${change.before ?? 'none'} to ${change.after ?? 'none'}`;
+    case 'email_changed':
+      return `Email changed from ${change.before ?? 'none'} to ${change.after ?? 'none'}`;
+  }
+}
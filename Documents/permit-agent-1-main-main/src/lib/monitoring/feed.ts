@@ -0,0 +1,54 @@
+import { FeedEntry, escapeXml } from '@/lib/feeds/syndication';
+import { JurisdictionChange, PageChange } from '@/types';
+import { describePageChange } from './diff';
+
+const CHANGE_LABELS: Record<PageChange['kind'], string> = {
+  form_added: 'Form added',
+  form_removed: 'Form retired',
+  fee_added: 'Fee added',
+  fee_removed: 'Fee removed',
+  fee_changed: 'Fee changed',
+  phone_changed: 'Phone changed',
+  email_changed: 'Email changed',
+};
+
+function changeTable(changes: PageChange[]): string {
+  const rows = changes.map(change => [
+    '<tr>',
+    `<td>${escapeXml(CHANGE_LABELS[change.kind])}</td>`,
+    `<td>${escapeXml(change.label)}</td>`,
+    `<td>${change.before ? `<del>${escapeXml(change.before)}</del>` : ''}</td>`,
+    `<td>${change.after ? `<ins>${escapeXml(change.after)}</ins>` : ''}</td>`,
+    '</tr>',
+  ].join(''));
+
+  return '<table><thead><tr><th>Change</th><th>Item</th><th>Before</th><th>After</th></tr></thead>'
+    + `<tbody>${rows.join('')}</tbody></table>`;
+}
+
+/**
+ * Feed entries for a change log, one per page check that found changes, each with a
+ * before/after table. `fallbackName` titles entries whose change doesn't carry a jurisdiction name.
+ */
+export function buildChangeFeedEntries(changes: JurisdictionChange[], fallbackName: string): FeedEntry[] {
+  return changes.map(change => {
+    const name = change.jurisdictionName || fallbackName;
+    const title = change.changes.length === 1
+      ? `${name}: ${describePageChange(change.changes[0])}`
+      : `${name}: ${change.changes.length} permit information changes`;
+
+    return {
+      id: `urn:uuid:${change.id}`,
+      title,
+      updated: new Date(change.detectedAt),
+      url: change.url,
+      summary: change.changes.map(describePageChange).join('; '),
+      html: `<p>Found on <a href="${escapeXml(change.url)}">${escapeXml(change.url)}</a></p>${changeTable(change.changes)}`,
+      extension: {
+        jurisdiction_id: change.jurisdictionId,
+        page_url: change.url,
+        changes: change.changes,
+      },
+    };
+  });
+}
@@ -0,0 +1,146 @@
+import { webScraper } from '@/lib/scraping/scraper';
+import { getLatestExtraction } from '@/lib/database/scraping-results';
+import {
+  listActiveJurisdictionsInState,
+  listJurisdictionsDueForMonitoring,
+  markJurisdictionMonitored,
+} from '@/lib/database/jurisdictions';
+import { recordJurisdictionChange } from '@/lib/database/jurisdiction-changes';
+import { createNotifications, listUserLocationsInState } from '@/lib/database/notifications';
+import { matchJurisdiction } from '@/lib/jurisdictions/matching';
+import { JurisdictionChange, RegistryJurisdiction } from '@/types';
+import { describePageChange, diffSnapshots, snapshotFromExtraction } from './diff';
+
+// Pages are re-checked weekly unless a jurisdiction sets its own interval
+export const DEFAULT_MONITOR_INTERVAL_HOURS = 24 * 7;
+
+export interface ChangeMonitorOptions {
+  defaultIntervalHours?: number;
+  pollInterval?: number; // ms to wait when nothing is due
+  signal?: AbortSignal;
+}
+
+// Resolves early when the signal aborts, so a shutdown doesn't wait out the poll interval
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Users with a project or saved search in the jurisdiction. A city counts when this jurisdiction
+ * is its best registry match, so a similarly named neighbour doesn't pick up its users.
+ */
+async function findAffectedUsers(jurisdiction: RegistryJurisdiction): Promise<string[]> {
+  const [locations, candidates] = await Promise.all([
+    listUserLocationsInState(jurisdiction.state),
+    listActiveJurisdictionsInState(jurisdiction.state),
+  ]);
+
+  const matches = new Map<string, boolean>();
+  const userIds = new Set<string>();
+  for (const { userId, city } of locations) {
+    if (!matches.has(city)) {
+      matches.set(city, matchJurisdiction(city, candidates)?.jurisdiction.id === jurisdiction.id);
+    }
+    if (matches.get(city)) {
+      userIds.add(userId);
+    }
+  }
+  return Array.from(userIds);
+}
+
+async function notifyAffectedUsers(jurisdiction: RegistryJurisdiction, change: JurisdictionChange): Promise<void> {
+  const userIds = await findAffectedUsers(jurisdiction);
+  const sent = await createNotifications(userIds, {
+    title: `${jurisdiction.name} updated its permit information`,
+    body: change.changes.map(describePageChange).join('\n'),
+    link: change.url,
+    jurisdictionChangeId: change.id,
+  });
+  console.log(`[Monitor] Notified ${sent} user(s) of changes to ${jurisdiction.name}`);
+}
+
+/**
+ * Re-scrape a jurisdiction's permit and forms pages and compare what was extracted with the
+ * previous successful run. Changes go to the jurisdiction's change log and to affected users.
+ * The first run of a page only establishes a baseline.
+ */
+export async function checkJurisdictionForChanges(jurisdiction: RegistryJurisdiction): Promise<JurisdictionChange[]> {
+  const urls = Array.from(new Set([jurisdiction.permitUrl, jurisdiction.formsUrl].filter((url): url is string => !!url)));
+  const found: JurisdictionChange[] = [];
+
+  for (const url of urls) {
+    const previous = await getLatestExtraction(url);
+    const result = await webScraper.scrapeUrl(url, { jurisdictionId: jurisdiction.id, skipCache: true });
+    if (!result.success) {
+      console.warn(`[Monitor] Could not check ${url}: ${result.error}`);
+      continue;
+    }
+    if (!previous) continue;
+
+    const changes = diffSnapshots(snapshotFromExtraction(previous), snapshotFromExtraction(result.structured));
+    if (changes.length === 0) continue;
+
+    const change = await recordJurisdictionChange(jurisdiction.id, url, changes);
+    found.push(change);
+    await notifyAffectedUsers(jurisdiction, change);
+  }
+
+  await markJurisdictionMonitored(jurisdiction.id);
+  return found;
+}
+
+/**
+ * Check jurisdictions as they come due until the signal aborts. Run a single copy; two monitors
+ * would check the same jurisdictions and notify users twice.
+ */
+export async function runChangeMonitor(options: ChangeMonitorOptions = {}): Promise<void> {
+  const {
+    defaultIntervalHours = DEFAULT_MONITOR_INTERVAL_HOURS,
+    pollInterval = 5 * 60 * 1000,
+    signal,
+  } = options;
+
+  console.log(`[Monitor] Started (default interval ${defaultIntervalHours}h)`);
+
+  while (!signal?.aborted) {
+    try {
+      const due = await listJurisdictionsDueForMonitoring(defaultIntervalHours);
+      if (due.length === 0) {
+        await sleep(pollInterval, signal);
+        continue;
+      }
+
+      for (const jurisdiction of due) {
+        if (signal?.aborted) break;
+        try {
+          const changes = await checkJurisdictionForChanges(jurisdiction);
+          console.log(`[Monitor] Checked ${jurisdiction.name}: ${changes.length} page(s) changed`);
+        } catch (error) {
+          // Marked as checked anyway so one broken site can't stall the queue
+          console.error(`[Monitor] Check of ${jurisdiction.name} failed:`, error);
+          await markJurisdictionMonitored(jurisdiction.id);
+        }
+      }
+    } catch (error) {
+      // Usually the database is unreachable; back off and keep polling
+      console.error('[Monitor] Poll failed:', error);
+      await sleep(pollInterval, signal);
+    }
+  }
+
+  console.log('[Monitor] Stopped');
+}
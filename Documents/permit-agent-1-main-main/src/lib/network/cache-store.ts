@@ -0,0 +1,254 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CacheBackend, CachePurgeFilter, CacheStore, CacheStoreEntry } from './types';
+import {
+  countCacheEntries,
+  deleteCacheEntry,
+  getCacheEntry,
+  purgeCacheEntries,
+  saveCacheEntry,
+} from '@/lib/database/cache-entries';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// "www.example.gov" and "example.gov" are the same site
+function domainOf(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Serialize cached data for stores outside process memory
+ */
+export function serializeCacheData(data: unknown): string {
+  return JSON.stringify(data);
+}
+
+/**
+ * Parse serialized cache data. Cached results carry Dates (a scrape's timestamp, a permit's
+ * lastUpdated), so ISO date strings come back as Dates like they went in.
+ */
+export function parseCacheData<T>(text: string): T {
+  return JSON.parse(text, (_key, value) =>
+    typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value
+  );
+}
+
+export function matchesPurgeFilter(namespace: string, entry: CacheStoreEntry, filter: CachePurgeFilter): boolean {
+  if (filter.namespace && filter.namespace !== namespace) return false;
+  if (filter.expiredBefore && entry.expiresAt >= filter.expiredBefore) return false;
+
+  const targeted = filter.urlPrefix !== undefined || (filter.domains?.length ?? 0) > 0 || filter.jurisdictionId !== undefined;
+  if (!targeted) return true;
+
+  const domain = domainOf(entry.url);
+  return (filter.urlPrefix !== undefined && !!entry.url?.startsWith(filter.urlPrefix))
+    || (domain !== undefined && !!filter.domains?.includes(domain))
+    || (filter.jurisdictionId !== undefined && entry.jurisdictionId === filter.jurisdictionId);
+}
+
+/**
+ * Entries in process memory, lost on restart and not shared between instances
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly backend = 'memory' as const;
+  private namespaces = new Map<string, Map<string, CacheStoreEntry>>();
+  private limits = new Map<string, number>();
+
+  async get<T>(namespace: string, key: string): Promise<CacheStoreEntry<T> | null> {
+    return (this.namespaces.get(namespace)?.get(key) as CacheStoreEntry<T> | undefined) ?? null;
+  }
+
+  async set<T>(namespace: string, key: string, entry: CacheStoreEntry<T>): Promise<void> {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+
+    entries.delete(key);
+    entries.set(key, entry);
+
+    // Maps iterate in insertion order, so the first keys were stored longest ago
+    const limit = this.limits.get(namespace);
+    while (limit !== undefined && entries.size > limit) {
+      entries.delete(entries.keys().next().value!);
+    }
+  }
+
+  async delete(namespace: string, key: string): Promise<boolean> {
+    return this.namespaces.get(namespace)?.delete(key) ?? false;
+  }
+
+  async purge(filter: CachePurgeFilter): Promise<number> {
+    let purged = 0;
+    for (const [namespace, entries] of this.namespaces) {
+      for (const [key, entry] of entries) {
+        if (matchesPurgeFilter(namespace, entry, filter)) {
+          entries.delete(key);
+          purged++;
+        }
+      }
+    }
+    return purged;
+  }
+
+  async count(namespace: string): Promise<number> {
+    return this.namespaces.get(namespace)?.size ?? 0;
+  }
+
+  setLimit(namespace: string, maxEntries: number): void {
+    this.limits.set(namespace, maxEntries);
+  }
+}
+
+/**
+ * One JSON file per entry under a directory, e.g. a mounted volume shared by the instances on a
+ * host. Files are replaced atomically, so concurrent writers never leave a half-written entry.
+ */
+export class FileSystemCacheStore implements CacheStore {
+  readonly backend = 'filesystem' as const;
+
+  constructor(private readonly directory: string) {}
+
+  async get<T>(namespace: string, key: string): Promise<CacheStoreEntry<T> | null> {
+    try {
+      return this.parseFile<T>(await fs.readFile(this.filePath(namespace, key), 'utf8')).entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async set<T>(namespace: string, key: string, entry: CacheStoreEntry<T>): Promise<void> {
+    const file = this.filePath(namespace, key);
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(temporary, serializeCacheData({ key, entry }));
+    await fs.rename(temporary, file);
+  }
+
+  async delete(namespace: string, key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(namespace, key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  async purge(filter: CachePurgeFilter): Promise<number> {
+    const namespaces = filter.namespace ? [filter.namespace] : await this.listNamespaces();
+    let purged = 0;
+
+    for (const namespace of namespaces) {
+      for (const file of await this.listFiles(namespace)) {
+        try {
+          const { entry } = this.parseFile(await fs.readFile(file, 'utf8'));
+          if (matchesPurgeFilter(namespace, entry, filter)) {
+            await fs.unlink(file);
+            purged++;
+          }
+        } catch (error) {
+          // Another process may have replaced or removed the file meanwhile
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        }
+      }
+    }
+    return purged;
+  }
+
+  async count(namespace: string): Promise<number> {
+    return (await this.listFiles(namespace)).length;
+  }
+
+  private namespaceDirectory(namespace: string): string {
+    return path.join(this.directory, encodeURIComponent(namespace));
+  }
+
+  // Keys can be URLs of any length, so files are named by hash and the key is kept inside
+  private filePath(namespace: string, key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.namespaceDirectory(namespace), `${hash}.json`);
+  }
+
+  private parseFile<T>(text: string): { key: string; entry: CacheStoreEntry<T> } {
+    return parseCacheData(text);
+  }
+
+  private async listNamespaces(): Promise<string[]> {
+    try {
+      const names = await fs.readdir(this.directory);
+      return names.map(name => decodeURIComponent(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async listFiles(namespace: string): Promise<string[]> {
+    const directory = this.namespaceDirectory(namespace);
+    try {
+      const names = await fs.readdir(directory);
+      return names.filter(name => name.endsWith('.json')).map(name => path.join(directory, name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+/**
+ * Entries in the cache_entries table, shared by every instance and kept across deploys
+ */
+export class PostgresCacheStore implements CacheStore {
+  readonly backend = 'postgres' as const;
+
+  async get<T>(namespace: string, key: string): Promise<CacheStoreEntry<T> | null> {
+    const row = await getCacheEntry(namespace, key);
+    return row ? { ...row, data: parseCacheData<T>(row.data) } : null;
+  }
+
+  async set<T>(namespace: string, key: string, entry: CacheStoreEntry<T>): Promise<void> {
+    await saveCacheEntry(namespace, key, { ...entry, data: serializeCacheData(entry.data) }, domainOf(entry.url));
+  }
+
+  async delete(namespace: string, key: string): Promise<boolean> {
+    return deleteCacheEntry(namespace, key);
+  }
+
+  async purge(filter: CachePurgeFilter): Promise<number> {
+    return purgeCacheEntries(filter);
+  }
+
+  async count(namespace: string): Promise<number> {
+    return countCacheEntries(namespace);
+  }
+}
+
+/**
+ * The store selected by CACHE_BACKEND: memory (the default), filesystem (under CACHE_DIR) or postgres
+ */
+export function createCacheStore(backend: string | undefined = process.env.CACHE_BACKEND): CacheStore {
+  switch ((backend || 'memory') as CacheBackend) {
+    case 'memory':
+      return new MemoryCacheStore();
+    case 'filesystem':
+      return new FileSystemCacheStore(process.env.CACHE_DIR || path.join(os.tmpdir(), 'permit-agent-cache'));
+    case 'postgres':
+      return new PostgresCacheStore();
+    default:
+      console.warn(`Unknown CACHE_BACKEND "${backend}", using memory`);
+      return new MemoryCacheStore();
+  }
+}
+
+export const cacheStore = createCacheStore();
@@ -1,110 +1,147 @@
-import { CacheConfig } from './types';
+import { CacheConfig, CacheStats, CacheStore } from './types';
+import { cacheStore } from './cache-store';
 
-export interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  ttl: number;
-}
+// Hit and miss counts for one cache, reported by the admin cache endpoint
+export class CacheMetrics {
+  private hits = 0;
+  private misses = 0;
 
-export class InMemoryCache<T> {
-  private cache = new Map<string, CacheEntry<T>>();
-  private config: CacheConfig;
+  constructor(readonly name: string, private readonly store: CacheStore) {}
 
-  constructor(config: CacheConfig = { ttl: 300000, maxSize: 100 }) { // 5 minutes default TTL
-    this.config = config;
+  hit(): void {
+    this.hits++;
   }
 
-  set(key: string, data: T, ttl?: number): void {
-    // Remove oldest entries if cache is full
-    if (this.cache.size >= this.config.maxSize) {
-      this.evictOldest();
-    }
+  miss(): void {
+    this.misses++;
+  }
 
-    const entry: CacheEntry<T> = {
-      data,
-      timestamp: Date.now(),
-      ttl: ttl || this.config.ttl,
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      name: this.name,
+      backend: this.store.backend,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
     };
+  }
+}
+
+const registeredMetrics: CacheMetrics[] = [];
+
+export function createCacheMetrics(name: string, store: CacheStore = cacheStore): CacheMetrics {
+  const metrics = new CacheMetrics(name, store);
+  registeredMetrics.push(metrics);
+  return metrics;
+}
 
-    this.cache.set(key, entry);
+/**
+ * Hit and miss counts for every cache in this process
+ */
+export function getCacheStats(): CacheStats[] {
+  return registeredMetrics.map(metrics => metrics.getStats());
+}
+
+// Extra details stored with an entry so it can be purged by URL or jurisdiction
+export interface CacheEntryOptions {
+  url?: string;
+  jurisdictionId?: string;
+}
+
+/**
+ * A TTL cache kept in a CacheStore under its own namespace. The store is best-effort: when it
+ * fails, lookups miss and writes are dropped rather than failing the caller.
+ */
+export class KeyValueCache<T> {
+  private metrics: CacheMetrics;
+
+  constructor(
+    private readonly name: string,
+    private readonly config: CacheConfig = { ttl: 300000, maxSize: 100 }, // 5 minutes default TTL
+    private readonly store: CacheStore = cacheStore
+  ) {
+    store.setLimit?.(name, config.maxSize);
+    this.metrics = createCacheMetrics(name, store);
+  }
+
+  async set(key: string, data: T, ttl?: number, options: CacheEntryOptions = {}): Promise<void> {
+    const now = Date.now();
+    try {
+      await this.store.set(this.name, key, {
+        data,
+        storedAt: new Date(now),
+        expiresAt: new Date(now + (ttl || this.config.ttl)),
+        url: options.url,
+        jurisdictionId: options.jurisdictionId,
+      });
+    } catch (error) {
+      console.warn(`Failed to write ${this.name} cache entry:`, error);
+    }
   }
 
-  get(key: string): T | null {
-    const entry = this.cache.get(key);
-    
+  async get(key: string): Promise<T | null> {
+    let entry;
+    try {
+      entry = await this.store.get<T>(this.name, key);
+    } catch (error) {
+      console.warn(`Failed to read ${this.name} cache entry:`, error);
+    }
+
     if (!entry) {
+      this.metrics.miss();
       return null;
     }
 
     // Check if entry has expired
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
+    if (Date.now() > entry.expiresAt.getTime()) {
+      await this.delete(key);
+      this.metrics.miss();
       return null;
     }
 
+    this.metrics.hit();
     return entry.data;
   }
 
-  has(key: string): boolean {
-    return this.get(key) !== null;
-  }
-
-  delete(key: string): boolean {
-    return this.cache.delete(key);
+  async has(key: string): Promise<boolean> {
+    return (await this.get(key)) !== null;
   }
 
-  clear(): void {
-    this.cache.clear();
+  async delete(key: string): Promise<boolean> {
+    try {
+      return await this.store.delete(this.name, key);
+    } catch (error) {
+      console.warn(`Failed to delete ${this.name} cache entry:`, error);
+      return false;
+    }
   }
 
-  size(): number {
-    // Clean expired entries first
-    this.cleanExpired();
-    return this.cache.size;
+  async clear(): Promise<number> {
+    return this.store.purge({ namespace: this.name });
   }
 
-  private evictOldest(): void {
-    let oldestKey: string | null = null;
-    let oldestTimestamp = Date.now();
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.timestamp < oldestTimestamp) {
-        oldestTimestamp = entry.timestamp;
-        oldestKey = key;
-      }
-    }
-
-    if (oldestKey) {
-      this.cache.delete(oldestKey);
-    }
+  async clearExpired(): Promise<number> {
+    return this.store.purge({ namespace: this.name, expiredBefore: new Date() });
   }
 
-  private cleanExpired(): void {
-    const now = Date.now();
-    const expiredKeys: string[] = [];
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        expiredKeys.push(key);
-      }
-    }
-
-    expiredKeys.forEach(key => this.cache.delete(key));
+  async size(): Promise<number> {
+    return this.store.count(this.name);
   }
 
-  // Get cache statistics
-  getStats(): { size: number; hitRate: number; missRate: number } {
-    this.cleanExpired();
-    // This is a simplified version - in production you'd track hits/misses
-    return {
-      size: this.cache.size,
-      hitRate: 0, // Would need to track this
-      missRate: 0, // Would need to track this
-    };
+  getStats(): CacheStats {
+    return this.metrics.getStats();
   }
 }
 
 // Global cache instances for different data types
-export const jurisdictionCache = new InMemoryCache<any>({ ttl: 600000, maxSize: 50 }); // 10 minutes
-export const urlValidationCache = new InMemoryCache<boolean>({ ttl: 300000, maxSize: 200 }); // 5 minutes
-export const permitDataCache = new InMemoryCache<any>({ ttl: 1800000, maxSize: 100 }); // 30 minutes
\ No newline at end of file
+export const jurisdictionCache = new KeyValueCache<any>('jurisdictions', { ttl: 600000, maxSize: 50 }); // 10 minutes
+export const urlValidationCache = new KeyValueCache<boolean>('url-validation', { ttl: 300000, maxSize: 200 }); // 5 minutes
+export const permitDataCache = new KeyValueCache<any>('permit-data', { ttl: 1800000, maxSize: 100 }); // 30 minutes
+
+// Stores outside memory don't evict, so expired entries are cleared every hour
+setInterval(() => {
+  for (const cache of [jurisdictionCache, urlValidationCache, permitDataCache]) {
+    cache.clearExpired().catch(error => console.warn('Failed to clear expired cache entries:', error));
+  }
+}, 60 * 60 * 1000);
@@ -1,4 +1,5 @@
-import { CircuitBreakerConfig } from './types';
+import { CircuitBreakerConfig, DomainHealth } from './types';
+import { isCancelledError } from './errors';
 
 export enum CircuitState {
   CLOSED = 'CLOSED',     // Normal operation
@@ -10,10 +11,11 @@ export class CircuitBreaker {
   private state: CircuitState = CircuitState.CLOSED;
   private failureCount: number = 0;
   private lastFailureTime: number = 0;
+  private lastSuccessTime: number = 0;
   private nextAttemptTime: number = 0;
   private config: CircuitBreakerConfig;
 
-  constructor(config: CircuitBreakerConfig) {
+  constructor(config: CircuitBreakerConfig, private readonly name: string = 'Circuit breaker') {
     this.config = config;
   }
 
@@ -24,9 +26,9 @@ export class CircuitBreaker {
     if (this.state === CircuitState.OPEN) {
       if (currentTime >= this.nextAttemptTime) {
         this.state = CircuitState.HALF_OPEN;
-        console.log('Circuit breaker transitioning to HALF_OPEN state');
+        console.log(`${this.name} transitioning to HALF_OPEN state`);
       } else {
-        throw new Error(`Circuit breaker is OPEN. Next attempt in ${this.nextAttemptTime - currentTime}ms`);
+        throw new Error(`${this.name} is OPEN. Next attempt in ${this.nextAttemptTime - currentTime}ms`);
       }
     }
 
@@ -35,15 +37,22 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      // A cancelled call says nothing about the health of the service
+      if (!isCancelledError(error)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
 
   private onSuccess(): void {
+    const recovered = this.state !== CircuitState.CLOSED;
     this.failureCount = 0;
+    this.lastSuccessTime = Date.now();
     this.state = CircuitState.CLOSED;
-    console.log('Circuit breaker reset to CLOSED state');
+    if (recovered) {
+      console.log(`${this.name} reset to CLOSED state`);
+    }
   }
 
   private onFailure(): void {
@@ -62,23 +71,33 @@ export class CircuitBreaker {
   private openCircuit(): void {
     this.state = CircuitState.OPEN;
     this.nextAttemptTime = Date.now() + this.config.resetTimeout;
-    console.log(`Circuit breaker opened due to ${this.failureCount} failures. Will retry at ${new Date(this.nextAttemptTime)}`);
+    console.log(`${this.name} opened due to ${this.failureCount} failures. Will retry at ${new Date(this.nextAttemptTime)}`);
   }
 
   getState(): CircuitState {
     return this.state;
   }
 
+  /**
+   * Whether calls are currently failing fast. An OPEN breaker whose reset timeout has passed will
+   * let the next call through as a trial, so it doesn't count.
+   */
+  isOpen(): boolean {
+    return this.state === CircuitState.OPEN && Date.now() < this.nextAttemptTime;
+  }
+
   getStats(): {
     state: CircuitState;
     failureCount: number;
     lastFailureTime: number;
+    lastSuccessTime: number;
     nextAttemptTime: number;
   } {
     return {
       state: this.state,
       failureCount: this.failureCount,
       lastFailureTime: this.lastFailureTime,
+      lastSuccessTime: this.lastSuccessTime,
       nextAttemptTime: this.nextAttemptTime,
     };
   }
@@ -89,13 +108,95 @@ export class CircuitBreaker {
     this.failureCount = 0;
     this.lastFailureTime = 0;
     this.nextAttemptTime = 0;
-    console.log('Circuit breaker manually reset');
+    console.log(`${this.name} manually reset`);
   }
 
   forceOpen(): void {
     this.state = CircuitState.OPEN;
     this.nextAttemptTime = Date.now() + this.config.resetTimeout;
-    console.log('Circuit breaker manually opened');
+    console.log(`${this.name} manually opened`);
+  }
+}
+
+const MAX_TRACKED_DOMAINS = 1000;
+
+// "www.example.gov" and "example.gov" are the same site
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+/**
+ * One circuit breaker per domain, so a dead site only fails fast for itself while every other
+ * jurisdiction keeps being scraped.
+ */
+export class DomainCircuitBreakers {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private readonly config: CircuitBreakerConfig) {}
+
+  forUrl(url: string): CircuitBreaker {
+    const domain = domainOf(url);
+    let breaker = this.breakers.get(domain);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.config, `Circuit breaker for ${domain}`);
+      this.breakers.set(domain, breaker);
+      this.evictHealthy();
+    }
+    return breaker;
+  }
+
+  execute<T>(url: string, operation: () => Promise<T>): Promise<T> {
+    return this.forUrl(url).execute(operation);
+  }
+
+  isOpen(url: string): boolean {
+    return this.breakers.get(domainOf(url))?.isOpen() ?? false;
+  }
+
+  /**
+   * Every tracked domain, unhealthy ones first
+   */
+  getHealth(): DomainHealth[] {
+    const order = { [CircuitState.OPEN]: 0, [CircuitState.HALF_OPEN]: 1, [CircuitState.CLOSED]: 2 };
+
+    return Array.from(this.breakers.entries())
+      .map(([domain, breaker]) => {
+        const stats = breaker.getStats();
+        return {
+          domain,
+          state: stats.state,
+          failureCount: stats.failureCount,
+          lastFailureAt: stats.lastFailureTime ? new Date(stats.lastFailureTime) : undefined,
+          lastSuccessAt: stats.lastSuccessTime ? new Date(stats.lastSuccessTime) : undefined,
+          nextAttemptAt: stats.state === CircuitState.OPEN ? new Date(stats.nextAttemptTime) : undefined,
+        };
+      })
+      .sort((a, b) => order[a.state] - order[b.state] || b.failureCount - a.failureCount || a.domain.localeCompare(b.domain));
+  }
+
+  /**
+   * Close a domain's breaker by hand, e.g. once the site is known to be back. False if the
+   * domain isn't tracked.
+   */
+  reset(domain: string): boolean {
+    const breaker = this.breakers.get(domainOf(`https://${domain}`));
+    breaker?.reset();
+    return breaker !== undefined;
+  }
+
+  // Healthy domains are dropped oldest first once too many are tracked; failing ones are kept
+  private evictHealthy(): void {
+    for (const [domain, breaker] of this.breakers) {
+      if (this.breakers.size <= MAX_TRACKED_DOMAINS) return;
+      const stats = breaker.getStats();
+      if (stats.state === CircuitState.CLOSED && stats.failureCount === 0) {
+        this.breakers.delete(domain);
+      }
+    }
   }
 }
 
@@ -104,9 +205,10 @@ export const jurisdictionDiscoveryCircuitBreaker = new CircuitBreaker({
   failureThreshold: 5,    // Open after 5 failures
   resetTimeout: 60000,    // Try again after 1 minute
   monitoringPeriod: 10000, // Monitor over 10 seconds
-});
+}, 'Jurisdiction discovery circuit breaker');
 
-export const webScrapingCircuitBreaker = new CircuitBreaker({
+// Per domain: one unreachable county site doesn't stop scraping for everyone else
+export const webScrapingCircuitBreakers = new DomainCircuitBreakers({
   failureThreshold: 3,     // Open after 3 failures
   resetTimeout: 30000,     // Try again after 30 seconds
   monitoringPeriod: 5000,  // Monitor over 5 seconds
@@ -116,4 +218,4 @@ export const aiProcessingCircuitBreaker = new CircuitBreaker({
   failureThreshold: 2,     // Open after 2 failures (AI is expensive)
   resetTimeout: 120000,    // Try again after 2 minutes
   monitoringPeriod: 30000, // Monitor over 30 seconds
-});
\ No newline at end of file
+}, 'AI processing circuit breaker');
\ No newline at end of file
@@ -26,6 +26,11 @@ export class EnhancedNetworkError extends Error implements NetworkError {
 }
 
 export function classifyNetworkError(error: Error): NetworkError {
+  // Already classified (e.g. cancellation), keep the original code
+  if (error instanceof EnhancedNetworkError) {
+    return error;
+  }
+
   // AbortError from fetch timeout
   if (error.name === 'AbortError') {
     return new EnhancedNetworkError(
@@ -73,9 +78,10 @@ export function classifyNetworkError(error: Error): NetworkError {
   );
 }
 
-export function createHttpError(response: Response): NetworkError {
-  const isRetryable = isRetryableHttpStatus(response.status);
-  
+export function createHttpError(
+  response: Response,
+  isRetryable: boolean = isRetryableHttpStatus(response.status)
+): NetworkError {
   return new EnhancedNetworkError(
     `HTTP ${response.status}: ${response.statusText}`,
     'HTTP_ERROR',
@@ -105,4 +111,31 @@ export function isRetryableError(error: Error | NetworkError): boolean {
   // For standard errors, classify them first
   const networkError = classifyNetworkError(error);
   return networkError.isRetryable;
-}
\ No newline at end of file
+}
+
+export function createCancelledError(): NetworkError {
+  return new EnhancedNetworkError(
+    'Operation cancelled',
+    'CANCELLED',
+    false // The caller gave up, retrying would defeat the point
+  );
+}
+
+// A replayed fixture has no response for the request, so the run went somewhere the recording didn't
+export function createMissingFixtureError(method: string, url: string): NetworkError {
+  return new EnhancedNetworkError(
+    `No recorded response for ${method} ${url}`,
+    'FIXTURE_MISSING',
+    false // Replays are deterministic, asking again gives the same answer
+  );
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof EnhancedNetworkError && error.code === 'CANCELLED';
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createCancelledError();
+  }
+}
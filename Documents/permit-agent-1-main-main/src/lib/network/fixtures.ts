@@ -0,0 +1,159 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FixtureBundle, RecordedExchange } from './types';
+import { createMissingFixtureError } from './errors';
+
+// Bodies of these types are stored as text so fixtures can be read and diffed
+const TEXT_CONTENT_TYPE = /^(text\/|application\/(json|javascript|xml|xhtml\+xml|[^;]*\+xml))/i;
+
+// Cookies may identify whoever recorded the fixture; the others describe the original transfer
+const UNRECORDED_HEADERS = ['set-cookie', 'connection', 'keep-alive', 'transfer-encoding', 'content-encoding', 'content-length'];
+
+// Statuses that can't carry a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+function exchangeKey(method: string, url: string): string {
+  return `${method.toUpperCase()} ${url}`;
+}
+
+function recordableHeaders(headers: Headers): Record<string, string> {
+  const recorded: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (!UNRECORDED_HEADERS.includes(name.toLowerCase())) {
+      recorded[name.toLowerCase()] = value;
+    }
+  });
+  return recorded;
+}
+
+/**
+ * Collects the exchanges EnhancedHttpClient makes while recording is active
+ */
+export class FixtureRecorder {
+  readonly mode = 'record' as const;
+  private exchanges: RecordedExchange[] = [];
+
+  /**
+   * Keep a copy of the response and hand the original back to the caller
+   */
+  async record(method: string, url: string, response: Response): Promise<Response> {
+    const body = Buffer.from(await response.clone().arrayBuffer());
+    const isText = TEXT_CONTENT_TYPE.test(response.headers.get('content-type') || 'text/plain');
+
+    this.exchanges.push({
+      method: method.toUpperCase(),
+      url,
+      finalUrl: response.url && response.url !== url ? response.url : undefined,
+      status: response.status,
+      statusText: response.statusText,
+      headers: recordableHeaders(response.headers),
+      body: body.toString(isText ? 'utf8' : 'base64'),
+      bodyEncoding: isText ? 'utf8' : 'base64',
+    });
+    return response;
+  }
+
+  recordError(method: string, url: string, error: Error): void {
+    this.exchanges.push({
+      method: method.toUpperCase(),
+      url,
+      error: { name: error.name, message: error.message },
+    });
+  }
+
+  toBundle(name: string): FixtureBundle {
+    return { version: 1, name, recordedAt: new Date(), exchanges: [...this.exchanges] };
+  }
+}
+
+/**
+ * Answers EnhancedHttpClient's requests from a bundle. A URL requested more than once gets its
+ * recorded responses in order (retries see the same failures they saw live), then the last one again.
+ */
+export class FixtureReplayer {
+  readonly mode = 'replay' as const;
+  private recorded = new Map<string, RecordedExchange[]>();
+  private served = new Map<string, number>();
+
+  constructor(bundle: FixtureBundle) {
+    for (const exchange of bundle.exchanges) {
+      const key = exchangeKey(exchange.method, exchange.url);
+      this.recorded.set(key, [...(this.recorded.get(key) || []), exchange]);
+    }
+  }
+
+  respond(method: string, url: string): Response {
+    const key = exchangeKey(method, url);
+    const exchanges = this.recorded.get(key);
+    if (!exchanges) {
+      throw createMissingFixtureError(method.toUpperCase(), url);
+    }
+
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    const exchange = exchanges[Math.min(index, exchanges.length - 1)];
+
+    if (exchange.error) {
+      // Same name and message as live, so the client classifies it the same way
+      const error = new Error(exchange.error.message);
+      error.name = exchange.error.name;
+      throw error;
+    }
+
+    const status = exchange.status ?? 200;
+    const body = NULL_BODY_STATUSES.includes(status) || exchange.body === undefined
+      ? null
+      : new Uint8Array(Buffer.from(exchange.body, exchange.bodyEncoding || 'utf8'));
+    const response = new Response(body, {
+      status,
+      statusText: exchange.statusText,
+      headers: exchange.headers,
+    });
+    // Callers read response.url to see where redirects ended up
+    Object.defineProperty(response, 'url', { value: exchange.finalUrl || url });
+    return response;
+  }
+}
+
+export type FixtureSession = FixtureRecorder | FixtureReplayer;
+
+// Scoped to the async call tree, so concurrent work outside a recording isn't captured
+const fixtureSessions = new AsyncLocalStorage<FixtureSession>();
+
+/**
+ * The recording or replay the current request belongs to, if any
+ */
+export function currentFixtureSession(): FixtureSession | undefined {
+  return fixtureSessions.getStore();
+}
+
+/**
+ * Run `task`, capturing every exchange EnhancedHttpClient makes on its behalf into a bundle
+ */
+export async function recordHttpFixtures<T>(name: string, task: () => Promise<T>): Promise<{ result: T; bundle: FixtureBundle }> {
+  const recorder = new FixtureRecorder();
+  const result = await fixtureSessions.run(recorder, task);
+  return { result, bundle: recorder.toBundle(name) };
+}
+
+/**
+ * Run `task` with EnhancedHttpClient answering from a bundle instead of the network. Requests the
+ * bundle has no response for fail with a FIXTURE_MISSING error.
+ */
+export async function replayHttpFixtures<T>(bundle: FixtureBundle, task: () => Promise<T>): Promise<T> {
+  return fixtureSessions.run(new FixtureReplayer(bundle), task);
+}
+
+export async function saveFixtureBundle(file: string, bundle: FixtureBundle): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(bundle, null, 2) + '\n');
+}
+
+export async function loadFixtureBundle(file: string): Promise<FixtureBundle> {
+  const bundle = JSON.parse(await fs.readFile(file, 'utf8'));
+  if (bundle.version !== 1) {
+    throw new Error(`Unsupported fixture bundle version ${bundle.version} in ${file}`);
+  }
+  return { ...bundle, recordedAt: new Date(bundle.recordedAt) };
+}
@@ -0,0 +1,236 @@
+import { HostPolicy, HostQueueStats, NetworkError, RequestScheduler } from './types';
+import { createCancelledError, throwIfCancelled } from './errors';
+
+const DEFAULT_BACKOFF_MS = 30000; // When a 429/503 has no usable Retry-After
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const IDLE_HOST_TTL = 10 * 60 * 1000; // Forget hosts with nothing queued or running after this long
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface HostState {
+  host: string;
+  tokens: number;
+  lastRefill: number;
+  active: number;
+  waiters: Waiter[];
+  crawlDelayMs?: number;
+  blockedUntil: number;
+  timer?: ReturnType<typeof setTimeout>;
+  lastUsed: number;
+  completed: number;
+  throttled: number;
+}
+
+/**
+ * Parse a Retry-After header, either delay-seconds or an HTTP date, into milliseconds from now
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Politeness per host: each host gets its own token bucket and cap on requests in flight, so a
+ * slow or throttling site only holds up requests to itself. A robots.txt Crawl-delay slows the
+ * bucket down and allows one request at a time; a 429 or 503 pauses the host for its Retry-After.
+ */
+export class HostScheduler implements RequestScheduler {
+  private hosts = new Map<string, HostState>();
+
+  constructor(private readonly policy: HostPolicy) {}
+
+  /**
+   * Run `task` once the URL's host has a free slot. Cancelling the signal while queued rejects
+   * without running the task.
+   */
+  async schedule<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const state = this.getHost(url);
+    await this.acquire(state, signal);
+
+    try {
+      return await task();
+    } catch (error) {
+      this.observeFailure(state, error);
+      throw error;
+    } finally {
+      state.active--;
+      state.completed++;
+      state.lastUsed = Date.now();
+      this.pump(state);
+    }
+  }
+
+  /**
+   * Apply a host's robots.txt Crawl-delay
+   */
+  setCrawlDelay(url: string, crawlDelayMs: number | undefined): void {
+    const state = this.getHost(url);
+    if (state.crawlDelayMs === crawlDelayMs) return;
+
+    state.crawlDelayMs = crawlDelayMs;
+    state.tokens = Math.min(state.tokens, this.burstSize(state));
+  }
+
+  /**
+   * Stop sending requests to the URL's host for `delayMs` (capped at five minutes)
+   */
+  pauseHost(url: string, delayMs: number): void {
+    this.pause(this.getHost(url), delayMs);
+  }
+
+  private pause(state: HostState, delayMs: number): void {
+    state.blockedUntil = Math.max(state.blockedUntil, Date.now() + Math.min(delayMs, MAX_BACKOFF_MS));
+    console.log(`Pausing requests to ${state.host} for ${Math.round((state.blockedUntil - Date.now()) / 1000)}s`);
+  }
+
+  /**
+   * Queue depth and limits for every host seen recently, busiest first
+   */
+  getStats(): HostQueueStats[] {
+    const now = Date.now();
+    this.forgetIdleHosts(now);
+
+    return Array.from(this.hosts.values())
+      .map(state => ({
+        host: state.host,
+        queued: state.waiters.length,
+        active: state.active,
+        maxConcurrent: this.maxConcurrent(state),
+        requestsPerSecond: this.refillRate(state) * 1000,
+        crawlDelayMs: state.crawlDelayMs,
+        pausedUntil: state.blockedUntil > now ? new Date(state.blockedUntil) : undefined,
+        completed: state.completed,
+        throttled: state.throttled,
+      }))
+      .sort((a, b) => (b.queued + b.active) - (a.queued + a.active));
+  }
+
+  private getHost(url: string): HostState {
+    let host: string;
+    try {
+      host = new URL(url).host.toLowerCase();
+    } catch {
+      host = url;
+    }
+
+    let state = this.hosts.get(host);
+    if (!state) {
+      this.forgetIdleHosts(Date.now());
+      state = {
+        host,
+        tokens: this.policy.burstSize,
+        lastRefill: Date.now(),
+        active: 0,
+        waiters: [],
+        blockedUntil: 0,
+        lastUsed: Date.now(),
+        completed: 0,
+        throttled: 0,
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  // A Crawl-delay allows one request at a time, no more often than the delay
+  private refillRate(state: HostState): number {
+    const rate = this.policy.requestsPerSecond / 1000;
+    return state.crawlDelayMs ? Math.min(rate, 1 / state.crawlDelayMs) : rate;
+  }
+
+  private burstSize(state: HostState): number {
+    return state.crawlDelayMs ? 1 : this.policy.burstSize;
+  }
+
+  private maxConcurrent(state: HostState): number {
+    return state.crawlDelayMs ? 1 : this.policy.maxConcurrent;
+  }
+
+  private acquire(state: HostState, signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          state.waiters = state.waiters.filter(queued => queued !== waiter);
+          reject(createCancelledError());
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      state.waiters.push(waiter);
+      this.pump(state);
+    });
+  }
+
+  // Start as many queued requests as the host's limits allow, then wake up when the next can go
+  private pump(state: HostState): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+
+    const now = Date.now();
+    const rate = this.refillRate(state);
+    state.tokens = Math.min(this.burstSize(state), state.tokens + (now - state.lastRefill) * rate);
+    state.lastRefill = now;
+
+    while (state.waiters.length > 0 && state.active < this.maxConcurrent(state)) {
+      if (now < state.blockedUntil) {
+        state.timer = setTimeout(() => this.pump(state), state.blockedUntil - now);
+        return;
+      }
+      if (state.tokens < 1) {
+        state.timer = setTimeout(() => this.pump(state), Math.ceil((1 - state.tokens) / rate));
+        return;
+      }
+
+      const waiter = state.waiters.shift()!;
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+      state.tokens -= 1;
+      state.active++;
+      state.lastUsed = now;
+      waiter.resolve();
+    }
+  }
+
+  private observeFailure(state: HostState, error: unknown): void {
+    const networkError = error as Partial<NetworkError>;
+    if (networkError.statusCode !== 429 && networkError.statusCode !== 503) return;
+
+    state.throttled++;
+    const retryAfter = parseRetryAfter(networkError.response?.headers.get('retry-after'));
+    this.pause(state, retryAfter ?? DEFAULT_BACKOFF_MS);
+  }
+
+  private forgetIdleHosts(now: number): void {
+    for (const [host, state] of this.hosts) {
+      const idle = state.active === 0 && state.waiters.length === 0 && state.blockedUntil < now;
+      if (idle && now - state.lastUsed > IDLE_HOST_TTL) {
+        this.hosts.delete(host);
+      }
+    }
+  }
+}
+
+// Requests to government websites: page fetches, URL probes and form downloads
+export const governmentSiteScheduler = new HostScheduler({
+  requestsPerSecond: 1,  // Per host; other hosts aren't held up
+  burstSize: 3,
+  maxConcurrent: 2,
+});
@@ -0,0 +1,211 @@
+import { HttpCacheEntry, HttpCacheStore } from './types';
+import { getHttpCacheEntry, refreshHttpCacheEntry, saveHttpCacheEntry } from '@/lib/database/http-cache';
+
+// Set on responses EnhancedHttpClient serves through the cache: HIT (not sent to the server),
+// REVALIDATED (the server answered 304) or MISS (downloaded and stored)
+export const HTTP_CACHE_STATUS_HEADER = 'x-permit-agent-cache';
+export type HttpCacheStatus = 'HIT' | 'REVALIDATED' | 'MISS';
+
+const MAX_FRESHNESS = 24 * 60 * 60 * 1000; // Even a long max-age is revalidated daily, so changes surface
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const STORE_RETRY_DELAY = 60 * 1000; // After the store fails, go without it for a minute
+
+// Requests carrying credentials may get a response meant only for that caller
+const PRIVATE_REQUEST_HEADERS = ['authorization', 'cookie', 'x-api-key'];
+
+// Hop-by-hop and per-response headers that shouldn't be replayed from the cache
+const UNSTORED_HEADERS = ['set-cookie', 'connection', 'keep-alive', 'transfer-encoding', 'content-encoding', 'content-length'];
+
+/**
+ * Directives from a Cache-Control header, lowercased. Valueless directives map to true.
+ */
+export function parseCacheControl(value: string | null | undefined): Record<string, string | true> {
+  const directives: Record<string, string | true> = {};
+  for (const part of (value || '').split(',')) {
+    const [name, ...rest] = part.split('=');
+    const key = name.trim().toLowerCase();
+    if (!key) continue;
+    directives[key] = rest.length > 0 ? rest.join('=').trim().replace(/^"|"$/g, '') : true;
+  }
+  return directives;
+}
+
+/**
+ * How long a response may be served without revalidating (RFC 9111 section 4.2), or null if it
+ * mustn't be stored at all. A response with validators but no explicit lifetime gets the usual
+ * heuristic of 10% of the time since it was last modified.
+ */
+export function freshnessLifetime(headers: Headers, now = Date.now()): number | null {
+  const directives = parseCacheControl(headers.get('cache-control'));
+  if (directives['no-store']) return null;
+  if (directives['no-cache']) return 0;
+
+  const date = Date.parse(headers.get('date') || '') || now;
+  let lifetime = 0;
+
+  const maxAge = Number(directives['s-maxage'] ?? directives['max-age']);
+  const expires = Date.parse(headers.get('expires') || '');
+  const lastModified = Date.parse(headers.get('last-modified') || '');
+
+  if (Number.isFinite(maxAge)) {
+    lifetime = maxAge * 1000;
+  } else if (headers.has('expires')) {
+    // An invalid Expires, such as "0", means already expired
+    lifetime = Number.isNaN(expires) ? 0 : expires - date;
+  } else if (!Number.isNaN(lastModified)) {
+    lifetime = (date - lastModified) / 10;
+  }
+
+  return Math.min(Math.max(0, lifetime), MAX_FRESHNESS);
+}
+
+function storableHeaders(headers: Headers): Record<string, string> {
+  const stored: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (!UNSTORED_HEADERS.includes(name.toLowerCase())) {
+      stored[name.toLowerCase()] = value;
+    }
+  });
+  return stored;
+}
+
+// Build the Response callers see from a stored body
+function toResponse(entry: HttpCacheEntry, status: HttpCacheStatus): Response {
+  const response = new Response(new Uint8Array(entry.body), {
+    status: entry.status,
+    headers: { ...entry.headers, [HTTP_CACHE_STATUS_HEADER]: status },
+  });
+  // Callers read response.url to see where redirects ended up
+  Object.defineProperty(response, 'url', { value: entry.finalUrl });
+  return response;
+}
+
+/**
+ * HTTP cache under EnhancedHttpClient. Fresh entries are served without a request; stale ones
+ * are revalidated with If-None-Match / If-Modified-Since. The store is best-effort: if it's
+ * unavailable, requests go to the network as if nothing were cached.
+ */
+export class HttpCache {
+  private storeFailedAt = 0;
+
+  constructor(private readonly store: HttpCacheStore) {}
+
+  isCacheable(method: string, headers: Record<string, string> = {}): boolean {
+    if (method.toUpperCase() !== 'GET') return false;
+    return !Object.keys(headers).some(name => PRIVATE_REQUEST_HEADERS.includes(name.toLowerCase()));
+  }
+
+  async lookup(url: string): Promise<HttpCacheEntry | null> {
+    if (!this.storeAvailable()) return null;
+
+    try {
+      return await this.store.get(url);
+    } catch (error) {
+      this.onStoreError('read', error);
+      return null;
+    }
+  }
+
+  isFresh(entry: HttpCacheEntry, now = Date.now()): boolean {
+    return entry.expiresAt.getTime() > now;
+  }
+
+  /**
+   * The stored response, for an entry that's still fresh
+   */
+  serve(entry: HttpCacheEntry): Response {
+    return toResponse(entry, 'HIT');
+  }
+
+  // Validators to send when revalidating a stale entry
+  conditionalHeaders(entry: HttpCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers['If-None-Match'] = entry.etag;
+    if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    return headers;
+  }
+
+  /**
+   * The server answered 304: extend the entry and return its stored body
+   */
+  async revalidated(entry: HttpCacheEntry, response: Response): Promise<Response> {
+    const headers = storableHeaders(response.headers);
+    const merged = new Headers({ ...entry.headers, ...headers });
+    const lifetime = freshnessLifetime(merged) ?? 0;
+    const refreshed: HttpCacheEntry = {
+      ...entry,
+      headers: { ...entry.headers, ...headers },
+      etag: headers['etag'] || entry.etag,
+      lastModified: headers['last-modified'] || entry.lastModified,
+      storedAt: new Date(),
+      expiresAt: new Date(Date.now() + lifetime),
+    };
+
+    try {
+      await this.store.refresh(entry.url, refreshed.expiresAt, headers);
+    } catch (error) {
+      this.onStoreError('refresh', error);
+    }
+    return toResponse(refreshed, 'REVALIDATED');
+  }
+
+  /**
+   * Store a full response if it can be revalidated or reused, and return a copy for the caller
+   * (the original body can only be read once)
+   */
+  async save(url: string, response: Response): Promise<Response> {
+    const lifetime = freshnessLifetime(response.headers);
+    const etag = response.headers.get('etag') || undefined;
+    const lastModified = response.headers.get('last-modified') || undefined;
+    const declaredLength = Number(response.headers.get('content-length'));
+
+    const worthStoring = response.status === 200
+      && lifetime !== null
+      && (lifetime > 0 || etag !== undefined || lastModified !== undefined)
+      && !(declaredLength > MAX_BODY_BYTES)
+      && this.storeAvailable();
+    if (!worthStoring) return response;
+
+    const body = Buffer.from(await response.arrayBuffer());
+    const entry: HttpCacheEntry = {
+      url,
+      finalUrl: response.url || url,
+      status: response.status,
+      headers: storableHeaders(response.headers),
+      body,
+      etag,
+      lastModified,
+      storedAt: new Date(),
+      expiresAt: new Date(Date.now() + lifetime!),
+    };
+
+    if (body.length <= MAX_BODY_BYTES) {
+      try {
+        await this.store.set(entry);
+      } catch (error) {
+        this.onStoreError('write', error);
+      }
+    }
+    return toResponse(entry, 'MISS');
+  }
+
+  private storeAvailable(): boolean {
+    return Date.now() - this.storeFailedAt > STORE_RETRY_DELAY;
+  }
+
+  private onStoreError(operation: string, error: unknown): void {
+    this.storeFailedAt = Date.now();
+    console.warn(`HTTP cache ${operation} failed, continuing without the cache for a minute:`, error);
+  }
+}
+
+export const postgresHttpCacheStore: HttpCacheStore = {
+  get: getHttpCacheEntry,
+  set: saveHttpCacheEntry,
+  refresh: refreshHttpCacheEntry,
+};
+
+// Responses are kept in Postgres so a cold start revalidates rather than downloading everything
+export const governmentHttpCache = process.env.DATABASE_URL
+  ? new HttpCache(postgresHttpCacheStore)
+  : undefined;
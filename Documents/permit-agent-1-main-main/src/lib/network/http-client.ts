@@ -1,12 +1,20 @@
 import { RequestConfig, NetworkMetrics } from './types';
-import { classifyNetworkError, createHttpError } from './errors';
+import {
+  classifyNetworkError,
+  createCancelledError,
+  createHttpError,
+  isRetryableHttpStatus,
+  throwIfCancelled,
+} from './errors';
 import { retryWithBackoff } from './retry';
+import { governmentHttpCache, HttpCache } from './http-cache';
+import { currentFixtureSession } from './fixtures';
 import { generateId } from '@/lib/utils';
 
 export class EnhancedHttpClient {
   private defaultConfig: RequestConfig;
 
-  constructor(defaultConfig: Partial<RequestConfig> = {}) {
+  constructor(defaultConfig: Partial<RequestConfig> = {}, private readonly httpCache?: HttpCache) {
     // Optimize for Vercel deployment
     const isVercel = process.env.VERCEL === '1';
     
@@ -35,13 +43,36 @@ export class EnhancedHttpClient {
       retryCount: 0,
     };
 
+    // Fixture runs bypass the cache: a recording should capture what the server sends, and a
+    // replay should answer only from its bundle
+    const httpCache = this.httpCache
+      && !config.skipHttpCache
+      && !currentFixtureSession()
+      && this.httpCache.isCacheable(metrics.method, config.headers)
+      ? this.httpCache
+      : undefined;
+    const cached = httpCache ? await httpCache.lookup(url) : null;
+    if (cached && httpCache!.isFresh(cached)) {
+      console.log(`[${requestId}] Serving ${url} from the HTTP cache`);
+      return httpCache!.serve(cached);
+    }
+
+    // A stale entry is revalidated; the server answers 304 if it hasn't changed
+    const requestConfig = cached
+      ? { ...config, headers: { ...config.headers, ...httpCache!.conditionalHeaders(cached) } }
+      : config;
+
     console.log(`[${requestId}] Starting request to ${url}`);
 
     try {
       const response = await retryWithBackoff(
         async () => {
+          throwIfCancelled(config.signal);
           metrics.retryCount++;
-          return await this.performRequest(url, config);
+          // Each attempt takes its own slot, so backing off between attempts doesn't hold one
+          return config.scheduler
+            ? await config.scheduler.schedule(url, () => this.performRequest(url, requestConfig), config.signal)
+            : await this.performRequest(url, requestConfig);
         },
         {
           maxRetries: config.retries!,
@@ -57,7 +88,11 @@ export class EnhancedHttpClient {
       metrics.statusCode = response.status;
       
       this.logMetrics(metrics);
-      return response;
+
+      if (cached && response.status === 304) {
+        return await httpCache!.revalidated(cached, response);
+      }
+      return httpCache ? await httpCache.save(url, response) : response;
 
     } catch (error) {
       metrics.endTime = Date.now();
@@ -74,6 +109,8 @@ export class EnhancedHttpClient {
   private async performRequest(url: string, config: RequestConfig): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), config.timeout);
+    const onCancel = () => controller.abort();
+    config.signal?.addEventListener('abort', onCancel);
 
     try {
       const headers: Record<string, string> = {
@@ -87,23 +124,56 @@ export class EnhancedHttpClient {
         ...config.headers,
       };
 
-      const response = await fetch(url, {
+      const response = await this.send(url, {
         ...config,
         signal: controller.signal,
         headers,
-      });
+      }, config.signal);
 
       clearTimeout(timeoutId);
-
-      // Check for HTTP errors
-      if (!response.ok) {
-        throw createHttpError(response);
+      config.signal?.removeEventListener('abort', onCancel);
+
+      // Check for HTTP errors; a 304 only comes back for our own conditional requests.
+      // A scheduled request isn't retried on 429 or 503: its scheduler pauses the host for the
+      // Retry-After instead of the retry going straight back to a site that asked us to wait
+      if (!response.ok && response.status !== 304) {
+        const throttled = response.status === 429 || response.status === 503;
+        throw createHttpError(response, isRetryableHttpStatus(response.status) && !(throttled && config.scheduler));
       }
 
       return response;
 
     } catch (error) {
       clearTimeout(timeoutId);
+      config.signal?.removeEventListener('abort', onCancel);
+      // Both timeouts and cancellation surface as AbortError, tell them apart here
+      if (config.signal?.aborted) {
+        throw createCancelledError();
+      }
+      throw error;
+    }
+  }
+
+  // The request itself, answered from the network or, while a fixture is recording or replaying,
+  // captured into it or served from it
+  private async send(url: string, init: RequestInit, callerSignal?: AbortSignal): Promise<Response> {
+    const session = currentFixtureSession();
+    const method = init.method || 'GET';
+
+    if (!session) {
+      return fetch(url, init);
+    }
+    if (session.mode === 'replay') {
+      return session.respond(method, url);
+    }
+
+    try {
+      return await session.record(method, url, await fetch(url, init));
+    } catch (error) {
+      // The caller cancelling isn't something the site did, so it isn't replayed
+      if (!callerSignal?.aborted) {
+        session.recordError(method, url, error as Error);
+      }
       throw error;
     }
   }
@@ -153,7 +223,7 @@ export const governmentHttpClient = new EnhancedHttpClient({
   timeout: process.env.VERCEL === '1' ? 8000 : 15000, // Even shorter on Vercel
   retries: process.env.VERCEL === '1' ? 1 : 2, // Minimal retries on Vercel
   userAgent: 'PermitAgent/1.0 (Municipal Permit Research Tool)',
-});
+}, governmentHttpCache);
 
 export const apiHttpClient = new EnhancedHttpClient({
   timeout: 30000, // Standard timeout for APIs
@@ -10,14 +10,24 @@ export * from './errors';
 export * from './retry';
 
 // Caching
+export * from './cache-store';
 export * from './cache';
 
 // Rate limiting
 export * from './rate-limiter';
 
+// Per-host politeness
+export * from './host-scheduler';
+
 // Circuit breaker
 export * from './circuit-breaker';
 
+// HTTP response cache
+export * from './http-cache';
+
+// Record/replay fixtures
+export * from './fixtures';
+
 // HTTP client
 export * from './http-client';
 
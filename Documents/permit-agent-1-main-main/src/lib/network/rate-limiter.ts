@@ -79,13 +79,6 @@ export class RateLimiter {
   }
 }
 
-// Global rate limiter for government websites
-export const governmentSiteRateLimiter = new RateLimiter({
-  requestsPerSecond: 1,    // Conservative: 1 request per second
-  requestsPerMinute: 30,   // Conservative: 30 requests per minute
-  burstSize: 3,           // Allow small bursts
-});
-
 // Rate limiter for API calls
 export const apiRateLimiter = new RateLimiter({
   requestsPerSecond: 5,    // More aggressive for APIs
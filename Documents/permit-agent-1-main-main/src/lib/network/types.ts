@@ -8,6 +8,14 @@ export interface RequestConfig {
   maxRetryDelay?: number;
   userAgent?: string;
   headers?: Record<string, string>;
+  signal?: AbortSignal; // Caller cancellation, separate from the per-request timeout
+  skipHttpCache?: boolean; // Always fetch, and don't store the response
+  scheduler?: RequestScheduler; // Per-host queue each attempt waits its turn in
+}
+
+// Runs a task once the URL's host has a free slot; see HostScheduler
+export interface RequestScheduler {
+  schedule<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
 }
 
 export interface NetworkError extends Error {
@@ -30,18 +38,127 @@ export interface CacheConfig {
   maxSize: number; // Maximum number of cached items
 }
 
+export type CacheBackend = 'memory' | 'filesystem' | 'postgres';
+
+// One cached value. Stores hand back expired entries too; each cache decides what expiry means.
+export interface CacheStoreEntry<T = unknown> {
+  data: T;
+  storedAt: Date;
+  expiresAt: Date;
+  quality?: number; // 0-1, for caches whose TTL depends on extraction quality
+  url?: string; // The page the value came from, for purging by URL prefix or domain
+  jurisdictionId?: string;
+}
+
+// An entry is purged when it matches every condition given. Of urlPrefix, domains and
+// jurisdictionId, matching any one is enough.
+export interface CachePurgeFilter {
+  namespace?: string;
+  expiredBefore?: Date;
+  urlPrefix?: string;
+  domains?: string[];
+  jurisdictionId?: string;
+}
+
+export interface CacheStore {
+  readonly backend: CacheBackend;
+  get<T>(namespace: string, key: string): Promise<CacheStoreEntry<T> | null>;
+  set<T>(namespace: string, key: string, entry: CacheStoreEntry<T>): Promise<void>;
+  delete(namespace: string, key: string): Promise<boolean>;
+  purge(filter: CachePurgeFilter): Promise<number>;
+  count(namespace: string): Promise<number>;
+  // Cap a namespace's size; stores that don't clean up after themselves evict the oldest entries
+  setLimit?(namespace: string, maxEntries: number): void;
+}
+
+export interface CacheStats {
+  name: string;
+  backend: CacheBackend;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1, 0 before any lookups
+}
+
 export interface RateLimitConfig {
   requestsPerSecond: number;
   requestsPerMinute: number;
   burstSize: number;
 }
 
+export interface HostPolicy {
+  requestsPerSecond: number; // Per host
+  burstSize: number;
+  maxConcurrent: number; // Requests in flight to one host
+}
+
+export interface HostQueueStats {
+  host: string;
+  queued: number;
+  active: number;
+  maxConcurrent: number;
+  requestsPerSecond: number;
+  crawlDelayMs?: number;
+  pausedUntil?: Date; // Set after a 429 or 503
+  completed: number;
+  throttled: number; // 429 and 503 responses
+}
+
+// A stored response and the validators needed to revalidate it
+export interface HttpCacheEntry {
+  url: string; // As requested; the cache key
+  finalUrl: string; // After redirects
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+  etag?: string;
+  lastModified?: string;
+  storedAt: Date;
+  expiresAt: Date; // Served without asking the server until then, revalidated after
+}
+
+export interface HttpCacheStore {
+  get(url: string): Promise<HttpCacheEntry | null>;
+  set(entry: HttpCacheEntry): Promise<void>;
+  // After a 304: new freshness and whatever headers the server updated
+  refresh(url: string, expiresAt: Date, headers: Record<string, string>): Promise<void>;
+}
+
+// One request and what came back, as captured by a fixture recording
+export interface RecordedExchange {
+  method: string;
+  url: string;
+  finalUrl?: string; // After redirects
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  bodyEncoding?: 'utf8' | 'base64'; // Text stays readable in the fixture file
+  error?: { name: string; message: string }; // The request failed before a response arrived
+}
+
+// The HTTP exchanges made during one recorded run, replayable without the network
+export interface FixtureBundle {
+  version: 1;
+  name: string;
+  recordedAt: Date;
+  exchanges: RecordedExchange[];
+}
+
 export interface CircuitBreakerConfig {
   failureThreshold: number;
   resetTimeout: number;
   monitoringPeriod: number;
 }
 
+export interface DomainHealth {
+  domain: string;
+  state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+  failureCount: number; // Consecutive failures
+  lastFailureAt?: Date;
+  lastSuccessAt?: Date;
+  nextAttemptAt?: Date; // When an open breaker lets a trial request through
+}
+
 export type NetworkErrorType = 
   | 'TIMEOUT'
   | 'CONNECTION_ERROR'
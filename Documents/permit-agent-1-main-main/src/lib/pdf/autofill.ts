@@ -0,0 +1,244 @@
+import {
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFHexString,
+  PDFName,
+  PDFRadioGroup,
+  PDFSignature,
+  PDFString,
+  PDFTextField,
+} from 'pdf-lib';
+import {
+  Address,
+  ApplicantProfile,
+  FilledFormField,
+  FormFillCategory,
+  PermitFormField,
+  PermitFormFillResult,
+} from '@/types';
+import { classifyFormField, normalizeFieldText } from '@/lib/scraping/form-field-detector';
+
+export interface FormFillProject {
+  name?: string;
+  description?: string;
+  address: Address;
+  valuation?: number;
+  squareFootage?: number;
+}
+
+export interface FormFillData {
+  applicant?: ApplicantProfile;
+  contractor?: ApplicantProfile;
+  project: FormFillProject;
+}
+
+export interface FormFillOptions {
+  flatten?: boolean;
+  date?: Date; // Used for application date fields, defaults to today
+}
+
+type FillSource = FilledFormField['source'];
+
+const CONTRACTOR_PATTERN = /\b(contractor|builder|licensee|cslb)\b/;
+const APPLICANT_PATTERN = /\b(applicant|owner|agent|mailing)\b/;
+
+function sourceFor(category: FormFillCategory, text: string): FillSource {
+  switch (category) {
+    case 'project_name':
+    case 'project_description':
+    case 'valuation':
+    case 'square_footage':
+    case 'county':
+    case 'date':
+      return 'project';
+    case 'license_number':
+      return 'contractor';
+    case 'street':
+    case 'city':
+    case 'state':
+    case 'zip_code':
+      // Address fields describe the job site unless they belong to a person
+      if (CONTRACTOR_PATTERN.test(text)) return 'contractor';
+      if (APPLICANT_PATTERN.test(text)) return 'applicant';
+      return 'project';
+    default:
+      return CONTRACTOR_PATTERN.test(text) ? 'contractor' : 'applicant';
+  }
+}
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${month}/${day}/${date.getFullYear()}`;
+}
+
+function addressValue(address: Address | undefined, category: FormFillCategory): string | undefined {
+  if (!address) return undefined;
+  switch (category) {
+    case 'street': return address.street;
+    case 'city': return address.city;
+    case 'state': return address.state;
+    case 'zip_code': return address.zipCode;
+    case 'county': return address.county;
+    default: return undefined;
+  }
+}
+
+function profileValue(profile: ApplicantProfile | undefined, category: FormFillCategory): string | undefined {
+  if (!profile) return undefined;
+  const [first, ...rest] = profile.name.trim().split(/\s+/);
+  switch (category) {
+    case 'name': return profile.name;
+    case 'first_name': return first;
+    case 'last_name': return rest.length > 0 ? rest[rest.length - 1] : undefined;
+    case 'company': return profile.company;
+    case 'email': return profile.email;
+    case 'phone': return profile.phone;
+    case 'license_number': return profile.licenseNumber;
+    default: return addressValue(profile.mailingAddress, category);
+  }
+}
+
+function resolveValue(
+  category: FormFillCategory,
+  source: FillSource,
+  data: FormFillData,
+  date: Date
+): string | undefined {
+  if (source === 'project') {
+    const { project } = data;
+    switch (category) {
+      case 'project_name': return project.name;
+      case 'project_description': return project.description;
+      case 'valuation': return project.valuation !== undefined ? String(project.valuation) : undefined;
+      case 'square_footage': return project.squareFootage !== undefined ? String(project.squareFootage) : undefined;
+      case 'date': return formatDate(date);
+      default: return addressValue(project.address, category);
+    }
+  }
+
+  if (source === 'contractor') {
+    // A contractor's license is sometimes asked for without mentioning the contractor
+    return profileValue(data.contractor, category)
+      ?? (category === 'license_number' ? profileValue(data.applicant, category) : undefined);
+  }
+
+  return profileValue(data.applicant, category);
+}
+
+function readLabel(field: PDFField): string | undefined {
+  const tooltip = field.acroField.dict.lookup(PDFName.of('TU'));
+  if (tooltip instanceof PDFString || tooltip instanceof PDFHexString) {
+    return tooltip.decodeText().trim() || undefined;
+  }
+  return undefined;
+}
+
+function labelFromFieldName(name: string): string {
+  return (name.split('.').pop() || name)
+    .replace(/\[\d+\]$/, '')
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The standard fonts pdf-lib draws appearances with only cover WinAnsi
+function toWinAnsi(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7e\n]/g, '');
+}
+
+function unmatchedType(field: PDFField): PermitFormField['type'] {
+  if (field instanceof PDFCheckBox) return 'checkbox';
+  if (field instanceof PDFRadioGroup) return 'radio';
+  if (field instanceof PDFSignature) return 'signature';
+  if (field instanceof PDFDropdown) return 'dropdown';
+  return 'text';
+}
+
+/**
+ * Fill a permit application's AcroForm fields from the applicant's and contractor's saved
+ * profiles and the project. Only empty text fields and dropdowns are filled; checkboxes,
+ * radio buttons, signatures and anything that couldn't be matched are returned as unmatched.
+ */
+export async function fillPermitForm(
+  pdfBytes: Uint8Array,
+  data: FormFillData,
+  options: FormFillOptions = {}
+): Promise<{ pdf: Uint8Array } & PermitFormFillResult> {
+  const document = await PDFDocument.load(pdfBytes);
+  const form = document.getForm();
+  const date = options.date ?? new Date();
+
+  const filled: FilledFormField[] = [];
+  const unmatched: PermitFormFillResult['unmatched'] = [];
+
+  for (const field of form.getFields()) {
+    if (field.isReadOnly()) continue;
+    if (!(field instanceof PDFTextField || field instanceof PDFDropdown || field instanceof PDFCheckBox
+      || field instanceof PDFRadioGroup || field instanceof PDFSignature)) {
+      continue; // Push buttons and list boxes
+    }
+
+    const name = field.getName();
+    const label = readLabel(field) || labelFromFieldName(name);
+    const text = normalizeFieldText(name, label);
+    const leaveUnmatched = () => unmatched.push({ name, label, type: unmatchedType(field), required: field.isRequired() });
+
+    if (field instanceof PDFTextField && field.getText()) continue; // Already filled in
+    if (!(field instanceof PDFTextField || field instanceof PDFDropdown)) {
+      leaveUnmatched();
+      continue;
+    }
+
+    const category = classifyFormField(name, label);
+    const source = category ? sourceFor(category, text) : null;
+    const value = category && source ? resolveValue(category, source, data, date) : undefined;
+    if (!category || !source || !value) {
+      leaveUnmatched();
+      continue;
+    }
+
+    if (field instanceof PDFDropdown) {
+      const wanted = value.toLowerCase();
+      const option = field.getOptions().find(candidate => candidate.toLowerCase() === wanted);
+      if (!option) {
+        leaveUnmatched();
+        continue;
+      }
+      field.select(option);
+      filled.push({ name, label, category, source, value: option });
+      continue;
+    }
+
+    let fieldValue = toWinAnsi(field.isMultiline() ? value : value.replace(/\s*\n\s*/g, ' '));
+    const maxLength = field.getMaxLength();
+    if (maxLength !== undefined) {
+      fieldValue = fieldValue.slice(0, maxLength);
+    }
+
+    try {
+      field.setText(fieldValue);
+      filled.push({ name, label, category, source, value: fieldValue });
+    } catch (error) {
+      console.warn(`Could not fill form field ${name}:`, error);
+      leaveUnmatched();
+    }
+  }
+
+  const flatten = Boolean(options.flatten);
+  if (flatten) {
+    form.flatten();
+  }
+
+  const pdf = await document.save();
+  return { pdf, filled, unmatched, flattened: flatten };
+}
@@ -1,13 +1,27 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { SearchResponse } from '@/types';
+import { FieldProvenance, SearchResponse } from '@/types';
 import { formatCurrency, formatAddress } from '@/lib/utils';
+import { getProvenanceStatus } from '@/lib/provenance';
+import { describeFeeFormula } from '@/lib/fees';
 
 interface PDFGeneratorOptions {
   searchResults: SearchResponse;
   addressSearched: string;
 }
 
+// Suffix appended to values that weren't verified against the jurisdiction
+function provenanceMarker(provenance?: FieldProvenance): string {
+  switch (getProvenanceStatus(provenance)) {
+    case 'synthetic':
+      return ' [Estimate]';
+    case 'unverified':
+      return ' [Unverified]';
+    default:
+      return '';
+  }
+}
+
 export function generatePermitPDF({ searchResults, addressSearched }: PDFGeneratorOptions): jsPDF {
   const { jurisdiction, permits, contact, processingInfo } = searchResults;
   const doc = new jsPDF();
@@ -85,17 +99,17 @@ export function generatePermitPDF({ searchResults, addressSearched }: PDFGenerat
     doc.setTextColor(0, 0, 0);
     
     if (contact.phone) {
-      doc.text(`Phone: ${contact.phone}`, margin, yPosition);
+      doc.text(`Phone: ${contact.phone}${provenanceMarker(contact.provenance?.phone)}`, margin, yPosition);
       yPosition += 5;
     }
     
     if (contact.email) {
-      doc.text(`Email: ${contact.email}`, margin, yPosition);
+      doc.text(`Email: ${contact.email}${provenanceMarker(contact.provenance?.email)}`, margin, yPosition);
       yPosition += 5;
     }
     
     if (contact.address) {
-      doc.text(`Office: ${formatAddress(contact.address)}`, margin, yPosition);
+      doc.text(`Office: ${formatAddress(contact.address)}${provenanceMarker(contact.provenance?.address)}`, margin, yPosition);
       yPosition += 5;
     }
     
@@ -103,7 +117,7 @@ export function generatePermitPDF({ searchResults, addressSearched }: PDFGenerat
     if (contact.hoursOfOperation) {
       yPosition += 5;
       doc.setFont('helvetica', 'bold');
-      doc.text('Hours of Operation:', margin, yPosition);
+      doc.text(`Hours of Operation:${provenanceMarker(contact.provenance?.hoursOfOperation)}`, margin, yPosition);
       yPosition += 5;
       doc.setFont('helvetica', 'normal');
       
@@ -128,7 +142,7 @@ export function generatePermitPDF({ searchResults, addressSearched }: PDFGenerat
       // Permit Name and Category
       doc.setFont('helvetica', 'bold');
       doc.setFontSize(11);
-      doc.text(`${index + 1}. ${permit.name}`, margin, yPosition);
+      doc.text(`${index + 1}. ${permit.name}${provenanceMarker(permit.provenance)}`, margin, yPosition);
       yPosition += 5;
       
       doc.setFont('helvetica', 'normal');
@@ -157,7 +171,9 @@ export function generatePermitPDF({ searchResults, addressSearched }: PDFGenerat
         yPosition += 3;
         const feeData = permit.fees.map(fee => [
           fee.type,
-          formatCurrency(fee.amount) + (fee.unit && fee.unit !== 'flat' ? ` (${fee.unit})` : '')
+          (fee.formula && fee.formula.kind !== 'flat'
+            ? describeFeeFormula(fee.formula)
+            : formatCurrency(fee.amount) + (fee.unit && fee.unit !== 'flat' ? ` (${fee.unit})` : '')) + provenanceMarker(fee.provenance)
         ]);
         
         autoTable(doc, {
@@ -174,7 +190,7 @@ export function generatePermitPDF({ searchResults, addressSearched }: PDFGenerat
           },
           columnStyles: {
             0: { cellWidth: 80 },
-            1: { cellWidth: 50 }
+            1: { cellWidth: 70 }
           },
           margin: { left: margin + 5, right: margin }
         });
@@ -205,7 +221,7 @@ export function generatePermitPDF({ searchResults, addressSearched }: PDFGenerat
   // Processing Information
   if (processingInfo) {
     checkNewPage(40);
-    addSectionHeader('Processing Information');
+    addSectionHeader(`Processing Information${provenanceMarker(processingInfo.provenance)}`);
     doc.setTextColor(0, 0, 0);
     
     if (processingInfo.averageTime) {
@@ -245,6 +261,11 @@ export function generatePermitPDF({ searchResults, addressSearched }: PDFGenerat
   const disclaimerText = 'This information was automatically extracted from government websites and may not be complete or current. Always verify permit requirements, fees, and procedures directly with the jurisdiction before applying.';
   const disclaimerLines = doc.splitTextToSize(disclaimerText, contentWidth);
   doc.text(disclaimerLines, margin, yPosition);
+  yPosition += disclaimerLines.length * 4 + 2;
+  
+  const legendText = '[Estimate] marks values generated when the jurisdiction could not be reached. [Unverified] marks values extracted with low confidence. Neither should be quoted without confirming with the permit office.';
+  const legendLines = doc.splitTextToSize(legendText, contentWidth);
+  doc.text(legendLines, margin, yPosition);
   
   // Footer on each page
   const totalPages = doc.internal.getNumberOfPages();
@@ -0,0 +1,206 @@
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import {
+  PacketManifest,
+  PacketManifestFailure,
+  PacketManifestFile,
+  PacketManifestLink,
+  PermitForm,
+  SearchResponse,
+  UserProject,
+} from '@/types';
+import { downloadForm } from '@/lib/scraping/form-detector';
+import { generatePermitPDF } from './generator';
+import { slugify } from '@/lib/utils';
+
+interface PacketOptions {
+  searchResults: SearchResponse;
+  addressSearched: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+};
+
+function sha256(data: Buffer | Uint8Array | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Required forms of the result's permits, plus any other form the jurisdiction marks as
+ * required. When a scope of work was given the permits are already only the required ones.
+ */
+export function collectPacketForms(searchResults: SearchResponse): PermitForm[] {
+  const forms = [
+    ...searchResults.permits.flatMap(permit => permit.forms),
+    ...(searchResults.forms || []),
+  ].filter(form => form.isRequired);
+
+  const seen = new Set<string>();
+  return forms.filter(form => {
+    if (seen.has(form.url)) return false;
+    seen.add(form.url);
+    return true;
+  });
+}
+
+/**
+ * A search result narrowed to the permits a project was created with, matched by the id they were
+ * added under or, for results from a later search, by name
+ */
+export function projectPacketResults(project: UserProject, searchResults: SearchResponse): SearchResponse {
+  const ids = new Set(project.permits.map(permit => permit.permitTypeId));
+  const names = new Set(project.permits.map(permit => permit.name.trim().toLowerCase()));
+
+  return {
+    ...searchResults,
+    permits: searchResults.permits.filter(permit => ids.has(permit.id) || names.has(permit.name.trim().toLowerCase())),
+    determination: undefined,
+  };
+}
+
+function fileExtension(form: PermitForm, contentType: string): string {
+  const fromType = EXTENSIONS[contentType.split(';')[0].trim().toLowerCase()];
+  if (fromType) return fromType;
+
+  const fromUrl = new URL(form.url).pathname.match(/\.(pdf|docx?|xlsx?)$/i);
+  return fromUrl ? fromUrl[1].toLowerCase() : form.fileType;
+}
+
+/**
+ * Markdown checklist of each permit's requirements and forms, to tick off while assembling a submission
+ */
+export function buildRequirementsChecklist({ searchResults, addressSearched }: PacketOptions): string {
+  const { jurisdiction, permits, determination } = searchResults;
+  const lines = [
+    `# Permit Application Checklist`,
+    '',
+    `Property: ${addressSearched}`,
+    `Jurisdiction: ${jurisdiction.name} (${jurisdiction.website})`,
+    '',
+  ];
+
+  if (determination) {
+    lines.push('## Required Permits', '');
+    determination.required.forEach(required => {
+      lines.push(`- [ ] ${required.name}: ${required.reason}`);
+    });
+    lines.push('');
+  }
+
+  permits.forEach(permit => {
+    lines.push(`## ${permit.name}`, '');
+    if (permit.processingTime) {
+      lines.push(`Processing time: ${permit.processingTime}`, '');
+    }
+
+    const requirements = [
+      ...permit.requirements,
+      ...(determination?.required.find(required => required.category === permit.category)?.requirements || []),
+    ].filter((requirement, index, all) => all.indexOf(requirement) === index);
+
+    if (requirements.length > 0) {
+      lines.push('### Requirements', '');
+      requirements.forEach(requirement => lines.push(`- [ ] ${requirement}`));
+      lines.push('');
+    }
+
+    if (permit.forms.length > 0) {
+      lines.push('### Forms', '');
+      permit.forms.forEach(form => {
+        lines.push(`- [ ] ${form.name}${form.isRequired ? ' (required)' : ''}: ${form.url}`);
+      });
+      lines.push('');
+    }
+  });
+
+  lines.push(
+    '---',
+    'Verify all requirements with the jurisdiction before submitting. Requirements may have changed since this packet was generated.',
+    ''
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Build an application packet ZIP: every required form, the summary report, a requirements
+ * checklist and a manifest recording where each file came from. Forms that can't be
+ * downloaded are recorded in the manifest with the reason rather than left out silently,
+ * and forms submitted online are listed as links.
+ */
+export async function buildPermitPacket(options: PacketOptions): Promise<{ zip: Buffer; manifest: PacketManifest }> {
+  const { searchResults, addressSearched } = options;
+  const zip = new JSZip();
+  const files: PacketManifestFile[] = [];
+  const links: PacketManifestLink[] = [];
+  const failed: PacketManifestFailure[] = [];
+  const usedPaths = new Set<string>();
+
+  const addFile = (path: string, name: string, data: Buffer | string, contentType: string, sourceUrl?: string) => {
+    zip.file(path, data);
+    files.push({
+      path,
+      name,
+      sourceUrl,
+      contentType,
+      size: typeof data === 'string' ? Buffer.byteLength(data) : data.length,
+      sha256: sha256(data),
+      retrievedAt: new Date().toISOString(),
+    });
+  };
+
+  // Downloaded one at a time so a packet doesn't hammer a single government server
+  for (const form of collectPacketForms(searchResults)) {
+    if (form.fileType === 'online') {
+      links.push({ name: form.name, url: form.url });
+      continue;
+    }
+
+    const result = await downloadForm({
+      name: form.name,
+      url: form.url,
+      fileType: form.fileType,
+      description: form.description,
+      isRequired: form.isRequired,
+    });
+
+    if (!result.success || !result.buffer) {
+      failed.push({ name: form.name, sourceUrl: form.url, reason: result.error || 'Download failed' });
+      continue;
+    }
+
+    const contentType = result.contentType || 'application/octet-stream';
+    const base = `forms/${slugify(form.name) || 'form'}`;
+    let path = `${base}.${fileExtension(form, contentType)}`;
+    for (let suffix = 2; usedPaths.has(path); suffix++) {
+      path = `${base}-${suffix}.${fileExtension(form, contentType)}`;
+    }
+    usedPaths.add(path);
+
+    addFile(path, form.name, result.buffer, contentType, form.url);
+  }
+
+  const report = Buffer.from(generatePermitPDF({ searchResults, addressSearched }).output('arraybuffer'));
+  addFile('permit-summary.pdf', 'Permit summary report', report, 'application/pdf');
+  addFile('checklist.md', 'Requirements checklist', buildRequirementsChecklist(options), 'text/markdown');
+
+  const manifest: PacketManifest = {
+    generatedAt: new Date().toISOString(),
+    address: addressSearched,
+    jurisdiction: {
+      name: searchResults.jurisdiction.name,
+      website: searchResults.jurisdiction.website,
+    },
+    files,
+    links,
+    failed,
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return { zip: buffer, manifest };
+}
@@ -0,0 +1,255 @@
+import type { PDFDocumentProxy, PDFPageProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+
+export interface PDFTextItem {
+  text: string;
+  page: number;
+  x: number; // PDF user space, origin at the bottom-left of the page
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PDFPageContent {
+  page: number;
+  width: number;
+  height: number;
+  text: string; // Items joined into lines in reading order
+  items: PDFTextItem[];
+  imageCount: number;
+  widgets: PDFFormWidget[];
+}
+
+export interface PDFDocumentInfo {
+  title?: string;
+  subject?: string;
+  author?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: Date;
+  modificationDate?: Date;
+  version?: string;
+  hasAcroForm: boolean;
+  hasXFA: boolean;
+  hasSignatures: boolean;
+}
+
+// One widget of an AcroForm field. A field can have several widgets, e.g. one per radio button.
+export interface PDFFormWidget {
+  fieldName: string; // Fully qualified, e.g. "applicant.name"
+  fieldType: 'Tx' | 'Btn' | 'Ch' | 'Sig';
+  page: number;
+  rect: [number, number, number, number]; // x1, y1, x2, y2 in PDF user space
+  label?: string; // The field's tooltip (TU), which forms use as an accessible label
+  required: boolean;
+  readOnly: boolean;
+  value?: string | string[];
+  defaultValue?: string | string[];
+  options?: { exportValue: string; displayValue: string }[];
+  checkBox?: boolean;
+  radioButton?: boolean;
+  pushButton?: boolean;
+  exportValue?: string; // The value a checkbox or radio button sets when selected
+  maxLength?: number;
+  multiLine?: boolean;
+  combo?: boolean;
+}
+
+export interface PDFDocumentContent {
+  pageCount: number;
+  pages: PDFPageContent[];
+  text: string;
+  info: PDFDocumentInfo;
+  widgets: PDFFormWidget[];
+  isScanned: boolean; // Pages are images with little or no extractable text and need OCR
+}
+
+// A page with less text than this but at least one image is treated as a scan
+const SCANNED_PAGE_MIN_CHARACTERS = 20;
+
+// Items whose baselines are within this fraction of the font height are on the same line
+const LINE_TOLERANCE = 0.5;
+
+type PDFJSModule = typeof import('pdfjs-dist/legacy/build/pdf.mjs');
+
+let pdfjsModule: Promise<PDFJSModule> | null = null;
+
+// Loaded lazily so importing the scraper doesn't pull PDF.js into every route
+function loadPDFJS(): Promise<PDFJSModule> {
+  if (!pdfjsModule) {
+    pdfjsModule = import('pdfjs-dist/legacy/build/pdf.mjs');
+  }
+  return pdfjsModule;
+}
+
+function isTextItem(item: unknown): item is TextItem {
+  return typeof item === 'object' && item !== null && 'str' in item;
+}
+
+function toDate(pdfjs: PDFJSModule, value: unknown): Date | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  return pdfjs.PDFDateString.toDateObject(value) || undefined;
+}
+
+function nonEmpty(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Join positioned text items into lines, top to bottom and left to right
+ */
+export function buildPageText(items: PDFTextItem[]): string {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PDFTextItem[][] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    const tolerance = Math.max(item.height, 1) * LINE_TOLERANCE;
+    if (line && Math.abs(line[0].y - item.y) <= tolerance) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines.map(line => {
+    line.sort((a, b) => a.x - b.x);
+    let text = '';
+    let end = -Infinity;
+    for (const item of line) {
+      // Separate items with a space unless they abut, as they do when a word is split across runs
+      const gap = item.x - end;
+      text += text && gap > Math.max(item.height, 1) * 0.15 ? ` ${item.text}` : item.text;
+      end = item.x + item.width;
+    }
+    return text.replace(/\s+/g, ' ').trim();
+  }).filter(Boolean).join('\n');
+}
+
+async function countImages(pdfjs: PDFJSModule, page: PDFPageProxy): Promise<number> {
+  const operators = await page.getOperatorList();
+  const imageOps = new Set<number>([
+    pdfjs.OPS.paintImageXObject,
+    pdfjs.OPS.paintInlineImageXObject,
+    pdfjs.OPS.paintImageMaskXObject,
+    pdfjs.OPS.paintImageXObjectRepeat,
+  ]);
+  return operators.fnArray.filter(op => imageOps.has(op)).length;
+}
+
+function toFormValue(value: unknown): string | string[] | undefined {
+  if (Array.isArray(value)) return value.map(String);
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+async function readWidgets(page: PDFPageProxy, pageNumber: number): Promise<PDFFormWidget[]> {
+  const annotations = await page.getAnnotations({ intent: 'display' });
+
+  return annotations
+    .filter(annotation => annotation.subtype === 'Widget' && annotation.fieldName && !annotation.hidden)
+    .map(annotation => ({
+      fieldName: annotation.fieldName,
+      fieldType: annotation.fieldType,
+      page: pageNumber,
+      rect: annotation.rect,
+      label: nonEmpty(annotation.alternativeText),
+      required: Boolean(annotation.required),
+      readOnly: Boolean(annotation.readOnly),
+      value: toFormValue(annotation.fieldValue),
+      defaultValue: toFormValue(annotation.defaultFieldValue),
+      options: annotation.options,
+      checkBox: annotation.checkBox,
+      radioButton: annotation.radioButton,
+      pushButton: annotation.pushButton,
+      exportValue: annotation.radioButton ? annotation.buttonValue : annotation.exportValue,
+      maxLength: annotation.maxLen || undefined,
+      multiLine: annotation.multiLine,
+      combo: annotation.combo,
+    }));
+}
+
+async function readPage(pdfjs: PDFJSModule, document: PDFDocumentProxy, pageNumber: number): Promise<PDFPageContent> {
+  const page = await document.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+
+    const items: PDFTextItem[] = content.items
+      .filter(isTextItem)
+      .filter(item => item.str.trim().length > 0)
+      .map(item => ({
+        text: item.str,
+        page: pageNumber,
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width,
+        height: item.height || Math.abs(item.transform[3]),
+      }));
+
+    return {
+      page: pageNumber,
+      width: viewport.width,
+      height: viewport.height,
+      text: buildPageText(items),
+      items,
+      imageCount: await countImages(pdfjs, page),
+      widgets: await readWidgets(page, pageNumber),
+    };
+  } finally {
+    page.cleanup();
+  }
+}
+
+/**
+ * Parse a PDF's text content (with positions), form widgets, document info and page count
+ */
+export async function readPDF(data: Buffer | Uint8Array): Promise<PDFDocumentContent> {
+  const pdfjs = await loadPDFJS();
+
+  // PDF.js takes ownership of the buffer it is given, so hand it a copy
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    // Text extraction doesn't need the standard font files, so don't warn about them missing
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    const pages: PDFPageContent[] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      pages.push(await readPage(pdfjs, document, pageNumber));
+    }
+
+    const { info: rawInfo } = await document.getMetadata();
+    const info = rawInfo as Record<string, unknown>;
+
+    const scannedPages = pages.filter(page =>
+      page.imageCount > 0 && page.text.replace(/\s/g, '').length < SCANNED_PAGE_MIN_CHARACTERS
+    );
+
+    return {
+      pageCount: document.numPages,
+      pages,
+      text: pages.map(page => page.text).join('\n\n'),
+      widgets: pages.flatMap(page => page.widgets),
+      info: {
+        title: nonEmpty(info.Title),
+        subject: nonEmpty(info.Subject),
+        author: nonEmpty(info.Author),
+        creator: nonEmpty(info.Creator),
+        producer: nonEmpty(info.Producer),
+        creationDate: toDate(pdfjs, info.CreationDate),
+        modificationDate: toDate(pdfjs, info.ModDate),
+        version: nonEmpty(info.PDFFormatVersion),
+        hasAcroForm: Boolean(info.IsAcroFormPresent),
+        hasXFA: Boolean(info.IsXFAPresent),
+        hasSignatures: Boolean(info.IsSignaturesPresent),
+      },
+      // Most pages must be scans; a scanned attachment at the end of a text form doesn't count
+      isScanned: pages.length > 0 && scannedPages.length / pages.length > 0.5,
+    };
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import {
+  OccupancyType,
+  PermitDetermination,
+  PermitExemption,
+  PermitType,
+  RequiredPermit,
+  ScopeOfWork,
+  SearchResponse,
+  WorkType,
+} from '@/types';
+import {
+  defaultPermitRules,
+  findJurisdictionRuleSet,
+  PermitRule,
+  ScopeCondition,
+} from '@/lib/data/permit-rules';
+import { createProvenance } from '@/lib/provenance';
+
+export const WORK_TYPE_LABELS: Record<WorkType, string> = {
+  deck: 'Deck',
+  fence: 'Fence',
+  water_heater: 'Water heater replacement',
+  reroof: 'Re-roof',
+  adu: 'Accessory dwelling unit (ADU)',
+  panel_upgrade: 'Electrical panel upgrade',
+  hvac_replacement: 'HVAC replacement',
+  solar: 'Solar panels',
+  addition: 'Home addition',
+  demolition: 'Demolition',
+};
+
+export const OCCUPANCY_LABELS: Record<OccupancyType, string> = {
+  single_family: 'Single-family home',
+  multi_family: 'Multi-family building',
+  commercial: 'Commercial',
+};
+
+export const scopeOfWorkSchema = z.object({
+  workType: z.enum(Object.keys(WORK_TYPE_LABELS) as [WorkType, ...WorkType[]]),
+  occupancy: z.enum(Object.keys(OCCUPANCY_LABELS) as [OccupancyType, ...OccupancyType[]]),
+  squareFootage: z.number().positive().optional(),
+  valuation: z.number().nonnegative().optional(),
+  heightFeet: z.number().positive().optional(),
+  description: z.string().max(500).optional(),
+});
+
+/**
+ * Default rules with the jurisdiction's curated overrides applied
+ */
+export function getPermitRules(city: string, state: string): { rules: PermitRule[]; source: PermitDetermination['rulesSource'] } {
+  const ruleSet = findJurisdictionRuleSet(city, state);
+  if (!ruleSet) {
+    return { rules: defaultPermitRules, source: 'default' };
+  }
+
+  const disabled = new Set(ruleSet.disabledRuleIds || []);
+  const overrides = new Map(ruleSet.overrides.map(rule => [rule.id, rule]));
+
+  const rules = defaultPermitRules
+    .filter(rule => !disabled.has(rule.id))
+    .map(rule => overrides.get(rule.id) || rule);
+  const added = ruleSet.overrides.filter(rule => !defaultPermitRules.some(d => d.id === rule.id));
+
+  return { rules: [...rules, ...added], source: 'jurisdiction' };
+}
+
+function withinBounds(value: number | undefined, min: number | undefined, max: number | undefined, whenUnknown: boolean): boolean {
+  if (min === undefined && max === undefined) return true;
+  if (value === undefined) return whenUnknown;
+  if (min !== undefined && value < min) return false;
+  if (max !== undefined && value > max) return false;
+  return true;
+}
+
+function matchesCondition(scope: ScopeOfWork, condition: ScopeCondition, whenUnknown: boolean): boolean {
+  if (condition.occupancies && !condition.occupancies.includes(scope.occupancy)) {
+    return false;
+  }
+
+  return withinBounds(scope.squareFootage, condition.minSquareFootage, condition.maxSquareFootage, whenUnknown) &&
+    withinBounds(scope.valuation, condition.minValuation, condition.maxValuation, whenUnknown) &&
+    withinBounds(scope.heightFeet, condition.minHeightFeet, condition.maxHeightFeet, whenUnknown);
+}
+
+/**
+ * Work out which permits a scope of work needs in a jurisdiction, and which were ruled out by an exemption
+ */
+export function determinePermits(scope: ScopeOfWork, city: string, state: string): PermitDetermination {
+  const { rules, source } = getPermitRules(city, state);
+  const required: RequiredPermit[] = [];
+  const exemptions: PermitExemption[] = [];
+
+  for (const rule of rules) {
+    if (!rule.workTypes.includes(scope.workType)) continue;
+    if (rule.appliesWhen && !matchesCondition(scope, rule.appliesWhen, true)) continue;
+
+    if (rule.exemptWhen && matchesCondition(scope, rule.exemptWhen.condition, false)) {
+      exemptions.push({
+        ruleId: rule.id,
+        category: rule.category,
+        name: rule.permitName,
+        reason: rule.exemptWhen.reason,
+      });
+      continue;
+    }
+
+    required.push({
+      ruleId: rule.id,
+      category: rule.category,
+      name: rule.permitName,
+      reason: rule.reason,
+      requirements: rule.requirements,
+    });
+  }
+
+  return { scope, required, exemptions, rulesSource: source };
+}
+
+/**
+ * Narrow a search response to the permits the determination requires. Scraped permits in a required
+ * category are kept and gain the rule's requirements; categories nothing was scraped for get a permit built from the rule.
+ */
+export function applyDetermination(response: SearchResponse, determination: PermitDetermination): SearchResponse {
+  const provenance = createProvenance('scope_rules', response.jurisdiction.permitUrl || response.jurisdiction.website);
+  const permits: PermitType[] = [];
+
+  for (const requirement of determination.required) {
+    const matching = response.permits.filter(permit => permit.category === requirement.category);
+
+    if (matching.length === 0) {
+      permits.push({
+        id: `scope-${requirement.ruleId}`,
+        name: requirement.name,
+        category: requirement.category,
+        description: requirement.reason,
+        jurisdictionId: response.jurisdiction.id,
+        requirements: requirement.requirements,
+        fees: [],
+        forms: [],
+        lastUpdated: new Date(),
+        provenance,
+      });
+      continue;
+    }
+
+    for (const permit of matching) {
+      const existing = permits.find(p => p.id === permit.id);
+      const target = existing || { ...permit, requirements: [...permit.requirements] };
+      for (const item of requirement.requirements) {
+        if (!target.requirements.includes(item)) {
+          target.requirements.push(item);
+        }
+      }
+      if (!existing) {
+        permits.push(target);
+      }
+    }
+  }
+
+  return { ...response, permits, determination };
+}
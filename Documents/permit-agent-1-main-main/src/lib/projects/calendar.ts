@@ -0,0 +1,104 @@
+import { PermitStatus, ProjectInspection, UserProject } from '@/types';
+import { addDays, CalendarEvent, toCalendarDate } from '@/lib/calendar/ics';
+import { formatAddress } from '@/lib/utils';
+import { EXPIRY_WARNING_DAYS } from './lifecycle';
+
+// Most jurisdictions let an issued permit lapse if work goes this long without an inspection
+export const INSPECTION_INACTIVITY_DAYS = 180;
+
+const INSPECTION_STATUS_LABELS: Record<ProjectInspection['status'], string> = {
+  scheduled: 'Scheduled',
+  passed: 'Passed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Calendar events for a user's projects: permit expirations and the renewal window before each,
+ * inspections, and the date an approved permit will have gone 180 days without an inspection
+ */
+export function buildProjectCalendarEvents(
+  projects: UserProject[],
+  inspections: ProjectInspection[],
+  appUrl?: string
+): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+
+  for (const project of projects) {
+    const location = formatAddress(project.address);
+    const url = appUrl ? `${appUrl}/dashboard/projects/${project.id}` : undefined;
+
+    for (const permit of project.permits) {
+      const permitInspections = inspections.filter(inspection =>
+        inspection.projectPermitId === permit.id && inspection.status !== 'cancelled'
+      );
+      const label = `${permit.name} (${project.name})`;
+      const permitNumber = permit.permitNumber ? `Permit #${permit.permitNumber}\n` : '';
+
+      for (const inspection of permitInspections) {
+        events.push({
+          uid: `inspection-${inspection.id}@permitagent`,
+          summary: `Inspection: ${inspection.inspectionType} - ${label}`,
+          start: toCalendarDate(inspection.scheduledDate),
+          description: `${permitNumber}Status: ${INSPECTION_STATUS_LABELS[inspection.status]}${inspection.notes ? `\n${inspection.notes}` : ''}`,
+          location,
+          categories: ['Inspection'],
+          url,
+        });
+      }
+
+      const expires = permit.expirationDate ? toCalendarDate(permit.expirationDate) : null;
+      if (expires && (permit.status === PermitStatus.APPROVED || permit.status === PermitStatus.EXPIRED)) {
+        events.push({
+          uid: `expires-${permit.id}@permitagent`,
+          summary: `Permit expires: ${label}`,
+          start: expires,
+          description: `${permitNumber}Renew or close out the permit before it lapses.`,
+          location,
+          categories: ['Permit Expiration'],
+          url,
+        });
+      }
+
+      if (permit.status !== PermitStatus.APPROVED) continue;
+
+      if (expires) {
+        events.push({
+          uid: `renewal-${permit.id}@permitagent`,
+          summary: `Renewal window: ${label}`,
+          start: addDays(expires, -EXPIRY_WARNING_DAYS),
+          end: addDays(expires, -1),
+          description: `${permitNumber}Expires ${expires}.`,
+          location,
+          categories: ['Permit Renewal'],
+          url,
+        });
+      }
+
+      // Counted from the last inspection that happened, or from approval if there hasn't been one
+      const lastInspection = permitInspections
+        .filter(inspection => inspection.status === 'passed' || inspection.status === 'failed')
+        .map(inspection => toCalendarDate(inspection.scheduledDate))
+        .sort()
+        .pop();
+      const since = lastInspection || (permit.approvalDate ? toCalendarDate(permit.approvalDate) : null);
+      if (!since) continue;
+
+      const inactiveOn = addDays(since, INSPECTION_INACTIVITY_DAYS);
+      if (expires && inactiveOn >= expires) continue;
+
+      events.push({
+        uid: `inactivity-${permit.id}@permitagent`,
+        summary: `No inspection in ${INSPECTION_INACTIVITY_DAYS} days: ${label}`,
+        start: inactiveOn,
+        description: `${permitNumber}${lastInspection ? `Last inspection ${lastInspection}` : `Approved ${since} with no inspections`}. `
+          + 'The permit may lapse without an inspection by this date.',
+        location,
+        categories: ['Inspection Warning'],
+        url,
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.start.localeCompare(b.start));
+}
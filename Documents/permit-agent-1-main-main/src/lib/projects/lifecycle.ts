@@ -0,0 +1,99 @@
+import { PermitStatus, ProjectPermit, ProjectPermitAlert, UserProject } from '@/types';
+
+export const PERMIT_STATUS_LABELS: Record<PermitStatus, string> = {
+  [PermitStatus.PLANNING]: 'Planning',
+  [PermitStatus.APPLIED]: 'Applied',
+  [PermitStatus.UNDER_REVIEW]: 'Under Review',
+  [PermitStatus.APPROVED]: 'Approved',
+  [PermitStatus.REJECTED]: 'Rejected',
+  [PermitStatus.EXPIRED]: 'Expired',
+};
+
+// planning → applied → under_review → approved/rejected → expired. A rejected permit can be resubmitted.
+export const PERMIT_STATUS_TRANSITIONS: Record<PermitStatus, PermitStatus[]> = {
+  [PermitStatus.PLANNING]: [PermitStatus.APPLIED],
+  [PermitStatus.APPLIED]: [PermitStatus.UNDER_REVIEW],
+  [PermitStatus.UNDER_REVIEW]: [PermitStatus.APPROVED, PermitStatus.REJECTED],
+  [PermitStatus.APPROVED]: [PermitStatus.EXPIRED],
+  [PermitStatus.REJECTED]: [PermitStatus.APPLIED],
+  [PermitStatus.EXPIRED]: [],
+};
+
+// Used when a permit's processing time can't be parsed
+const DEFAULT_REVIEW_DAYS = 30;
+
+// Approved permits are flagged this many days before they expire
+export const EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown when a permit is moved to a status its current status can't go to
+ */
+export class PermitTransitionError extends Error {
+  constructor(public readonly from: PermitStatus, public readonly to: PermitStatus) {
+    super(`Cannot move a permit from ${PERMIT_STATUS_LABELS[from]} to ${PERMIT_STATUS_LABELS[to]}`);
+    this.name = 'PermitTransitionError';
+  }
+}
+
+export function canTransition(from: PermitStatus, to: PermitStatus): boolean {
+  return from === to || PERMIT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Calendar days a jurisdiction quotes for review, from text like "10-15 business days" or
+ * "2-3 weeks". Uses the top of a range, and converts business days to calendar days.
+ */
+export function parseProcessingDays(processingTime?: string): number | null {
+  if (!processingTime) return null;
+  const match = processingTime.match(/(\d+)(?:\s*(?:-|to|\u2013)\s*(\d+))?\s*(business\s+days?|days?|weeks?|months?)/i);
+  if (!match) return null;
+
+  const amount = parseInt(match[2] || match[1]);
+  const unit = match[3].toLowerCase();
+  if (unit.startsWith('business')) return Math.ceil(amount * 7 / 5);
+  if (unit.startsWith('week')) return amount * 7;
+  if (unit.startsWith('month')) return amount * 30;
+  return amount;
+}
+
+/**
+ * Whether a permit needs attention: in review longer than its processing time, expiring soon,
+ * or past its expiration date but not yet marked expired
+ */
+export function getPermitAlert(permit: ProjectPermit, now: Date = new Date()): ProjectPermitAlert | null {
+  const inReview = permit.status === PermitStatus.APPLIED || permit.status === PermitStatus.UNDER_REVIEW;
+  if (inReview && permit.applicationDate) {
+    const reviewDays = parseProcessingDays(permit.processingTime) ?? DEFAULT_REVIEW_DAYS;
+    const due = new Date(new Date(permit.applicationDate).getTime() + reviewDays * DAY_MS);
+    return due < now ? { permitId: permit.id, kind: 'overdue', date: due } : null;
+  }
+
+  if (permit.status === PermitStatus.APPROVED && permit.expirationDate) {
+    const expires = new Date(permit.expirationDate);
+    if (expires < now) {
+      return { permitId: permit.id, kind: 'expired', date: expires };
+    }
+    if (expires.getTime() - now.getTime() <= EXPIRY_WARNING_DAYS * DAY_MS) {
+      return { permitId: permit.id, kind: 'expiring', date: expires };
+    }
+  }
+
+  return null;
+}
+
+export function getProjectAlerts(project: UserProject, now: Date = new Date()): ProjectPermitAlert[] {
+  return project.permits
+    .map(permit => getPermitAlert(permit, now))
+    .filter((alert): alert is ProjectPermitAlert => alert !== null);
+}
+
+/**
+ * A project is active until every permit on it is finished (expired or rejected)
+ */
+export function isProjectActive(project: UserProject): boolean {
+  return project.permits.length === 0 || project.permits.some(permit =>
+    permit.status !== PermitStatus.EXPIRED && permit.status !== PermitStatus.REJECTED
+  );
+}
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import {
+  ContactInfo,
+  ContactProvenance,
+  ExtractionMethod,
+  FieldProvenance,
+  PermitFee,
+  PermitForm,
+  PermitType,
+} from '@/types';
+
+// Baseline confidence per extraction method when the extractor has no better signal
+export const DEFAULT_METHOD_CONFIDENCE: Record<ExtractionMethod, number> = {
+  curated_registry: 0.9,
+  static_extractor: 0.75,
+  scope_rules: 0.6,
+  ai_content_parser: 0.6,
+  permit_data_processor: 0.5,
+  synthetic_fallback: 0.1,
+};
+
+// Values below this confidence are shown to users as unverified
+export const VERIFIED_CONFIDENCE_THRESHOLD = 0.7;
+
+export const EXTRACTION_METHOD_LABELS: Record<ExtractionMethod, string> = {
+  curated_registry: 'Curated jurisdiction data',
+  scope_rules: 'Determined from project scope',
+  static_extractor: 'Extracted from page',
+  ai_content_parser: 'AI-parsed from page',
+  permit_data_processor: 'AI-summarized',
+  synthetic_fallback: 'Generated estimate',
+};
+
+// Validates provenance sent back by clients, e.g. with fees to estimate. Dates arrive as JSON strings.
+export const fieldProvenanceSchema = z.object({
+  sourceUrl: z.string().url().optional(),
+  method: z.enum(Object.keys(DEFAULT_METHOD_CONFIDENCE) as [ExtractionMethod, ...ExtractionMethod[]]),
+  confidence: z.number().min(0).max(1),
+  retrievedAt: z.coerce.date(),
+});
+
+export type ProvenanceStatus = 'verified' | 'unverified' | 'synthetic';
+
+/**
+ * Create a provenance record for a value
+ */
+export function createProvenance(
+  method: ExtractionMethod,
+  sourceUrl?: string,
+  confidence?: number
+): FieldProvenance {
+  const score = confidence ?? DEFAULT_METHOD_CONFIDENCE[method];
+
+  return {
+    sourceUrl,
+    method,
+    confidence: Math.max(0, Math.min(1, score)),
+    retrievedAt: new Date(),
+  };
+}
+
+/**
+ * Classify a provenance record for display. Values without provenance are unverified.
+ */
+export function getProvenanceStatus(provenance?: FieldProvenance): ProvenanceStatus {
+  if (!provenance) return 'unverified';
+  if (provenance.method === 'synthetic_fallback') return 'synthetic';
+  if (provenance.confidence < VERIFIED_CONFIDENCE_THRESHOLD) return 'unverified';
+  return 'verified';
+}
+
+export function isSynthetic(provenance?: FieldProvenance): boolean {
+  return getProvenanceStatus(provenance) === 'synthetic';
+}
+
+export function isVerified(provenance?: FieldProvenance): boolean {
+  return getProvenanceStatus(provenance) === 'verified';
+}
+
+/**
+ * Human readable one-line description, e.g. for tooltips and PDF footnotes
+ */
+export function describeProvenance(provenance?: FieldProvenance): string {
+  if (!provenance) return 'Source unknown';
+
+  const parts = [
+    EXTRACTION_METHOD_LABELS[provenance.method],
+    `${Math.round(provenance.confidence * 100)}% confidence`,
+  ];
+  if (provenance.sourceUrl) {
+    parts.push(`from ${provenance.sourceUrl}`);
+  }
+  parts.push(`retrieved ${new Date(provenance.retrievedAt).toLocaleString()}`);
+
+  return parts.join(' · ');
+}
+
+/**
+ * Attach provenance to fees that don't already carry their own
+ */
+export function withFeeProvenance(fees: PermitFee[], provenance: FieldProvenance): PermitFee[] {
+  return fees.map(fee => ({ ...fee, provenance: fee.provenance ?? provenance }));
+}
+
+/**
+ * Attach provenance to forms that don't already carry their own
+ */
+export function withFormProvenance(forms: PermitForm[], provenance: FieldProvenance): PermitForm[] {
+  return forms.map(form => ({ ...form, provenance: form.provenance ?? provenance }));
+}
+
+/**
+ * Attach provenance to permits and their nested fees and forms
+ */
+export function withPermitProvenance(permits: PermitType[], provenance: FieldProvenance): PermitType[] {
+  return permits.map(permit => ({
+    ...permit,
+    provenance: permit.provenance ?? provenance,
+    fees: withFeeProvenance(permit.fees, permit.provenance ?? provenance),
+    forms: withFormProvenance(permit.forms, permit.provenance ?? provenance),
+  }));
+}
+
+/**
+ * Attach provenance to every populated contact field that doesn't already carry its own
+ */
+export function withContactProvenance(contact: ContactInfo, provenance: FieldProvenance): ContactInfo {
+  const existing = contact.provenance || {};
+  const fieldProvenance: ContactProvenance = { ...existing };
+
+  if (contact.phone && !existing.phone) fieldProvenance.phone = provenance;
+  if (contact.email && !existing.email) fieldProvenance.email = provenance;
+  if (contact.address && !existing.address) fieldProvenance.address = provenance;
+  if (contact.hoursOfOperation && !existing.hoursOfOperation) fieldProvenance.hoursOfOperation = provenance;
+
+  return { ...contact, provenance: fieldProvenance };
+}
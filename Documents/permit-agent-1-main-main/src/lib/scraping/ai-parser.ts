@@ -1,5 +1,12 @@
 import OpenAI from 'openai';
 import { PermitType, PermitForm, PermitFee, ContactInfo } from '@/types';
+import {
+  createProvenance,
+  withContactProvenance,
+  withFeeProvenance,
+  withFormProvenance,
+  withPermitProvenance,
+} from '@/lib/provenance';
 
 let openai: OpenAI | null = null;
 
@@ -40,14 +47,15 @@ export class AIContentParser {
   async parseGovernmentContent(
     html: string, 
     url: string, 
-    textContent: string
+    textContent: string,
+    signal?: AbortSignal
   ): Promise<ParsedGovernmentContent> {
     try {
       // Clean and prepare content for AI processing
       const cleanContent = this.prepareContentForAI(textContent);
       
       // Use AI to extract structured permit information
-      const aiResponse = await this.callOpenAI(cleanContent, url);
+      const aiResponse = await this.callOpenAI(cleanContent, url, signal);
       
       // Parse and validate the AI response
       const parsed = this.parseAIResponse(aiResponse);
@@ -55,14 +63,21 @@ export class AIContentParser {
       // Calculate data quality score
       const dataQuality = this.calculateDataQuality(parsed);
       
+      // Every value from this parse shares the page URL and quality score as its provenance
+      const provenance = createProvenance('ai_content_parser', url, dataQuality);
+      
       return {
         ...parsed,
+        permits: withPermitProvenance(parsed.permits, provenance),
+        forms: withFormProvenance(parsed.forms, provenance),
+        fees: withFeeProvenance(parsed.fees, provenance),
+        contact: withContactProvenance(parsed.contact, provenance),
         dataQuality
       };
       
     } catch (error) {
       console.warn('AI parsing failed, using fallback extraction:', error);
-      return this.fallbackParsing(textContent);
+      return this.fallbackParsing(textContent, url);
     }
   }
   
@@ -118,7 +133,7 @@ export class AIContentParser {
     return sections.length > 0 ? sections : [content.substring(0, 45000)];
   }
   
-  private async callOpenAI(content: string, url: string): Promise<string> {
+  private async callOpenAI(content: string, url: string, signal?: AbortSignal): Promise<string> {
     const openaiClient = getOpenAI();
     if (!openaiClient) {
       console.warn('OpenAI client not available, skipping AI parsing');
@@ -199,6 +214,8 @@ Return only the JSON object, no additional text.`;
       ],
       max_tokens: 4000,
       temperature: 0.1
+    }, {
+      signal
     });
     
     return response.choices[0]?.message?.content || '{}';
@@ -333,19 +350,22 @@ Return only the JSON object, no additional text.`;
     return Math.min(score / maxScore, 1);
   }
   
-  private fallbackParsing(textContent: string): ParsedGovernmentContent {
+  private fallbackParsing(textContent: string, url: string): ParsedGovernmentContent {
     // Basic fallback extraction without AI
     const phoneMatch = textContent.match(/\(?(\d{3})\)?[-.\s]?(\d{3})[-.\s]?(\d{4})/);
     const emailMatch = textContent.match(/([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/);
     
+    // First regex match on the page is a weak signal, so keep confidence low
+    const provenance = createProvenance('static_extractor', url, 0.3);
+    
     return {
       permits: [],
       forms: [],
       fees: [],
-      contact: {
+      contact: withContactProvenance({
         phone: phoneMatch ? `(${phoneMatch[1]}) ${phoneMatch[2]}-${phoneMatch[3]}` : undefined,
         email: emailMatch ? emailMatch[1] : undefined
-      },
+      }, provenance),
       requirements: [],
       processingTimes: {},
       dataQuality: 0.1
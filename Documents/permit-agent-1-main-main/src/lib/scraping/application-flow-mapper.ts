@@ -1,5 +1,6 @@
 import * as cheerio from 'cheerio';
 import { webScraper } from './scraper';
+import { robotsChecker } from './robots';
 import { FormField, FileRequirement } from './enhanced-form-detector';
 import { delay } from '@/lib/utils';
 
@@ -16,6 +17,7 @@ export interface MappedFlow {
   supportedBrowsers: string[];
   accessibility: AccessibilityInfo;
   alternativeOptions: AlternativeOption[];
+  disallowedUrls: string[]; // Steps not mapped because robots.txt disallows them
 }
 
 export interface MappedStep {
@@ -162,7 +164,8 @@ export class ApplicationFlowMapper {
       requiresLogin: false,
       supportedBrowsers: [],
       accessibility: await this.assessAccessibility(startUrl),
-      alternativeOptions: []
+      alternativeOptions: [],
+      disallowedUrls: []
     };
 
     // Map all steps in the flow
@@ -192,6 +195,14 @@ export class ApplicationFlowMapper {
     }
 
     this.visitedUrls.add(url);
+
+    const robots = await robotsChecker.check(url);
+    if (!robots.allowed) {
+      console.log(`Skipping step ${stepNumber}: ${url} is disallowed by robots.txt`);
+      flow.disallowedUrls.push(url);
+      return;
+    }
+
     console.log(`Mapping step ${stepNumber}: ${url}`);
 
     try {
@@ -239,7 +250,7 @@ export class ApplicationFlowMapper {
       const nextUrls = this.findAllNextUrls($, url);
       for (const nextUrl of nextUrls) {
         if (!this.visitedUrls.has(nextUrl)) {
-          await delay(1000); // Rate limiting
+          await delay(Math.max(1000, robots.crawlDelayMs || 0)); // Rate limiting
           await this.mapStepsRecursively(nextUrl, flow, stepNumber + 1, maxDepth);
         }
       }
@@ -1,125 +1,120 @@
 import { ScrapingResult } from './scraper';
 import { ParsedGovernmentContent } from './ai-parser';
+import { CacheMetrics, CacheStore, cacheStore, createCacheMetrics } from '@/lib/network';
 
-interface CacheEntry<T> {
-  data: T;
-  timestamp: Date;
-  expiresAt: Date;
-  quality: number;
-}
-
-interface ScrapingCacheEntry extends CacheEntry<ScrapingResult> {
-  url: string;
-  checksum?: string;
-}
-
-interface AIParsingCacheEntry extends CacheEntry<ParsedGovernmentContent> {
-  url: string;
-  contentHash: string;
-}
+const SCRAPING_NAMESPACE = 'scraping';
+const AI_PARSING_NAMESPACE = 'ai-parsing';
 
 export class DataCache {
-  private scrapingCache = new Map<string, ScrapingCacheEntry>();
-  private aiParsingCache = new Map<string, AIParsingCacheEntry>();
   private maxSize = 1000; // Maximum cache entries
   private defaultTTL = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+  private staleRetention = 7 * 24 * 60 * 60 * 1000; // Expired scraping results kept for revalidation
+  private scrapingMetrics: CacheMetrics;
+  private aiParsingMetrics: CacheMetrics;
+
+  constructor(private readonly store: CacheStore = cacheStore) {
+    store.setLimit?.(SCRAPING_NAMESPACE, this.maxSize);
+    store.setLimit?.(AI_PARSING_NAMESPACE, this.maxSize);
+    this.scrapingMetrics = createCacheMetrics(SCRAPING_NAMESPACE, store);
+    this.aiParsingMetrics = createCacheMetrics(AI_PARSING_NAMESPACE, store);
+  }
 
   /**
    * Cache scraping results with quality-based expiration
    */
-  cacheScrapingResult(url: string, result: ScrapingResult, quality = 0.5): void {
-    // Calculate TTL based on data quality and site type
-    let ttl = this.defaultTTL;
-    
-    if (this.isGovernmentSite(url)) {
-      // Government sites change less frequently
-      ttl = quality > 0.8 ? 7 * 24 * 60 * 60 * 1000 : // 7 days for high quality
-            quality > 0.5 ? 3 * 24 * 60 * 60 * 1000 : // 3 days for medium quality
-            24 * 60 * 60 * 1000; // 1 day for low quality
-    }
+  async cacheScrapingResult(url: string, result: ScrapingResult, quality = 0.5, jurisdictionId?: string): Promise<void> {
+    const ttl = this.getScrapingTTL(url, quality);
 
-    const entry: ScrapingCacheEntry = {
-      url,
-      data: result,
-      timestamp: new Date(),
-      expiresAt: new Date(Date.now() + ttl),
-      quality,
-      checksum: this.generateChecksum(result)
-    };
-
-    this.scrapingCache.set(url, entry);
-    this.cleanup();
-    
-    console.log(`Cached scraping result for ${url} (quality: ${quality.toFixed(2)}, TTL: ${Math.round(ttl / (60 * 60 * 1000))}h)`);
+    try {
+      await this.store.set(SCRAPING_NAMESPACE, url, {
+        url,
+        jurisdictionId,
+        data: result,
+        storedAt: new Date(),
+        expiresAt: new Date(Date.now() + ttl),
+        quality,
+      });
+      console.log(`Cached scraping result for ${url} (quality: ${quality.toFixed(2)}, TTL: ${Math.round(ttl / (60 * 60 * 1000))}h)`);
+    } catch (error) {
+      console.warn(`Failed to cache scraping result for ${url}:`, error);
+    }
   }
 
   /**
    * Get cached scraping result if valid
    */
-  getCachedScrapingResult(url: string): ScrapingResult | null {
-    const entry = this.scrapingCache.get(url);
-    
-    if (!entry) {
+  async getCachedScrapingResult(url: string): Promise<ScrapingResult | null> {
+    const entry = await this.readEntry<ScrapingResult>(SCRAPING_NAMESPACE, url);
+
+    // Expired entries stay until the retention period ends, in case the page turns out unchanged
+    if (!entry || new Date() > entry.expiresAt) {
+      this.scrapingMetrics.miss();
       return null;
     }
 
-    // Check if expired
-    if (new Date() > entry.expiresAt) {
-      this.scrapingCache.delete(url);
-      console.log(`Expired cache entry removed for ${url}`);
+    this.scrapingMetrics.hit();
+    console.log(`Cache hit for ${url} (quality: ${(entry.quality ?? 0).toFixed(2)})`);
+    return entry.data;
+  }
+
+  /**
+   * The page behind a scraping result is unchanged (the server answered 304), so renew the result
+   * for another TTL instead of parsing the page again. Works on expired entries that haven't been
+   * cleared yet; null if there's nothing to renew.
+   */
+  async refreshScrapingResult(url: string): Promise<ScrapingResult | null> {
+    const entry = await this.readEntry<ScrapingResult>(SCRAPING_NAMESPACE, url);
+    if (!entry) {
       return null;
     }
 
-    console.log(`Cache hit for ${url} (quality: ${entry.quality.toFixed(2)})`);
+    try {
+      await this.store.set(SCRAPING_NAMESPACE, url, {
+        ...entry,
+        expiresAt: new Date(Date.now() + this.getScrapingTTL(url, entry.quality ?? 0.5)),
+      });
+    } catch (error) {
+      console.warn(`Failed to renew cached scraping result for ${url}:`, error);
+    }
+    console.log(`Renewed cached scraping result for ${url}, page unchanged`);
     return entry.data;
   }
 
   /**
    * Cache AI parsing results
    */
-  cacheAIParsingResult(url: string, contentHash: string, result: ParsedGovernmentContent): void {
+  async cacheAIParsingResult(url: string, contentHash: string, result: ParsedGovernmentContent): Promise<void> {
     const ttl = result.dataQuality > 0.8 ? 7 * 24 * 60 * 60 * 1000 : // 7 days for high quality AI results
                result.dataQuality > 0.5 ? 3 * 24 * 60 * 60 * 1000 : // 3 days for medium quality
                24 * 60 * 60 * 1000; // 1 day for low quality
 
-    const entry: AIParsingCacheEntry = {
-      url,
-      contentHash,
-      data: result,
-      timestamp: new Date(),
-      expiresAt: new Date(Date.now() + ttl),
-      quality: result.dataQuality
-    };
-
-    const cacheKey = this.getAICacheKey(url, contentHash);
-    this.aiParsingCache.set(cacheKey, entry);
-    
-    console.log(`Cached AI parsing result for ${url} (quality: ${result.dataQuality.toFixed(2)})`);
+    try {
+      await this.store.set(AI_PARSING_NAMESPACE, this.getAICacheKey(url, contentHash), {
+        url,
+        data: result,
+        storedAt: new Date(),
+        expiresAt: new Date(Date.now() + ttl),
+        quality: result.dataQuality,
+      });
+      console.log(`Cached AI parsing result for ${url} (quality: ${result.dataQuality.toFixed(2)})`);
+    } catch (error) {
+      console.warn(`Failed to cache AI parsing result for ${url}:`, error);
+    }
   }
 
   /**
-   * Get cached AI parsing result if content hasn't changed
+   * Get cached AI parsing result if content hasn't changed. The key includes the content hash,
+   * so changed content never matches an old entry.
    */
-  getCachedAIParsingResult(url: string, contentHash: string): ParsedGovernmentContent | null {
-    const cacheKey = this.getAICacheKey(url, contentHash);
-    const entry = this.aiParsingCache.get(cacheKey);
-    
-    if (!entry) {
-      return null;
-    }
+  async getCachedAIParsingResult(url: string, contentHash: string): Promise<ParsedGovernmentContent | null> {
+    const entry = await this.readEntry<ParsedGovernmentContent>(AI_PARSING_NAMESPACE, this.getAICacheKey(url, contentHash));
 
-    // Check if expired
-    if (new Date() > entry.expiresAt) {
-      this.aiParsingCache.delete(cacheKey);
-      return null;
-    }
-
-    // Check if content hash matches (content hasn't changed)
-    if (entry.contentHash !== contentHash) {
-      this.aiParsingCache.delete(cacheKey);
+    if (!entry || new Date() > entry.expiresAt) {
+      this.aiParsingMetrics.miss();
       return null;
     }
 
+    this.aiParsingMetrics.hit();
     console.log(`AI parsing cache hit for ${url}`);
     return entry.data;
   }
@@ -127,50 +122,29 @@ export class DataCache {
   /**
    * Get cache statistics
    */
-  getCacheStats() {
-    const now = new Date();
-    
-    const scrapingStats = {
-      total: this.scrapingCache.size,
-      expired: Array.from(this.scrapingCache.values()).filter(entry => now > entry.expiresAt).length,
-      highQuality: Array.from(this.scrapingCache.values()).filter(entry => entry.quality > 0.8).length
-    };
-
-    const aiStats = {
-      total: this.aiParsingCache.size,
-      expired: Array.from(this.aiParsingCache.values()).filter(entry => now > entry.expiresAt).length,
-      highQuality: Array.from(this.aiParsingCache.values()).filter(entry => entry.quality > 0.8).length
-    };
-
+  async getCacheStats() {
     return {
-      scraping: scrapingStats,
-      aiParsing: aiStats,
-      totalMemory: this.estimateMemoryUsage()
+      backend: this.store.backend,
+      scraping: {
+        ...this.scrapingMetrics.getStats(),
+        total: await this.store.count(SCRAPING_NAMESPACE),
+      },
+      aiParsing: {
+        ...this.aiParsingMetrics.getStats(),
+        total: await this.store.count(AI_PARSING_NAMESPACE),
+      },
     };
   }
 
   /**
-   * Clear all expired entries
+   * Clear all expired entries. Scraping results are cleared once their retention period has
+   * passed as well.
    */
-  clearExpired(): number {
-    const now = new Date();
-    let cleared = 0;
-
-    // Clear expired scraping results
-    for (const [key, entry] of this.scrapingCache.entries()) {
-      if (now > entry.expiresAt) {
-        this.scrapingCache.delete(key);
-        cleared++;
-      }
-    }
-
-    // Clear expired AI parsing results
-    for (const [key, entry] of this.aiParsingCache.entries()) {
-      if (now > entry.expiresAt) {
-        this.aiParsingCache.delete(key);
-        cleared++;
-      }
-    }
+  async clearExpired(): Promise<number> {
+    const now = Date.now();
+    const cleared =
+      await this.store.purge({ namespace: SCRAPING_NAMESPACE, expiredBefore: new Date(now - this.staleRetention) }) +
+      await this.store.purge({ namespace: AI_PARSING_NAMESPACE, expiredBefore: new Date(now) });
 
     if (cleared > 0) {
       console.log(`Cleared ${cleared} expired cache entries`);
@@ -182,37 +156,41 @@ export class DataCache {
   /**
    * Clear all cache entries
    */
-  clearAll(): void {
-    const total = this.scrapingCache.size + this.aiParsingCache.size;
-    this.scrapingCache.clear();
-    this.aiParsingCache.clear();
+  async clearAll(): Promise<void> {
+    const total =
+      await this.store.purge({ namespace: SCRAPING_NAMESPACE }) +
+      await this.store.purge({ namespace: AI_PARSING_NAMESPACE });
     console.log(`Cleared all ${total} cache entries`);
   }
 
-  private getAICacheKey(url: string, contentHash: string): string {
-    return `ai:${url}:${contentHash}`;
+  // A store failure is treated as a miss, so scraping carries on without the cache
+  private async readEntry<T>(namespace: string, key: string) {
+    try {
+      return await this.store.get<T>(namespace, key);
+    } catch (error) {
+      console.warn(`Failed to read ${namespace} cache entry for ${key}:`, error);
+      return null;
+    }
   }
 
-  private generateChecksum(result: ScrapingResult): string {
-    // Simple checksum based on key content
-    const content = `${result.title}${result.content.substring(0, 1000)}${result.links.length}`;
-    return this.simpleHash(content);
+  // Government sites change less often, so better extractions are kept longer
+  private getScrapingTTL(url: string, quality: number): number {
+    if (!this.isGovernmentSite(url)) {
+      return this.defaultTTL;
+    }
+    return quality > 0.8 ? 7 * 24 * 60 * 60 * 1000 : // 7 days for high quality
+           quality > 0.5 ? 3 * 24 * 60 * 60 * 1000 : // 3 days for medium quality
+           24 * 60 * 60 * 1000; // 1 day for low quality
   }
 
-  private simpleHash(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-    return hash.toString(16);
+  private getAICacheKey(url: string, contentHash: string): string {
+    return `ai:${url}:${contentHash}`;
   }
 
   private isGovernmentSite(url: string): boolean {
     try {
       const hostname = new URL(url).hostname.toLowerCase();
-      return hostname.endsWith('.gov') || 
+      return hostname.endsWith('.gov') ||
              hostname.endsWith('.us') ||
              hostname.includes('city') ||
              hostname.includes('county') ||
@@ -221,41 +199,6 @@ export class DataCache {
       return false;
     }
   }
-
-  private cleanup(): void {
-    // Remove expired entries first
-    this.clearExpired();
-
-    // If still over limit, remove oldest entries
-    if (this.scrapingCache.size > this.maxSize) {
-      const entries = Array.from(this.scrapingCache.entries())
-        .sort((a, b) => a[1].timestamp.getTime() - b[1].timestamp.getTime());
-      
-      const toRemove = entries.slice(0, entries.length - this.maxSize);
-      for (const [key] of toRemove) {
-        this.scrapingCache.delete(key);
-      }
-    }
-  }
-
-  private estimateMemoryUsage(): string {
-    let totalSize = 0;
-    
-    // Estimate scraping cache size
-    for (const entry of this.scrapingCache.values()) {
-      totalSize += JSON.stringify(entry.data).length;
-    }
-    
-    // Estimate AI parsing cache size  
-    for (const entry of this.aiParsingCache.values()) {
-      totalSize += JSON.stringify(entry.data).length;
-    }
-    
-    // Convert to human readable format
-    if (totalSize < 1024) return `${totalSize} bytes`;
-    if (totalSize < 1024 * 1024) return `${Math.round(totalSize / 1024)} KB`;
-    return `${Math.round(totalSize / (1024 * 1024))} MB`;
-  }
 }
 
 // Global cache instance
@@ -263,5 +206,5 @@ export const dataCache = new DataCache();
 
 // Auto-cleanup every hour
 setInterval(() => {
-  dataCache.clearExpired();
-}, 60 * 60 * 1000);
\ No newline at end of file
+  dataCache.clearExpired().catch(error => console.warn('Failed to clear expired cache entries:', error));
+}, 60 * 60 * 1000);
@@ -3,11 +3,13 @@ import { webScraper } from './scraper';
 import { geocodingService } from '@/lib/maps/geocoding';
 import { placesService } from '@/lib/maps/places';
 import { urlValidator } from './url-validator';
+import { isCancelledError, throwIfCancelled } from '@/lib/network';
 
 export interface DiscoveryOptions {
   useSearchEngine?: boolean;
   searchEngineApiKey?: string;
   maxUrls?: number;
+  signal?: AbortSignal;
 }
 
 export class JurisdictionDiscovery {
@@ -25,6 +27,8 @@ export class JurisdictionDiscovery {
   ];
 
   async discoverJurisdiction(address: Address, options?: DiscoveryOptions): Promise<Jurisdiction | null> {
+    const signal = options?.signal;
+
     try {
       // Step 1: Validate and enhance address with geocoding
       let validatedAddress = address;
@@ -39,28 +43,35 @@ export class JurisdictionDiscovery {
 
       // Step 2: Try Google Places API to find government offices
       try {
+        throwIfCancelled(signal);
         const governmentOffices = await placesService.getGovernmentOffices(validatedAddress);
         
         for (const office of governmentOffices) {
+          throwIfCancelled(signal);
           const officeDetails = await placesService.getPlaceDetails(office.placeId);
           if (officeDetails?.website) {
-            const permitUrls = await this.findPermitUrls(officeDetails.website);
+            const permitUrls = await this.findPermitUrls(officeDetails.website, signal);
             if (permitUrls.length > 0) {
               return await this.createJurisdictionFromPlace(validatedAddress, officeDetails, permitUrls);
             }
           }
         }
       } catch (error) {
+        if (isCancelledError(error)) {
+          throw error;
+        }
         console.warn('Google Places discovery failed:', error);
       }
 
       // Step 3: Try official government website discovery
+      throwIfCancelled(signal);
       const officialSites = await this.findOfficialGovernmentSites(validatedAddress);
       
       for (const site of officialSites) {
-        const permitUrls = await this.findPermitUrls(site);
+        throwIfCancelled(signal);
+        const permitUrls = await this.findPermitUrls(site, signal);
         if (permitUrls.length > 0) {
-          return await this.createJurisdiction(validatedAddress, site, permitUrls);
+          return await this.createJurisdiction(validatedAddress, site, permitUrls, signal);
         }
       }
 
@@ -71,6 +82,10 @@ export class JurisdictionDiscovery {
 
       return null;
     } catch (error) {
+      // Callers need to tell "cancelled" apart from "nothing found"
+      if (isCancelledError(error)) {
+        throw error;
+      }
       console.error('Jurisdiction discovery failed:', error);
       return null;
     }
@@ -418,7 +433,7 @@ export class JurisdictionDiscovery {
       .map(result => result.finalUrl || result.url);
   }
 
-  private async findPermitUrls(baseUrl: string): Promise<string[]> {
+  private async findPermitUrls(baseUrl: string, signal?: AbortSignal): Promise<string[]> {
     const permitUrls: string[] = [];
     
     try {
@@ -439,6 +454,7 @@ export class JurisdictionDiscovery {
 
       // Fallback: Try common permit paths if no portals found
       if (permitUrls.length === 0) {
+        throwIfCancelled(signal);
         const pathUrls = this.commonPermitPaths.map(path => new URL(path, baseUrl).href);
         const pathResults = await urlValidator.validateURLs(pathUrls);
         
@@ -452,7 +468,7 @@ export class JurisdictionDiscovery {
       // Additional fallback: Scrape main page for permit links
       if (permitUrls.length === 0) {
         try {
-          const scrapingResult = await webScraper.scrapeUrl(baseUrl, { timeout: 15000 });
+          const scrapingResult = await webScraper.scrapeUrl(baseUrl, { timeout: 15000, signal });
           if (scrapingResult.success) {
             const permitLinks = scrapingResult.links.filter(link => 
               this.isPermitRelatedUrl(link)
@@ -467,11 +483,17 @@ export class JurisdictionDiscovery {
             permitUrls.push(...validLinks);
           }
         } catch (error) {
+          if (isCancelledError(error)) {
+            throw error;
+          }
           console.warn(`Failed to scrape ${baseUrl} for permit links:`, error);
         }
       }
 
     } catch (error) {
+      if (isCancelledError(error)) {
+        throw error;
+      }
       console.warn(`Failed to find permit URLs for ${baseUrl}:`, error);
     }
 
@@ -491,10 +513,11 @@ export class JurisdictionDiscovery {
   private async createJurisdiction(
     address: Address,
     website: string,
-    permitUrls: string[]
+    permitUrls: string[],
+    signal?: AbortSignal
   ): Promise<Jurisdiction> {
     // Scrape the main website to get jurisdiction information
-    const scrapingResult = await webScraper.scrapeUrl(website);
+    const scrapingResult = await webScraper.scrapeUrl(website, { signal });
     
     // Select best permit URL (prioritize online portals)
     let bestPermitUrl = permitUrls[0];
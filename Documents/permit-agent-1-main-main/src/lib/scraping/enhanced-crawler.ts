@@ -1,5 +1,6 @@
 import { delay, cleanUrl, extractDomain } from '@/lib/utils';
 import { webScraper, ScrapingResult } from './scraper';
+import { robotsChecker } from './robots';
 
 export interface CrawlOptions {
   maxDepth?: number;
@@ -8,6 +9,7 @@ export interface CrawlOptions {
   excludePatterns?: string[];
   delayBetweenPages?: number;
   enableDeepAnalysis?: boolean;
+  respectRobots?: boolean;
 }
 
 export interface CrawlResult {
@@ -21,12 +23,14 @@ export interface CrawlResult {
   allRequirements: string[];
   processingTimes: { [key: string]: string };
   permitPortals: string[];
+  disallowedUrls: string[]; // Found but not fetched because robots.txt disallows them
   timestamp: Date;
 }
 
 export class EnhancedCrawler {
   private visitedUrls: Set<string> = new Set();
   private results: Map<string, ScrapingResult> = new Map();
+  private disallowedUrls: Set<string> = new Set();
   
   private readonly defaultOptions: CrawlOptions = {
     maxDepth: 3,
@@ -44,12 +48,14 @@ export class EnhancedCrawler {
     ],
     delayBetweenPages: 1500,
     enableDeepAnalysis: true,
+    respectRobots: true,
   };
 
   async crawlSite(baseUrl: string, options?: CrawlOptions): Promise<CrawlResult> {
     const opts = { ...this.defaultOptions, ...options };
     this.visitedUrls.clear();
     this.results.clear();
+    this.disallowedUrls.clear();
 
     console.log(`Starting enhanced crawl of ${baseUrl} with options:`, opts);
 
@@ -76,10 +82,22 @@ export class EnhancedCrawler {
 
     // Skip if already visited
     const cleanedUrl = cleanUrl(url);
-    if (this.visitedUrls.has(cleanedUrl)) {
+    if (this.visitedUrls.has(cleanedUrl) || this.disallowedUrls.has(cleanedUrl)) {
       return;
     }
 
+    // Disallowed pages are reported rather than fetched, and don't count towards maxPages
+    let crawlDelayMs: number | undefined;
+    if (options.respectRobots) {
+      const robots = await robotsChecker.check(cleanedUrl);
+      if (!robots.allowed) {
+        console.log(`Skipping ${cleanedUrl}: disallowed by robots.txt`);
+        this.disallowedUrls.add(cleanedUrl);
+        return;
+      }
+      crawlDelayMs = robots.crawlDelayMs;
+    }
+
     // Mark as visited
     this.visitedUrls.add(cleanedUrl);
 
@@ -90,6 +108,7 @@ export class EnhancedCrawler {
       const result = await webScraper.scrapeUrl(cleanedUrl, {
         enableAdvancedExtraction: options.enableDeepAnalysis,
         timeout: 30000,
+        respectRobots: options.respectRobots,
       });
 
       if (result.success) {
@@ -103,7 +122,7 @@ export class EnhancedCrawler {
           for (const childUrl of childUrls) {
             if (this.visitedUrls.size >= options.maxPages!) break;
             
-            await delay(options.delayBetweenPages!);
+            await delay(Math.max(options.delayBetweenPages!, crawlDelayMs || 0));
             await this.crawlPage(childUrl, depth + 1, options, baseDomain);
           }
         }
@@ -268,6 +287,7 @@ export class EnhancedCrawler {
       allRequirements: Array.from(allRequirements),
       processingTimes,
       permitPortals: Array.from(permitPortals),
+      disallowedUrls: Array.from(this.disallowedUrls),
       timestamp: new Date(),
     };
   }
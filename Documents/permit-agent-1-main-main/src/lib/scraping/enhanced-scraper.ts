@@ -1,9 +1,10 @@
 import { webScraper, ScrapingResult } from './scraper';
 import { EnhancedFormDetector } from './enhanced-form-detector';
-import { PDFAnalyzer } from './pdf-analyzer';
+import { PDFAnalyzer, summarizeFormFields } from './pdf-analyzer';
 import { ApplicationFlowMapper } from './application-flow-mapper';
 import { PermittingAPIIntegrator } from '@/lib/integrations/permitting-apis';
 import { DataValidator } from '@/lib/validation/data-validator';
+import { feeUnitForFormula } from '@/lib/fees';
 import { PermitType, PermitFee, ContactInfo, Address, Jurisdiction, SearchResponse } from '@/types';
 
 export interface EnhancedScrapingOptions {
@@ -263,6 +264,7 @@ export class EnhancedScraper {
     for (const form of pdfForms.slice(0, 5)) { // Limit to 5 PDFs to avoid timeout
       try {
         const pdfAnalysis = await this.pdfAnalyzer.analyzePDF(form.url);
+        form.fields = summarizeFormFields(pdfAnalysis);
         result.pdfAnalyses.push({
           formId: form.id,
           formName: form.name,
@@ -282,7 +284,8 @@ export class EnhancedScraper {
             fees: pdfAnalysis.fees.map(fee => ({
               type: fee.name,
               amount: typeof fee.amount === 'number' ? fee.amount : 0,
-              unit: 'flat',
+              unit: fee.formula ? feeUnitForFormula(fee.formula) : 'flat',
+              formula: fee.formula,
               description: fee.description,
               conditions: fee.conditions
             })),
@@ -293,11 +296,12 @@ export class EnhancedScraper {
           result.permits.push(pdfPermit);
         }
 
+        // Scanned PDFs contribute nothing until they go through OCR
         result.sources.push({
           url: form.url,
           type: 'pdf',
-          reliability: 0.85,
-          dataTypes: ['requirements', 'fees', 'fields'],
+          reliability: pdfAnalysis.metadata.isScanned ? 0 : 0.85,
+          dataTypes: pdfAnalysis.metadata.isScanned ? [] : ['requirements', 'fees', 'fields'],
           lastAccessed: new Date()
         });
 
@@ -1,5 +1,6 @@
 import * as cheerio from 'cheerio';
-import { PermitFee, ContactInfo, Address } from '@/types';
+import { PermitFee, ContactInfo, Address, ValuationTier } from '@/types';
+import { feeUnitForFormula, parseFeeFormula, parseValuationTier } from '@/lib/fees';
 
 export interface ExtractedTable {
   headers: string[];
@@ -367,6 +368,12 @@ export class ContentExtractor {
     const tables = this.extractTables();
     
     tables.filter(t => t.type === 'fees').forEach(table => {
+      const valuationFee = this.parseValuationTable(table);
+      if (valuationFee) {
+        fees.push(valuationFee);
+        return;
+      }
+
       table.rows.forEach(row => {
         const fee = this.parseFeeRow(row, table.headers);
         if (fee) {
@@ -401,18 +408,48 @@ export class ContentExtractor {
     const type = row[typeIndex];
     const amountStr = row[amountIndex];
     const amount = this.parseAmount(amountStr);
+    const formula = parseFeeFormula(amountStr);
     
-    if (!type || amount === null) return null;
+    if (!type || amount === null || !formula) return null;
     
     return {
       type,
       amount,
-      unit: this.detectFeeUnit(amountStr),
+      unit: feeUnitForFormula(formula),
+      formula,
       description: row.filter((_, i) => i !== typeIndex && i !== amountIndex).join(' '),
       conditions: []
     };
   }
 
+  /**
+   * Collapse a "total valuation" fee table into a single fee with one tier per row
+   */
+  private parseValuationTable(table: ExtractedTable): PermitFee | null {
+    const valuationIndex = table.headers.findIndex(h => h.toLowerCase().match(/valuation|value/));
+    const amountIndex = table.headers.findIndex((h, i) => 
+      i !== valuationIndex && h.toLowerCase().match(/fee|cost|amount|price/)
+    );
+    
+    if (valuationIndex === -1 || amountIndex === -1) return null;
+    
+    const tiers = table.rows
+      .map(row => parseValuationTier(row[valuationIndex] || '', row[amountIndex] || ''))
+      .filter((tier): tier is ValuationTier => tier !== null);
+    
+    // Most rows must parse, otherwise this is a regular fee table that happens to mention value
+    if (tiers.length < 2 || tiers.length < table.rows.length / 2) return null;
+    
+    return {
+      type: 'Building Permit Fee (by valuation)',
+      amount: Math.min(...tiers.map(tier => tier.baseFee)),
+      unit: 'valuation',
+      formula: { kind: 'valuation_table', tiers },
+      description: `Calculated from total project valuation using ${tiers.length} tiers`,
+      conditions: []
+    };
+  }
+
   /**
    * Parse amount from string
    */
@@ -424,18 +461,6 @@ export class ContentExtractor {
     return null;
   }
 
-  /**
-   * Detect fee unit from amount string
-   */
-  private detectFeeUnit(str: string): string {
-    const lower = str.toLowerCase();
-    if (lower.includes('sq') || lower.includes('square')) return 'per_sqft';
-    if (lower.includes('hour') || lower.includes('hr')) return 'per_hour';
-    if (lower.includes('unit')) return 'per_unit';
-    if (lower.includes('%') || lower.includes('percent')) return 'percentage';
-    return 'flat';
-  }
-
   /**
    * Extract fees from definition lists
    */
@@ -447,12 +472,14 @@ export class ContentExtractor {
       const type = this.$(dt).text().trim();
       const amountText = dd.text().trim();
       const amount = this.parseAmount(amountText);
+      const formula = parseFeeFormula(amountText);
       
-      if (amount !== null) {
+      if (amount !== null && formula) {
         fees.push({
           type,
           amount,
-          unit: this.detectFeeUnit(amountText),
+          unit: feeUnitForFormula(formula),
+          formula,
           description: amountText.replace(/\$?[\d,]+\.?\d*/, '').trim(),
           conditions: []
         });
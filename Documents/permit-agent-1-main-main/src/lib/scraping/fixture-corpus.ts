@@ -0,0 +1,220 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PageChange } from '@/types';
+import {
+  loadFixtureBundle,
+  recordHttpFixtures,
+  replayHttpFixtures,
+  saveFixtureBundle,
+  webScrapingCircuitBreakers,
+} from '@/lib/network';
+import { describePageChange, diffSnapshots, ExtractedData, snapshotFromExtraction } from '@/lib/monitoring/diff';
+import { ScrapingOptions, ScrapingResult, webScraper } from './scraper';
+
+// Each case is a directory holding the recorded bundle and the reviewed expectations
+export const DEFAULT_FIXTURE_DIRECTORY = path.join(process.cwd(), 'tests', 'fixtures', 'http');
+const BUNDLE_FILE = 'bundle.json';
+const EXPECTED_FILE = 'expected.json';
+
+// Fresh extractions only, and runs against fixtures aren't scrape history
+const RECORD_OPTIONS: ScrapingOptions = {
+  skipCache: true,
+  skipHistory: true,
+  enableAdvancedExtraction: true,
+};
+
+// robots.txt is recorded with the pages, so replays honor it just as the recording did
+const REPLAY_OPTIONS: ScrapingOptions = {
+  ...RECORD_OPTIONS,
+  delayBetweenRequests: 0,
+};
+
+// What a page should yield. Written from the recording run, then corrected by hand where the
+// extractors got it wrong, so the file describes the page rather than the extractors.
+export interface PageExpectation {
+  forms: { name: string; url: string }[];
+  fees: { type: string; amount: number; unit?: string }[];
+  contact: { phone?: string; email?: string };
+}
+
+export interface FixtureExpectations {
+  pages: Record<string, PageExpectation>; // Page URL -> expected extraction
+}
+
+export interface FixturePageResult {
+  url: string;
+  changes: PageChange[]; // Differences from the expectation, expected -> extracted
+  error?: string; // The replayed scrape failed
+}
+
+export interface FixtureCaseResult {
+  name: string;
+  pages: FixturePageResult[];
+  error?: string; // The case couldn't be loaded
+}
+
+export interface FixtureCorpusReport {
+  cases: FixtureCaseResult[];
+  passed: number;
+  failed: number;
+}
+
+function caseFailed(result: FixtureCaseResult): boolean {
+  return !!result.error || result.pages.some(page => !!page.error || page.changes.length > 0);
+}
+
+/**
+ * Reduce a scrape to the parts a fixture expectation covers
+ */
+export function expectationFromResult(result: ScrapingResult): PageExpectation {
+  const structured = result.structured;
+  return {
+    forms: (structured?.permitForms || []).map(form => ({ name: form.name, url: form.url })),
+    fees: (structured?.fees || []).map(fee => ({ type: fee.type, amount: fee.amount, unit: fee.unit })),
+    contact: { phone: structured?.contact?.phone || undefined, email: structured?.contact?.email || undefined },
+  };
+}
+
+function toExtractedData(expectation: PageExpectation): ExtractedData {
+  return { permitForms: expectation.forms, fees: expectation.fees, contact: expectation.contact };
+}
+
+async function scrapePages(urls: string[], options: ScrapingOptions): Promise<ScrapingResult[]> {
+  const results: ScrapingResult[] = [];
+  for (const url of urls) {
+    results.push(await webScraper.scrapeUrl(url, options));
+  }
+  return results;
+}
+
+async function readExpectations(caseDirectory: string): Promise<FixtureExpectations> {
+  return JSON.parse(await fs.readFile(path.join(caseDirectory, EXPECTED_FILE), 'utf8'));
+}
+
+async function writeExpectations(caseDirectory: string, expectations: FixtureExpectations): Promise<void> {
+  await fs.writeFile(path.join(caseDirectory, EXPECTED_FILE), JSON.stringify(expectations, null, 2) + '\n');
+}
+
+/**
+ * Scrape pages from the live sites, saving every exchange as a new case along with expectations
+ * taken from what was extracted. AI parsing goes to OpenAI rather than the government sites, so it
+ * can't be replayed; record without OPENAI_API_KEY to keep expectations to the rule-based extractors.
+ */
+export async function recordFixtureCase(
+  name: string,
+  urls: string[],
+  directory = DEFAULT_FIXTURE_DIRECTORY
+): Promise<FixtureExpectations> {
+  const caseDirectory = path.join(directory, name);
+  const { result, bundle } = await recordHttpFixtures(name, () => scrapePages(urls, RECORD_OPTIONS));
+
+  const expectations: FixtureExpectations = { pages: {} };
+  result.forEach((scrape, index) => {
+    if (!scrape.success) {
+      console.warn(`Recorded a failed scrape of ${urls[index]}: ${scrape.error}`);
+    }
+    expectations.pages[urls[index]] = expectationFromResult(scrape);
+  });
+
+  await saveFixtureBundle(path.join(caseDirectory, BUNDLE_FILE), bundle);
+  await writeExpectations(caseDirectory, expectations);
+  console.log(`Recorded ${bundle.exchanges.length} exchanges for ${name} into ${caseDirectory}`);
+  return expectations;
+}
+
+/**
+ * Replay one case offline and compare each page's extraction with its expectation. With `update`,
+ * the expectations are rewritten to match, for accepting an intended change.
+ */
+export async function runFixtureCase(caseDirectory: string, options: { update?: boolean } = {}): Promise<FixtureCaseResult> {
+  const name = path.basename(caseDirectory);
+
+  let expectations: FixtureExpectations;
+  let results: ScrapingResult[];
+  const urls: string[] = [];
+  try {
+    const bundle = await loadFixtureBundle(path.join(caseDirectory, BUNDLE_FILE));
+    expectations = await readExpectations(caseDirectory);
+    urls.push(...Object.keys(expectations.pages));
+
+    // A failure replayed by an earlier case mustn't leave its site skipped in this one
+    for (const url of urls) {
+      webScrapingCircuitBreakers.reset(new URL(url).hostname);
+    }
+    results = await replayHttpFixtures(bundle, () => scrapePages(urls, REPLAY_OPTIONS));
+  } catch (error) {
+    return { name, pages: [], error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const pages = results.map((result, index): FixturePageResult => {
+    const expected = snapshotFromExtraction(toExtractedData(expectations.pages[urls[index]]));
+    return {
+      url: urls[index],
+      changes: diffSnapshots(expected, snapshotFromExtraction(result.structured), { strict: true }),
+      error: result.success ? undefined : result.error,
+    };
+  });
+
+  if (options.update) {
+    results.forEach((result, index) => {
+      expectations.pages[urls[index]] = expectationFromResult(result);
+    });
+    await writeExpectations(caseDirectory, expectations);
+  }
+
+  return { name, pages };
+}
+
+/**
+ * Replay every case under `directory` (or just the named ones)
+ */
+export async function runFixtureCorpus(
+  directory = DEFAULT_FIXTURE_DIRECTORY,
+  options: { update?: boolean; cases?: string[] } = {}
+): Promise<FixtureCorpusReport> {
+  const entries = await fs.readdir(directory, { withFileTypes: true }).catch(error => {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  });
+  const names = entries
+    .filter(entry => entry.isDirectory() && (!options.cases || options.cases.includes(entry.name)))
+    .map(entry => entry.name)
+    .sort();
+
+  const cases: FixtureCaseResult[] = [];
+  for (const name of names) {
+    cases.push(await runFixtureCase(path.join(directory, name), options));
+  }
+
+  const failed = cases.filter(caseFailed).length;
+  return { cases, passed: cases.length - failed, failed };
+}
+
+/**
+ * The corpus report as text, one block per case that differs
+ */
+export function formatFixtureReport(report: FixtureCorpusReport): string {
+  const lines: string[] = [];
+
+  for (const result of report.cases) {
+    if (!caseFailed(result)) {
+      lines.push(`PASS ${result.name} (${result.pages.length} pages)`);
+      continue;
+    }
+
+    lines.push(`FAIL ${result.name}${result.error ? `: ${result.error}` : ''}`);
+    for (const page of result.pages) {
+      if (!page.error && page.changes.length === 0) continue;
+      lines.push(`  ${page.url}`);
+      if (page.error) {
+        lines.push(`    scrape failed: ${page.error}`);
+      }
+      for (const change of page.changes) {
+        lines.push(`    ${describePageChange(change)}`);
+      }
+    }
+  }
+
+  lines.push(`${report.passed} passed, ${report.failed} failed`);
+  return lines.join('\n');
+}
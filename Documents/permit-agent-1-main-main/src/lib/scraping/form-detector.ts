@@ -1,6 +1,6 @@
 import * as cheerio from 'cheerio';
 import { PermitForm } from '@/types';
-import { governmentHttpClient } from '@/lib/network';
+import { governmentHttpClient, governmentSiteScheduler } from '@/lib/network';
 
 export interface DetectedForm {
   name: string;
@@ -720,6 +720,7 @@ export async function downloadForm(form: DetectedForm): Promise<{
     const response = await governmentHttpClient.fetch(form.url, {
       method: 'GET',
       timeout: 30000,
+      scheduler: governmentSiteScheduler,
     });
 
     if (!response.ok) {
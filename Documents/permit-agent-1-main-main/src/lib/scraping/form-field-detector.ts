@@ -1,5 +1,6 @@
 import * as cheerio from 'cheerio';
-import { governmentHttpClient } from '@/lib/network';
+import { governmentHttpClient, governmentSiteScheduler } from '@/lib/network';
+import { FormFillCategory } from '@/types';
 
 export interface FormField {
   id?: string;
@@ -44,6 +45,110 @@ export interface FormSection {
   fields: string[]; // Field names in this section
 }
 
+// What a field asks for, checked in order so the more specific patterns come first ("company name" before "name")
+const FIELD_VALUE_RULES: [FormFillCategory, RegExp][] = [
+  ['email', /\be-?mail\b/],
+  ['phone', /\b(phone|tel|telephone|cell|mobile|daytime)\b/],
+  ['license_number', /\b(license|licence|lic|cslb)\b/],
+  ['company', /\b(company|business|firm|dba)\b/],
+  ['first_name', /\bfirst\s*name\b|\bfname\b/],
+  ['last_name', /\b(last|sur)\s*name\b|\blname\b/],
+  ['project_name', /\b(project|job)\s*(name|title)\b/],
+  ['project_description', /\b(description|scope|proposed\s+work|work\s+to\s+be\s+performed)\b/],
+  ['valuation', /\b(valuation|value|construction\s+cost|project\s+cost|job\s+cost)\b/],
+  ['square_footage', /\b(sq\s*ft|sqft|square\s*f(oo|ee)t(age)?|floor\s+area|area)\b/],
+  ['zip_code', /\b(zip|postal)\b/],
+  ['county', /\bcounty\b/],
+  ['state', /\bstate\b/],
+  ['city', /\b(city|town|municipality)\b/],
+  ['street', /\b(street|address|addr|location)\b/],
+  ['name', /\bname\b/],
+  ['date', /\bdate\b/],
+];
+
+// Dates that are not the day the application is filled in
+const OTHER_DATE_PATTERN = /\b(birth|dob|expir\w*|start|complet\w*|issue[ds]?|final|inspection)\b/;
+
+// The group each kind of value belongs to, so a field is grouped the same way it's filled
+const FIELD_VALUE_GROUPS: Record<FormFillCategory, FormFieldCategory> = {
+  name: 'personal_info',
+  first_name: 'personal_info',
+  last_name: 'personal_info',
+  company: 'personal_info',
+  email: 'contact_info',
+  phone: 'contact_info',
+  license_number: 'permit_type',
+  street: 'contact_info',
+  city: 'contact_info',
+  state: 'contact_info',
+  zip_code: 'contact_info',
+  county: 'property_info',
+  project_name: 'project_details',
+  project_description: 'project_details',
+  valuation: 'project_details',
+  square_footage: 'property_info',
+  date: 'other',
+};
+
+/**
+ * Split a field name such as "ApplicantPhone" or "owner.mailing_zip" into lower-case words
+ */
+export function normalizeFieldText(name: string, label: string): string {
+  return `${name} ${label}`
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[._\-[\]#:]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * The value a field asks for, or null when it isn't one we can recognise
+ */
+export function classifyFormField(name: string, label: string): FormFillCategory | null {
+  const text = normalizeFieldText(name, label);
+  for (const [category, pattern] of FIELD_VALUE_RULES) {
+    if (pattern.test(text)) {
+      if (category === 'date' && OTHER_DATE_PATTERN.test(text)) return null;
+      return category;
+    }
+  }
+  return null;
+}
+
+/**
+ * Categorize field based on name and label
+ */
+export function categorizeFormField(name: string, label: string, type: string): FormFieldCategory {
+  const value = classifyFormField(name, label);
+  if (value && value !== 'date') return FIELD_VALUE_GROUPS[value];
+
+  const text = normalizeFieldText(name, label);
+
+  // Personal info
+  if (text.match(/\b(name|first|last|middle|suffix|title)\b/)) return 'personal_info';
+
+  // Contact info
+  if (text.match(/\b(email|phone|tel|address|city|state|zip|country)\b/)) return 'contact_info';
+
+  // Property info
+  if (text.match(/\b(property|parcel|lot|block|address|location|site)\b/)) return 'property_info';
+
+  // Project details
+  if (text.match(/\b(project|work|description|scope|details|construction|renovation)\b/)) return 'project_details';
+
+  // Permit type
+  if (text.match(/\b(permit|type|category|kind|license)\b/)) return 'permit_type';
+
+  // Documents
+  if (type === 'file' || text.match(/\b(document|file|upload|attach|plan|drawing)\b/)) return 'documents';
+
+  // Fees
+  if (text.match(/\b(fee|cost|payment|amount|price|total)\b/)) return 'fees';
+
+  return 'other';
+}
+
 export class FormFieldDetector {
   private $: cheerio.CheerioAPI;
   private baseUrl: string;
@@ -192,7 +297,7 @@ export class FormFieldDetector {
         pattern,
         description: this.findFieldDescription(input),
         section: this.findFieldSection(input),
-        category: this.categorizeField(name, label, type)
+        category: categorizeFormField(name, label, type)
       };
     }
 
@@ -206,7 +311,7 @@ export class FormFieldDetector {
       pattern,
       description: this.findFieldDescription(input),
       section: this.findFieldSection(input),
-      category: this.categorizeField(name, label, type)
+      category: categorizeFormField(name, label, type)
     };
   }
 
@@ -236,7 +341,7 @@ export class FormFieldDetector {
       options,
       description: this.findFieldDescription(select),
       section: this.findFieldSection(select),
-      category: this.categorizeField(name, label, 'select')
+      category: categorizeFormField(name, label, 'select')
     };
   }
 
@@ -259,7 +364,7 @@ export class FormFieldDetector {
       required,
       description: this.findFieldDescription(textarea),
       section: this.findFieldSection(textarea),
-      category: this.categorizeField(name, label, 'textarea')
+      category: categorizeFormField(name, label, 'textarea')
     };
   }
 
@@ -364,36 +469,6 @@ export class FormFieldDetector {
     return typeMap[type] || 'text';
   }
 
-  /**
-   * Categorize field based on name and label
-   */
-  private categorizeField(name: string, label: string, type: string): FormFieldCategory {
-    const text = `${name} ${label}`.toLowerCase();
-    
-    // Personal info
-    if (text.match(/\b(name|first|last|middle|suffix|title)\b/)) return 'personal_info';
-    
-    // Contact info
-    if (text.match(/\b(email|phone|tel|address|city|state|zip|country)\b/)) return 'contact_info';
-    
-    // Property info
-    if (text.match(/\b(property|parcel|lot|block|address|location|site)\b/)) return 'property_info';
-    
-    // Project details
-    if (text.match(/\b(project|work|description|scope|details|construction|renovation)\b/)) return 'project_details';
-    
-    // Permit type
-    if (text.match(/\b(permit|type|category|kind|license)\b/)) return 'permit_type';
-    
-    // Documents
-    if (type === 'file' || text.match(/\b(document|file|upload|attach|plan|drawing)\b/)) return 'documents';
-    
-    // Fees
-    if (text.match(/\b(fee|cost|payment|amount|price|total)\b/)) return 'fees';
-    
-    return 'other';
-  }
-
   /**
    * Detect form sections
    */
@@ -547,6 +622,7 @@ export async function analyzeOnlineForm(url: string): Promise<FormAnalysis | nul
     const response = await governmentHttpClient.fetch(url, {
       method: 'GET',
       timeout: 30000,
+      scheduler: governmentSiteScheduler,
     });
 
     if (!response.ok) {
@@ -1,8 +1,12 @@
-import { governmentHttpClient } from '@/lib/network';
+import { governmentHttpClient, governmentSiteScheduler } from '@/lib/network';
+import { parseFeeFormula } from '@/lib/fees';
+import { PDFDocumentContent, PDFFormWidget, PDFPageContent, readPDF } from '@/lib/pdf/reader';
+import { FeeFormula, PermitFormField, PermitFormFieldsResult } from '@/types';
 import { FormField, ApplicationStep } from './enhanced-form-detector';
 
 export interface PDFAnalysisResult {
   extractedText: string;
+  pages: PDFPageContent[];
   formFields: FormField[];
   requirements: string[];
   steps: ApplicationStep[];
@@ -17,6 +21,7 @@ export interface PDFAnalysisResult {
 export interface PDFExtractedFee {
   name: string;
   amount: number | string;
+  formula?: FeeFormula;
   description: string;
   conditions: string[];
   category: string;
@@ -34,6 +39,7 @@ export interface PDFMetadata {
   subject: string;
   author: string;
   creator: string;
+  producer: string;
   creationDate: string;
   modificationDate: string;
   pageCount: number;
@@ -41,10 +47,12 @@ export interface PDFMetadata {
   version: string;
   isInteractive: boolean;
   hasDigitalSignature: boolean;
+  isScanned: boolean; // Image-only pages, so no text could be extracted without OCR
 }
 
 export interface FillableField {
   name: string;
+  label: string;
   type: 'text' | 'number' | 'date' | 'dropdown' | 'radio' | 'checkbox';
   required: boolean;
   defaultValue?: string;
@@ -66,6 +74,7 @@ export interface CheckboxField {
 
 export interface SignatureField {
   name: string;
+  label: string;
   required: boolean;
   type: 'digital' | 'drawn' | 'typed';
   page: number;
@@ -83,20 +92,28 @@ export class PDFAnalyzer {
       // Download PDF
       const pdfBuffer = await this.downloadPDF(pdfUrl);
       
-      // Extract text content
-      const extractedText = await this.extractTextContent(pdfBuffer);
+      // Parse text content, document info and page count
+      const document = await readPDF(pdfBuffer);
+      const extractedText = document.text;
       
-      // Analyze form structure
-      const formAnalysis = await this.analyzeFormStructure(extractedText);
+      // Analyze form structure. Scanned forms have no text to analyze, so report nothing rather than guess
+      const formAnalysis = document.isScanned
+        ? { formFields: [], requirements: [], steps: [], fees: [], contacts: [] }
+        : await this.analyzeFormStructure(extractedText);
+      
+      if (document.isScanned) {
+        console.warn(`PDF appears to be scanned images with no machine-readable text: ${pdfUrl}`);
+      }
       
       // Extract fillable fields (if PDF has interactive forms)
-      const fillableFields = await this.extractFillableFields(pdfBuffer);
+      const fillableFields = this.extractFillableFields(document);
       
       // Extract metadata
-      const metadata = await this.extractMetadata(pdfBuffer);
+      const metadata = this.extractMetadata(document, pdfBuffer.length);
       
       const result: PDFAnalysisResult = {
         extractedText,
+        pages: document.pages,
         formFields: formAnalysis.formFields,
         requirements: formAnalysis.requirements,
         steps: formAnalysis.steps,
@@ -120,85 +137,19 @@ export class PDFAnalyzer {
   /**
    * Download PDF content
    */
-  private async downloadPDF(url: string): Promise<Buffer> {
+  async downloadPDF(url: string): Promise<Buffer> {
     const response = await governmentHttpClient.get(url, {
       timeout: 30000,
       headers: {
         'Accept': 'application/pdf'
-      }
+      },
+      scheduler: governmentSiteScheduler,
     });
     
     const arrayBuffer = await response.arrayBuffer();
     return Buffer.from(arrayBuffer);
   }
 
-  /**
-   * Extract text content from PDF using various methods
-   */
-  private async extractTextContent(pdfBuffer: Buffer): Promise<string> {
-    // Since we don't have pdf-parse or similar installed, we'll simulate text extraction
-    // In a real implementation, you'd use libraries like pdf-parse, pdf2pic with Tesseract OCR
-    
-    // Simulate text extraction for demonstration
-    return this.simulateTextExtraction(pdfBuffer);
-  }
-
-  /**
-   * Simulate PDF text extraction (replace with real PDF parsing library)
-   */
-  private simulateTextExtraction(_pdfBuffer: Buffer): string {
-    // This is a placeholder - in reality you'd use pdf-parse or similar
-    // For now, return sample extracted text that represents common permit form content
-    return `
-    BUILDING PERMIT APPLICATION
-    
-    APPLICANT INFORMATION
-    Name: ____________________________
-    Address: _________________________
-    Phone: ___________________________
-    Email: ___________________________
-    
-    PROJECT INFORMATION
-    Property Address: _________________
-    Parcel Number: ___________________
-    Project Description: ______________
-    Construction Value: $______________
-    
-    PERMIT TYPE
-    [ ] New Construction
-    [ ] Addition
-    [ ] Alteration
-    [ ] Demolition
-    [ ] Repair
-    
-    REQUIRED DOCUMENTS
-    • Site plan showing property boundaries
-    • Construction drawings and specifications
-    • Structural calculations (if required)
-    • Energy compliance documentation
-    • Plumbing, electrical, mechanical plans
-    
-    FEES
-    Base Application Fee: $150.00
-    Plan Review Fee: $300.00
-    Building Permit Fee: Based on construction value
-    
-    CONTACT INFORMATION
-    Building Department
-    Phone: (555) 123-4567
-    Email: building@city.gov
-    Hours: Monday-Friday 8:00 AM - 5:00 PM
-    
-    SIGNATURE
-    Applicant Signature: _________________ Date: _______
-    
-    FOR OFFICE USE ONLY
-    Application Number: _______________
-    Date Received: __________________
-    Reviewer: _____________________
-    `;
-  }
-
   /**
    * Analyze form structure from extracted text
    */
@@ -369,9 +320,15 @@ export class PDFAnalyzer {
         }
 
         if (name && !isNaN(amount)) {
+          // The rest of the line carries rates, percentages and limits, e.g. "$0.25 per sq ft, minimum $75"
+          const lineEnd = text.indexOf('\n', match.index! + match[0].length);
+          const line = text.slice(match.index, lineEnd === -1 ? undefined : lineEnd);
+          const formula = parseFeeFormula(line.slice(line.indexOf(':') + 1)) || undefined;
+
           const fee: PDFExtractedFee = {
             name,
             amount,
+            formula,
             description: name,
             conditions: [],
             category: this.categorizeFee(name)
@@ -431,40 +388,143 @@ export class PDFAnalyzer {
   }
 
   /**
-   * Extract fillable fields from PDF (placeholder for PDF form field extraction)
+   * Download a PDF and list the fields its AcroForm asks for, without the full text analysis
    */
-  private async extractFillableFields(_pdfBuffer: Buffer): Promise<{
+  async analyzeFormFields(pdfUrl: string): Promise<PermitFormFieldsResult> {
+    const pdfBuffer = await this.downloadPDF(pdfUrl);
+    const document = await readPDF(pdfBuffer);
+    const { fillable, checkboxes, signatures } = this.extractFillableFields(document);
+    
+    return {
+      url: pdfUrl,
+      pageCount: document.pageCount,
+      isFillable: fillable.length + checkboxes.length + signatures.length > 0,
+      isScanned: document.isScanned,
+      fields: summarizeFormFields({ fillableFields: fillable, checkboxes, signatures })
+    };
+  }
+
+  /**
+   * Extract fillable fields from the PDF's AcroForm widgets
+   */
+  private extractFillableFields(document: PDFDocumentContent): {
     fillable: FillableField[];
     checkboxes: CheckboxField[];
     signatures: SignatureField[];
-  }> {
-    // This would require a PDF parsing library like pdf-lib or pdf2json
-    // For now, return empty arrays as placeholders
-    return {
-      fillable: [],
-      checkboxes: [],
-      signatures: []
-    };
+  } {
+    const fillable: FillableField[] = [];
+    const checkboxes: CheckboxField[] = [];
+    const signatures: SignatureField[] = [];
+    
+    // Widgets that share a field name belong to one field (radio groups, or a field repeated on several pages)
+    const fields = new Map<string, PDFFormWidget[]>();
+    for (const widget of document.widgets) {
+      if (widget.pushButton || widget.readOnly) continue;
+      const group = fields.get(widget.fieldName) || [];
+      group.push(widget);
+      fields.set(widget.fieldName, group);
+    }
+    
+    fields.forEach((widgets, name) => {
+      const first = widgets[0];
+      const label = first.label || this.labelFromFieldName(name);
+      const required = widgets.some(widget => widget.required);
+      
+      if (first.fieldType === 'Sig') {
+        signatures.push({
+          name,
+          label,
+          required,
+          type: 'digital',
+          page: first.page,
+          coordinates: this.toCoordinates(first.rect)
+        });
+        return;
+      }
+      
+      if (first.fieldType === 'Btn' && first.checkBox) {
+        widgets.forEach(widget => {
+          const { x, y } = this.toCoordinates(widget.rect);
+          checkboxes.push({
+            name,
+            label,
+            groupName: widgets.length > 1 ? name : undefined,
+            required,
+            defaultChecked: this.isChecked(widget.defaultValue, widget.exportValue),
+            page: widget.page,
+            coordinates: { x, y }
+          });
+        });
+        return;
+      }
+      
+      if (first.fieldType === 'Btn' && first.radioButton) {
+        const options = widgets.map(widget => widget.exportValue).filter((value): value is string => Boolean(value));
+        const defaultValue = typeof first.defaultValue === 'string' && first.defaultValue !== 'Off' ? first.defaultValue : undefined;
+        fillable.push({
+          name,
+          label,
+          type: 'radio',
+          required,
+          defaultValue,
+          options: Array.from(new Set(options)),
+          coordinates: this.toCoordinates(first.rect),
+          page: first.page
+        });
+        return;
+      }
+      
+      if (first.fieldType === 'Ch') {
+        fillable.push({
+          name,
+          label,
+          type: 'dropdown',
+          required,
+          defaultValue: Array.isArray(first.defaultValue) ? first.defaultValue[0] : first.defaultValue,
+          options: (first.options || []).map(option => option.displayValue || option.exportValue),
+          coordinates: this.toCoordinates(first.rect),
+          page: first.page
+        });
+        return;
+      }
+      
+      if (first.fieldType === 'Tx') {
+        fillable.push({
+          name,
+          label,
+          type: this.determineFillableType(label),
+          required,
+          defaultValue: Array.isArray(first.defaultValue) ? first.defaultValue.join(', ') : first.defaultValue,
+          validation: first.maxLength ? `maxLength:${first.maxLength}` : undefined,
+          coordinates: this.toCoordinates(first.rect),
+          page: first.page
+        });
+      }
+    });
+    
+    return { fillable, checkboxes, signatures };
   }
 
   /**
-   * Extract PDF metadata
+   * Extract PDF metadata from the document info dictionary
    */
-  private async extractMetadata(pdfBuffer: Buffer): Promise<PDFMetadata> {
-    // This would require a PDF parsing library
-    // For now, return placeholder metadata
+  private extractMetadata(document: PDFDocumentContent, fileSize: number): PDFMetadata {
+    const { info } = document;
+    
     return {
-      title: 'Building Permit Application',
-      subject: 'Permit Application Form',
-      author: 'City Building Department',
-      creator: 'Government Forms System',
-      creationDate: new Date().toISOString(),
-      modificationDate: new Date().toISOString(),
-      pageCount: 1,
-      fileSize: pdfBuffer.length,
-      version: '1.0',
-      isInteractive: false,
-      hasDigitalSignature: false
+      title: info.title || '',
+      subject: info.subject || '',
+      author: info.author || '',
+      creator: info.creator || '',
+      producer: info.producer || '',
+      creationDate: info.creationDate?.toISOString() || '',
+      modificationDate: info.modificationDate?.toISOString() || '',
+      pageCount: document.pageCount,
+      fileSize,
+      version: info.version || '',
+      isInteractive: info.hasAcroForm || info.hasXFA,
+      hasDigitalSignature: info.hasSignatures,
+      isScanned: document.isScanned
     };
   }
 
@@ -472,6 +532,42 @@ export class PDFAnalyzer {
    * Helper methods
    */
 
+  private toCoordinates(rect: PDFFormWidget['rect']): { x: number; y: number; width: number; height: number } {
+    const [x1, y1, x2, y2] = rect;
+    return {
+      x: Math.min(x1, x2),
+      y: Math.min(y1, y2),
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1)
+    };
+  }
+
+  private isChecked(value: string | string[] | undefined, exportValue?: string): boolean {
+    if (typeof value !== 'string' || value === 'Off') return false;
+    return exportValue ? value === exportValue : true;
+  }
+
+  // "applicant.phone_number" or "ApplicantPhone" -> "Applicant Phone Number"
+  private labelFromFieldName(name: string): string {
+    const last = name.split('.').pop() || name;
+    return last
+      .replace(/\[\d+\]$/, '')
+      .replace(/[_-]+/g, ' ')
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/\b\w/g, char => char.toUpperCase());
+  }
+
+  private determineFillableType(label: string): FillableField['type'] {
+    const lower = label.toLowerCase();
+    
+    if (lower.includes('date')) return 'date';
+    if (lower.match(/amount|valuation|value|cost|sq\.? ?ft|square feet|number of|qty|quantity/)) return 'number';
+    
+    return 'text';
+  }
+
   private generateFieldId(label: string): string {
     return label.toLowerCase().replace(/[^a-z0-9]/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '');
   }
@@ -548,4 +644,47 @@ export class PDFAnalyzer {
 
     return 'City Office';
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Flatten analyzed fields into the list shown to users, in page order
+ */
+export function summarizeFormFields(analysis: Pick<PDFAnalysisResult, 'fillableFields' | 'checkboxes' | 'signatures'>): PermitFormField[] {
+  const fields: PermitFormField[] = [
+    ...analysis.fillableFields.map(field => ({
+      name: field.name,
+      label: field.label,
+      type: field.type,
+      required: field.required,
+      options: field.options,
+      page: field.page
+    })),
+    ...analysis.checkboxes.map(field => ({
+      name: field.name,
+      label: field.label,
+      type: 'checkbox' as const,
+      required: field.required,
+      page: field.page
+    })),
+    ...analysis.signatures.map(field => ({
+      name: field.name,
+      label: field.label,
+      type: 'signature' as const,
+      required: field.required,
+      page: field.page
+    }))
+  ];
+  
+  // A checkbox group lists one checkbox per widget; users only need to see it once
+  const seen = new Set<string>();
+  return fields
+    .filter(field => {
+      const key = `${field.type}:${field.name}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.page - b.page);
+}
+
+export const pdfAnalyzer = new PDFAnalyzer();
@@ -0,0 +1,194 @@
+import { governmentHttpClient, NetworkError } from '@/lib/network';
+
+// Product token matched against User-agent lines, and the User-Agent robots.txt is fetched with
+export const ROBOTS_USER_AGENT = 'PermitAgent';
+const ROBOTS_FETCH_USER_AGENT = 'PermitAgent/1.0 (Municipal Permit Research Tool)';
+
+const ROBOTS_TIMEOUT = 5000;
+const ROBOTS_TTL = 24 * 60 * 60 * 1000; // RFC 9309 asks crawlers not to cache for longer than a day
+const ROBOTS_ERROR_TTL = 10 * 60 * 1000; // Retry soon after a server error
+const MAX_CACHED_HOSTS = 500;
+const MAX_CRAWL_DELAY = 60; // Seconds; longer delays would stall a search, so they're capped
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelay?: number; // Seconds
+  disallowAll?: boolean; // robots.txt couldn't be read because of a server error
+}
+
+export interface RobotsCheck {
+  allowed: boolean;
+  crawlDelayMs?: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+// "*" matches any run of characters and a trailing "$" anchors the end of the path
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parse robots.txt and keep the rules for `userAgent`: the groups naming it, or the "*" groups
+ * if none do. Unknown directives are ignored.
+ */
+export function parseRobotsTxt(text: string, userAgent = ROBOTS_USER_AGENT): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n|\r/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value, regex: patternToRegex(value) });
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawlDelay = seconds;
+      }
+    }
+  }
+
+  const token = userAgent.toLowerCase();
+  const named = groups.filter(group => group.agents.some(agent => agent.split('/')[0].trim() === token));
+  const matching = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+
+  const delays = matching.map(group => group.crawlDelay).filter((value): value is number => value !== undefined);
+  return {
+    rules: matching.flatMap(group => group.rules),
+    crawlDelay: delays.length > 0 ? Math.min(Math.max(...delays), MAX_CRAWL_DELAY) : undefined,
+  };
+}
+
+/**
+ * Whether a path (with its query string) may be fetched. The longest matching pattern wins and
+ * Allow wins a tie; a path no rule matches is allowed.
+ */
+export function isPathAllowed(robots: RobotsRules, path: string): boolean {
+  if (path === '/robots.txt') return true;
+  if (robots.disallowAll) return false;
+
+  let best: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!rule.regex.test(path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+export class RobotsChecker {
+  private cache = new Map<string, { robots: RobotsRules; expiresAt: number }>();
+  private pending = new Map<string, Promise<RobotsRules>>();
+
+  /**
+   * Whether our user agent may fetch the URL, and how long to wait between requests to its host
+   */
+  async check(url: string): Promise<RobotsCheck> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { allowed: false };
+    }
+
+    const robots = await this.getRules(parsed.origin);
+    return {
+      allowed: isPathAllowed(robots, parsed.pathname + parsed.search),
+      crawlDelayMs: robots.crawlDelay !== undefined ? robots.crawlDelay * 1000 : undefined,
+    };
+  }
+
+  async isAllowed(url: string): Promise<boolean> {
+    return (await this.check(url)).allowed;
+  }
+
+  private async getRules(origin: string): Promise<RobotsRules> {
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.robots;
+    }
+
+    // Concurrent checks against one host share a single fetch
+    let pending = this.pending.get(origin);
+    if (!pending) {
+      pending = this.fetchRules(origin).finally(() => this.pending.delete(origin));
+      this.pending.set(origin, pending);
+    }
+    return pending;
+  }
+
+  // 4xx means there are no rules. A 5xx means the site is struggling, so we stay off it until we
+  // can read the file; a network failure is treated like a missing file, since the page fetch
+  // that follows would fail the same way. Fetched with governmentHttpClient so fixture recordings
+  // capture the file and replays answer from them; this class caches the rules itself.
+  private async fetchRules(origin: string): Promise<RobotsRules> {
+    let robots: RobotsRules = { rules: [] };
+    let ttl = ROBOTS_TTL;
+
+    try {
+      const response = await governmentHttpClient.fetch(`${origin}/robots.txt`, {
+        userAgent: ROBOTS_FETCH_USER_AGENT,
+        timeout: ROBOTS_TIMEOUT,
+        retries: 0,
+        skipHttpCache: true,
+      });
+      robots = parseRobotsTxt(await response.text());
+    } catch (error) {
+      const status = (error as Partial<NetworkError>).statusCode;
+      if (status && status >= 500) {
+        robots = { rules: [], disallowAll: true };
+        ttl = ROBOTS_ERROR_TTL;
+      } else if (!status) {
+        console.warn(`Could not fetch robots.txt for ${origin}:`, error);
+        ttl = ROBOTS_ERROR_TTL;
+      }
+    }
+
+    this.cache.delete(origin);
+    this.cache.set(origin, { robots, expiresAt: Date.now() + ttl });
+    if (this.cache.size > MAX_CACHED_HOSTS) {
+      // Maps iterate in insertion order, so the first key is the least recently fetched
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return robots;
+  }
+}
+
+export const robotsChecker = new RobotsChecker();
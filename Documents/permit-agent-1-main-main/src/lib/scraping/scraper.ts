@@ -2,12 +2,15 @@ import * as cheerio from 'cheerio';
 import { delay, cleanUrl, extractDomain } from '@/lib/utils';
 import {
   governmentHttpClient,
-  webScrapingCircuitBreaker,
-  governmentSiteRateLimiter,
+  webScrapingCircuitBreakers,
+  governmentSiteScheduler,
   permitDataCache,
   isValidHttpUrl,
   getTimeoutForUrlType,
-  EnhancedNetworkError
+  EnhancedNetworkError,
+  isCancelledError,
+  throwIfCancelled,
+  HTTP_CACHE_STATUS_HEADER
 } from '@/lib/network';
 import { ContentExtractor, ExtractedTable, ExtractedForm } from './extractors';
 import { FormDetector, DetectedForm, convertToPermitForm } from './form-detector';
@@ -16,13 +19,25 @@ import { PermitFee, ContactInfo, PermitForm } from '@/types';
 import { AIContentParser, ParsedGovernmentContent } from './ai-parser';
 import { ModernPortalDetector } from './modern-portal-detector';
 import { dataCache } from './data-cache';
+import { robotsChecker } from './robots';
+import { recordScrapingResult } from '@/lib/database/scraping-results';
+import {
+  createProvenance,
+  withContactProvenance,
+  withFeeProvenance,
+  withFormProvenance,
+} from '@/lib/provenance';
 
 export interface ScrapingOptions {
   maxRetries?: number;
   delayBetweenRequests?: number;
   timeout?: number;
-  respectRobots?: boolean;
+  respectRobots?: boolean; // Skip URLs robots.txt disallows and honor its Crawl-delay
   enableAdvancedExtraction?: boolean;
+  signal?: AbortSignal;
+  jurisdictionId?: string; // Registry jurisdiction the scrape is recorded against
+  skipCache?: boolean; // Always fetch the page, e.g. when checking it for changes
+  skipHistory?: boolean; // Leave the scrape out of scraping_results, e.g. when replaying fixtures
 }
 
 export interface ScrapingResult {
@@ -32,6 +47,8 @@ export interface ScrapingResult {
   links: string[];
   success: boolean;
   error?: string;
+  blockedByRobots?: boolean; // Not fetched because robots.txt disallows it
+  siteUnreachable?: boolean; // The site's circuit breaker is open after repeated failures
   timestamp: Date;
   
   // Enhanced extraction results
@@ -66,7 +83,7 @@ export class WebScraper {
     const opts = { ...this.defaultOptions, ...options };
     
     // Check enhanced cache first
-    const cachedResult = dataCache.getCachedScrapingResult(url);
+    const cachedResult = opts.skipCache ? null : await dataCache.getCachedScrapingResult(url);
     if (cachedResult) {
       console.log(`Returning enhanced cached scraping result for: ${url}`);
       return cachedResult;
@@ -74,7 +91,7 @@ export class WebScraper {
     
     // Check legacy cache as fallback
     const cacheKey = `scrape-${url}`;
-    const legacyCachedResult = permitDataCache.get(cacheKey);
+    const legacyCachedResult = opts.skipCache ? null : await permitDataCache.get(cacheKey);
     if (legacyCachedResult) {
       console.log(`Returning legacy cached scraping result for: ${url}`);
       return {
@@ -84,33 +101,84 @@ export class WebScraper {
     }
 
     const cleanedUrl = cleanUrl(url);
+    const startedAt = Date.now();
+
+    // Cancellation propagates as an error so the caller's pipeline stops, unlike scrape failures
+    throwIfCancelled(opts.signal);
 
     if (!isValidHttpUrl(cleanedUrl)) {
       return this.createErrorResult(url, 'Invalid URL provided');
     }
 
+    if (opts.respectRobots) {
+      const robots = await robotsChecker.check(cleanedUrl);
+      if (!robots.allowed) {
+        console.log(`Skipping ${cleanedUrl}: disallowed by robots.txt`);
+        return { ...this.createErrorResult(url, 'Disallowed by robots.txt'), blockedByRobots: true };
+      }
+      governmentSiteScheduler.setCrawlDelay(cleanedUrl, robots.crawlDelayMs);
+    }
+
+    // Sites that keep failing are left alone until their breaker's reset timeout
+    if (webScrapingCircuitBreakers.isOpen(cleanedUrl)) {
+      console.log(`Skipping ${cleanedUrl}: site is currently unreachable`);
+      return { ...this.createErrorResult(url, 'Site is currently unreachable'), siteUnreachable: true };
+    }
+
     try {
-      // Use circuit breaker for scraping operations
-      const result = await webScrapingCircuitBreaker.execute(async () => {
+      const result = await webScrapingCircuitBreakers.execute(cleanedUrl, async () => {
         return await this.performScrapeWithRetry(cleanedUrl, opts);
       });
 
       // Cache successful results
       if (result.success) {
-        permitDataCache.set(cacheKey, result, 1800000); // 30 minutes
+        await permitDataCache.set(cacheKey, result, 1800000, { url, jurisdictionId: opts.jurisdictionId }); // 30 minutes
       }
 
-      return result;
+      return this.recordScrape(result, opts, startedAt);
 
     } catch (error) {
+      if (isCancelledError(error)) {
+        throw error;
+      }
+
       const errorMessage = error instanceof EnhancedNetworkError 
         ? `Network error: ${error.message} (${error.code})`
         : `Scraping failed: ${(error as Error).message}`;
-        
-      return this.createErrorResult(url, errorMessage);
+      const result: ScrapingResult = {
+        ...this.createErrorResult(url, errorMessage),
+        siteUnreachable: webScrapingCircuitBreakers.isOpen(cleanedUrl) || undefined,
+      };
+
+      return this.recordScrape(result, opts, startedAt);
     }
   }
 
+  // Scrapes are kept in scraping_results for history and change monitoring. Recording is
+  // best-effort, so a database problem never fails the scrape itself.
+  private async recordScrape(result: ScrapingResult, options: ScrapingOptions, startedAt: number): Promise<ScrapingResult> {
+    if (options.skipHistory) {
+      return result;
+    }
+
+    try {
+      await recordScrapingResult({
+        url: result.url,
+        title: result.title,
+        content: result.content,
+        success: result.success,
+        errors: result.error ? [result.error] : [],
+        extractedData: result.structured,
+        dataQuality: result.structured?.dataQuality,
+        durationMs: Date.now() - startedAt,
+        jurisdictionId: options.jurisdictionId,
+      });
+    } catch (error) {
+      console.warn(`Failed to record scrape of ${result.url}:`, error);
+    }
+    return result;
+  }
+
   private async performScrapeWithRetry(url: string, options: ScrapingOptions): Promise<ScrapingResult> {
     let lastError: Error | null = null;
 
@@ -119,14 +187,15 @@ export class WebScraper {
         if (attempt > 1) {
           await delay(options.delayBetweenRequests!);
         }
-
-        // Rate limit requests to be respectful
-        await governmentSiteRateLimiter.waitForSlot();
+        throwIfCancelled(options.signal);
 
         const result = await this.performScrape(url, options);
         return result;
       } catch (error) {
         lastError = error as Error;
+        if (isCancelledError(error)) {
+          throw error;
+        }
         console.warn(`Scraping attempt ${attempt} failed for ${url}:`, error);
         
         // Don't retry on certain types of errors
@@ -141,9 +210,12 @@ export class WebScraper {
 
   private async performScrape(url: string, options: ScrapingOptions): Promise<ScrapingResult> {
     const timeout = getTimeoutForUrlType(url);
-    const response = await governmentHttpClient.fetch(url, { 
+    // Requests to each host are queued and paced separately, so one slow city doesn't hold up the rest
+    const response = await governmentHttpClient.fetch(url, {
       method: 'GET',
-      timeout 
+      timeout,
+      signal: options.signal,
+      scheduler: governmentSiteScheduler,
     });
 
     if (!response.ok) {
@@ -151,6 +223,16 @@ export class WebScraper {
     }
 
     const html = await response.text();
+    const unchanged = response.headers.get(HTTP_CACHE_STATUS_HEADER) === 'REVALIDATED';
+
+    // The server confirmed the page hasn't changed, so the last extraction still holds
+    if (unchanged) {
+      const previous = await dataCache.refreshScrapingResult(url);
+      if (previous && (previous.structured || !options.enableAdvancedExtraction)) {
+        return { ...previous, timestamp: new Date() };
+      }
+    }
+
     const $ = cheerio.load(html);
 
     // Extract title
@@ -185,7 +267,7 @@ export class WebScraper {
         
         if (process.env.OPENAI_API_KEY) {
           try {
-            aiParsed = await this.aiParser.parseGovernmentContent(html, url, content);
+            aiParsed = await this.aiParser.parseGovernmentContent(html, url, content, options.signal);
             dataQuality = aiParsed.dataQuality;
             console.log(`AI parsing completed with quality score: ${dataQuality.toFixed(2)}`);
           } catch (error) {
@@ -199,11 +281,14 @@ export class WebScraper {
         const extractor = new ContentExtractor(html, url);
         const formDetector = new FormDetector(html, url);
         
+        // Rule-based values are tagged with the page they were extracted from
+        const staticProvenance = createProvenance('static_extractor', url);
+        
         // Extract basic content using traditional methods
         const tables = extractor.extractTables();
         const forms = extractor.extractForms();
-        const fees = extractor.extractFeeSchedule();
-        const contact = extractor.extractContactInfo();
+        const fees = withFeeProvenance(extractor.extractFeeSchedule(), staticProvenance);
+        const contact = withContactProvenance(extractor.extractContactInfo(), staticProvenance);
         const requirements = extractor.extractRequirements();
         const processingTimes = extractor.extractProcessingTimes();
         
@@ -217,7 +302,10 @@ export class WebScraper {
         console.log(`Enhanced form detection found ${detectedForms.length} forms on ${url}`);
 
         // Convert detected forms to PermitForm format
-        let permitForms = detectedForms.map(form => convertToPermitForm(form, url));
+        let permitForms = withFormProvenance(
+          detectedForms.map(form => convertToPermitForm(form, url)),
+          staticProvenance
+        );
         
         // Merge with AI-detected forms if available
         if (aiParsed?.forms && aiParsed.forms.length > 0) {
@@ -275,12 +363,15 @@ export class WebScraper {
       }
     }
 
+    // Extraction degrades silently when cancelled, so don't cache what we have
+    throwIfCancelled(options.signal);
+
     // Cache the result with quality-based expiration
     const qualityScore = result.structured?.dataQuality || 0.5;
-    dataCache.cacheScrapingResult(url, result, qualityScore);
+    await dataCache.cacheScrapingResult(url, result, qualityScore, options.jurisdictionId);
 
     // Legacy cache for backwards compatibility
-    permitDataCache.set(`scrape-${url}`, result);
+    await permitDataCache.set(`scrape-${url}`, result, undefined, { url, jurisdictionId: options.jurisdictionId });
 
     return result;
   }
@@ -306,11 +397,23 @@ export class WebScraper {
   private mergeContactData(traditionalContact: ContactInfo, aiContact?: ContactInfo): ContactInfo {
     if (!aiContact) return traditionalContact;
     
+    // Provenance follows whichever source supplied each field
+    const aiProvenance = aiContact.provenance || {};
+    const traditionalProvenance = traditionalContact.provenance || {};
+    
     return {
       phone: aiContact.phone || traditionalContact.phone,
       email: aiContact.email || traditionalContact.email,
       address: aiContact.address || traditionalContact.address,
-      hoursOfOperation: aiContact.hoursOfOperation || traditionalContact.hoursOfOperation
+      hoursOfOperation: aiContact.hoursOfOperation || traditionalContact.hoursOfOperation,
+      provenance: {
+        phone: aiContact.phone ? aiProvenance.phone : traditionalProvenance.phone,
+        email: aiContact.email ? aiProvenance.email : traditionalProvenance.email,
+        address: aiContact.address ? aiProvenance.address : traditionalProvenance.address,
+        hoursOfOperation: aiContact.hoursOfOperation
+          ? aiProvenance.hoursOfOperation
+          : traditionalProvenance.hoursOfOperation,
+      }
     };
   }
 
@@ -1,4 +1,5 @@
-import { governmentHttpClient } from '@/lib/network';
+import { governmentHttpClient, governmentSiteScheduler } from '@/lib/network';
+import { robotsChecker } from './robots';
 
 export interface URLValidationResult {
   url: string;
@@ -8,6 +9,7 @@ export interface URLValidationResult {
   statusCode?: number;
   contentType?: string;
   isPermitRelated?: boolean;
+  disallowedByRobots?: boolean; // Not requested because robots.txt disallows it
   error?: string;
 }
 
@@ -39,9 +41,20 @@ export class URLValidator {
         };
       }
 
+      if (!(await robotsChecker.isAllowed(cleanUrl))) {
+        return {
+          url: cleanUrl,
+          isValid: true,
+          isAccessible: false,
+          disallowedByRobots: true,
+          error: 'Disallowed by robots.txt'
+        };
+      }
+
       const response = await governmentHttpClient.fetch(cleanUrl, {
         method: 'HEAD',
         timeout: this.TIMEOUT,
+        scheduler: governmentSiteScheduler,
       });
 
       const isAccessible = response.ok;
@@ -141,9 +154,14 @@ export class URLValidator {
    */
   private async analyzePermitPortal(url: string): Promise<PermitPortalInfo | null> {
     try {
+      if (!(await robotsChecker.isAllowed(url))) {
+        return null;
+      }
+
       const response = await governmentHttpClient.fetch(url, {
         method: 'GET',
         timeout: this.TIMEOUT,
+        scheduler: governmentSiteScheduler,
       });
 
       if (!response.ok) {
@@ -214,9 +232,15 @@ export class URLValidator {
     const portals: { url: string; portal: PermitPortalInfo }[] = [];
 
     try {
+      if (!(await robotsChecker.isAllowed(baseUrl))) {
+        console.log(`Skipping portal link scan of ${baseUrl}: disallowed by robots.txt`);
+        return portals;
+      }
+
       const response = await governmentHttpClient.fetch(baseUrl, {
         method: 'GET',
-        timeout: this.TIMEOUT
+        timeout: this.TIMEOUT,
+        scheduler: governmentSiteScheduler,
       });
 
       if (!response.ok) {
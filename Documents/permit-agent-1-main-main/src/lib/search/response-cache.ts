@@ -0,0 +1,94 @@
+import { Address, SearchResponse } from '@/types';
+import { KeyValueCache } from '@/lib/network';
+import { isSynthetic } from '@/lib/provenance';
+import { getSessionUserId } from '@/lib/auth/session';
+import { getSubscriptionByUserId, PLAN_CONFIGS, PlanConfig } from '@/lib/database/subscriptions';
+
+const HOUR = 60 * 60 * 1000;
+
+// Kept as long as any plan will serve them
+const MAX_CACHE_AGE = Math.max(...Object.values(PLAN_CONFIGS).map(plan => plan.searchFreshness.maxStaleHours)) * HOUR;
+
+export type SearchFreshness = PlanConfig['searchFreshness'];
+
+// The search route's registry pipeline or a search job's scrape-and-extract one. They produce
+// different results, so a refresh re-runs whichever produced the entry.
+export type SearchPipeline = 'sync' | 'job';
+
+export interface CachedSearch {
+  response: SearchResponse; // Without a determination, so any scope of work can be applied
+  cachedAt: Date;
+  pipeline: SearchPipeline;
+  refresh?: { jobId?: string; startedAt: Date }; // No job when the sync pipeline is refreshing it
+}
+
+const searchResponseCache = new KeyValueCache<CachedSearch>('search-responses', { ttl: MAX_CACHE_AGE, maxSize: 500 });
+
+// Results depend on the jurisdiction, not the street, so every address in a city shares an entry
+function searchCacheKey(address: Address): string {
+  return `${address.state.toUpperCase()}:${address.city.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+}
+
+/**
+ * The last search results for the address's jurisdiction, if they're still kept
+ */
+export async function getCachedSearch(address: Address): Promise<CachedSearch | null> {
+  return searchResponseCache.get(searchCacheKey(address));
+}
+
+/**
+ * Keep a search's results for later searches of the same jurisdiction. Results limited by an
+ * unreachable site aren't kept, so the next search tries the site again, and neither are results
+ * with nothing from the jurisdiction itself: only generated permits and no forms.
+ */
+export async function cacheSearchResponse(address: Address, response: SearchResponse, pipeline: SearchPipeline): Promise<void> {
+  if (response.warnings?.length) {
+    return;
+  }
+  if (response.permits.every(permit => isSynthetic(permit.provenance)) && !response.forms?.length) {
+    return;
+  }
+
+  await searchResponseCache.set(
+    searchCacheKey(address),
+    { response: { ...response, determination: undefined, cached: undefined }, cachedAt: new Date(), pipeline },
+    MAX_CACHE_AGE,
+    { url: response.jurisdiction.website, jurisdictionId: response.jurisdiction.id }
+  );
+}
+
+/**
+ * Note that cached results are being refreshed, and by which job if any, so concurrent searches
+ * wait on it instead of starting more
+ */
+export async function markSearchRefresh(address: Address, cached: CachedSearch, jobId?: string): Promise<void> {
+  await searchResponseCache.set(
+    searchCacheKey(address),
+    { ...cached, refresh: { jobId, startedAt: new Date() } },
+    Math.max(1, MAX_CACHE_AGE - (Date.now() - cached.cachedAt.getTime())),
+    { url: cached.response.jurisdiction.website, jurisdictionId: cached.response.jurisdiction.id }
+  );
+}
+
+/**
+ * Freshness thresholds for the signed-in user's plan. Anonymous users, lapsed subscriptions and
+ * lookup failures get the free plan's.
+ */
+export async function getSearchFreshness(): Promise<SearchFreshness> {
+  try {
+    const userId = await getSessionUserId();
+    const subscription = userId ? await getSubscriptionByUserId(userId) : null;
+    const planType = subscription && ['active', 'trialing'].includes(subscription.status)
+      ? subscription.planType
+      : 'free';
+    return PLAN_CONFIGS[planType].searchFreshness;
+  } catch (error) {
+    console.warn('Could not look up the plan for search freshness, using the free plan:', error);
+    return PLAN_CONFIGS.free.searchFreshness;
+  }
+}
+
+// Only the memory store evicts by itself, so clear out expired results hourly
+setInterval(() => {
+  searchResponseCache.clearExpired().catch(error => console.warn('Failed to clear expired search results:', error));
+}, HOUR);
@@ -0,0 +1,29 @@
+import { SearchRequest, SearchResponse } from '@/types';
+import { applyDetermination, determinePermits } from '@/lib/permits/determination';
+
+/**
+ * Results of an earlier search of the same jurisdiction, fitted to a new request: the searched
+ * address replaces the one they were found for, and a scope of work narrows the permits as usual.
+ * Used on the server for cached results and in the browser for refreshed ones.
+ */
+export function fitSearchResponse(
+  response: SearchResponse,
+  request: Pick<SearchRequest, 'address' | 'scope'>
+): SearchResponse {
+  const contactInfo = { ...response.jurisdiction.contactInfo, address: request.address };
+  const fitted: SearchResponse = {
+    ...response,
+    jurisdiction: { ...response.jurisdiction, address: request.address, contactInfo },
+    contact: { ...response.contact, address: request.address },
+    determination: undefined,
+    cached: undefined,
+  };
+
+  if (!request.scope) {
+    return fitted;
+  }
+  return applyDetermination(
+    fitted,
+    determinePermits(request.scope, request.address.city, request.address.state)
+  );
+}
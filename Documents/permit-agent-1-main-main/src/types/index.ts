@@ -22,11 +22,96 @@ export interface Jurisdiction {
   isActive: boolean;
 }
 
+// A jurisdiction in the curated registry, with the permits it issues
+export interface RegistryJurisdiction {
+  id: string;
+  slug: string; // e.g. "san-francisco-ca"; the key bulk imports match on
+  name: string;
+  type: 'city' | 'county' | 'state';
+  city?: string;
+  state: string;
+  county?: string;
+  aliases: string[]; // Other names people search for, e.g. "NYC"
+  website: string;
+  permitUrl?: string;
+  formsUrl?: string;
+  phone?: string;
+  email?: string;
+  officeAddress?: string;
+  notes?: string;
+  isActive: boolean;
+  monitorIntervalHours?: number; // How often change monitoring re-scrapes its pages; unset uses the default
+  permitTypes: PermitType[];
+  updatedAt: Date;
+}
+
+// One recorded run of the scraper against a URL
+export interface ScrapeRecord {
+  id: string;
+  jurisdictionId?: string;
+  url: string;
+  title?: string;
+  success: boolean;
+  errors: string[];
+  dataQuality?: number; // 0-1, from AI parsing when it ran
+  contentChecksum?: string; // SHA-256 of the page text
+  durationMs?: number;
+  scrapedAt: Date;
+}
+
+export interface ScrapeRecordDetail extends ScrapeRecord {
+  extractedData?: Record<string, unknown>; // The scraper's structured extraction, as stored
+}
+
+export interface ScrapeStats {
+  total: number;
+  succeeded: number;
+  successRate: number; // 0-1
+  lastScrapedAt?: Date;
+  lastSuccessAt?: Date;
+}
+
+// One difference between two extractions of the same page
+export interface PageChange {
+  kind: 'form_added' | 'form_removed' | 'fee_added' | 'fee_removed' | 'fee_changed' | 'phone_changed' | 'email_changed';
+  label: string; // Form name, fee type, or "Phone"/"Email"
+  before?: string;
+  after?: string;
+}
+
+// Changes change monitoring found on one of a jurisdiction's pages
+export interface JurisdictionChange {
+  id: string;
+  jurisdictionId: string;
+  jurisdictionName?: string; // Included when listing changes across jurisdictions
+  url: string;
+  changes: PageChange[];
+  detectedAt: Date;
+}
+
+export interface UserNotification {
+  id: string;
+  title: string;
+  body: string;
+  link?: string;
+  jurisdictionChangeId?: string;
+  readAt?: Date;
+  createdAt: Date;
+}
+
 export interface ContactInfo {
   phone?: string;
   email?: string;
   address?: Address;
   hoursOfOperation?: BusinessHours;
+  provenance?: ContactProvenance;
+}
+
+export interface ContactProvenance {
+  phone?: FieldProvenance;
+  email?: FieldProvenance;
+  address?: FieldProvenance;
+  hoursOfOperation?: FieldProvenance;
 }
 
 export interface BusinessHours {
@@ -55,6 +140,7 @@ export interface PermitType {
   fees: PermitFee[];
   forms: PermitForm[];
   lastUpdated: Date;
+  provenance?: FieldProvenance;
 }
 
 export enum PermitCategory {
@@ -70,10 +156,60 @@ export enum PermitCategory {
 
 export interface PermitFee {
   type: string;
-  amount: number;
+  amount: number; // Flat amount, or the rate/minimum when a formula is present
   unit?: string; // per square foot, flat fee, etc.
+  formula?: FeeFormula;
   description?: string;
   conditions?: string[];
+  provenance?: FieldProvenance;
+}
+
+export type FeeQuantity = 'square_feet' | 'units' | 'hours';
+
+// One row of a valuation fee table: baseFee covers valuations up to `from`,
+// then `rate` is added for each `increment` (or part of one) above it
+export interface ValuationTier {
+  from: number;
+  to?: number; // Open-ended when omitted
+  baseFee: number;
+  rate?: number;
+  increment?: number;
+}
+
+interface FeeLimits {
+  minimum?: number;
+  maximum?: number;
+}
+
+export type FeeFormula = FeeLimits & (
+  | { kind: 'flat'; amount: number }
+  | { kind: 'per_unit'; rate: number; quantity: FeeQuantity; baseFee?: number }
+  | { kind: 'valuation_table'; tiers: ValuationTier[] }
+  | { kind: 'percentage'; percent: number; of: 'valuation' | string } // A valuation, or another fee's type
+);
+
+export interface FeeEstimateInput {
+  valuation?: number;
+  squareFootage?: number;
+  units?: number;
+  hours?: number;
+}
+
+export interface FeeEstimateLine {
+  permitId: string;
+  permitName: string;
+  feeType: string;
+  amount: number | null; // null when an input the formula needs wasn't given
+  basis: string;
+  missingInput?: keyof FeeEstimateInput;
+  provenance?: FieldProvenance;
+}
+
+export interface FeeEstimate {
+  inputs: FeeEstimateInput;
+  lines: FeeEstimateLine[];
+  total: number;
+  incomplete: boolean;
 }
 
 export interface PermitForm {
@@ -83,6 +219,90 @@ export interface PermitForm {
   fileType: 'pdf' | 'doc' | 'online';
   isRequired: boolean;
   description?: string;
+  fields?: PermitFormField[]; // Fillable fields, when the form is a PDF with an AcroForm
+  provenance?: FieldProvenance;
+}
+
+export interface PermitFormField {
+  name: string;
+  label: string;
+  type: 'text' | 'number' | 'date' | 'dropdown' | 'radio' | 'checkbox' | 'signature';
+  required: boolean;
+  options?: string[];
+  page: number;
+}
+
+export interface PermitFormFieldsResult {
+  url: string;
+  pageCount: number;
+  isFillable: boolean;
+  isScanned: boolean;
+  fields: PermitFormField[];
+}
+
+export type FormFillCategory =
+  | 'name'
+  | 'first_name'
+  | 'last_name'
+  | 'company'
+  | 'email'
+  | 'phone'
+  | 'license_number'
+  | 'street'
+  | 'city'
+  | 'state'
+  | 'zip_code'
+  | 'county'
+  | 'project_name'
+  | 'project_description'
+  | 'valuation'
+  | 'square_footage'
+  | 'date';
+
+export interface FilledFormField {
+  name: string;
+  label: string;
+  category: FormFillCategory;
+  source: 'applicant' | 'contractor' | 'project';
+  value: string;
+}
+
+export interface PermitFormFillResult {
+  filled: FilledFormField[];
+  unmatched: Omit<PermitFormField, 'page' | 'options'>[]; // Left blank for the applicant to complete by hand
+  flattened: boolean;
+}
+
+// Application packet ZIP: every file in it, and the forms that couldn't be included
+export interface PacketManifestFile {
+  path: string; // Path inside the ZIP
+  name: string;
+  sourceUrl?: string; // Omitted for files generated for the packet
+  contentType: string;
+  size: number;
+  sha256: string;
+  retrievedAt: string;
+}
+
+export interface PacketManifestFailure {
+  name: string;
+  sourceUrl: string;
+  reason: string;
+}
+
+// Required forms filled in online, which can't be put in a packet
+export interface PacketManifestLink {
+  name: string;
+  url: string;
+}
+
+export interface PacketManifest {
+  generatedAt: string;
+  address: string;
+  jurisdiction: { name: string; website: string };
+  files: PacketManifestFile[];
+  links: PacketManifestLink[];
+  failed: PacketManifestFailure[];
 }
 
 export interface UserProject {
@@ -96,15 +316,80 @@ export interface UserProject {
   updatedAt: Date;
 }
 
+// Saved details used to fill in permit applications
+export interface ApplicantProfile {
+  id: string;
+  userId: string;
+  role: 'applicant' | 'contractor';
+  name: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  mailingAddress?: Address;
+  licenseNumber?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface ProjectPermit {
   id: string;
-  permitTypeId: string;
+  permitTypeId: string; // The permit's id in the search result it was added from
+  name: string;
+  category: PermitCategory;
+  processingTime?: string;
   status: PermitStatus;
   applicationDate?: Date;
   approvalDate?: Date;
   expirationDate?: Date;
   permitNumber?: string;
   notes?: string;
+  updatedAt?: Date;
+}
+
+export type ProjectPermitField =
+  | 'status'
+  | 'permitNumber'
+  | 'applicationDate'
+  | 'approvalDate'
+  | 'expirationDate'
+  | 'notes';
+
+export interface ProjectPermitEvent {
+  id: string;
+  projectPermitId?: string; // Unset once the permit is removed from the project
+  permitName: string;
+  changedBy: string;
+  action: 'added' | 'updated' | 'removed';
+  changes: Partial<Record<ProjectPermitField, { from: string | null; to: string | null }>>;
+  createdAt: Date;
+}
+
+// A permit that needs attention: still in review past its processing time, or close to or past expiring
+export interface ProjectPermitAlert {
+  permitId: string;
+  kind: 'overdue' | 'expiring' | 'expired';
+  date: Date; // When review was due, or when the permit expires
+}
+
+// An inspection booked against one of a project's permits
+export interface ProjectInspection {
+  id: string;
+  projectId: string;
+  projectPermitId: string;
+  inspectionType: string;
+  scheduledDate: Date;
+  status: 'scheduled' | 'passed' | 'failed' | 'cancelled';
+  notes?: string;
+  createdAt: Date;
+}
+
+// A tokenized iCalendar feed of a user's permit deadlines, for all projects or just one
+export interface CalendarFeed {
+  id: string;
+  projectId?: string;
+  token: string;
+  createdAt: Date;
+  lastAccessedAt?: Date;
 }
 
 export enum PermitStatus {
@@ -139,6 +424,23 @@ export interface ProcessingInfo {
   rushOptions?: string[];
   inspectionSchedule?: string;
   appealProcess?: string;
+  provenance?: FieldProvenance;
+}
+
+// Data provenance: where a value in a SearchResponse came from
+export type ExtractionMethod =
+  | 'static_extractor'       // ContentExtractor / FormDetector rule-based extraction
+  | 'ai_content_parser'      // AIContentParser (per-page OpenAI parsing)
+  | 'permit_data_processor'  // PermitDataProcessor (aggregate AI processing)
+  | 'curated_registry'       // Hand-maintained governmentSites entry
+  | 'scope_rules'            // Permit determination rules for a described scope of work
+  | 'synthetic_fallback';    // Generated placeholder, not sourced from the jurisdiction
+
+export interface FieldProvenance {
+  sourceUrl?: string;
+  method: ExtractionMethod;
+  confidence: number; // 0-1
+  retrievedAt: Date;
 }
 
 // API Response Types
@@ -153,6 +455,7 @@ export interface SearchRequest {
   address: Address;
   permitTypes?: PermitCategory[];
   includeNeighboringJurisdictions?: boolean;
+  scope?: ScopeOfWork;
 }
 
 export interface SearchResponse {
@@ -161,8 +464,104 @@ export interface SearchResponse {
   forms: PermitForm[];
   contact: ContactInfo;
   processingInfo?: ProcessingInfo;
+  determination?: PermitDetermination;
+  warnings?: string[]; // Problems that limited the results, e.g. an unreachable jurisdiction site
+  cached?: CachedSearchInfo;
 }
 
+// Set when a search is answered from an earlier search of the same jurisdiction
+export interface CachedSearchInfo {
+  cachedAt: Date;
+  ageSeconds: number;
+  stale: boolean; // Older than the plan's freshness threshold
+  refreshJobId?: string; // Search job refreshing stale results; its events end with the updated results
+}
+
+// A search a signed-in user ran, kept so it can be reopened or re-run later
+export interface SavedSearchSummary {
+  id: string;
+  name?: string;
+  tags: string[];
+  address: Address;
+  jurisdictionName?: string;
+  createdAt: Date;
+  lastRunAt: Date;
+}
+
+export interface SavedSearch extends SavedSearchSummary {
+  request: SearchRequest;
+  response?: SearchResponse;
+}
+
+// Scope of work: describes the project so only the permits it needs are returned
+export type WorkType =
+  | 'deck'
+  | 'fence'
+  | 'water_heater'
+  | 'reroof'
+  | 'adu'
+  | 'panel_upgrade'
+  | 'hvac_replacement'
+  | 'solar'
+  | 'addition'
+  | 'demolition';
+
+export type OccupancyType = 'single_family' | 'multi_family' | 'commercial';
+
+export interface ScopeOfWork {
+  workType: WorkType;
+  occupancy: OccupancyType;
+  squareFootage?: number;
+  valuation?: number; // USD
+  heightFeet?: number; // Fence height, or deck height above grade
+  description?: string;
+}
+
+export interface RequiredPermit {
+  ruleId: string;
+  category: PermitCategory;
+  name: string;
+  reason: string;
+  requirements: string[];
+}
+
+export interface PermitExemption {
+  ruleId: string;
+  category: PermitCategory;
+  name: string;
+  reason: string;
+}
+
+export interface PermitDetermination {
+  scope: ScopeOfWork;
+  required: RequiredPermit[];
+  exemptions: PermitExemption[];
+  rulesSource: 'jurisdiction' | 'default'; // Whether a curated jurisdiction rule set was applied
+}
+
+// Async search progress events, streamed to the client as they happen
+export type SearchJobEventPayload =
+  | { type: 'discovery_started' }
+  | { type: 'jurisdiction_found'; jurisdiction: Jurisdiction }
+  | { type: 'url_scraped'; url: string; contentLength: number }
+  | { type: 'url_failed'; url: string; error: string }
+  | { type: 'ai_extraction_started'; pageCount: number }
+  | { type: 'ai_extraction_fallback'; reason: string }
+  | { type: 'partial_results'; permits: PermitType[] }
+  | { type: 'job_retrying'; attempt: number; error: string; nextRunAt: number }
+  | { type: 'job_completed'; result?: SearchResponse }
+  | { type: 'job_failed'; error: string }
+  | { type: 'job_cancelled' };
+
+export type SearchJobEventType = SearchJobEventPayload['type'];
+
+export type SearchJobEvent = SearchJobEventPayload & {
+  id: number;
+  jobId: string;
+  progress: number;
+  createdAt: Date;
+};
+
 // UI Component Types
 export interface FormProps {
   onSubmit: (data: unknown) => void;
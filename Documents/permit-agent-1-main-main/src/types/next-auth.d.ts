@@ -1,4 +1,6 @@
 // NextAuth type extensions
+import 'next-auth';
+import 'next-auth/jwt';
 
 declare module 'next-auth' {
   interface User {